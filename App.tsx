@@ -1,24 +1,107 @@
 
 import React, { useState, useEffect } from 'react';
-import { AppStep, BrandInfo, UserResponse, AuditResult, LeadInfo, TrafficSource } from './types';
+import { AppStep, BrandInfo, UserResponse, AuditResult, LeadInfo, TrafficSource, AuditJob } from './types';
 import { LandingStep } from './components/LandingStep';
 import { InputStep } from './components/InputStep';
 import { QuizStep } from './components/QuizStep';
 import { LoadingStep } from './components/LoadingStep';
 import { LeadFormStep } from './components/LeadFormStep';
 import { DashboardStep } from './components/DashboardStep';
-import { performBrandAudit } from './services/geminiService';
-import { saveToSupabase, getAuditById } from './services/supabaseService';
-import { generateMagicLink } from './services/utils';
+import { OwnerAccessStep } from './components/OwnerAccessStep';
+import { ApiError, createAuditJob, fetchAudit, fetchSharedAudit, getAuditJob, migrateLegacyLink, runAuditJob } from './services/apiClient';
+import { clearOwnerToken, loadOwnerToken, saveOwnerToken, shareTokenFromPath } from './services/reportAccess';
+import { disableTracking, enableTracking, setTrafficContext, track } from './services/analytics';
+import { reportCategories, validateAuditOutput } from './services/auditSchema';
+import { getQuestionPack } from './services/questionnaire';
+import { LOCALES, LOCALE_NAMES } from './services/i18n';
+import { useLocale } from './components/LocaleProvider';
+import { useTenant } from './components/TenantProvider';
+import { tenantBasePath } from './services/tenants';
+
+// Remembers the in-flight audit so a returning visitor can resume it
+const JOB_STORAGE_KEY = 'brandscore:activeJob';
+const JOB_POLL_INTERVAL_MS = 2000;
+
+const isJobFinished = (job: AuditJob) => job.status === 'done' || job.status === 'failed';
 
 const App: React.FC = () => {
+  const { locale, setLocale, t } = useLocale();
+  const tenant = useTenant();
   const [step, setStep] = useState<AppStep>(AppStep.LANDING);
   const [brandData, setBrandData] = useState<BrandInfo | null>(null);
   const [quizResponses, setQuizResponses] = useState<UserResponse[]>([]);
   const [leadInfo, setLeadInfo] = useState<LeadInfo | null>(null);
   const [auditResult, setAuditResult] = useState<AuditResult | null>(null);
+  const [auditId, setAuditId] = useState<string | null>(null); // Stored report id, null for shared and legacy views
+  const [ownerToken, setOwnerToken] = useState<string | null>(null); // Owner session for auditId
+  const [shareToken, setShareToken] = useState<string | null>(null); // Set when opened from a share link
+  const [lockedAuditId, setLockedAuditId] = useState<string | null>(null); // ?id= report waiting for the emailed code
   const [loadingMessage, setLoadingMessage] = useState<string | null>(null);
   const [trafficSource, setTrafficSource] = useState<TrafficSource>({});
+  const [job, setJob] = useState<AuditJob | null>(null);
+
+  /**
+   * Follows a job: persists its id (URL + localStorage) and makes sure it runs.
+   * Running is idempotent server-side, so resuming an active job is safe.
+   */
+  const trackJob = (current: AuditJob) => {
+    setJob(current);
+    if (isJobFinished(current)) return;
+
+    localStorage.setItem(JOB_STORAGE_KEY, current.id);
+    window.history.replaceState(null, '', `${window.location.pathname}?job=${current.id}`);
+
+    // Fire and forget: progress comes from polling, and the job survives this request
+    runAuditJob(current.id)
+      .then(setJob)
+      .catch(e => console.warn("Job run request ended early", e));
+  };
+
+  /**
+   * Loads a stored report as its owner. Returns false when the token is no
+   * longer accepted (or the report is gone).
+   */
+  const openOwnedReport = async (id: string, token: string): Promise<boolean> => {
+    setStep(AppStep.ANALYZING);
+    setLoadingMessage(t('loading.retrieving'));
+    const data = await fetchAudit(id, token);
+    if (!data) return false;
+
+    // Show the report in the language it was written in
+    if (data.result.locale) setLocale(data.result.locale);
+    setBrandData(data.brand);
+    setAuditResult(data.result);
+    setAuditId(data.id);
+    setOwnerToken(token);
+    setLeadInfo(data.lead);
+    setStep(AppStep.DASHBOARD);
+    return true;
+  };
+
+  // Public view of a share link: no lead, no owner actions
+  const openSharedReport = async (token: string) => {
+    setStep(AppStep.ANALYZING);
+    setLoadingMessage(t('loading.retrieving'));
+    try {
+      const shared = await fetchSharedAudit(token);
+      if (shared.result.locale) setLocale(shared.result.locale);
+      setBrandData(shared.brand);
+      setAuditResult(shared.result);
+      setShareToken(token);
+      setStep(AppStep.DASHBOARD);
+    } catch (e) {
+      console.warn("Shared report unavailable", e);
+      setStep(AppStep.LANDING);
+    }
+  };
+
+  const handleOwnerVerified = async (token: string) => {
+    const id = lockedAuditId;
+    if (!id) return;
+    saveOwnerToken(id, token);
+    setLockedAuditId(null);
+    if (!await openOwnedReport(id, token)) setStep(AppStep.LANDING);
+  };
 
   // 1. Capture UTMs & Referrer on Mount
   useEffect(() => {
@@ -32,50 +115,76 @@ const App: React.FC = () => {
       referrer: document.referrer || undefined
     };
     setTrafficSource(sourceData);
+    setTrafficContext(sourceData, tenant.id);
+
+    // Reopened and shared reports load through LANDING and ANALYZING to DASHBOARD:
+    // not a funnel session. Runs before the step tracking below sees LANDING.
+    const opensReport = params.get('id') || params.get('share') || params.get('r') || params.get('job')
+      || shareTokenFromPath(window.location.pathname);
+    if (opensReport) disableTracking();
   }, []);
 
-  // 2. Check for ID-based Link (Supabase) OR Legacy Magic Link on Mount
+  // 2. Check for an owner link (?id=), a share link (/s/<token>) OR a Legacy Magic Link on Mount
   useEffect(() => {
     const fetchReport = async () => {
       const params = new URLSearchParams(window.location.search);
-      const reportId = params.get('id'); // New Short URL format
+      const reportId = params.get('id'); // Owner link (report email)
+      const sharedToken = shareTokenFromPath(window.location.pathname) || params.get('share'); // Public share link; ?share= predates /s/
       const legacyData = params.get('r'); // Old Base64 format
+      const jobId = params.get('job') || localStorage.getItem(JOB_STORAGE_KEY); // In-flight audit
 
       if (reportId) {
+        // A session from an earlier visit skips the emailed code
+        const storedToken = loadOwnerToken(reportId);
+        if (storedToken && await openOwnedReport(reportId, storedToken)) return;
+        if (storedToken) clearOwnerToken(reportId);
+        setStep(AppStep.LANDING);
+        setLockedAuditId(reportId);
+      } else if (sharedToken) {
+        await openSharedReport(sharedToken);
+      } else if (legacyData) {
+        // Legacy links carry the whole report: store it and continue as a share link
         setStep(AppStep.ANALYZING);
-        setLoadingMessage("Retrieving Secure Report...");
-        const data = await getAuditById(reportId);
-        if (data) {
-          setBrandData(data.brand);
-          setAuditResult(data.result);
-          setLeadInfo(data.lead);
-          setStep(AppStep.DASHBOARD);
-        } else {
-          // Fallback or error
-          setStep(AppStep.LANDING);
+        setLoadingMessage(t('loading.retrieving'));
+        try {
+          const share = await migrateLegacyLink(legacyData);
+          window.history.replaceState(null, '', `${tenantBasePath(window.location.pathname)}/s/${encodeURIComponent(share.token)}`);
+          await openSharedReport(share.token);
+          return;
+        } catch (e) {
+          // Rejected or revoked links stay closed; only a storage outage falls back to the link itself
+          if (e instanceof ApiError && e.status < 500) {
+            console.warn("Legacy link rejected", e);
+            setStep(AppStep.LANDING);
+            return;
+          }
+          console.warn("Legacy link could not be stored, showing it as is", e);
         }
-      } else if (legacyData) {
-        // ... (Legacy handling code) ...
         try {
           const jsonString = decodeURIComponent(escape(atob(legacyData)));
           const parsed = JSON.parse(jsonString);
           if (parsed.brand && parsed.result) {
+            // Legacy payloads predate the schema; repair them against their own categories
+            const validation = validateAuditOutput(parsed.result, { requireScores: true }, reportCategories(parsed.result));
             setBrandData(parsed.brand);
-            setAuditResult(parsed.result);
-            setLeadInfo({ 
-               firstName: 'Visitor', 
-               lastName: '', 
-               position: 'Guest', 
-               email: '', 
-               phone: '', 
-               revenue: 'N/A', 
-               companySize: 'N/A',
-               fullName: 'Visitor'
-            }); 
+            setAuditResult({ ...parsed.result, ...validation.value });
             setStep(AppStep.DASHBOARD);
+          } else {
+            setStep(AppStep.LANDING);
           }
         } catch (e) {
           console.error("Failed to parse legacy link", e);
+          setStep(AppStep.LANDING);
+        }
+      } else if (jobId) {
+        setStep(AppStep.ANALYZING);
+        try {
+          trackJob(await getAuditJob(jobId));
+        } catch (e) {
+          console.warn("Could not resume audit job", e);
+          localStorage.removeItem(JOB_STORAGE_KEY);
+          window.history.replaceState(null, '', window.location.pathname);
+          setStep(AppStep.LANDING);
         }
       }
     };
@@ -83,50 +192,52 @@ const App: React.FC = () => {
     fetchReport();
   }, []);
 
-  // --- ANALYSIS EFFECT ---
+  // --- FUNNEL TRACKING ---
   useEffect(() => {
-    let isMounted = true;
-
-    const runAudit = async () => {
-      if (!brandData || !leadInfo) {
-        // Prevent running if we just loaded dashboard from ID
-        if (step === AppStep.ANALYZING && !auditResult) {
-            console.error("Missing data for audit");
-            setStep(AppStep.INPUT);
-        }
-        return;
-      }
+    track('step_viewed', { step });
+  }, [step]);
 
-      // If we already have a result (e.g. from ID load), don't re-run
-      if (auditResult) return;
+  // --- AUDIT JOB POLLING ---
+  const jobId = job?.id;
+  const jobStatus = job?.status;
+  useEffect(() => {
+    if (!jobId || jobStatus === 'done' || jobStatus === 'failed') return;
 
+    const interval = setInterval(async () => {
       try {
-        console.log("Starting Audit...");
-        // 1. Run AI Audit
-        const result = await performBrandAudit(brandData, quizResponses);
-        
-        if (isMounted) {
-          setAuditResult(result);
-          
-          // 2. Save to Supabase (Includes CRM Data Generation & Traffic Source)
-          console.log("Saving to DB...");
-          await saveToSupabase(brandData, leadInfo, result, quizResponses, trafficSource);
-          
-          // 4. Show Dashboard
-          setStep(AppStep.DASHBOARD);
-        }
+        setJob(await getAuditJob(jobId));
       } catch (e) {
-        console.error("Audit workflow failed", e);
-        if (isMounted) setStep(AppStep.INPUT);
+        console.warn("Job poll failed", e);
       }
-    };
+    }, JOB_POLL_INTERVAL_MS);
 
-    if (step === AppStep.ANALYZING && !auditResult) { // Only run if no result yet
-      runAudit();
-    }
+    return () => clearInterval(interval);
+  }, [jobId, jobStatus]);
+
+  // --- AUDIT JOB COMPLETION ---
+  useEffect(() => {
+    if (!job || !isJobFinished(job)) return;
+    localStorage.removeItem(JOB_STORAGE_KEY);
 
-    return () => { isMounted = false; };
-  }, [step, brandData, leadInfo, quizResponses, auditResult, trafficSource]);
+    if (job.status === 'done' && job.result) {
+      setBrandData(prev => prev || job.brand);
+      if (job.result.locale) setLocale(job.result.locale);
+      setAuditResult(job.result);
+      setAuditId(job.auditId);
+      // The visitor who ran the audit owns it: no emailed code needed on reload
+      if (job.auditId && job.ownerToken) {
+        saveOwnerToken(job.auditId, job.ownerToken);
+        setOwnerToken(job.ownerToken);
+      }
+      // Make the report reloadable via its short URL
+      window.history.replaceState(null, '', job.auditId ? `${window.location.pathname}?id=${job.auditId}` : window.location.pathname);
+      setStep(AppStep.DASHBOARD);
+    } else {
+      console.error("Audit workflow failed", job.error);
+      window.history.replaceState(null, '', window.location.pathname);
+      setStep(AppStep.INPUT);
+    }
+  }, [job]);
 
   // --- HANDLERS ---
 
@@ -144,45 +255,102 @@ const App: React.FC = () => {
     setStep(AppStep.LEAD_FORM);
   };
 
-  const handleLeadFormComplete = (info: LeadInfo) => {
+  const handleLeadFormComplete = async (info: LeadInfo) => {
     setLeadInfo(info);
+    if (!brandData) {
+      console.error("Missing data for audit");
+      setStep(AppStep.INPUT);
+      return;
+    }
+
     setStep(AppStep.ANALYZING);
+    try {
+      // Queue the audit server-side (Includes CRM Data Generation & Traffic Source)
+      trackJob(await createAuditJob({
+        brand: brandData,
+        lead: info,
+        responses: quizResponses,
+        trafficSource,
+        locale,
+        tenantId: tenant.id
+      }));
+    } catch (e) {
+      console.error("Audit workflow failed", e);
+      setStep(AppStep.INPUT);
+    }
   };
 
   const handleRestart = () => {
+    enableTracking(); // A report viewer starting their own audit is a funnel session
     setBrandData(null);
     setQuizResponses([]);
     setLeadInfo(null);
     setAuditResult(null);
+    setAuditId(null);
+    setOwnerToken(null);
+    setShareToken(null);
+    setLockedAuditId(null);
+    setJob(null);
+    localStorage.removeItem(JOB_STORAGE_KEY);
     setStep(AppStep.LANDING);
-    window.history.pushState(null, '', window.location.pathname);
+    // A share link's path would reopen the shared report on reload
+    const { pathname } = window.location;
+    window.history.pushState(null, '', shareTokenFromPath(pathname) ? tenantBasePath(pathname) || '/' : pathname);
   };
 
   return (
     <div className="min-h-screen bg-black text-white p-6 md:p-12 font-sans selection:bg-white selection:text-black">
-      <nav className="fixed top-6 left-6 md:left-12 z-50 mix-blend-difference no-print">
+      <nav className="fixed top-6 start-6 md:start-12 z-50 mix-blend-difference no-print">
         <a href="#" onClick={(e) => {e.preventDefault(); handleRestart();}} className="block">
           <div className="flex items-center">
             <img 
-              src="https://i.imgur.com/B4r2q3r.png" 
-              alt="Zouhall" 
+              src={tenant.logoUrl} 
+              alt={tenant.name} 
               className="h-8 w-auto object-contain"
             />
           </div>
         </a>
       </nav>
 
+      {/* Language switcher (the report keeps the language it was written in) */}
+      {step !== AppStep.DASHBOARD && step !== AppStep.ANALYZING && (
+        <div className="fixed top-6 end-6 md:end-12 z-50 flex gap-3 no-print">
+          {LOCALES.map(code => (
+            <button
+              key={code}
+              type="button"
+              lang={code}
+              onClick={() => setLocale(code)}
+              aria-pressed={locale === code}
+              title={LOCALE_NAMES[code].native}
+              className={`text-[10px] font-bold uppercase tracking-widest transition-colors ${locale === code ? 'text-white' : 'text-zinc-600 hover:text-white'}`}
+            >
+              {code}
+            </button>
+          ))}
+        </div>
+      )}
+
       <main className="pt-16 md:pt-12 mx-auto max-w-7xl">
-        {step === AppStep.LANDING && <LandingStep onStart={handleLandingStart} />}
+        {lockedAuditId && <OwnerAccessStep auditId={lockedAuditId} onVerified={handleOwnerVerified} />}
+        {!lockedAuditId && step === AppStep.LANDING && <LandingStep onStart={handleLandingStart} />}
         {step === AppStep.INPUT && <InputStep onNext={handleInputComplete} />}
-        {step === AppStep.QUIZ && <QuizStep onComplete={handleQuizComplete} />}
+        {step === AppStep.QUIZ && (
+          <QuizStep
+            questionnaire={getQuestionPack(brandData?.businessModel, tenant).questionnaire}
+            onComplete={handleQuizComplete}
+          />
+        )}
         {step === AppStep.LEAD_FORM && <LeadFormStep onComplete={handleLeadFormComplete} />}
-        {step === AppStep.ANALYZING && <LoadingStep customMessage={loadingMessage} />}
+        {step === AppStep.ANALYZING && <LoadingStep customMessage={loadingMessage} job={job} />}
         {step === AppStep.DASHBOARD && auditResult && brandData && (
           <DashboardStep 
             result={auditResult} 
             brand={brandData}
             lead={leadInfo}
+            auditId={auditId}
+            ownerToken={ownerToken}
+            shareToken={shareToken}
             onRestart={handleRestart}
           />
         )}
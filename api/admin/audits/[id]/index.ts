@@ -0,0 +1,27 @@
+import { AdminAuditRecord } from '../../../../types';
+import { getAuditById } from '../../../../server/supabaseService';
+import { getAuditBooking } from '../../../../server/bookingStore';
+import { requireAdmin } from '../../../../server/adminAuth';
+import { createOwnerSession } from '../../../../server/ownerAuth';
+import { HttpError, json, routeSegments, withErrorHandling } from '../../../../server/http';
+
+/**
+ * GET /api/admin/audits/:id
+ * A stored audit with its lead and booked call, for the admin dashboard view,
+ * plus an owner token so the view can open the PDF and manage share links.
+ */
+export const GET = withErrorHandling(async (request) => {
+  requireAdmin(request);
+  const [, , id] = routeSegments(request);
+  if (!/^[0-9a-f-]{36}$/i.test(id || '')) throw new HttpError(400, "Invalid audit id");
+
+  const audit = await getAuditById(id);
+  if (!audit) throw new HttpError(404, "Audit not found");
+
+  const body: AdminAuditRecord = {
+    ...audit,
+    ownerToken: (await createOwnerSession(id)).token,
+    booking: await getAuditBooking(id)
+  };
+  return json(body);
+});
@@ -0,0 +1,61 @@
+import { AuditListItem } from '../../../types';
+import { listAudits } from '../../../server/supabaseService';
+import { requireAdmin } from '../../../server/adminAuth';
+import { CsvColumn, toCsv } from '../../../server/csv';
+import { HttpError, json, withErrorHandling } from '../../../server/http';
+import { parseAuditListFilters } from '../../../server/validation';
+
+const PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const CSV_MAX_ROWS = 5000;
+
+const CSV_COLUMNS: CsvColumn<AuditListItem>[] = [
+  { header: 'id', value: r => r.id },
+  { header: 'created_at', value: r => r.createdAt },
+  { header: 'brand_name', value: r => r.brandName },
+  { header: 'brand_url', value: r => r.brandUrl },
+  { header: 'score', value: r => r.score },
+  { header: 'lead_tier', value: r => r.leadTier },
+  { header: 'lead_name', value: r => r.leadName },
+  { header: 'lead_email', value: r => r.leadEmail },
+  { header: 'lead_position', value: r => r.leadPosition },
+  { header: 'revenue', value: r => r.revenue },
+  { header: 'company_size', value: r => r.companySize },
+  { header: 'utm_source', value: r => r.utmSource },
+  { header: 'utm_campaign', value: r => r.utmCampaign },
+  { header: 'tenant_id', value: r => r.tenantId },
+  { header: 'booked_at', value: r => r.bookedAt },
+  { header: 'booking_expert', value: r => r.bookingExpert },
+];
+
+/**
+ * GET /api/admin/audits?from&to&minScore&maxScore&utmSource&utmCampaign&revenue&tier&search&tenant&booked
+ * Saved audits, newest first. JSON pages (limit, offset), or every match
+ * as a CSV file with format=csv. Requires the admin token.
+ */
+export const GET = withErrorHandling(async (request) => {
+  requireAdmin(request);
+  const params = new URL(request.url).searchParams;
+  const filters = parseAuditListFilters(params);
+
+  if (params.get('format') === 'csv') {
+    const page = await listAudits(filters, { limit: CSV_MAX_ROWS, offset: 0 });
+    if (!page) throw new HttpError(503, "Audit storage is not available");
+
+    return new Response(toCsv(page.items, CSV_COLUMNS), {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="brand-audits-${new Date().toISOString().slice(0, 10)}.csv"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  }
+
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(params.get('limit')) || PAGE_SIZE));
+  const offset = Math.max(0, Number(params.get('offset')) || 0);
+  const page = await listAudits(filters, { limit, offset });
+  if (!page) throw new HttpError(503, "Audit storage is not available");
+
+  return json(page);
+});
@@ -0,0 +1,30 @@
+import { listBookedCampaigns } from '../../../server/bookingStore';
+import { buildFunnelReport } from '../../../server/funnelReport';
+import { listFunnelEvents } from '../../../server/funnelStore';
+import { requireAdmin } from '../../../server/adminAuth';
+import { HttpError, json, withErrorHandling } from '../../../server/http';
+import { parseDateRange } from '../../../server/validation';
+
+// Upper bound on events aggregated per request; narrow the dates beyond that
+const MAX_EVENTS = 50000;
+
+/**
+ * GET /api/admin/funnel?from&to&tenant
+ * Step reach, lead form completion, CTA clicks, question drop-off and booked
+ * calls, overall and per utm_campaign. Requires the admin token.
+ */
+export const GET = withErrorHandling(async (request) => {
+  requireAdmin(request);
+  const params = new URL(request.url).searchParams;
+  const range = parseDateRange(params);
+  const tenant = params.get('tenant')?.trim() || undefined;
+
+  const events = await listFunnelEvents({ ...range, tenant }, MAX_EVENTS + 1);
+  if (!events) throw new HttpError(503, "Event storage is not available");
+
+  // The report still stands without the booked count
+  const booked = await listBookedCampaigns({ ...range, tenant });
+
+  const truncated = events.length > MAX_EVENTS;
+  return json(buildFunnelReport(truncated ? events.slice(0, MAX_EVENTS) : events, truncated, booked ?? []));
+});
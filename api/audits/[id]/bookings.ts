@@ -0,0 +1,21 @@
+import { recordBookingEvent } from '../../../server/bookingStore';
+import { HttpError, readJson, routeSegments, withErrorHandling } from '../../../server/http';
+import { requireOwner } from '../../../server/ownerAuth';
+import { parseBookingEvent } from '../../../server/validation';
+
+/**
+ * POST /api/audits/:id/bookings
+ * Records what the embedded scheduler reported for this audit's lead
+ * (calendar shown, slot picked, call booked). See services/booking.ts.
+ * Owner only: a booked call stamps booked_at, shown in the admin list and
+ * report view and counted in the funnel report.
+ */
+export const POST = withErrorHandling(async (request) => {
+  const [, id] = routeSegments(request);
+  if (!/^[0-9a-f-]{36}$/i.test(id || '')) throw new HttpError(400, "Invalid audit id");
+  await requireOwner(request, id);
+
+  const event = parseBookingEvent(await readJson(request));
+  if (!await recordBookingEvent(id, event)) throw new HttpError(404, "Audit not found");
+  return new Response(null, { status: 204 });
+});
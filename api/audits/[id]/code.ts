@@ -0,0 +1,37 @@
+import { OwnerCodeResponse } from '../../../types';
+import { getAuditById } from '../../../server/supabaseService';
+import { issueOwnerCode, OWNER_CODE_TTL_MINUTES } from '../../../server/ownerCodes';
+import { sendEmail } from '../../../server/mailer';
+import { generateOwnerCodeEmail } from '../../../services/emailTemplates';
+import { HttpError, json, routeSegments, withErrorHandling } from '../../../server/http';
+
+// "jane@acme.com" -> "j•••@acme.com": enough to recognise the inbox, not to learn the address
+const maskEmail = (email: string) => {
+  const [name, domain] = email.split('@');
+  return `${name.slice(0, 1)}•••@${domain || ''}`;
+};
+
+/**
+ * POST /api/audits/:id/code
+ * Emails a one-time code to the lead the report belongs to. The code is
+ * exchanged for an owner session at POST /api/audits/:id/session.
+ */
+export const POST = withErrorHandling(async (request) => {
+  const [, id] = routeSegments(request);
+  if (!/^[0-9a-f-]{36}$/i.test(id || '')) throw new HttpError(400, "Invalid audit id");
+
+  const audit = await getAuditById(id);
+  if (!audit) throw new HttpError(404, "Audit not found");
+  // Reports migrated from legacy links have nobody to send the code to
+  if (!audit.lead?.email) throw new HttpError(404, "This report has no owner");
+
+  const issued = await issueOwnerCode(id);
+  if (issued === 'too_soon') throw new HttpError(429, "A code was sent less than a minute ago");
+  if (issued === 'limit') throw new HttpError(429, "Too many codes or attempts for this report, try again in an hour");
+
+  const email = generateOwnerCodeEmail(audit.brand, audit.result, issued.code, OWNER_CODE_TTL_MINUTES);
+  await sendEmail({ to: audit.lead.email, ...email });
+
+  const body: OwnerCodeResponse = { sentTo: maskEmail(audit.lead.email), expiresAt: issued.expiresAt };
+  return json(body);
+});
@@ -0,0 +1,19 @@
+import { getAuditById } from '../../../server/supabaseService';
+import { requireOwner } from '../../../server/ownerAuth';
+import { HttpError, json, routeSegments, withErrorHandling } from '../../../server/http';
+
+/**
+ * GET /api/audits/:id
+ * Returns a stored audit in the shape the dashboard renders, lead included.
+ * Owner only (see ownerAuth.ts); share links go through /api/shares/:token.
+ */
+export const GET = withErrorHandling(async (request) => {
+  const [, id] = routeSegments(request);
+  if (!/^[0-9a-f-]{36}$/i.test(id || '')) throw new HttpError(400, "Invalid audit id");
+  await requireOwner(request, id);
+
+  const audit = await getAuditById(id);
+  if (!audit) throw new HttpError(404, "Audit not found");
+
+  return json(audit);
+});
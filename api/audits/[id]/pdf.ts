@@ -0,0 +1,21 @@
+import { getAuditById } from '../../../server/supabaseService';
+import { requireOwner } from '../../../server/ownerAuth';
+import { HttpError, routeSegments, withErrorHandling } from '../../../server/http';
+import { canRenderPdf, reportPdfResponse } from '../../../server/reportPdf';
+
+/**
+ * GET /api/audits/:id/pdf
+ * The stored report as a branded PDF. Shown inline unless ?download=1.
+ * Owner only: the session token goes in `?token=` since links can't send headers.
+ */
+export const GET = withErrorHandling(async (request) => {
+  const [, id] = routeSegments(request);
+  if (!/^[0-9a-f-]{36}$/i.test(id || '')) throw new HttpError(400, "Invalid audit id");
+  await requireOwner(request, id);
+
+  const audit = await getAuditById(id);
+  if (!audit) throw new HttpError(404, "Audit not found");
+  if (!canRenderPdf(audit.result)) throw new HttpError(501, "PDF export is not available in this report's language");
+
+  return reportPdfResponse(request, audit);
+});
@@ -0,0 +1,26 @@
+import { checkOwnerCode } from '../../../server/ownerCodes';
+import { createOwnerSession } from '../../../server/ownerAuth';
+import { HttpError, json, readJson, routeSegments, withErrorHandling } from '../../../server/http';
+import { parseOwnerCode } from '../../../server/validation';
+
+/**
+ * POST /api/audits/:id/session
+ * Exchanges the emailed code for an owner session token (see ownerAuth.ts).
+ * 401 for a wrong code, 410 once it expired, 429 after 5 wrong guesses in an hour.
+ */
+export const POST = withErrorHandling(async (request) => {
+  const [, id] = routeSegments(request);
+  if (!/^[0-9a-f-]{36}$/i.test(id || '')) throw new HttpError(400, "Invalid audit id");
+
+  const code = parseOwnerCode(await readJson(request));
+  switch (await checkOwnerCode(id, code)) {
+    case 'invalid':
+      throw new HttpError(401, "Invalid code");
+    case 'expired':
+      throw new HttpError(410, "This code has expired");
+    case 'locked':
+      throw new HttpError(429, "Too many attempts, try again in an hour");
+  }
+
+  return json(await createOwnerSession(id));
+});
@@ -0,0 +1,18 @@
+import { revokeShare } from '../../../../server/shareStore';
+import { requireOwner } from '../../../../server/ownerAuth';
+import { HttpError, json, routeSegments, withErrorHandling } from '../../../../server/http';
+
+/**
+ * DELETE /api/audits/:id/shares/:shareId
+ * Revokes a share link; it then stops working for good. Owner only.
+ */
+export const DELETE = withErrorHandling(async (request) => {
+  const [, id, , shareId] = routeSegments(request);
+  if (!/^[0-9a-f-]{36}$/i.test(id || '')) throw new HttpError(400, "Invalid audit id");
+  if (!/^[0-9a-f-]{36}$/i.test(shareId || '')) throw new HttpError(400, "Invalid share id");
+  await requireOwner(request, id);
+
+  const share = await revokeShare(id, shareId);
+  if (!share) throw new HttpError(404, "Share link not found");
+  return json(share);
+});
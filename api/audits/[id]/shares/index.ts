@@ -0,0 +1,33 @@
+import { createShare, listShares } from '../../../../server/shareStore';
+import { requireOwner } from '../../../../server/ownerAuth';
+import { HttpError, json, readJson, routeSegments, withErrorHandling } from '../../../../server/http';
+import { parseShareRequest } from '../../../../server/validation';
+
+const auditIdOf = (request: Request): string => {
+  const [, id] = routeSegments(request);
+  if (!/^[0-9a-f-]{36}$/i.test(id || '')) throw new HttpError(400, "Invalid audit id");
+  return id;
+};
+
+/**
+ * GET /api/audits/:id/shares
+ * The report's share links, newest first, revoked and expired ones included. Owner only.
+ */
+export const GET = withErrorHandling(async (request) => {
+  const id = auditIdOf(request);
+  await requireOwner(request, id);
+
+  return json(await listShares(id));
+});
+
+/**
+ * POST /api/audits/:id/shares
+ * New share link, `{ expiresInDays }` optional (no expiry by default). Owner only.
+ */
+export const POST = withErrorHandling(async (request) => {
+  const id = auditIdOf(request);
+  await requireOwner(request, id);
+
+  const { expiresAt } = parseShareRequest(await readJson(request));
+  return json(await createShare(id, expiresAt), 201);
+});
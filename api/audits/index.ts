@@ -0,0 +1,27 @@
+import { CreateAuditResponse } from '../../types';
+import { createJob } from '../../server/jobStore';
+import { runAuditJob } from '../../server/auditJobRunner';
+import { createOwnerSession } from '../../server/ownerAuth';
+import { getAppOrigin, HttpError, json, readJson, withErrorHandling } from '../../server/http';
+import { parseCreateAuditRequest } from '../../server/validation';
+
+/**
+ * POST /api/audits
+ * Synchronous variant of /api/jobs: runs the full audit in this request and
+ * returns the saved result. Useful for scripts and integrations.
+ */
+export const POST = withErrorHandling(async (request) => {
+  const auditRequest = parseCreateAuditRequest(await readJson(request));
+
+  const queued = await createJob(auditRequest);
+  const job = await runAuditJob(queued.id, getAppOrigin(request));
+  if (!job?.result) throw new HttpError(502, job?.error || "Audit failed");
+
+  const body: CreateAuditResponse = {
+    id: job.auditId,
+    reportUrl: job.reportUrl,
+    result: job.result,
+    ownerToken: job.auditId ? (await createOwnerSession(job.auditId)).token : null
+  };
+  return json(body, 201);
+});
@@ -0,0 +1,25 @@
+import { detectBusinessModel } from '../services/businessClassifier';
+import { HttpError, json, readJson, withErrorHandling } from '../server/http';
+import { enforceRateLimit } from '../server/rateLimit';
+import { isPublicSiteUrl } from '../server/validation';
+
+// InputStep calls this once per URL the visitor types
+const CLASSIFY_LIMIT = 20;
+const CLASSIFY_WINDOW_MS = 60 * 1000;
+
+/**
+ * POST /api/classify
+ * Body: { url }. Guesses the business model from the homepage so InputStep
+ * can pre-select the matching question pack. Public sites only, 20 calls a
+ * minute per IP.
+ */
+export const POST = withErrorHandling(async (request) => {
+  enforceRateLimit(request, 'classify', CLASSIFY_LIMIT, CLASSIFY_WINDOW_MS);
+
+  const body = await readJson(request);
+  const url = typeof body?.url === 'string' ? body.url.trim() : '';
+  if (!url || url.length > 2000) throw new HttpError(400, '"url" is required');
+  if (!isPublicSiteUrl(url)) throw new HttpError(400, '"url" is not a valid URL');
+
+  return json(await detectBusinessModel(url));
+});
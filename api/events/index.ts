@@ -0,0 +1,26 @@
+import { recordFunnelEvent } from '../../server/funnelStore';
+import { readJson, withErrorHandling } from '../../server/http';
+import { enforceRateLimit, isWithinLimit } from '../../server/rateLimit';
+import { parseFunnelEvent } from '../../server/validation';
+
+// A full run (steps, quiz questions, lead form, CTAs) sends about 50 events
+const EVENTS_PER_IP_LIMIT = 300; // Offices and schools share an IP
+const EVENTS_PER_IP_WINDOW_MS = 60 * 60 * 1000;
+const EVENTS_PER_SESSION_LIMIT = 150;
+const EVENTS_PER_SESSION_WINDOW_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * POST /api/events
+ * Records one funnel event from the browser (see services/analytics.ts).
+ * Sent as a beacon, so nothing is returned. 300 events an hour per IP; past
+ * 150 events a session's further events are dropped.
+ */
+export const POST = withErrorHandling(async (request) => {
+  enforceRateLimit(request, 'events', EVENTS_PER_IP_LIMIT, EVENTS_PER_IP_WINDOW_MS);
+
+  const event = parseFunnelEvent(await readJson(request));
+  if (isWithinLimit(`events-session:${event.sessionId}`, EVENTS_PER_SESSION_LIMIT, EVENTS_PER_SESSION_WINDOW_MS)) {
+    await recordFunnelEvent(event);
+  }
+  return new Response(null, { status: 204 });
+});
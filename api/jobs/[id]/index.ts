@@ -0,0 +1,17 @@
+import { getJob } from '../../../server/jobStore';
+import { withOwnerToken } from '../../../server/ownerAuth';
+import { HttpError, json, routeSegments, withErrorHandling } from '../../../server/http';
+
+/**
+ * GET /api/jobs/:id
+ * Current status, stage history and (once done) the result and owner token. Polled by LoadingStep.
+ */
+export const GET = withErrorHandling(async (request) => {
+  const [, id] = routeSegments(request);
+  if (!/^[0-9a-f-]{36}$/i.test(id || '')) throw new HttpError(400, "Invalid job id");
+
+  const job = await getJob(id);
+  if (!job) throw new HttpError(404, "Job not found");
+
+  return json(await withOwnerToken(job));
+});
@@ -0,0 +1,19 @@
+import { runAuditJob } from '../../../server/auditJobRunner';
+import { withOwnerToken } from '../../../server/ownerAuth';
+import { getAppOrigin, HttpError, json, routeSegments, withErrorHandling } from '../../../server/http';
+
+/**
+ * POST /api/jobs/:id/run
+ * Executes a queued job and responds when it finishes. Progress is persisted
+ * as it goes, so the caller does not need to wait on this request: closing
+ * the tab does not lose the audit, and a second call is a no-op.
+ */
+export const POST = withErrorHandling(async (request) => {
+  const [, id] = routeSegments(request);
+  if (!/^[0-9a-f-]{36}$/i.test(id || '')) throw new HttpError(400, "Invalid job id");
+
+  const job = await runAuditJob(id, getAppOrigin(request));
+  if (!job) throw new HttpError(404, "Job not found");
+
+  return json(await withOwnerToken(job));
+});
@@ -0,0 +1,14 @@
+import { createJob } from '../../server/jobStore';
+import { json, readJson, withErrorHandling } from '../../server/http';
+import { parseCreateAuditRequest } from '../../server/validation';
+
+/**
+ * POST /api/jobs
+ * Queues an audit and returns immediately with the job (202).
+ * The client then starts it with POST /api/jobs/:id/run and polls GET /api/jobs/:id.
+ */
+export const POST = withErrorHandling(async (request) => {
+  const auditRequest = parseCreateAuditRequest(await readJson(request));
+  const job = await createJob(auditRequest);
+  return json(job, 202);
+});
@@ -0,0 +1,17 @@
+import { getSharedAudit } from '../../../server/shareStore';
+import { HttpError, json, routeSegments, withErrorHandling } from '../../../server/http';
+
+/**
+ * GET /api/shares/:token
+ * The report behind a share link, without the lead. Public; 410 once the link expired.
+ */
+export const GET = withErrorHandling(async (request) => {
+  const [, token] = routeSegments(request);
+  if (!/^[\w-]{20,100}$/.test(token || '')) throw new HttpError(400, "Invalid share token");
+
+  const shared = await getSharedAudit(token);
+  if (shared === 'expired') throw new HttpError(410, "This share link has expired");
+  if (!shared) throw new HttpError(404, "Share link not found");
+
+  return json(shared);
+});
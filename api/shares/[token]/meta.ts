@@ -0,0 +1,27 @@
+import { getSharedAudit } from '../../../server/shareStore';
+import { getAppOrigin, routeSegments, withErrorHandling } from '../../../server/http';
+import { renderShareMeta, renderUnavailableShareMeta } from '../../../server/shareCard';
+
+const html = (body: string, status = 200): Response =>
+  new Response(body, {
+    status,
+    // Short cache: a revoked link should stop previewing soon after
+    headers: { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'public, max-age=300' }
+  });
+
+/**
+ * GET /api/shares/:token/meta
+ * Link preview page of a share link. vercel.json sends social crawlers
+ * opening /s/:token here; people get the app.
+ */
+export const GET = withErrorHandling(async (request) => {
+  const [, token] = routeSegments(request);
+  const appOrigin = getAppOrigin(request);
+  if (!/^[\w-]{20,100}$/.test(token || '')) return html(renderUnavailableShareMeta(appOrigin), 400);
+
+  const shared = await getSharedAudit(token);
+  if (shared === 'expired') return html(renderUnavailableShareMeta(appOrigin), 410);
+  if (!shared) return html(renderUnavailableShareMeta(appOrigin), 404);
+
+  return html(renderShareMeta(shared, token, appOrigin));
+});
@@ -0,0 +1,20 @@
+import { getSharedAudit } from '../../../server/shareStore';
+import { HttpError, routeSegments, withErrorHandling } from '../../../server/http';
+import { renderShareCard } from '../../../server/shareCard';
+
+/**
+ * GET /api/shares/:token/og
+ * 1200x630 PNG score card used as the link preview image of a share link.
+ * Reports migrated from legacy links have none: their scores are unverified.
+ */
+export const GET = withErrorHandling(async (request) => {
+  const [, token] = routeSegments(request);
+  if (!/^[\w-]{20,100}$/.test(token || '')) throw new HttpError(400, "Invalid share token");
+
+  const shared = await getSharedAudit(token);
+  if (shared === 'expired') throw new HttpError(410, "This share link has expired");
+  if (!shared) throw new HttpError(404, "Share link not found");
+  if (shared.unverified) throw new HttpError(404, "This report has no score card");
+
+  return renderShareCard(shared);
+});
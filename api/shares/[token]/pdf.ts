@@ -0,0 +1,19 @@
+import { getSharedAudit } from '../../../server/shareStore';
+import { HttpError, routeSegments, withErrorHandling } from '../../../server/http';
+import { canRenderPdf, reportPdfResponse } from '../../../server/reportPdf';
+
+/**
+ * GET /api/shares/:token/pdf
+ * PDF of a shared report, without the lead. Shown inline unless ?download=1.
+ */
+export const GET = withErrorHandling(async (request) => {
+  const [, token] = routeSegments(request);
+  if (!/^[\w-]{20,100}$/.test(token || '')) throw new HttpError(400, "Invalid share token");
+
+  const shared = await getSharedAudit(token);
+  if (shared === 'expired') throw new HttpError(410, "This share link has expired");
+  if (!shared) throw new HttpError(404, "Share link not found");
+  if (!canRenderPdf(shared.result)) throw new HttpError(501, "PDF export is not available in this report's language");
+
+  return reportPdfResponse(request, { brand: shared.brand, result: shared.result, lead: null });
+});
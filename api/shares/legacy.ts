@@ -0,0 +1,34 @@
+import { saveLegacyAudit } from '../../server/supabaseService';
+import { createShare, isShareActive, listShares } from '../../server/shareStore';
+import { HttpError, json, readJson, withErrorHandling } from '../../server/http';
+import { enforceRateLimit } from '../../server/rateLimit';
+import { parseLegacyReport } from '../../server/validation';
+
+// A visitor opens a handful of old links, not a stream of them
+const LEGACY_LIMIT = 10;
+const LEGACY_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * POST /api/shares/legacy
+ * Moves a report from a legacy `?r=` link (the whole report in the URL) into
+ * storage and returns a share link for it, `{ data }` being the `r` value.
+ * The same link always maps to the same stored report and share; once that
+ * share is revoked (from the admin console) the legacy link stops working too.
+ * The scores came from the browser, so the share gets no score card. 10 calls
+ * an hour per IP.
+ */
+export const POST = withErrorHandling(async (request) => {
+  enforceRateLimit(request, 'legacy-share', LEGACY_LIMIT, LEGACY_WINDOW_MS);
+
+  const { brand, result, data } = parseLegacyReport(await readJson(request));
+
+  const auditId = await saveLegacyAudit(brand, result, data);
+  if (!auditId) throw new HttpError(503, "Report storage is not available");
+
+  const shares = await listShares(auditId);
+  if (!shares.length) return json(await createShare(auditId, null), 201);
+
+  const active = shares.find(share => !share.expiresAt && isShareActive(share));
+  if (!active) throw new HttpError(410, "This report is no longer shared");
+  return json(active);
+});
@@ -0,0 +1,341 @@
+import React, { useEffect, useState } from 'react';
+import { AdminAuditRecord, AuditListFilters, AuditListPage, LeadTier } from '../types';
+import { LEAD_REVENUE_RANGES, TENANTS } from '../constants';
+import { downloadAdminAuditsCsv, fetchAdminAudit, listAdminAudits } from '../services/apiClient';
+import { disableTracking } from '../services/analytics';
+import { Button } from './Button';
+import { DashboardStep } from './DashboardStep';
+import { FunnelReportView } from './FunnelReportView';
+import { useLocale } from './LocaleProvider';
+
+/**
+ * Internal console at /admin: browse, filter and export saved audits, and
+ * open any of them in the regular dashboard, or read the visitor funnel.
+ * Staff-facing, so English only.
+ * The token is kept for the browser session and sent as a bearer header.
+ */
+
+const TOKEN_STORAGE_KEY = 'brandscore:adminToken';
+const PAGE_SIZE = 50;
+const TIERS: LeadTier[] = ['hot', 'warm', 'nurture'];
+
+// Form fields are strings; empty means "no filter"
+type FilterForm = Record<keyof AuditListFilters, string>;
+
+const EMPTY_FORM: FilterForm = {
+  from: '', to: '', minScore: '', maxScore: '', utmSource: '', utmCampaign: '', revenue: '', tier: '', search: '', tenant: '', booked: ''
+};
+
+const toFilters = (form: FilterForm): AuditListFilters => ({
+  from: form.from || undefined,
+  to: form.to || undefined,
+  minScore: form.minScore === '' ? undefined : Number(form.minScore),
+  maxScore: form.maxScore === '' ? undefined : Number(form.maxScore),
+  utmSource: form.utmSource.trim() || undefined,
+  utmCampaign: form.utmCampaign.trim() || undefined,
+  revenue: form.revenue || undefined,
+  tier: (form.tier || undefined) as LeadTier | undefined,
+  search: form.search.trim() || undefined,
+  tenant: form.tenant || undefined,
+  booked: form.booked === '' ? undefined : form.booked === 'true',
+});
+
+const isUnauthorized = (err: unknown) => err instanceof Error && /^API 401/.test(err.message);
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 px-3 py-2 text-sm text-white focus:outline-none focus:border-white";
+const labelClass = "block text-[10px] uppercase tracking-widest text-zinc-500 mb-1";
+
+export const AdminConsole: React.FC = () => {
+  const { setLocale } = useLocale();
+  const [token, setToken] = useState(() => sessionStorage.getItem(TOKEN_STORAGE_KEY) || '');
+  const [tokenInput, setTokenInput] = useState('');
+  const [form, setForm] = useState<FilterForm>(EMPTY_FORM);
+  const [filters, setFilters] = useState<AuditListFilters>({});
+  const [offset, setOffset] = useState(0);
+  const [page, setPage] = useState<AuditListPage | null>(null);
+  const [selected, setSelected] = useState<AdminAuditRecord | null>(null);
+  const [view, setView] = useState<'audits' | 'funnel'>('audits');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const signOut = () => {
+    sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+    setToken('');
+    setPage(null);
+    setSelected(null);
+  };
+
+  const handleError = (err: unknown) => {
+    if (isUnauthorized(err)) {
+      signOut();
+      setError("Invalid admin token.");
+      return;
+    }
+    setError(err instanceof Error ? err.message : "Request failed");
+  };
+
+  // Staff browsing reports must not show up in the visitor funnel
+  useEffect(() => {
+    disableTracking();
+  }, []);
+
+  // --- LIST ---
+  useEffect(() => {
+    if (!token || view !== 'audits') return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    listAdminAudits(token, filters, PAGE_SIZE, offset)
+      .then(result => { if (!cancelled) setPage(result); })
+      .catch(err => { if (!cancelled) handleError(err); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [token, filters, offset, view]);
+
+  // --- HANDLERS ---
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = tokenInput.trim();
+    if (!value) return;
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, value);
+    setToken(value);
+    setTokenInput('');
+    setError(null);
+  };
+
+  const handleFilter = (e: React.FormEvent) => {
+    e.preventDefault();
+    setOffset(0);
+    setFilters(toFilters(form));
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_FORM);
+    setOffset(0);
+    setFilters({});
+  };
+
+  const handleExport = async () => {
+    try {
+      const blob = await downloadAdminAuditsCsv(token, filters);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `brand-audits-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const openAudit = async (id: string) => {
+    try {
+      const audit = await fetchAdminAudit(token, id);
+      // The dashboard chrome follows the report's language, as for visitors
+      if (audit.result.locale) setLocale(audit.result.locale);
+      setSelected(audit);
+      window.scrollTo(0, 0);
+    } catch (err) {
+      handleError(err);
+    }
+  };
+
+  const update = (field: keyof FilterForm) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => setForm(prev => ({ ...prev, [field]: e.target.value }));
+
+  // --- VIEWS ---
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-black text-white flex items-center justify-center p-6 font-sans">
+        <form onSubmit={handleSignIn} className="w-full max-w-sm space-y-6">
+          <h1 className="text-2xl font-bold tracking-tighter uppercase">Zouhall Admin</h1>
+          <div>
+            <label className={labelClass} htmlFor="admin-token">Admin Token</label>
+            <input id="admin-token" type="password" autoComplete="off" value={tokenInput} onChange={e => setTokenInput(e.target.value)} className={inputClass} />
+          </div>
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          <Button type="submit" fullWidth>Sign In</Button>
+        </form>
+      </div>
+    );
+  }
+
+  if (selected) {
+    return (
+      <div className="min-h-screen bg-black text-white p-6 md:p-12 font-sans">
+        <div className="max-w-6xl mx-auto mb-8 flex items-center justify-between no-print">
+          <button onClick={() => setSelected(null)} className="text-xs uppercase tracking-widest text-zinc-400 hover:text-white">← All audits</button>
+          <span className="text-xs text-zinc-500">
+            {selected.lead ? `${selected.lead.fullName} · ${selected.lead.email}` : 'No lead (legacy link)'}
+            {selected.booking && ` · Call booked ${new Date(selected.booking.bookedAt).toLocaleDateString()}${selected.booking.expert ? ` with ${selected.booking.expert}` : ''}`}
+          </span>
+        </div>
+        <DashboardStep
+          result={selected.result}
+          brand={selected.brand}
+          lead={selected.lead}
+          auditId={selected.id}
+          ownerToken={selected.ownerToken}
+          onRestart={() => setSelected(null)}
+        />
+      </div>
+    );
+  }
+
+  const total = page?.total ?? 0;
+
+  return (
+    <div className="min-h-screen bg-black text-white p-6 md:p-12 font-sans">
+      <div className="max-w-7xl mx-auto space-y-8">
+        <div className="flex items-center justify-between">
+          <div className="flex items-baseline gap-6">
+            {(['audits', 'funnel'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => { setView(tab); setError(null); }}
+                className={`text-2xl font-bold tracking-tighter uppercase transition-colors ${view === tab ? 'text-white' : 'text-zinc-600 hover:text-white'}`}
+              >
+                {tab}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-3">
+            {view === 'audits' && (
+              <Button variant="outline" className="text-xs py-2 px-4" onClick={handleExport} disabled={total === 0}>Export CSV</Button>
+            )}
+            <Button variant="secondary" className="text-xs py-2 px-4" onClick={signOut}>Sign Out</Button>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+
+        {view === 'funnel' && <FunnelReportView token={token} onError={handleError} />}
+
+        {view === 'audits' && (
+          <>
+            {/* Filters */}
+            <form onSubmit={handleFilter} className="grid grid-cols-2 md:grid-cols-5 gap-4 border border-zinc-900 p-6">
+              <div>
+                <label className={labelClass}>From</label>
+                <input type="date" value={form.from} onChange={update('from')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>To</label>
+                <input type="date" value={form.to} onChange={update('to')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Min Score</label>
+                <input type="number" min={0} max={100} value={form.minScore} onChange={update('minScore')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Max Score</label>
+                <input type="number" min={0} max={100} value={form.maxScore} onChange={update('maxScore')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Revenue</label>
+                <select value={form.revenue} onChange={update('revenue')} className={inputClass}>
+                  <option value="">Any</option>
+                  {LEAD_REVENUE_RANGES.map(range => <option key={range} value={range}>{range}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>UTM Source</label>
+                <input value={form.utmSource} onChange={update('utmSource')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>UTM Campaign</label>
+                <input value={form.utmCampaign} onChange={update('utmCampaign')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Lead Tier</label>
+                <select value={form.tier} onChange={update('tier')} className={inputClass}>
+                  <option value="">Any</option>
+                  {TIERS.map(tier => <option key={tier} value={tier}>{tier}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Search</label>
+                <input placeholder="Brand, domain or email" value={form.search} onChange={update('search')} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Booked</label>
+                <select value={form.booked} onChange={update('booked')} className={inputClass}>
+                  <option value="">Any</option>
+                  <option value="true">Booked</option>
+                  <option value="false">Not booked</option>
+                </select>
+              </div>
+              {TENANTS.length > 1 && (
+                <div>
+                  <label className={labelClass}>Tenant</label>
+                  <select value={form.tenant} onChange={update('tenant')} className={inputClass}>
+                    <option value="">Any</option>
+                    {TENANTS.map(tenant => <option key={tenant.id} value={tenant.id}>{tenant.name}</option>)}
+                  </select>
+                </div>
+              )}
+              <div className="flex items-end gap-2">
+                <Button type="submit" className="text-xs py-2 px-4 flex-1">Filter</Button>
+                <Button type="button" variant="secondary" className="text-xs py-2 px-4" onClick={handleReset}>Reset</Button>
+              </div>
+            </form>
+
+            {/* Results */}
+            <div className="overflow-x-auto border border-zinc-900">
+              <table className="w-full text-sm text-start">
+                <thead className="text-[10px] uppercase tracking-widest text-zinc-500 border-b border-zinc-900">
+                  <tr>
+                    {['Date', 'Brand', 'Score', 'Tier', 'Lead', 'Revenue', 'Size', 'UTM Source', 'UTM Campaign', 'Tenant', 'Booked'].map(header => (
+                      <th key={header} className="px-4 py-3 font-medium text-start whitespace-nowrap">{header}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {page?.items.map(item => (
+                    <tr key={item.id} onClick={() => openAudit(item.id)} className="border-b border-zinc-900 hover:bg-zinc-950 cursor-pointer">
+                      <td className="px-4 py-3 whitespace-nowrap text-zinc-400">{new Date(item.createdAt).toLocaleDateString()}</td>
+                      <td className="px-4 py-3">
+                        <div className="font-bold">{item.brandName}</div>
+                        <div className="text-xs text-zinc-500">{item.brandUrl}</div>
+                      </td>
+                      <td className="px-4 py-3 font-mono font-bold">{item.score ?? '—'}</td>
+                      <td className="px-4 py-3 uppercase text-xs tracking-widest">{item.leadTier ?? '—'}</td>
+                      <td className="px-4 py-3">
+                        <div>{item.leadName}</div>
+                        <div className="text-xs text-zinc-500">{item.leadEmail}</div>
+                      </td>
+                      <td className="px-4 py-3 whitespace-nowrap text-zinc-400">{item.revenue ?? '—'}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-zinc-400">{item.companySize ?? '—'}</td>
+                      <td className="px-4 py-3 text-zinc-400">{item.utmSource ?? '—'}</td>
+                      <td className="px-4 py-3 text-zinc-400">{item.utmCampaign ?? '—'}</td>
+                    <td className="px-4 py-3 text-zinc-400">{item.tenantId}</td>
+                      <td className="px-4 py-3 whitespace-nowrap text-zinc-400">
+                        {item.bookedAt ? new Date(item.bookedAt).toLocaleDateString() : '—'}
+                        {item.bookingExpert && <div className="text-xs text-zinc-500">{item.bookingExpert}</div>}
+                      </td>
+                    </tr>
+                  ))}
+                  {page && page.items.length === 0 && (
+                    <tr><td colSpan={11} className="px-4 py-12 text-center text-zinc-500">No audits match these filters.</td></tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between text-xs text-zinc-500">
+              <span>{isLoading ? 'Loading…' : total > 0 ? `${offset + 1}–${Math.min(offset + PAGE_SIZE, total)} of ${total}` : ''}</span>
+              <div className="flex gap-3">
+                <Button variant="secondary" className="text-xs py-2 px-4" disabled={offset === 0 || isLoading} onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}>Previous</Button>
+                <Button variant="secondary" className="text-xs py-2 px-4" disabled={offset + PAGE_SIZE >= total || isLoading} onClick={() => setOffset(offset + PAGE_SIZE)}>Next</Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
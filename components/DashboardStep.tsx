@@ -1,12 +1,24 @@
-import React, { useEffect } from 'react';
-import { AuditResult, BrandInfo, LeadInfo, TechnicalSignal } from '../types';
-import { RadialBarChart, RadialBar, ResponsiveContainer, PolarAngleAxis } from 'recharts';
+import React, { useEffect, useState } from 'react';
+import { AuditResult, AuditHistoryEntry, CompetitorBenchmark, BrandInfo, LeadInfo, TechnicalSignal, PsiStrategyReport, CoreWebVitals } from '../types';
+import { RadialBarChart, RadialBar, ResponsiveContainer, PolarAngleAxis, LineChart, Line, XAxis, YAxis, Tooltip } from 'recharts';
 import { Button } from './Button';
+import { useLocale } from './LocaleProvider';
+import { MessageKey } from '../services/i18n';
+import { auditPdfUrl, reportBookingEvent, sharedPdfUrl } from '../services/apiClient';
+import { isTrackingEnabled, trackCta } from '../services/analytics';
+import { buildBookingUrl, parseBookingMessage, routeBooking } from '../services/booking';
+import { PDF_LOCALES } from '../constants';
+import { getTenant } from '../services/tenants';
+import { useTenant } from './TenantProvider';
+import { SharePanel } from './SharePanel';
 
 interface DashboardStepProps {
   result: AuditResult;
   brand: BrandInfo;
   lead?: LeadInfo | null;
+  auditId?: string | null; // Stored report id; booking events are recorded against it (owner only)
+  ownerToken?: string | null; // Owner session: enables the server PDF and share links
+  shareToken?: string | null; // Opened from a share link: public view, PDF through the share
   onRestart: () => void;
 }
 
@@ -23,6 +35,7 @@ const formatText = (text: string) => {
 };
 
 const SignalBadge: React.FC<{ signal: TechnicalSignal }> = ({ signal }) => {
+  const { term } = useLocale();
   const colors = {
     good: "text-white border-white bg-zinc-900/30 print:text-black print:border-black",
     warning: "text-zinc-400 border-zinc-600 bg-transparent print:text-gray-600 print:border-gray-400",
@@ -31,23 +44,306 @@ const SignalBadge: React.FC<{ signal: TechnicalSignal }> = ({ signal }) => {
   
   return (
     <div className={`flex items-center justify-between p-3 border rounded-md transition-all duration-500 ${colors[signal.status] || colors.warning}`}>
-      <span className="text-xs font-semibold uppercase tracking-wide truncate max-w-[50%]">{signal.label}</span>
-      <span className="text-sm font-bold truncate max-w-[45%] text-right">{signal.value}</span>
+      <span className="text-xs font-semibold uppercase tracking-wide truncate max-w-[50%]">{term(signal.label)}</span>
+      <span className="text-sm font-bold truncate max-w-[45%] text-end">{term(signal.value)}</span>
     </div>
   );
 };
 
-export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lead, onRestart }) => {
-  
+const formatMs = (ms: number | null) => ms === null ? '—' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+
+type ComparisonRow = {
+  label: string; // Metric acronyms (LCP, CLS...) are not translated
+  labelKey?: MessageKey;
+  value: (r: PsiStrategyReport) => string;
+  // 'good' | 'warning' | 'critical' thresholds, same as Lighthouse/Core Web Vitals
+  status: (r: PsiStrategyReport) => TechnicalSignal['status'] | null;
+};
+
+const scoreStatus = (score: number): TechnicalSignal['status'] | null =>
+  score < 0 ? null : score >= 90 ? 'good' : score >= 50 ? 'warning' : 'critical';
+
+const metricStatus = (key: keyof CoreWebVitals, good: number, poor: number) => (r: PsiStrategyReport) => {
+  const value = r.metrics[key];
+  if (value === null) return null;
+  return value <= good ? 'good' : value <= poor ? 'warning' : 'critical';
+};
+
+const COMPARISON_ROWS: ComparisonRow[] = [
+  { label: 'Performance', labelKey: 'psi.performance', value: r => r.perfScore < 0 ? '—' : `${r.perfScore}`, status: r => scoreStatus(r.perfScore) },
+  { label: 'SEO', labelKey: 'psi.seo', value: r => r.seoScore < 0 ? '—' : `${r.seoScore}`, status: r => scoreStatus(r.seoScore) },
+  { label: 'Accessibility', labelKey: 'psi.accessibility', value: r => r.accessibilityScore < 0 ? '—' : `${r.accessibilityScore}`, status: r => scoreStatus(r.accessibilityScore) },
+  { label: 'Best Practices', labelKey: 'psi.bestPractices', value: r => r.bestPracticesScore < 0 ? '—' : `${r.bestPracticesScore}`, status: r => scoreStatus(r.bestPracticesScore) },
+  { label: 'LCP', value: r => formatMs(r.metrics.lcpMs), status: metricStatus('lcpMs', 2500, 4000) },
+  { label: 'CLS', value: r => r.metrics.cls === null ? '—' : r.metrics.cls.toFixed(2), status: metricStatus('cls', 0.1, 0.25) },
+  { label: 'TBT', value: r => formatMs(r.metrics.tbtMs), status: metricStatus('tbtMs', 200, 600) },
+  { label: 'INP', value: r => formatMs(r.metrics.inpMs), status: metricStatus('inpMs', 200, 500) },
+  { label: 'TTFB', value: r => formatMs(r.metrics.ttfbMs), status: metricStatus('ttfbMs', 800, 1800) },
+];
+
+const STATUS_TEXT: Record<TechnicalSignal['status'], string> = {
+  good: 'text-white print:text-black',
+  warning: 'text-zinc-400 print:text-gray-600',
+  critical: 'text-zinc-600 print:text-gray-400',
+};
+
+const PageSpeedComparison: React.FC<{ mobile: PsiStrategyReport | null; desktop: PsiStrategyReport | null }> = ({ mobile, desktop }) => {
+  const { t } = useLocale();
+  const reports = [mobile, desktop];
+  const opportunities = (mobile || desktop)?.opportunities || [];
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mt-8">
+      <div className="border border-zinc-800 rounded-md overflow-hidden print:border-gray-300">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-[10px] uppercase tracking-widest text-zinc-500 border-b border-zinc-800 print:text-gray-600 print:border-gray-300">
+              <th className="text-start font-semibold p-3">{t('psi.metric')}</th>
+              <th className="text-end font-semibold p-3">{t('psi.mobile')}</th>
+              <th className="text-end font-semibold p-3">{t('psi.desktop')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {COMPARISON_ROWS.map(row => (
+              <tr key={row.label} className="border-b border-zinc-900 last:border-b-0 print:border-gray-200">
+                <td className="p-3 text-xs font-semibold uppercase tracking-wide text-zinc-400 print:text-gray-600">{row.labelKey ? t(row.labelKey) : row.label}</td>
+                {reports.map((report, i) => {
+                  const status = report ? row.status(report) : null;
+                  return (
+                    <td key={i} className={`p-3 text-end font-bold tabular-nums ${status ? STATUS_TEXT[status] : 'text-zinc-700'}`}>
+                      {report ? row.value(report) : '—'}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-widest mb-4 print:text-gray-600">{t('psi.opportunities')}</h4>
+        {opportunities.length > 0 ? (
+          <ul className="space-y-3">
+            {opportunities.map(o => (
+              <li key={o.id} className="flex items-start justify-between gap-4 border-b border-zinc-900 pb-3 print:border-gray-200">
+                <span className="text-sm text-zinc-300 print:text-black">{o.title}</span>
+                <span className="text-xs font-mono text-zinc-500 whitespace-nowrap print:text-gray-600">
+                  -{formatMs(o.savingsMs)}{o.savingsBytes ? ` • ${Math.round(o.savingsBytes / 1024)} KiB` : ''}
+                </span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-zinc-600">{t('psi.noOpportunities')}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// --- COMPETITOR BENCHMARK ---
+
+// Vendor lists are too long for a table cell
+const BENCHMARK_HIDDEN_SIGNALS = ['Tech Stack', 'Platform'];
+
+const BenchmarkComparison: React.FC<{ benchmark: CompetitorBenchmark }> = ({ benchmark }) => {
+  const { t, category: categoryLabel, term } = useLocale();
+  const { sites } = benchmark;
+  const signalLabels = Array.from(new Set(sites.flatMap(s => s.signals.map(sig => sig.label))))
+    .filter(label => !BENCHMARK_HIDDEN_SIGNALS.includes(label));
+
+  const headerCells = sites.map(site => (
+    <th key={site.domain} className={`text-end font-semibold p-3 ${site.isSelf ? 'text-white print:text-black' : ''}`}>
+      {site.isSelf ? t('benchmark.you') : site.domain}
+    </th>
+  ));
+
+  return (
+    <div className="border-t border-zinc-800 pt-12 print:border-gray-300 print:break-inside-avoid">
+      <div className="mb-8">
+        <h3 className="text-2xl font-bold text-white print:text-black">{t('benchmark.title')}</h3>
+        <p className="text-xs text-zinc-500 uppercase tracking-widest mt-1 print:text-gray-600">
+          {t('benchmark.subtitle')}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="border border-zinc-800 rounded-md overflow-x-auto print:border-gray-300">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-widest text-zinc-500 border-b border-zinc-800 print:text-gray-600 print:border-gray-300">
+                <th className="text-start font-semibold p-3">{t('benchmark.inferredScore')}</th>
+                {headerCells}
+              </tr>
+            </thead>
+            <tbody>
+              {benchmark.categories.map(category => {
+                const scores = sites.map(s => s.scores.find(sc => sc.category === category)?.score ?? null);
+                const best = Math.max(...scores.map(s => s ?? -1));
+                return (
+                  <tr key={category} className="border-b border-zinc-900 last:border-b-0 print:border-gray-200">
+                    <td className="p-3 text-xs font-semibold uppercase tracking-wide text-zinc-400 print:text-gray-600">{categoryLabel(category)}</td>
+                    {scores.map((score, i) => (
+                      <td key={sites[i].domain} className={`p-3 text-end tabular-nums font-bold ${score !== null && score === best ? 'text-white print:text-black' : 'text-zinc-500 print:text-gray-600'}`}>
+                        {score ?? '—'}
+                      </td>
+                    ))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="border border-zinc-800 rounded-md overflow-x-auto print:border-gray-300">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-widest text-zinc-500 border-b border-zinc-800 print:text-gray-600 print:border-gray-300">
+                <th className="text-start font-semibold p-3">{t('benchmark.signal')}</th>
+                {headerCells}
+              </tr>
+            </thead>
+            <tbody>
+              {signalLabels.map(label => (
+                <tr key={label} className="border-b border-zinc-900 last:border-b-0 print:border-gray-200">
+                  <td className="p-3 text-xs font-semibold uppercase tracking-wide text-zinc-400 print:text-gray-600">{term(label)}</td>
+                  {sites.map(site => {
+                    const signal = site.signals.find(s => s.label === label);
+                    return (
+                      <td key={site.domain} className={`p-3 text-end text-xs font-bold ${signal ? STATUS_TEXT[signal.status] : 'text-zinc-700'}`}>
+                        {signal ? term(signal.value) : '—'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// --- SCORE TREND ---
+
+const formatDelta = (delta: number) => delta > 0 ? `+${delta}` : `${delta}`;
+
+const deltaClass = (delta: number) =>
+  delta > 0 ? 'text-white print:text-black' : delta < 0 ? 'text-zinc-500 print:text-gray-600' : 'text-zinc-700';
+
+const ScoreTrend: React.FC<{ history: AuditHistoryEntry[]; result: AuditResult }> = ({ history, result }) => {
+  const { t, category, locale, dir } = useLocale();
+  const previous = history[history.length - 1];
+  const delta = result.momentumScore - previous.momentumScore;
+  const currentVersion = result.scoring?.version ?? null;
+
+  const points = [
+    ...history.map(h => ({ date: new Date(h.createdAt).toLocaleDateString(locale), score: h.momentumScore })),
+    { date: t('trend.today'), score: result.momentumScore }
+  ];
+
+  return (
+    <div className="border-t border-zinc-800 pt-12 print:border-gray-300 print:break-inside-avoid">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4 mb-8">
+        <div>
+          <h3 className="text-2xl font-bold text-white print:text-black">{t('trend.title')}</h3>
+          <p className="text-xs text-zinc-500 uppercase tracking-widest mt-1 print:text-gray-600">
+            {history.length === 1 ? t('trend.previousOne') : t('trend.previousMany', { count: history.length })} • {t('trend.lastOn', { date: new Date(previous.createdAt).toLocaleDateString(locale) })}
+          </p>
+        </div>
+        <div className="text-end">
+          <span className={`text-4xl font-bold tabular-nums ${deltaClass(delta)}`}>{formatDelta(delta)}</span>
+          <span className="block text-[10px] uppercase tracking-widest text-zinc-500 print:text-gray-600">{t('trend.sinceLast')}</span>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="h-56 bg-zinc-950 border border-zinc-800 rounded-md p-4 print:bg-white print:border-gray-300">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={points} margin={dir === 'rtl' ? { top: 8, right: -16, bottom: 0, left: 16 } : { top: 8, right: 16, bottom: 0, left: -16 }}>
+              <XAxis dataKey="date" reversed={dir === 'rtl'} tick={{ fill: '#71717a', fontSize: 10 }} stroke="#27272a" />
+              <YAxis domain={[0, 100]} orientation={dir === 'rtl' ? 'right' : 'left'} tick={{ fill: '#71717a', fontSize: 10 }} stroke="#27272a" />
+              <Tooltip contentStyle={{ background: '#09090b', border: '1px solid #27272a', fontSize: 12 }} />
+              <Line type="monotone" dataKey="score" stroke="#ffffff" strokeWidth={2} dot={{ r: 3, fill: '#ffffff' }} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="border border-zinc-800 rounded-md overflow-hidden print:border-gray-300">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] uppercase tracking-widest text-zinc-500 border-b border-zinc-800 print:text-gray-600 print:border-gray-300">
+                <th className="text-start font-semibold p-3">{t('trend.area')}</th>
+                <th className="text-end font-semibold p-3">{t('trend.last')}</th>
+                <th className="text-end font-semibold p-3">{t('trend.now')}</th>
+                <th className="text-end font-semibold p-3">{t('trend.change')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.categories.map(cat => {
+                const before = previous.categories.find(c => c.category === cat.title);
+                const change = before ? cat.score - before.score : null;
+                return (
+                  <tr key={cat.title} className="border-b border-zinc-900 last:border-b-0 print:border-gray-200">
+                    <td className="p-3 text-xs font-semibold uppercase tracking-wide text-zinc-400 print:text-gray-600">{category(cat.title)}</td>
+                    <td className="p-3 text-end tabular-nums text-zinc-500">{before ? before.score : '—'}</td>
+                    <td className="p-3 text-end tabular-nums font-bold text-zinc-200 print:text-black">{cat.score}</td>
+                    <td className={`p-3 text-end tabular-nums font-bold ${change === null ? 'text-zinc-700' : deltaClass(change)}`}>
+                      {change === null ? '—' : formatDelta(change)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {previous.scoringVersion !== currentVersion && (
+        <p className="text-xs text-zinc-600 mt-4">
+          {t('trend.versionChanged')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lead, auditId, ownerToken, shareToken, onRestart }) => {
+  const { t, category, locale, dir } = useLocale();
+  const pageTenant = useTenant();
+  // The report keeps the branding it was made under (e.g. opened from the admin console)
+  const tenant = result.tenantId ? getTenant(result.tenantId) : pageTenant;
+  // Expert by lead tier / weakest category, scheduler pre-filled with the lead and audit
+  const booking = routeBooking(tenant, result);
+  const { expert } = booking;
+  const expertTitle = expert.title || t('dashboard.expertTitle');
+  const prefill = { name: lead?.email ? lead.fullName : undefined, email: lead?.email || undefined, auditId };
+  const bookingLink = buildBookingUrl(booking.bookingUrl, prefill);
+  const bookingEmbed = buildBookingUrl(booking.bookingUrl, prefill, { embedDomain: window.location.hostname });
+  const [isSharing, setIsSharing] = useState(false);
+
   useEffect(() => {
     window.scrollTo(0, 0);
   }, []);
 
+  // Scheduler events (shown, slot picked, booked) are recorded against the stored audit, by its owner
+  useEffect(() => {
+    if (!auditId || !ownerToken || !booking.provider || !isTrackingEnabled()) return;
+    const onMessage = (message: MessageEvent) => {
+      const event = parseBookingMessage(message, booking);
+      if (event) reportBookingEvent(auditId, ownerToken, { ...event, provider: booking.provider!, expert: expert.name });
+    };
+    window.addEventListener('message', onMessage);
+    return () => window.removeEventListener('message', onMessage);
+  }, [auditId, ownerToken, booking.bookingUrl, booking.provider, expert.name]);
+
   if (!result || !result.categories) {
     return (
       <div className="flex flex-col items-center justify-center h-[50vh] space-y-4">
-        <p className="text-zinc-500">Error loading report data. Please try again.</p>
-        <Button onClick={onRestart}>Restart Audit</Button>
+        <p className="text-zinc-500">{t('dashboard.loadError')}</p>
+        <Button onClick={onRestart}>{t('dashboard.restart')}</Button>
       </div>
     );
   }
@@ -71,30 +367,58 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
     }
   };
 
+  // Qualified leads get the calendar; nurture leads get the action plan first.
+  // Reports that predate qualification keep the calendar.
+  const showBooking = result.qualification?.tier !== 'nurture';
+
   const handlePrint = () => {
+    // Server PDF for stored reports in a supported language, browser print otherwise
+    const pdfUrl = !PDF_LOCALES.includes(locale) ? null
+      : auditId && ownerToken ? auditPdfUrl(auditId, ownerToken, true)
+      : shareToken ? sharedPdfUrl(shareToken, true)
+      : null;
+    if (pdfUrl) {
+      window.open(pdfUrl, '_blank', 'noopener');
+      return;
+    }
     window.print();
   };
 
   return (
-    <div className="w-full max-w-7xl mx-auto pb-24 animate-fade-in px-4 md:px-0 font-sans text-gray-100 print:text-black">
+    <div dir={dir} lang={locale} className="w-full max-w-7xl mx-auto pb-24 animate-fade-in px-4 md:px-0 font-sans text-gray-100 print:text-black">
+
+      {/* Shared view: the visitor is not the owner, so offer them their own audit */}
+      {shareToken && (
+        <div className="mb-8 border border-zinc-800 bg-zinc-950 px-6 py-4 flex flex-col md:flex-row gap-4 md:items-center justify-between no-print">
+          <p className="text-sm text-zinc-400">{t('share.banner')}</p>
+          <Button variant="outline" className="text-xs py-2 px-4" onClick={onRestart}>{t('share.getYours')}</Button>
+        </div>
+      )}
+
+      {isSharing && auditId && ownerToken && (
+        <SharePanel auditId={auditId} ownerToken={ownerToken} tenant={tenant} onClose={() => setIsSharing(false)} />
+      )}
       
       {/* Header */}
       <header className="border-b border-zinc-800 pb-8 mb-12 print:border-gray-300">
         <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-6">
           <div>
             <div className="text-zinc-500 text-sm uppercase tracking-widest mb-2 font-semibold print:text-gray-600">
-              Brand Score Report
+              {t('dashboard.reportLabel')}
             </div>
             <h1 className="text-4xl md:text-5xl font-bold tracking-tight text-white mb-2 print:text-black">
               {brand.name}
             </h1>
             <div className="text-sm text-zinc-400 print:text-gray-600">
-               {new Date().toLocaleDateString()} • Prepared for {lead?.fullName || 'Business Owner'}
+               {new Date().toLocaleDateString(locale)} • {t('dashboard.preparedFor', { name: lead?.fullName || t('dashboard.defaultRecipient') })}
             </div>
           </div>
           <div className="flex gap-4 no-print">
-             <Button variant="outline" className="text-xs py-2 px-4" onClick={handlePrint}>Save as PDF</Button>
-             <Button className="text-xs py-2 px-4" onClick={scrollToCTA}>Book Consultation</Button>
+             {auditId && ownerToken && (
+               <Button variant="outline" className="text-xs py-2 px-4" onClick={() => setIsSharing(true)}>{t('share.open')}</Button>
+             )}
+             <Button variant="outline" className="text-xs py-2 px-4" onClick={() => { trackCta('save_pdf'); handlePrint(); }}>{t('dashboard.savePdf')}</Button>
+             <Button className="text-xs py-2 px-4" onClick={() => { trackCta('book_consultation'); scrollToCTA(); }}>{t('dashboard.bookConsultation')}</Button>
           </div>
         </div>
       </header>
@@ -108,7 +432,7 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
           {/* Brand Score Card */}
           <div className="lg:col-span-4 bg-zinc-950 border border-zinc-800 p-8 rounded-xl flex flex-col justify-center items-center text-center relative overflow-hidden min-h-[300px] print:bg-white print:border-gray-300 print:page-break-inside-avoid">
              <div className="relative z-10 w-full h-full flex flex-col items-center justify-center">
-                <div className="text-sm font-bold text-zinc-500 uppercase tracking-widest mb-6 print:text-gray-600">Brand Score</div>
+                <div className="text-sm font-bold text-zinc-500 uppercase tracking-widest mb-6 print:text-gray-600">{t('dashboard.brandScore')}</div>
                 <div className="relative w-56 h-56 mx-auto mb-6">
                     <ResponsiveContainer width="100%" height="100%">
                       <RadialBarChart 
@@ -131,18 +455,18 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
                     </div>
                 </div>
                 <p className="text-xs text-zinc-500 print:text-gray-600">
-                  Based on {result.categories.length} core business areas.
+                  {t('dashboard.basedOn', { count: result.categories.length })}
                 </p>
              </div>
           </div>
 
           {/* Executive Summary */}
           <div className="lg:col-span-8 bg-zinc-950 border border-zinc-800 p-8 rounded-xl flex flex-col justify-center print:bg-white print:border-gray-300 print:text-black">
-            <h2 className="text-xl font-bold text-white mb-6 print:text-black">Executive Summary</h2>
+            <h2 className="text-xl font-bold text-white mb-6 print:text-black">{t('dashboard.executiveSummary')}</h2>
             
             {result.businessContext && (
-               <div className="mb-6 p-4 bg-zinc-900/50 rounded-lg border-l-2 border-zinc-700 print:bg-gray-100 print:border-gray-400">
-                 <h4 className="text-[10px] uppercase tracking-widest text-zinc-500 mb-2 print:text-gray-600">Business Context</h4>
+               <div className="mb-6 p-4 bg-zinc-900/50 rounded-lg border-s-2 border-zinc-700 print:bg-gray-100 print:border-gray-400">
+                 <h4 className="text-[10px] uppercase tracking-widest text-zinc-500 mb-2 print:text-gray-600">{t('dashboard.businessContext')}</h4>
                  <p className="text-sm text-zinc-300 italic print:text-black">
                    {result.businessContext}
                  </p>
@@ -158,7 +482,7 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
                <div className="bg-zinc-900/30 border border-zinc-800 p-4 rounded-lg flex gap-4 items-start print:bg-gray-50 print:border-gray-300">
                   <div className="mt-1 w-2 h-2 rounded-full bg-zinc-600 shrink-0"></div>
                   <div>
-                    <span className="block text-xs font-bold text-zinc-500 uppercase tracking-wide mb-1 print:text-gray-600">Reality Check</span>
+                    <span className="block text-xs font-bold text-zinc-500 uppercase tracking-wide mb-1 print:text-gray-600">{t('dashboard.realityCheck')}</span>
                     <p className="text-sm text-zinc-500 print:text-black">{result.perceptionGap.details}</p>
                   </div>
                </div>
@@ -166,12 +490,17 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
           </div>
         </div>
 
+        {/* Score Trend (returning brands only) */}
+        {result.history && result.history.length > 0 && (
+          <ScoreTrend history={result.history} result={result} />
+        )}
+
         {/* Technical Analysis Grid */}
         <div className="border-t border-zinc-800 pt-12 print:border-gray-300 print:page-break-before-auto">
            <div className="flex items-center justify-between mb-8">
               <div>
-                <h3 className="text-2xl font-bold text-white print:text-black">Technical Health</h3>
-                <p className="text-xs text-zinc-500 uppercase tracking-widest mt-1 print:text-gray-600">Live Website Scan • Speed Check</p>
+                <h3 className="text-2xl font-bold text-white print:text-black">{t('dashboard.technicalHealth')}</h3>
+                <p className="text-xs text-zinc-500 uppercase tracking-widest mt-1 print:text-gray-600">{t('dashboard.technicalSubtitle')}</p>
               </div>
            </div>
            
@@ -182,17 +511,26 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
                ))
              ) : (
                 <div className="col-span-3 text-center py-8 text-zinc-600 text-sm">
-                  Waiting for technical data stream...
+                  {t('dashboard.waitingSignals')}
                 </div>
              )}
            </div>
+
+           {result.pageSpeed && (result.pageSpeed.mobile || result.pageSpeed.desktop) && (
+             <PageSpeedComparison mobile={result.pageSpeed.mobile} desktop={result.pageSpeed.desktop} />
+           )}
         </div>
 
+        {/* Competitor Benchmark */}
+        {result.benchmark && result.benchmark.sites.length > 1 && (
+          <BenchmarkComparison benchmark={result.benchmark} />
+        )}
+
         {/* Detailed Breakdown */}
         <div className="space-y-12 print:space-y-8">
           <div className="border-b border-zinc-800 pb-4 print:border-gray-300 print:page-break-before-always">
-             <h2 className="text-2xl font-bold text-white print:text-black">Detailed Analysis</h2>
-             <p className="text-sm text-zinc-500 mt-2 print:text-gray-600">What We Found & Next Steps</p>
+             <h2 className="text-2xl font-bold text-white print:text-black">{t('dashboard.detailedAnalysis')}</h2>
+             <p className="text-sm text-zinc-500 mt-2 print:text-gray-600">{t('dashboard.detailedSubtitle')}</p>
           </div>
 
           <div className="grid gap-8 print:block print:space-y-8">
@@ -204,11 +542,11 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
                 <div className="p-6 md:p-8 grid md:grid-cols-12 gap-8 print:block">
                   
                   {/* Category Header */}
-                  <div className="md:col-span-3 border-b md:border-b-0 md:border-r border-zinc-800 pb-6 md:pb-0 md:pr-6 flex flex-col justify-between print:border-none print:pb-4">
+                  <div className="md:col-span-3 border-b md:border-b-0 md:border-e border-zinc-800 pb-6 md:pb-0 md:pe-6 flex flex-col justify-between print:border-none print:pb-4">
                     <div>
-                      <h3 className="text-2xl font-bold text-white mb-2 print:text-black">{cat.title}</h3>
+                      <h3 className="text-2xl font-bold text-white mb-2 print:text-black">{category(cat.title)}</h3>
                       <div className={`text-4xl font-bold mb-1 tracking-tighter ${getScoreColor(cat.score)}`}>
-                        {cat.score}<span className="text-2xl text-zinc-600 ml-1">%</span>
+                        {cat.score}<span className="text-2xl text-zinc-600 ms-1">%</span>
                       </div>
                     </div>
                     {/* Progress Bar */}
@@ -224,12 +562,12 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
                   <div className="md:col-span-9 grid md:grid-cols-2 gap-8 print:grid-cols-1 print:gap-4">
                      {/* Diagnostic */}
                      <div className="space-y-4">
-                       <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-widest print:text-gray-600">Issue</h4>
+                       <h4 className="text-xs font-bold text-zinc-500 uppercase tracking-widest print:text-gray-600">{t('dashboard.issue')}</h4>
                        <p className="text-sm text-zinc-400 leading-relaxed font-medium print:text-black">
                          {formatText(cat.diagnostic)}
                        </p>
                        <div className="bg-zinc-900/30 p-4 rounded-lg border border-zinc-800/50 print:bg-gray-50 print:border-gray-300">
-                          <p className="text-[10px] text-zinc-600 uppercase tracking-widest mb-3">Evidence Found</p>
+                          <p className="text-[10px] text-zinc-600 uppercase tracking-widest mb-3">{t('dashboard.evidence')}</p>
                           <ul className="space-y-2">
                             {cat.evidence && cat.evidence.map((item, i) => (
                               <li key={i} className="text-xs text-zinc-500 flex items-start gap-2 print:text-black">
@@ -243,18 +581,18 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
 
                      {/* Strategy */}
                      <div className="space-y-4 flex flex-col h-full">
-                        <h4 className="text-xs font-bold text-white uppercase tracking-widest print:text-black">Solution</h4>
+                        <h4 className="text-xs font-bold text-white uppercase tracking-widest print:text-black">{t('dashboard.solution')}</h4>
                         <p className="text-sm text-zinc-200 leading-relaxed font-medium flex-grow print:text-black">
                           {formatText(cat.strategy)}
                         </p>
                         <div className="pt-4 mt-auto no-print">
                           {cat.score < 100 && (
                             <button 
-                              onClick={scrollToCTA}
+                              onClick={() => { trackCta('fix_now'); scrollToCTA(); }}
                               className="group flex items-center gap-2 text-xs font-bold text-white uppercase tracking-wider hover:text-zinc-300 transition-colors"
                             >
-                              Fix This Now
-                              <span className="group-hover:translate-x-1 transition-transform">&rarr;</span>
+                              {t('dashboard.fixNow')}
+                              <span className="group-hover:translate-x-1 rtl:group-hover:-translate-x-1 rtl:-scale-x-100 transition-transform">&rarr;</span>
                             </button>
                           )}
                         </div>
@@ -267,7 +605,7 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
           </div>
         </div>
 
-        {/* CTA Section - Embedded Calendar */}
+        {/* CTA Section - Embedded Calendar or Free Resource, by lead tier */}
         <div id="action-plan" className="bg-white text-black rounded-xl overflow-hidden shadow-2xl print:hidden">
           <div className="p-8 md:p-12 border-b border-gray-100">
              <div className="flex flex-col md:flex-row gap-8 items-start">
@@ -275,39 +613,55 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
                <div className="flex-shrink-0 flex items-center gap-4">
                   <div className="w-20 h-20 rounded-full overflow-hidden border-2 border-gray-200 shadow-lg grayscale">
                     <img 
-                      src="https://i.imgur.com/pC1t2HY.jpeg" 
-                      alt="Mahdi - Senior Growth Expert" 
+                      src={expert.photoUrl} 
+                      alt={`${expert.name} - ${expertTitle}`} 
                       className="w-full h-full object-cover"
                     />
                   </div>
                   <div>
-                    <div className="font-bold text-xl">Mahdi</div>
-                    <div className="text-xs text-gray-500 uppercase tracking-wide">Senior Growth Expert</div>
+                    <div className="font-bold text-xl">{expert.name}</div>
+                    <div className="text-xs text-gray-500 uppercase tracking-wide">{expertTitle}</div>
                   </div>
                </div>
                
                <div className="flex-grow">
                  <h2 className="text-3xl font-bold tracking-tight mb-2">
-                   Let's Fix This.
+                   {showBooking ? t('dashboard.ctaTitle') : t('dashboard.resourceTitle')}
                  </h2>
                  <p className="text-gray-600 max-w-2xl">
-                   The data shows exactly where you're losing momentum. Book a 30-minute debrief to walk through these findings and discuss the implementation roadmap.
+                   {showBooking ? t('dashboard.ctaBody') : t('dashboard.resourceBody')}
                  </p>
                </div>
              </div>
           </div>
 
-          {/* Embedded Calendar */}
-          <div className="w-full h-[700px] bg-gray-50">
-            <iframe 
-              src="https://cal.com/mahdi-ayadi-vsmf6p/30min?embed=true"
-              width="100%" 
-              height="100%" 
-              frameBorder="0"
-              style={{ minHeight: '700px' }}
-              title="Book a Consultation"
-            ></iframe>
-          </div>
+          {showBooking ? (
+            /* Embedded Calendar */
+            <div className="w-full h-[700px] bg-gray-50">
+              <iframe 
+                src={bookingEmbed}
+                width="100%" 
+                height="100%" 
+                frameBorder="0"
+                style={{ minHeight: '700px' }}
+                title={t('dashboard.bookingFrame')}
+              ></iframe>
+            </div>
+          ) : (
+            /* Free Resource */
+            <div className="p-8 md:p-12 bg-gray-50 flex flex-col md:flex-row gap-6 md:items-center justify-between">
+              <Button className="text-xs py-3 px-6" onClick={() => { trackCta('download_plan'); handlePrint(); }}>{t('dashboard.resourceCta')}</Button>
+              <a 
+                href={bookingLink} 
+                onClick={() => trackCta('booking_link')}
+                target="_blank" 
+                rel="noopener noreferrer" 
+                className="text-sm text-gray-600 underline underline-offset-4 hover:text-black"
+              >
+                {t('dashboard.resourceTalk')}
+              </a>
+            </div>
+          )}
         </div>
         
         {/* Footer Info */}
@@ -315,7 +669,7 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
            {result.groundingUrls && result.groundingUrls.length > 0 && (
              <div className="mb-6">
                <p className="text-[10px] uppercase tracking-widest text-zinc-600 mb-4">
-                 Intelligence Verified Via
+                 {t('dashboard.verifiedVia')}
                </p>
                <div className="flex flex-wrap justify-center gap-4">
                  {result.groundingUrls.map((url, i) => (
@@ -327,7 +681,7 @@ export const DashboardStep: React.FC<DashboardStepProps> = ({ result, brand, lea
              </div>
            )}
            <div className="text-[10px] text-zinc-700 uppercase tracking-widest">
-             Zouhall Brand Score
+             {t('dashboard.footer', { agency: tenant.name })}
            </div>
         </div>
 
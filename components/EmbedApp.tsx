@@ -0,0 +1,199 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppStep, AuditJob, BrandInfo, LeadInfo, TrafficSource, UserResponse } from '../types';
+import { InputStep } from './InputStep';
+import { QuizStep } from './QuizStep';
+import { LeadFormStep } from './LeadFormStep';
+import { LoadingStep } from './LoadingStep';
+import { Button } from './Button';
+import { useLocale } from './LocaleProvider';
+import { useTenant } from './TenantProvider';
+import { createAuditJob, getAuditJob, runAuditJob } from '../services/apiClient';
+import { setTrafficContext, track } from '../services/analytics';
+import { getQuestionPack } from '../services/questionnaire';
+import { EmbedConfig, postToHost } from '../services/embed';
+import { tenantAppUrl } from '../services/tenants';
+
+const JOB_POLL_INTERVAL_MS = 2000;
+
+interface EmbedAppProps {
+  config: EmbedConfig;
+}
+
+/**
+ * The funnel as served at /embed for the widget: brand, quiz and lead form,
+ * then the audit. It ends on a short summary linking to the full report in
+ * a new tab, and reports its progress to the host page (see services/embed.ts).
+ */
+export const EmbedApp: React.FC<EmbedAppProps> = ({ config }) => {
+  const { locale, t } = useLocale();
+  const tenant = useTenant();
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [step, setStep] = useState<AppStep>(AppStep.INPUT);
+  const [brandData, setBrandData] = useState<BrandInfo | null>(null);
+  const [quizResponses, setQuizResponses] = useState<UserResponse[]>([]);
+  const [leadInfo, setLeadInfo] = useState<LeadInfo | null>(null);
+  const [trafficSource, setTrafficSource] = useState<TrafficSource>({});
+  const [job, setJob] = useState<AuditJob | null>(null);
+  const [hasFailed, setHasFailed] = useState(false);
+
+  // UTMs come from the host page (or the widget's defaults) through the iframe URL
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const sourceData: TrafficSource = {
+      utm_source: params.get('utm_source') || undefined,
+      utm_medium: params.get('utm_medium') || undefined,
+      utm_campaign: params.get('utm_campaign') || undefined,
+      utm_term: params.get('utm_term') || undefined,
+      utm_content: params.get('utm_content') || undefined,
+      referrer: config.hostOrigin || document.referrer || undefined
+    };
+    setTrafficSource(sourceData);
+    setTrafficContext(sourceData, tenant.id);
+    postToHost(config, { type: 'brandscore:ready' });
+  }, []);
+
+  useEffect(() => {
+    track('step_viewed', { step });
+    postToHost(config, { type: 'brandscore:step', step });
+  }, [step]);
+
+  // Lets the widget grow and shrink the iframe with the content
+  useEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+    const observer = new ResizeObserver(() => {
+      postToHost(config, { type: 'brandscore:resize', height: Math.ceil(root.getBoundingClientRect().height) });
+    });
+    observer.observe(root);
+    return () => observer.disconnect();
+  }, []);
+
+  // --- AUDIT JOB POLLING ---
+  const jobId = job?.id;
+  const jobStatus = job?.status;
+  useEffect(() => {
+    if (!jobId || jobStatus === 'done' || jobStatus === 'failed') return;
+
+    const interval = setInterval(async () => {
+      try {
+        setJob(await getAuditJob(jobId));
+      } catch (e) {
+        console.warn("Job poll failed", e);
+      }
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [jobId, jobStatus]);
+
+  useEffect(() => {
+    if (!job || !brandData) return;
+    if (job.status === 'done' && job.result) {
+      postToHost(config, {
+        type: 'brandscore:complete',
+        auditId: job.auditId,
+        momentumScore: job.result.momentumScore,
+        brand: { name: brandData.name, url: brandData.url }
+      });
+      setStep(AppStep.DASHBOARD);
+    } else if (job.status === 'failed') {
+      console.error("Audit workflow failed", job.error);
+      postToHost(config, { type: 'brandscore:error', message: job.error || 'Audit failed' });
+      setHasFailed(true);
+      setStep(AppStep.INPUT);
+    }
+  }, [jobStatus]);
+
+  // --- HANDLERS ---
+
+  const handleInputComplete = (info: BrandInfo) => {
+    setBrandData(info);
+    setHasFailed(false);
+    setStep(AppStep.QUIZ);
+  };
+
+  const handleQuizComplete = (responses: UserResponse[]) => {
+    setQuizResponses(responses);
+    setStep(AppStep.LEAD_FORM);
+  };
+
+  const handleLeadFormComplete = async (info: LeadInfo) => {
+    setLeadInfo(info);
+    if (!brandData) {
+      setStep(AppStep.INPUT);
+      return;
+    }
+
+    setStep(AppStep.ANALYZING);
+    try {
+      const created = await createAuditJob({
+        brand: brandData,
+        lead: info,
+        responses: quizResponses,
+        trafficSource,
+        locale,
+        tenantId: tenant.id
+      });
+      setJob(created);
+      postToHost(config, { type: 'brandscore:submitted', brand: { name: brandData.name, url: brandData.url } });
+      // Fire and forget, as in the app: progress comes from polling
+      runAuditJob(created.id)
+        .then(setJob)
+        .catch(e => console.warn("Job run request ended early", e));
+    } catch (e) {
+      console.error("Audit workflow failed", e);
+      postToHost(config, { type: 'brandscore:error', message: e instanceof Error ? e.message : 'Audit failed' });
+      setHasFailed(true);
+      setStep(AppStep.INPUT);
+    }
+  };
+
+  const handleRestart = () => {
+    setBrandData(null);
+    setQuizResponses([]);
+    setLeadInfo(null);
+    setJob(null);
+    setStep(AppStep.INPUT);
+  };
+
+  // For 15 minutes after the audit, the job id opens the report as its owner (see
+  // server/ownerAuth.ts), so the new tab skips the emailed code even though the
+  // iframe's storage is not shared; later the emailed report link takes over
+  const reportUrl = job ? `${tenantAppUrl(tenant, window.location.origin)}/?job=${encodeURIComponent(job.id)}` : null;
+
+  return (
+    <div ref={rootRef} className="bg-black text-white p-6 font-sans selection:bg-white selection:text-black">
+      {hasFailed && step === AppStep.INPUT && (
+        <p role="alert" className="mb-6 text-sm text-red-400 text-center">{t('embed.failed')}</p>
+      )}
+      {step === AppStep.INPUT && <InputStep onNext={handleInputComplete} />}
+      {step === AppStep.QUIZ && (
+        <QuizStep
+          questionnaire={getQuestionPack(brandData?.businessModel, tenant).questionnaire}
+          onComplete={handleQuizComplete}
+        />
+      )}
+      {step === AppStep.LEAD_FORM && <LeadFormStep onComplete={handleLeadFormComplete} />}
+      {step === AppStep.ANALYZING && <LoadingStep job={job} />}
+      {step === AppStep.DASHBOARD && job?.result && (
+        <div className="flex flex-col items-center text-center space-y-8 py-12 animate-fade-in">
+          <p className="text-xs uppercase tracking-widest text-zinc-500">{t('email.scoreLabel')}</p>
+          <p className="text-8xl font-bold tracking-tighter">
+            {job.result.momentumScore}<span className="text-2xl text-zinc-600">/100</span>
+          </p>
+          <div className="space-y-3 max-w-md">
+            <h2 className="text-2xl font-bold tracking-tight">{t('embed.doneTitle', { brand: brandData?.name || '' })}</h2>
+            {leadInfo && <p className="text-sm text-zinc-400">{t('embed.doneBody', { email: leadInfo.email })}</p>}
+          </div>
+          {reportUrl && (
+            <Button className="w-full max-w-sm" onClick={() => window.open(reportUrl, '_blank', 'noopener')}>
+              {t('embed.openReport')}
+            </Button>
+          )}
+          <button type="button" onClick={handleRestart} className="text-xs text-zinc-500 underline underline-offset-4 hover:text-white">
+            {t('embed.restart')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
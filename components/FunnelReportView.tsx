@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { FunnelBreakdown, FunnelCta, FunnelReport } from '../types';
+import { FUNNEL_STEPS, TENANTS } from '../constants';
+import { fetchAdminFunnel } from '../services/apiClient';
+import { Button } from './Button';
+
+/**
+ * Funnel tab of the admin console: how far visitors get, overall and per
+ * utm_campaign, which quiz questions they leave on, and how many book a call.
+ */
+
+interface FunnelReportViewProps {
+  token: string;
+  onError: (err: unknown) => void;
+}
+
+const CTAS: FunnelCta[] = ['save_pdf', 'book_consultation', 'fix_now', 'download_plan', 'booking_link'];
+
+const inputClass = "w-full bg-zinc-950 border border-zinc-800 px-3 py-2 text-sm text-white focus:outline-none focus:border-white";
+const labelClass = "block text-[10px] uppercase tracking-widest text-zinc-500 mb-1";
+const cellClass = "px-4 py-3 whitespace-nowrap";
+
+const rate = (count: number, of: number) => (of > 0 ? `${Math.round((count / of) * 100)}%` : '—');
+
+const campaignLabel = (breakdown: FunnelBreakdown) => breakdown.campaign ?? '(none)';
+
+export const FunnelReportView: React.FC<FunnelReportViewProps> = ({ token, onError }) => {
+  const [range, setRange] = useState({ from: '', to: '', tenant: '' });
+  const [applied, setApplied] = useState({ from: '', to: '', tenant: '' });
+  const [report, setReport] = useState<FunnelReport | null>(null);
+  const [selected, setSelected] = useState<string | null>(null); // Campaign key, null = all traffic
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    fetchAdminFunnel(token, { from: applied.from || undefined, to: applied.to || undefined, tenant: applied.tenant || undefined })
+      .then(result => { if (!cancelled) setReport(result); })
+      .catch(err => { if (!cancelled) onError(err); })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [token, applied]);
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSelected(null);
+    setApplied(range);
+  };
+
+  const rows = report ? [report.total, ...report.campaigns] : [];
+  const detail = report && selected !== null
+    ? report.campaigns.find(c => campaignLabel(c) === selected) ?? report.total
+    : report?.total;
+
+  return (
+    <div className="space-y-8">
+      <form onSubmit={handleApply} className="grid grid-cols-2 md:grid-cols-5 gap-4 border border-zinc-900 p-6">
+        <div>
+          <label className={labelClass}>From</label>
+          <input type="date" value={range.from} onChange={e => setRange(prev => ({ ...prev, from: e.target.value }))} className={inputClass} />
+        </div>
+        <div>
+          <label className={labelClass}>To</label>
+          <input type="date" value={range.to} onChange={e => setRange(prev => ({ ...prev, to: e.target.value }))} className={inputClass} />
+        </div>
+        {TENANTS.length > 1 && (
+          <div>
+            <label className={labelClass}>Tenant</label>
+            <select value={range.tenant} onChange={e => setRange(prev => ({ ...prev, tenant: e.target.value }))} className={inputClass}>
+              <option value="">Any</option>
+              {TENANTS.map(tenant => <option key={tenant.id} value={tenant.id}>{tenant.name}</option>)}
+            </select>
+          </div>
+        )}
+        <div className="flex items-end">
+          <Button type="submit" className="text-xs py-2 px-4 flex-1">Apply</Button>
+        </div>
+      </form>
+
+      {isLoading && <p className="text-xs text-zinc-500">Loading…</p>}
+      {report?.truncated && <p className="text-xs text-yellow-400">Too many events for one report: only the oldest were counted. Narrow the dates.</p>}
+
+      {/* Step reach per campaign */}
+      <div className="overflow-x-auto border border-zinc-900">
+        <table className="w-full text-sm text-start">
+          <thead className="text-[10px] uppercase tracking-widest text-zinc-500 border-b border-zinc-900">
+            <tr>
+              {['Campaign', 'Sessions', ...FUNNEL_STEPS, 'Lead Form 1/2', 'Lead Form 2/2', ...CTAS, 'Booked'].map(header => (
+                <th key={header} className="px-4 py-3 font-medium text-start whitespace-nowrap">{header.replace(/_/g, ' ')}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => {
+              const key = i === 0 ? null : campaignLabel(row);
+              return (
+                <tr
+                  key={key ?? '__total'}
+                  onClick={() => setSelected(key)}
+                  className={`border-b border-zinc-900 hover:bg-zinc-950 cursor-pointer ${selected === key ? 'bg-zinc-950' : ''}`}
+                >
+                  <td className={`${cellClass} font-bold`}>{i === 0 ? 'All traffic' : campaignLabel(row)}</td>
+                  <td className={`${cellClass} font-mono`}>{row.sessions}</td>
+                  {FUNNEL_STEPS.map(step => (
+                    <td key={step} className={`${cellClass} font-mono`}>
+                      {row.steps[step]} <span className="text-zinc-500">{rate(row.steps[step], row.sessions)}</span>
+                    </td>
+                  ))}
+                  <td className={`${cellClass} font-mono`}>{row.leadFormStep1} <span className="text-zinc-500">{rate(row.leadFormStep1, row.steps.LEAD_FORM)}</span></td>
+                  <td className={`${cellClass} font-mono`}>{row.leadFormStep2} <span className="text-zinc-500">{rate(row.leadFormStep2, row.steps.LEAD_FORM)}</span></td>
+                  {CTAS.map(cta => <td key={cta} className={`${cellClass} font-mono text-zinc-400`}>{row.ctaClicks[cta] ?? 0}</td>)}
+                  <td className={`${cellClass} font-mono`}>{row.booked} <span className="text-zinc-500">{rate(row.booked, row.steps.DASHBOARD)}</span></td>
+                </tr>
+              );
+            })}
+            {report && report.total.sessions === 0 && (
+              <tr><td colSpan={FUNNEL_STEPS.length + CTAS.length + 5} className="px-4 py-12 text-center text-zinc-500">No events in this period.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Question drop-off for the selected row */}
+      {detail && detail.questions.length > 0 && (
+        <div className="space-y-4">
+          <h2 className="text-xs uppercase tracking-widest text-zinc-500">
+            Quiz drop-off · {selected === null ? 'All traffic' : selected}
+          </h2>
+          <div className="overflow-x-auto border border-zinc-900">
+            <table className="w-full text-sm text-start">
+              <thead className="text-[10px] uppercase tracking-widest text-zinc-500 border-b border-zinc-900">
+                <tr>
+                  {['Question', 'Viewed', 'Left Here', 'Drop-off'].map(header => (
+                    <th key={header} className="px-4 py-3 font-medium text-start whitespace-nowrap">{header}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {detail.questions.map(q => (
+                  <tr key={q.questionId} className="border-b border-zinc-900">
+                    <td className={`${cellClass} font-mono`}>#{q.questionId}</td>
+                    <td className={`${cellClass} font-mono`}>{q.viewed}</td>
+                    <td className={`${cellClass} font-mono`}>{q.abandoned}</td>
+                    <td className={`${cellClass} font-mono text-zinc-400`}>{rate(q.abandoned, q.viewed)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,19 +1,66 @@
-import React, { useState } from 'react';
-import { BrandInfo } from '../types';
+import React, { useRef, useState } from 'react';
+import { BrandInfo, BusinessModel } from '../types';
+import { MAX_COMPETITORS } from '../constants';
+import { BUSINESS_MODELS } from '../services/questionnaire';
+import { classifyBusiness } from '../services/apiClient';
 import { Button } from './Button';
+import { useLocale } from './LocaleProvider';
+import { useTenant } from './TenantProvider';
 
 interface InputStepProps {
   onNext: (info: BrandInfo) => void;
 }
 
 export const InputStep: React.FC<InputStepProps> = ({ onNext }) => {
+  const { t } = useLocale();
+  const tenant = useTenant();
   const [name, setName] = useState('');
   const [url, setUrl] = useState('');
+  const [competitors, setCompetitors] = useState<string[]>([]);
+  const [businessModel, setBusinessModel] = useState<BusinessModel | null>(null);
+  const [modelSource, setModelSource] = useState<'detected' | 'chosen' | null>(null);
+  const [isDetecting, setIsDetecting] = useState(false);
+  const latestUrl = useRef('');
+  const hasChosen = useRef(false);
+
+  // Pre-select the question pack from the site, unless the visitor already chose one
+  const handleUrlBlur = async () => {
+    const target = url.trim();
+    if (!target || hasChosen.current || target === latestUrl.current) return;
+    latestUrl.current = target;
+    setIsDetecting(true);
+    const classification = await classifyBusiness(target);
+    setIsDetecting(false);
+    // Ignore answers for a URL that has since been edited, or a choice made meanwhile
+    if (latestUrl.current !== target || !classification || hasChosen.current) return;
+    setBusinessModel(classification.model);
+    setModelSource('detected');
+  };
+
+  const chooseModel = (model: BusinessModel) => {
+    hasChosen.current = true;
+    setBusinessModel(model);
+    setModelSource('chosen');
+  };
+
+  const updateCompetitor = (index: number, value: string) => {
+    setCompetitors(prev => prev.map((c, i) => (i === index ? value : c)));
+  };
+
+  const removeCompetitor = (index: number) => {
+    setCompetitors(prev => prev.filter((_, i) => i !== index));
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (name && url) {
-      onNext({ name, url });
+      const filled = competitors.map(c => c.trim()).filter(Boolean);
+      onNext({
+        name,
+        url,
+        ...(filled.length > 0 ? { competitors: filled } : {}),
+        ...(businessModel ? { businessModel } : {})
+      });
     }
   };
 
@@ -25,7 +72,7 @@ export const InputStep: React.FC<InputStepProps> = ({ onNext }) => {
             BRAND SCORE
           </h1>
           <p className="text-gray-500 tracking-wide uppercase text-xs font-semibold">
-            The Zouhall Intelligence Engine
+            {t('input.subtitle', { agency: tenant.name })}
           </p>
         </div>
 
@@ -33,7 +80,7 @@ export const InputStep: React.FC<InputStepProps> = ({ onNext }) => {
           <div className="space-y-6">
             <div className="group relative">
               <label htmlFor="brand" className="block text-xs uppercase tracking-widest text-gray-500 mb-2">
-                Brand Name
+                {t('input.brandName')}
               </label>
               <input
                 id="brand"
@@ -48,26 +95,88 @@ export const InputStep: React.FC<InputStepProps> = ({ onNext }) => {
             
             <div className="group relative">
               <label htmlFor="url" className="block text-xs uppercase tracking-widest text-gray-500 mb-2">
-                Website URL
+                {t('input.url')}
               </label>
               <input
                 id="url"
                 type="url"
+                dir="ltr"
                 value={url}
                 onChange={(e) => setUrl(e.target.value)}
+                onBlur={handleUrlBlur}
                 placeholder="https://acme.com"
                 className="w-full bg-transparent border-b border-gray-800 py-4 text-xl md:text-2xl text-white placeholder-gray-800 focus:outline-none focus:border-white transition-colors"
                 required
               />
             </div>
+
+            <div className="space-y-3">
+              <span className="block text-xs uppercase tracking-widest text-gray-500">
+                {t('input.businessModel')}
+                {isDetecting && <span className="text-gray-700"> — {t('input.detecting')}</span>}
+                {!isDetecting && modelSource === 'detected' && <span className="text-gray-700"> — {t('input.detected')}</span>}
+              </span>
+              <div className="grid grid-cols-2 gap-2">
+                {BUSINESS_MODELS.map(model => (
+                  <button
+                    key={model}
+                    type="button"
+                    onClick={() => chooseModel(model)}
+                    aria-pressed={businessModel === model}
+                    className={`py-3 px-2 text-[10px] font-bold uppercase tracking-widest border transition-colors ${
+                      businessModel === model
+                        ? 'bg-white text-black border-white'
+                        : 'text-gray-500 border-gray-800 hover:border-white hover:text-white'
+                    }`}
+                  >
+                    {t(`pack.${model}`)}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <span className="block text-xs uppercase tracking-widest text-gray-500">
+                {t('input.competitors')} <span className="text-gray-700">{t('input.optional')}</span>
+              </span>
+              {competitors.map((competitor, i) => (
+                <div key={i} className="flex items-center gap-3">
+                  <input
+                    type="url"
+                    dir="ltr"
+                    aria-label={t('input.competitorUrl', { number: i + 1 })}
+                    value={competitor}
+                    onChange={(e) => updateCompetitor(i, e.target.value)}
+                    placeholder="https://rival.com"
+                    className="flex-1 bg-transparent border-b border-gray-800 py-2 text-base text-white placeholder-gray-800 focus:outline-none focus:border-white transition-colors"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => removeCompetitor(i)}
+                    className="text-[10px] uppercase tracking-widest text-gray-600 hover:text-white transition-colors"
+                  >
+                    {t('input.remove')}
+                  </button>
+                </div>
+              ))}
+              {competitors.length < MAX_COMPETITORS && (
+                <button
+                  type="button"
+                  onClick={() => setCompetitors(prev => [...prev, ''])}
+                  className="text-[10px] uppercase tracking-widest text-gray-500 hover:text-white transition-colors"
+                >
+                  {t('input.addCompetitor')}
+                </button>
+              )}
+            </div>
           </div>
 
           <div className="pt-8">
             <Button type="submit" fullWidth disabled={!name || !url}>
-              Begin Audit
+              {t('input.submit')}
             </Button>
             <p className="mt-4 text-center text-[10px] uppercase tracking-widest text-gray-600">
-              Analysis takes approx 2 minutes
+              {t('input.duration')}
             </p>
           </div>
         </form>
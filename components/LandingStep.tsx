@@ -1,5 +1,6 @@
 import React from 'react';
 import { Button } from './Button';
+import { useLocale } from './LocaleProvider';
 
 interface LandingStepProps {
   onStart: () => void;
@@ -30,6 +31,8 @@ const IconReport = () => (
 );
 
 export const LandingStep: React.FC<LandingStepProps> = ({ onStart }) => {
+  const { t } = useLocale();
+
   return (
     <div className="w-full bg-black text-white font-sans selection:bg-white selection:text-black">
       
@@ -51,15 +54,15 @@ export const LandingStep: React.FC<LandingStepProps> = ({ onStart }) => {
           </h1>
 
           <p className="max-w-xl text-lg md:text-xl text-zinc-400 font-light leading-relaxed mb-12">
-            Stop guessing. We analyze your website and strategy to find out exactly what's holding your business back.
+            {t('landing.tagline')}
           </p>
 
           <div className="w-full max-w-xs mb-16">
             <Button onClick={onStart} fullWidth className="h-16 text-lg hover:bg-zinc-200 transition-colors">
-              Start Audit Now
+              {t('landing.start')}
             </Button>
             <p className="mt-4 text-[10px] text-zinc-600 uppercase tracking-widest">
-              Takes approx 2 minutes
+              {t('landing.duration')}
             </p>
           </div>
         </div>
@@ -72,17 +75,17 @@ export const LandingStep: React.FC<LandingStepProps> = ({ onStart }) => {
 
       {/* --- THE PROBLEM / WHY --- */}
       <section className="relative z-10 py-24 md:py-32 px-6 border-t border-zinc-900 bg-black">
-        <div className="max-w-4xl mx-auto text-center md:text-left">
+        <div className="max-w-4xl mx-auto text-center md:text-start">
            <h2 className="text-4xl md:text-5xl font-bold tracking-tighter mb-8 leading-tight">
-             GUESSWORK IS <br/>
-             <span className="text-zinc-600">COSTING YOU MONEY.</span>
+             {t('landing.problemTitle')} <br/>
+             <span className="text-zinc-600">{t('landing.problemTitleMuted')}</span>
            </h2>
            <div className="grid md:grid-cols-2 gap-12 text-lg text-zinc-400 font-light leading-relaxed">
              <p>
-               Looking good isn't enough. Your website needs to work, your ads need to convert, and your strategy needs to be solid to actually grow.
+               {t('landing.problemBody1')}
              </p>
              <p>
-               We built a tool that checks your business across 6 key areas to show you exactly where you can improve and how to fix it.
+               {t('landing.problemBody2')}
              </p>
            </div>
         </div>
@@ -94,11 +97,11 @@ export const LandingStep: React.FC<LandingStepProps> = ({ onStart }) => {
         <div className="max-w-6xl mx-auto">
            <div className="flex flex-col md:flex-row justify-between items-start md:items-end mb-16 gap-6">
               <div>
-                <h2 className="text-sm font-bold text-zinc-500 uppercase tracking-widest mb-2">The Methodology</h2>
-                <h3 className="text-4xl md:text-5xl font-bold text-white tracking-tight">Two-Step Analysis</h3>
+                <h2 className="text-sm font-bold text-zinc-500 uppercase tracking-widest mb-2">{t('landing.methodology')}</h2>
+                <h3 className="text-4xl md:text-5xl font-bold text-white tracking-tight">{t('landing.twoStep')}</h3>
               </div>
               <Button onClick={onStart} variant="outline" className="px-8">
-                Start Audit Now
+                {t('landing.start')}
               </Button>
            </div>
 
@@ -106,18 +109,18 @@ export const LandingStep: React.FC<LandingStepProps> = ({ onStart }) => {
               {/* Card 1 */}
               <div className="p-8 border border-zinc-800 bg-black hover:border-zinc-600 transition-colors duration-500 group">
                  <div className="text-6xl font-thin text-zinc-800 mb-6 group-hover:text-white transition-colors">01</div>
-                 <h4 className="text-xl font-bold text-white uppercase tracking-wide mb-4">Technical Check</h4>
+                 <h4 className="text-xl font-bold text-white uppercase tracking-wide mb-4">{t('landing.technicalTitle')}</h4>
                  <p className="text-zinc-400 leading-relaxed">
-                   We automatically scan your website to see how fast it loads, if it works well on mobile, and if it's built correctly for Google.
+                   {t('landing.technicalBody')}
                  </p>
               </div>
 
               {/* Card 2 */}
               <div className="p-8 border border-zinc-800 bg-black hover:border-zinc-600 transition-colors duration-500 group">
                  <div className="text-6xl font-thin text-zinc-800 mb-6 group-hover:text-white transition-colors">02</div>
-                 <h4 className="text-xl font-bold text-white uppercase tracking-wide mb-4">Strategy Check</h4>
+                 <h4 className="text-xl font-bold text-white uppercase tracking-wide mb-4">{t('landing.strategyTitle')}</h4>
                  <p className="text-zinc-400 leading-relaxed">
-                   We ask you a few simple questions about your marketing and sales to see if your internal systems are actually set up for growth.
+                   {t('landing.strategyBody')}
                  </p>
               </div>
            </div>
@@ -129,7 +132,7 @@ export const LandingStep: React.FC<LandingStepProps> = ({ onStart }) => {
       <section className="relative z-10 py-24 px-6 border-t border-zinc-900 bg-black">
         <div className="max-w-5xl mx-auto">
           <div className="text-center mb-16">
-            <h2 className="text-sm font-bold text-zinc-500 uppercase tracking-widest">How It Works</h2>
+            <h2 className="text-sm font-bold text-zinc-500 uppercase tracking-widest">{t('landing.howItWorks')}</h2>
           </div>
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-12">
@@ -138,9 +141,9 @@ export const LandingStep: React.FC<LandingStepProps> = ({ onStart }) => {
               <div className="w-20 h-20 border border-zinc-800 rounded-full flex items-center justify-center mb-6 bg-zinc-900">
                 <IconScan />
               </div>
-              <h4 className="text-lg font-bold text-white uppercase tracking-widest mb-3">Scan</h4>
+              <h4 className="text-lg font-bold text-white uppercase tracking-widest mb-3">{t('landing.scanTitle')}</h4>
               <p className="text-sm text-zinc-500 leading-relaxed max-w-xs">
-                Enter your website URL. We instantly check if your site is fast and healthy.
+                {t('landing.scanBody')}
               </p>
             </div>
 
@@ -148,9 +151,9 @@ export const LandingStep: React.FC<LandingStepProps> = ({ onStart }) => {
               <div className="w-20 h-20 border border-zinc-800 rounded-full flex items-center justify-center mb-6 bg-zinc-900">
                 <IconAnalysis />
               </div>
-              <h4 className="text-lg font-bold text-white uppercase tracking-widest mb-3">Quiz</h4>
+              <h4 className="text-lg font-bold text-white uppercase tracking-widest mb-3">{t('landing.quizTitle')}</h4>
               <p className="text-sm text-zinc-500 leading-relaxed max-w-xs">
-                Answer a few yes/no questions about how you run your marketing.
+                {t('landing.quizBody')}
               </p>
             </div>
 
@@ -158,9 +161,9 @@ export const LandingStep: React.FC<LandingStepProps> = ({ onStart }) => {
               <div className="w-20 h-20 border border-zinc-800 rounded-full flex items-center justify-center mb-6 bg-zinc-900">
                 <IconReport />
               </div>
-              <h4 className="text-lg font-bold text-white uppercase tracking-widest mb-3">Results</h4>
+              <h4 className="text-lg font-bold text-white uppercase tracking-widest mb-3">{t('landing.resultsTitle')}</h4>
               <p className="text-sm text-zinc-500 leading-relaxed max-w-xs">
-                Get your Brand Score and a simple list of things to fix right away.
+                {t('landing.resultsBody')}
               </p>
             </div>
 
@@ -172,15 +175,15 @@ export const LandingStep: React.FC<LandingStepProps> = ({ onStart }) => {
       {/* --- FINAL CTA --- */}
       <section className="relative z-10 py-32 px-6 border-t border-zinc-900 flex flex-col items-center text-center bg-zinc-950">
          <h2 className="text-5xl md:text-7xl font-bold tracking-tighter mb-8 text-white">
-            GET YOUR<br/>BRAND SCORE
+            {t('landing.finalTitle')}<br/>{t('landing.finalTitleStrong')}
          </h2>
          <p className="text-zinc-400 max-w-lg mb-12 text-lg font-light">
-            The audit is free. The insights are powerful. <br/>
-            See how you stack up.
+            {t('landing.finalBody1')} <br/>
+            {t('landing.finalBody2')}
          </p>
          <div className="w-full max-w-sm">
             <Button onClick={onStart} fullWidth className="h-16 text-lg shadow-[0_0_40px_-10px_rgba(255,255,255,0.1)]">
-               Start Audit Now
+               {t('landing.start')}
             </Button>
          </div>
       </section>
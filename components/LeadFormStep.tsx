@@ -1,41 +1,16 @@
 import React, { useState } from 'react';
 import { LeadInfo } from '../types';
 import { Button } from './Button';
+import { LEAD_COMPANY_SIZES, LEAD_POSITIONS, LEAD_REVENUE_RANGES } from '../constants';
+import { useLocale } from './LocaleProvider';
+import { track } from '../services/analytics';
 
 interface LeadFormStepProps {
   onComplete: (info: LeadInfo) => void;
 }
 
-const POSITIONS = [
-  "Owner / Founder",
-  "CEO / President",
-  "CMO / Marketing Director",
-  "Product Manager",
-  "Sales Director",
-  "Other"
-];
-
-const REVENUE_RANGES = [
-  "Pre-Revenue",
-  "$0 - $100k",
-  "$100k - $500k",
-  "$500k - $1M",
-  "$1M - $5M",
-  "$5M - $10M",
-  "$10M+",
-  "Prefer not to say"
-];
-
-const COMPANY_SIZES = [
-  "1-5 Employees",
-  "6-20 Employees",
-  "21-50 Employees",
-  "51-200 Employees",
-  "200+ Employees",
-  "Prefer not to say"
-];
-
 export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
+  const { t, option } = useLocale();
   const [formStep, setFormStep] = useState<1 | 2>(1);
   
   // Step 1 Fields
@@ -54,6 +29,7 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
   const handleNext = (e: React.FormEvent) => {
     e.preventDefault();
     if (firstName && lastName && email && phone && position) {
+      track('lead_form_step_completed', { detail: '1' });
       setFormStep(2);
     }
   };
@@ -62,6 +38,7 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
     e.preventDefault();
     if (revenue && companySize) {
       setIsSubmitting(true);
+      track('lead_form_step_completed', { detail: '2' });
       onComplete({ 
         firstName, 
         lastName, 
@@ -82,15 +59,13 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
         {/* Header Section */}
         <div className="space-y-4 text-center">
           <div className="inline-block px-3 py-1 border border-white text-white bg-zinc-900 text-[10px] tracking-widest uppercase mb-4">
-            Analysis Ready
+            {t('lead.badge')}
           </div>
           <h2 className="text-4xl md:text-5xl font-bold tracking-tighter text-white">
-            {formStep === 1 ? "Who are you?" : "About the Business"}
+            {formStep === 1 ? t('lead.contactTitle') : t('lead.businessTitle')}
           </h2>
           <p className="text-zinc-400 text-sm max-w-xs mx-auto leading-relaxed">
-            {formStep === 1 
-              ? "We need to know who to address the forensic report to." 
-              : "This helps us benchmark your score against similar sized companies."}
+            {formStep === 1 ? t('lead.contactIntro') : t('lead.businessIntro')}
           </p>
         </div>
 
@@ -100,7 +75,7 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
             <div className="grid grid-cols-2 gap-6">
               <div className="group relative">
                 <label htmlFor="firstName" className="block text-xs uppercase tracking-widest text-gray-500 mb-2">
-                  First Name
+                  {t('lead.firstName')}
                 </label>
                 <input
                   id="firstName"
@@ -114,7 +89,7 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
               </div>
               <div className="group relative">
                 <label htmlFor="lastName" className="block text-xs uppercase tracking-widest text-gray-500 mb-2">
-                  Last Name
+                  {t('lead.lastName')}
                 </label>
                 <input
                   id="lastName"
@@ -130,7 +105,7 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
 
             <div className="group relative">
               <label htmlFor="position" className="block text-xs uppercase tracking-widest text-gray-500 mb-2">
-                Position
+                {t('lead.position')}
               </label>
               <div className="relative">
                 <select
@@ -140,12 +115,12 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
                   className="w-full bg-black border-b border-gray-800 py-3 text-lg text-white appearance-none focus:outline-none focus:border-white transition-colors cursor-pointer"
                   required
                 >
-                  <option value="" disabled className="text-zinc-700">Select your role</option>
-                  {POSITIONS.map(pos => (
-                    <option key={pos} value={pos}>{pos}</option>
+                  <option value="" disabled className="text-zinc-700">{t('lead.positionPlaceholder')}</option>
+                  {LEAD_POSITIONS.map(pos => (
+                    <option key={pos} value={pos}>{option(pos)}</option>
                   ))}
                 </select>
-                <div className="absolute right-0 top-4 pointer-events-none text-gray-500">
+                <div className="absolute end-0 top-4 pointer-events-none text-gray-500">
                   <svg className="w-4 h-4 fill-current" viewBox="0 0 20 20"><path d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z"/></svg>
                 </div>
               </div>
@@ -153,11 +128,12 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
 
             <div className="group relative">
               <label htmlFor="email" className="block text-xs uppercase tracking-widest text-gray-500 mb-2">
-                Work Email
+                {t('lead.email')}
               </label>
               <input
                 id="email"
                 type="email"
+                dir="ltr"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 placeholder="jane@company.com"
@@ -168,11 +144,12 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
 
             <div className="group relative">
               <label htmlFor="phone" className="block text-xs uppercase tracking-widest text-gray-500 mb-2">
-                Mobile Number
+                {t('lead.phone')}
               </label>
               <input
                 id="phone"
                 type="tel"
+                dir="ltr"
                 value={phone}
                 onChange={(e) => setPhone(e.target.value)}
                 placeholder="+1 (555) 000-0000"
@@ -183,7 +160,7 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
 
             <div className="pt-4">
               <Button type="submit" fullWidth disabled={!firstName || !lastName || !position || !email || !phone}>
-                Next Step &rarr;
+                {t('lead.next')} <span className="inline-block rtl:-scale-x-100">&rarr;</span>
               </Button>
             </div>
           </form>
@@ -195,7 +172,7 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
              <div className="grid grid-cols-1 gap-8">
                 <div className="group relative">
                     <label htmlFor="revenue" className="block text-xs uppercase tracking-widest text-gray-500 mb-2">
-                    Annual Revenue
+                    {t('lead.revenue')}
                     </label>
                     <div className="relative">
                     <select
@@ -206,12 +183,12 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
                         required
                         disabled={isSubmitting}
                     >
-                        <option value="" disabled className="text-zinc-700">Select Revenue</option>
-                        {REVENUE_RANGES.map(range => (
-                        <option key={range} value={range}>{range}</option>
+                        <option value="" disabled className="text-zinc-700">{t('lead.revenuePlaceholder')}</option>
+                        {LEAD_REVENUE_RANGES.map(range => (
+                        <option key={range} value={range}>{option(range)}</option>
                         ))}
                     </select>
-                    <div className="absolute right-0 top-4 pointer-events-none text-gray-500">
+                    <div className="absolute end-0 top-4 pointer-events-none text-gray-500">
                         <svg className="w-4 h-4 fill-current" viewBox="0 0 20 20"><path d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z"/></svg>
                     </div>
                     </div>
@@ -219,7 +196,7 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
 
                 <div className="group relative">
                     <label htmlFor="companySize" className="block text-xs uppercase tracking-widest text-gray-500 mb-2">
-                    Company Size
+                    {t('lead.companySize')}
                     </label>
                     <div className="relative">
                     <select
@@ -230,12 +207,12 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
                         required
                         disabled={isSubmitting}
                     >
-                        <option value="" disabled className="text-zinc-700">Select Size</option>
-                        {COMPANY_SIZES.map(size => (
-                        <option key={size} value={size}>{size}</option>
+                        <option value="" disabled className="text-zinc-700">{t('lead.companySizePlaceholder')}</option>
+                        {LEAD_COMPANY_SIZES.map(size => (
+                        <option key={size} value={size}>{option(size)}</option>
                         ))}
                     </select>
-                    <div className="absolute right-0 top-4 pointer-events-none text-gray-500">
+                    <div className="absolute end-0 top-4 pointer-events-none text-gray-500">
                         <svg className="w-4 h-4 fill-current" viewBox="0 0 20 20"><path d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z"/></svg>
                     </div>
                     </div>
@@ -244,7 +221,7 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
 
               <div className="pt-8">
                 <Button type="submit" fullWidth disabled={!revenue || !companySize || isSubmitting}>
-                  {isSubmitting ? "Generating Report..." : "Get My Score"}
+                  {isSubmitting ? t('lead.submitting') : t('lead.submit')}
                 </Button>
                 <div className="mt-4 flex justify-between items-center text-[10px] text-zinc-600">
                    <button 
@@ -253,9 +230,9 @@ export const LeadFormStep: React.FC<LeadFormStepProps> = ({ onComplete }) => {
                      className="underline hover:text-white"
                      disabled={isSubmitting}
                    >
-                     &larr; Back
+                     <span className="inline-block rtl:-scale-x-100">&larr;</span> {t('lead.back')}
                    </button>
-                   <span>Forensic Audit v1.0</span>
+                   <span>{t('lead.version')}</span>
                 </div>
               </div>
           </form>
@@ -1,64 +1,55 @@
 import React, { useEffect, useState } from 'react';
+import { AuditJob, AuditJobStatus } from '../types';
+import { MessageKey } from '../services/i18n';
+import { useLocale } from './LocaleProvider';
 
 interface LoadingStepProps {
   customMessage?: string | null;
+  job?: AuditJob | null;
 }
 
-const FACTS = [
-  "DID YOU KNOW? 79% of marketing leads never convert into sales due to a lack of lead nurturing.",
-  "AI INSIGHT: 90% of the world's data was generated in the last two years alone.",
-  "FUNNEL FACT: The concept of the 'Purchase Funnel' was developed in 1898 by St. Elmo Lewis.",
-  "TECH TRIVIA: The first website is still online. It was published in 1991 by CERN.",
-  "SPEED MATTERS: A 1-second delay in page load time yields 11% fewer page views and 7% loss in conversions.",
-  "AI INSIGHT: Google's AI algorithms now prioritize 'Helpful Content' over keyword stuffing.",
-  "DID YOU KNOW? It takes about 0.05 seconds for users to form an opinion about your website.",
-  "GROWTH HACK: Personalized emails deliver 6x higher transaction rates.",
-  "TECH TRIVIA: The average person touches their phone 2,617 times a day.",
-  "AI INSIGHT: Generative AI is expected to add $4.4 trillion to the global economy annually."
+const STAGE_LABELS: Record<AuditJobStatus, MessageKey> = {
+  queued: 'loading.queued',
+  crawling: 'loading.crawling',
+  analyzing: 'loading.analyzing',
+  saving: 'loading.saving',
+  done: 'loading.done',
+  failed: 'loading.failed'
+};
+
+// Stages shown in the progress tracker, in pipeline order
+const TRACKED_STAGES: { status: AuditJobStatus; label: MessageKey }[] = [
+  { status: 'crawling', label: 'loading.stageScan' },
+  { status: 'analyzing', label: 'loading.stageAnalyze' },
+  { status: 'saving', label: 'loading.stageSave' }
 ];
 
-export const LoadingStep: React.FC<LoadingStepProps> = ({ customMessage }) => {
-  const [text, setText] = useState("Initializing Core Systems");
+export const LoadingStep: React.FC<LoadingStepProps> = ({ customMessage, job }) => {
+  const { t, facts } = useLocale();
   const [elapsed, setElapsed] = useState(0);
   const [factIndex, setFactIndex] = useState(0);
-  
-  const phases = [
-    "Establishing Secure Connection...",
-    "Scanning Digital Footprint...",
-    "Analyzing Brand Architecture...",
-    "Measuring Market Resonance...",
-    "Detecting Perception Gaps...",
-    "Synthesizing Strategic Report...",
-    "Finalizing Momentum Score..."
-  ];
 
-  // Phase Rotation
-  useEffect(() => {
-    if (customMessage) return;
-    let i = 0;
-    const interval = setInterval(() => {
-      setText(phases[i % phases.length]);
-      i++;
-    }, 1800);
-    return () => clearInterval(interval);
-  }, [customMessage]);
+  const status: AuditJobStatus = job?.status || 'queued';
+  const text = t(STAGE_LABELS[status]);
+  const stageIndex = TRACKED_STAGES.findIndex(s => s.status === status);
 
-  // Timer Logic
+  // Timer Logic (measured from job creation so a resumed audit shows real elapsed time)
+  const jobCreatedAt = job?.createdAt;
   useEffect(() => {
-    const startTime = Date.now();
+    const startTime = jobCreatedAt ? Date.parse(jobCreatedAt) : Date.now();
     const interval = setInterval(() => {
-      setElapsed(Date.now() - startTime);
+      setElapsed(Math.max(0, Date.now() - startTime));
     }, 37); // ~30fps update for visual smoothness without lag
     return () => clearInterval(interval);
-  }, []);
+  }, [jobCreatedAt]);
 
   // Fact Rotation
   useEffect(() => {
     const interval = setInterval(() => {
-      setFactIndex((prev) => (prev + 1) % FACTS.length);
+      setFactIndex((prev) => (prev + 1) % facts.length);
     }, 4500); // Change fact every 4.5 seconds
     return () => clearInterval(interval);
-  }, []);
+  }, [facts.length]);
 
   const formatTime = (ms: number) => {
     const seconds = Math.floor(ms / 1000);
@@ -88,13 +79,31 @@ export const LoadingStep: React.FC<LoadingStepProps> = ({ customMessage }) => {
       {/* 2. Status Message */}
       <div className="space-y-2 text-center mb-12">
         <h2 className="text-xl font-bold tracking-[0.2em] text-white animate-pulse">
-          {customMessage ? "SECURE LOAD" : "AUDITING SYSTEM"}
+          {customMessage ? t('loading.secureLoad') : t('loading.auditing')}
         </h2>
         <p className="font-mono text-xs text-zinc-500 tracking-widest uppercase">
           {customMessage || text}
         </p>
       </div>
 
+      {/* 2b. Stage Tracker */}
+      {!customMessage && (
+        <div className="flex items-center gap-3 mb-12 font-mono text-[10px] uppercase tracking-widest">
+          {TRACKED_STAGES.map((stage, i) => {
+            const isDone = status === 'done' || (stageIndex > -1 && i < stageIndex);
+            const isActive = i === stageIndex;
+            return (
+              <React.Fragment key={stage.status}>
+                {i > 0 && <span className="w-6 h-px bg-zinc-800"></span>}
+                <span className={isActive ? 'text-white animate-pulse' : isDone ? 'text-zinc-400' : 'text-zinc-700'}>
+                  {isDone ? '✓ ' : ''}{t(stage.label)}
+                </span>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
+
       {/* 3. Trivia Module */}
       {!customMessage && (
         <div className="w-full px-6 max-w-lg">
@@ -106,7 +115,7 @@ export const LoadingStep: React.FC<LoadingStepProps> = ({ customMessage }) => {
             <div className="absolute bottom-2 right-2 w-2 h-2 border-b border-r border-zinc-500"></div>
 
             <p key={factIndex} className="text-sm text-zinc-300 font-medium leading-relaxed animate-fade-in">
-              {FACTS[factIndex]}
+              {facts[factIndex % facts.length]}
             </p>
           </div>
         </div>
@@ -115,11 +124,11 @@ export const LoadingStep: React.FC<LoadingStepProps> = ({ customMessage }) => {
       {/* 4. Warning Footer */}
       {!customMessage && (
         <div className="absolute bottom-0 pt-12 pb-4 text-center">
-           <p className="text-red-600 text-[10px] font-bold tracking-[0.2em] uppercase animate-pulse">
-             Do not close this window
+           <p className="text-zinc-500 text-[10px] font-bold tracking-[0.2em] uppercase">
+             {t('loading.inProgress')}
            </p>
            <p className="text-zinc-700 text-[10px] mt-2 font-mono">
-             Forensic analysis in progress...
+             {t('loading.resumeHint')}
            </p>
         </div>
       )}
@@ -0,0 +1,58 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from '../types';
+import { createTranslator, isLocale, matchLocale, Translator } from '../services/i18n';
+
+// Remembers the visitor's language choice across visits
+const LOCALE_STORAGE_KEY = 'brandscore:locale';
+
+interface LocaleContextValue extends Translator {
+  setLocale: (locale: Locale) => void;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+// Throws in frames whose third-party storage is blocked (the embed widget)
+const readSavedLocale = (): string | null => {
+  try {
+    return localStorage.getItem(LOCALE_STORAGE_KEY);
+  } catch (e) {
+    return null;
+  }
+};
+
+// ?lang= (campaign links) wins, then the saved choice, then the browser languages
+const detectInitialLocale = (): Locale => {
+  const fromUrl = new URLSearchParams(window.location.search).get('lang');
+  const saved = readSavedLocale();
+  if (isLocale(fromUrl)) return fromUrl;
+  if (isLocale(saved)) return saved;
+  return matchLocale(navigator.languages || [navigator.language]);
+};
+
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectInitialLocale);
+
+  const value = useMemo<LocaleContextValue>(() => ({
+    ...createTranslator(locale),
+    setLocale: (next: Locale) => {
+      try {
+        localStorage.setItem(LOCALE_STORAGE_KEY, next);
+      } catch (e) { /* storage unavailable: the choice lasts until reload */ }
+      setLocaleState(next);
+    }
+  }), [locale]);
+
+  // Keeps lang/dir on <html> in sync so every step (and the browser) follows the locale
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = value.dir;
+  }, [locale, value.dir]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export const useLocale = (): LocaleContextValue => {
+  const context = useContext(LocaleContext);
+  if (!context) throw new Error("useLocale must be used inside LocaleProvider");
+  return context;
+};
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { useLocale } from './LocaleProvider';
+import { MessageKey } from '../services/i18n';
+import { ApiError, openOwnerSession, requestOwnerCode } from '../services/apiClient';
+
+interface OwnerAccessStepProps {
+  auditId: string;
+  onVerified: (ownerToken: string) => void;
+}
+
+// Server status -> message, for sending the code and for checking it
+const SEND_ERRORS: Record<number, MessageKey> = { 404: 'access.notFound', 429: 'access.tooSoon' };
+const VERIFY_ERRORS: Record<number, MessageKey> = { 401: 'access.invalid', 410: 'access.expired', 429: 'access.locked' };
+
+const errorKey = (err: unknown, known: Record<number, MessageKey>): MessageKey =>
+  (err instanceof ApiError && known[err.status]) || 'access.error';
+
+/**
+ * Gate in front of a stored report (?id=): the owner asks for a code by email
+ * and types it in. The code is only sent on request, so link previews and
+ * scanners opening the URL don't trigger emails.
+ */
+export const OwnerAccessStep: React.FC<OwnerAccessStepProps> = ({ auditId, onVerified }) => {
+  const { t } = useLocale();
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const handleSend = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { sentTo: maskedEmail } = await requestOwnerCode(auditId);
+      setSentTo(maskedEmail);
+      setCode('');
+    } catch (err) {
+      setError(errorKey(err, SEND_ERRORS));
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      const session = await openOwnerSession(auditId, code);
+      onVerified(session.token);
+    } catch (err) {
+      setError(errorKey(err, VERIFY_ERRORS));
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[60vh] animate-fade-in px-4 py-8">
+      <div className="w-full max-w-md space-y-8 text-center">
+        <div className="space-y-4">
+          <h2 className="text-4xl font-bold tracking-tighter text-white">{t('access.title')}</h2>
+          <p className="text-zinc-400 text-sm leading-relaxed">
+            {sentTo ? t('access.sent', { email: sentTo }) : t('access.body')}
+          </p>
+        </div>
+
+        {sentTo ? (
+          <form onSubmit={handleVerify} className="space-y-8">
+            <div>
+              <label htmlFor="ownerCode" className="block text-xs uppercase tracking-widest text-gray-500 mb-2">
+                {t('access.codeLabel')}
+              </label>
+              <input
+                id="ownerCode"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                dir="ltr"
+                maxLength={6}
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+                placeholder="000000"
+                className="w-full bg-transparent border-b border-gray-800 py-3 text-3xl text-center tracking-[0.5em] font-mono text-white placeholder-zinc-800 focus:outline-none focus:border-white transition-colors"
+                required
+              />
+            </div>
+            <Button type="submit" fullWidth disabled={isBusy || code.length !== 6}>{t('access.verify')}</Button>
+            <button
+              type="button"
+              onClick={handleSend}
+              disabled={isBusy}
+              className="text-xs text-zinc-500 underline underline-offset-4 hover:text-white disabled:opacity-50"
+            >
+              {t('access.resend')}
+            </button>
+          </form>
+        ) : (
+          <Button fullWidth onClick={handleSend} disabled={isBusy}>{t('access.send')}</Button>
+        )}
+
+        {error && <p role="alert" className="text-sm text-red-400">{t(error)}</p>}
+      </div>
+    </div>
+  );
+};
@@ -1,17 +1,71 @@
-import React, { useState } from 'react';
-import { Question, UserResponse } from '../types';
-import { QUESTIONS } from '../constants';
+import React, { useEffect, useState } from 'react';
+import { Question, Questionnaire, UserResponse } from '../types';
+import { getNextQuestion, getVisibleQuestions, SCALE_MAX, SCALE_MIN } from '../services/questionnaire';
+import { track } from '../services/analytics';
 import { Button } from './Button';
+import { useLocale } from './LocaleProvider';
 
 interface QuizStepProps {
+  questionnaire: Questionnaire; // From the question pack chosen in InputStep
   onComplete: (responses: UserResponse[]) => void;
 }
 
-export const QuizStep: React.FC<QuizStepProps> = ({ onComplete }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
+// Free-number answer with its unit, submitted with an explicit Continue
+const NumericAnswer: React.FC<{ question: Question; onSubmit: (value: number) => void }> = ({ question, onSubmit }) => {
+  const { t } = useLocale();
+  const [value, setValue] = useState('');
+  const range = question.range;
+  const parsed = value.trim() === '' ? NaN : Number(value);
+  const isValid = Number.isFinite(parsed) && (!range || (parsed >= range.min && parsed <= range.max));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValid) onSubmit(parsed);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-8">
+      <div className="flex items-end gap-4 border-b border-gray-800 focus-within:border-white transition-colors">
+        <input
+          type="number"
+          inputMode="decimal"
+          aria-label={question.text}
+          min={range?.min}
+          max={range?.max}
+          step="any"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="0"
+          autoFocus
+          className="flex-1 bg-transparent py-4 text-5xl font-light text-white placeholder-gray-800 focus:outline-none"
+        />
+        {range?.unit && <span className="pb-5 text-2xl text-gray-500">{range.unit}</span>}
+      </div>
+      <Button type="submit" fullWidth disabled={!isValid}>
+        {t('quiz.continue')}
+      </Button>
+    </form>
+  );
+};
+
+export const QuizStep: React.FC<QuizStepProps> = ({ questionnaire, onComplete }) => {
+  const { t, category, question } = useLocale();
   const [responses, setResponses] = useState<UserResponse[]>([]);
 
-  const currentQuestion: Question = QUESTIONS[currentIndex];
+  // Branching: the visible set depends on the answers given so far
+  const visibleQuestions = getVisibleQuestions(questionnaire, responses);
+  const nextQuestion = getNextQuestion(questionnaire, responses);
+
+  // Per-question drop-off: the last question a session saw is where it left
+  const nextQuestionId = nextQuestion?.id;
+  useEffect(() => {
+    if (nextQuestionId !== undefined) track('question_viewed', { questionId: nextQuestionId, detail: String(responses.length + 1) });
+  }, [nextQuestionId]);
+
+  if (!nextQuestion) return null;
+
+  const currentIndex = visibleQuestions.indexOf(nextQuestion);
+  const currentQuestion = question(nextQuestion); // Wording in the visitor's language
 
   const handleAnswer = (answer: number) => {
     const newResponses = [
@@ -19,25 +73,26 @@ export const QuizStep: React.FC<QuizStepProps> = ({ onComplete }) => {
       { questionId: currentQuestion.id, answer }
     ];
 
-    if (currentIndex < QUESTIONS.length - 1) {
+    if (getNextQuestion(questionnaire, newResponses)) {
       setResponses(newResponses);
-      setCurrentIndex(prev => prev + 1);
     } else {
       onComplete(newResponses);
     }
   };
 
-  const progress = ((currentIndex + 1) / QUESTIONS.length) * 100;
+  const progress = ((currentIndex + 1) / visibleQuestions.length) * 100;
+  const [lowLabel, highLabel] = currentQuestion.scaleLabels || [t('quiz.scaleLow'), t('quiz.scaleHigh')];
+  const scaleValues = Array.from({ length: SCALE_MAX - SCALE_MIN + 1 }, (_, i) => SCALE_MIN + i);
 
   return (
     <div className="max-w-2xl mx-auto min-h-[60vh] flex flex-col justify-center">
       {/* Progress Bar */}
-      <div className="fixed top-0 left-0 h-1 bg-white transition-all duration-500 ease-out" style={{ width: `${progress}%` }} />
+      <div className="fixed top-0 start-0 h-1 bg-white transition-all duration-500 ease-out" style={{ width: `${progress}%` }} />
 
       <div className="space-y-12">
         <div className="space-y-4">
           <span className="text-xs font-bold tracking-widest text-gray-500 uppercase">
-            Query {currentIndex + 1} / {QUESTIONS.length} — {currentQuestion.category}
+            {t('quiz.progress', { current: currentIndex + 1, total: visibleQuestions.length, category: category(currentQuestion.category) })}
           </span>
           <h2 className="text-3xl md:text-4xl font-light leading-tight text-white">
             {currentQuestion.text}
@@ -45,26 +100,28 @@ export const QuizStep: React.FC<QuizStepProps> = ({ onComplete }) => {
         </div>
 
         <div className="grid gap-4 pt-8">
-          {currentQuestion.type === 'boolean' ? (
+          {currentQuestion.type === 'boolean' && (
             <div className="grid grid-cols-2 gap-4">
               <Button onClick={() => handleAnswer(0)} variant="secondary" className="h-32 text-xl">
-                No
+                {t('quiz.no')}
               </Button>
               <Button onClick={() => handleAnswer(1)} variant="outline" className="h-32 text-xl hover:bg-white hover:text-black">
-                Yes
+                {t('quiz.yes')}
               </Button>
             </div>
-          ) : (
+          )}
+
+          {currentQuestion.type === 'scale' && (
             <div className="space-y-6">
               <div className="flex justify-between text-xs uppercase tracking-widest text-gray-500">
-                <span>Poor</span>
-                <span>Exceptional</span>
+                <span>{lowLabel}</span>
+                <span>{highLabel}</span>
               </div>
               <div className="grid grid-cols-5 gap-2">
-                {[1, 2, 3, 4, 5].map((val) => (
-                  <Button 
-                    key={val} 
-                    onClick={() => handleAnswer(val)} 
+                {scaleValues.map((val) => (
+                  <Button
+                    key={val}
+                    onClick={() => handleAnswer(val)}
                     variant="outline"
                     className="h-24 text-2xl font-light"
                   >
@@ -74,8 +131,27 @@ export const QuizStep: React.FC<QuizStepProps> = ({ onComplete }) => {
               </div>
             </div>
           )}
+
+          {currentQuestion.type === 'choice' && (
+            <div className="grid gap-3">
+              {(currentQuestion.options || []).map(option => (
+                <Button
+                  key={option.value}
+                  onClick={() => handleAnswer(option.value)}
+                  variant="outline"
+                  className="h-16 text-base text-start"
+                >
+                  {option.label}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {currentQuestion.type === 'numeric' && (
+            <NumericAnswer key={currentQuestion.id} question={currentQuestion} onSubmit={handleAnswer} />
+          )}
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { AuditShare, TenantConfig } from '../types';
+import { Button } from './Button';
+import { useLocale } from './LocaleProvider';
+import { createShare, listShares, revokeShare } from '../services/apiClient';
+import { shareUrl } from '../services/reportAccess';
+
+interface SharePanelProps {
+  auditId: string;
+  ownerToken: string;
+  tenant: TenantConfig; // Links open under the report's branding
+  onClose: () => void;
+}
+
+// Link lifetimes offered to the owner, in days; null = until revoked
+const EXPIRY_OPTIONS: (number | null)[] = [null, 7, 30];
+
+const isExpired = (share: AuditShare) => !!share.expiresAt && Date.parse(share.expiresAt) <= Date.now();
+
+/**
+ * Owner-only dialog: create share links (public, without the lead's details),
+ * copy them, and revoke the ones that should stop working.
+ */
+export const SharePanel: React.FC<SharePanelProps> = ({ auditId, ownerToken, tenant, onClose }) => {
+  const { t, locale, dir } = useLocale();
+  const [shares, setShares] = useState<AuditShare[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [hasError, setHasError] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    listShares(auditId, ownerToken)
+      .then(setShares)
+      .catch(err => {
+        console.warn("Could not load share links", err);
+        setHasError(true);
+      });
+  }, [auditId, ownerToken]);
+
+  // Runs a change and puts the returned link first (new) or in place (revoked)
+  const update = async (change: () => Promise<AuditShare>) => {
+    setIsBusy(true);
+    setHasError(false);
+    try {
+      const share = await change();
+      setShares(prev => prev.some(s => s.id === share.id) ? prev.map(s => s.id === share.id ? share : s) : [share, ...prev]);
+    } catch (err) {
+      console.warn("Share link update failed", err);
+      setHasError(true);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async (share: AuditShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(tenant, share.token));
+      setCopiedId(share.id);
+    } catch (e) {
+      // Clipboard blocked: the link is still selectable in the field
+    }
+  };
+
+  const statusOf = (share: AuditShare) => {
+    if (share.revokedAt) return t('share.revoked');
+    if (isExpired(share)) return t('share.expired');
+    return share.expiresAt
+      ? t('share.expiresOn', { date: new Date(share.expiresAt).toLocaleDateString(locale) })
+      : t('share.noExpiry');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/80 flex items-center justify-center p-4 no-print" onClick={onClose}>
+      <div
+        dir={dir}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="share-title"
+        className="w-full max-w-xl bg-zinc-950 border border-zinc-800 p-8 space-y-6 max-h-[90vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <h2 id="share-title" className="text-2xl font-bold tracking-tight text-white">{t('share.title')}</h2>
+            <p className="text-sm text-zinc-400 mt-2">{t('share.body')}</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-xs uppercase tracking-widest text-zinc-500 hover:text-white">
+            {t('share.close')}
+          </button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 sm:items-end">
+          <div className="flex-grow">
+            <label htmlFor="share-expiry" className="block text-[10px] uppercase tracking-widest text-zinc-500 mb-1">{t('share.expiry')}</label>
+            <select
+              id="share-expiry"
+              value={expiresInDays ?? ''}
+              onChange={e => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+              className="w-full bg-zinc-950 border border-zinc-800 px-3 py-2 text-sm text-white focus:outline-none focus:border-white"
+            >
+              {EXPIRY_OPTIONS.map(days => (
+                <option key={days ?? 'never'} value={days ?? ''}>
+                  {days ? t('share.days', { days }) : t('share.never')}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button className="text-xs py-2 px-4" disabled={isBusy} onClick={() => update(() => createShare(auditId, ownerToken, expiresInDays))}>
+            {t('share.create')}
+          </Button>
+        </div>
+
+        {hasError && <p role="alert" className="text-sm text-red-400">{t('share.error')}</p>}
+
+        <ul className="space-y-4">
+          {shares.length === 0 && <li className="text-sm text-zinc-500">{t('share.empty')}</li>}
+          {shares.map(share => {
+            const isActive = !share.revokedAt && !isExpired(share);
+            return (
+              <li key={share.id} className={`border border-zinc-800 p-4 space-y-3 ${isActive ? '' : 'opacity-50'}`}>
+                <input
+                  readOnly
+                  dir="ltr"
+                  value={shareUrl(tenant, share.token)}
+                  onFocus={e => e.target.select()}
+                  className="w-full bg-transparent text-xs font-mono text-zinc-300 focus:outline-none"
+                />
+                <div className="flex justify-between items-center gap-4 text-xs">
+                  <span className="text-zinc-500">{statusOf(share)}</span>
+                  {isActive && (
+                    <div className="flex gap-4">
+                      <button type="button" onClick={() => handleCopy(share)} className="uppercase tracking-widest text-white hover:text-zinc-400">
+                        {copiedId === share.id ? t('share.copied') : t('share.copy')}
+                      </button>
+                      <button
+                        type="button"
+                        disabled={isBusy}
+                        onClick={() => update(() => revokeShare(auditId, ownerToken, share.id))}
+                        className="uppercase tracking-widest text-red-400 hover:text-red-300 disabled:opacity-50"
+                      >
+                        {t('share.revoke')}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { TenantConfig } from '../types';
+import { resolveTenant } from '../services/tenants';
+
+const TenantContext = createContext<TenantConfig | null>(null);
+
+// The tenant is fixed for the page: it comes from the hostname or the /t/<id> prefix
+export const TenantProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [tenant] = useState(() => resolveTenant(window.location.hostname, window.location.pathname));
+
+  useEffect(() => {
+    document.title = `${tenant.name} Brand Score`;
+  }, [tenant]);
+
+  return <TenantContext.Provider value={tenant}>{children}</TenantContext.Provider>;
+};
+
+export const useTenant = (): TenantConfig => {
+  const context = useContext(TenantContext);
+  if (!context) throw new Error("useTenant must be used inside TenantProvider");
+  return context;
+};
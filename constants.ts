@@ -1,108 +1,378 @@
-import { Question, QuestionCategory } from './types';
+import { AppStep, BusinessModel, Locale, Question, QuestionCategory, QuestionPack, Questionnaire, TenantConfig } from './types';
 
-export const QUESTIONS: Question[] = [
+// Competitor URLs accepted for benchmarking.
+export const MAX_COMPETITORS = 3;
+
+// White-label tenants, resolved from the hostname or a /t/<id> path prefix
+// (see services/tenants.ts). The first entry is the default for every other
+// host. Expert and booking link appear on the dashboard and in follow-up emails.
+export const TENANTS: TenantConfig[] = [
+  {
+    id: 'zouhall',
+    name: 'Zouhall',
+    logoUrl: 'https://i.imgur.com/B4r2q3r.png',
+    hostnames: [],
+    expert: {
+      name: 'Mahdi',
+      photoUrl: 'https://i.imgur.com/pC1t2HY.jpeg'
+    },
+    bookingUrl: 'https://cal.com/mahdi-ayadi-vsmf6p/30min',
+    voice: {
+      role: 'a ruthless, high-end brand auditor',
+      tone: 'Cold, Clinical, Expensive. No fluff. No "Hello". Direct forensic analysis only.',
+      style: 'Minimalist, Bold, Black & White.'
+    }
+  },
+];
+
+// Lead-form options. Values are stored and sent to the CRM as-is (labels are
+// translated in the locale files) and drive the lead qualification.
+export const LEAD_POSITIONS = [
+  "Owner / Founder",
+  "CEO / President",
+  "CMO / Marketing Director",
+  "Product Manager",
+  "Sales Director",
+  "Other"
+] as const;
+
+export const LEAD_REVENUE_RANGES = [
+  "Pre-Revenue",
+  "$0 - $100k",
+  "$100k - $500k",
+  "$500k - $1M",
+  "$1M - $5M",
+  "$5M - $10M",
+  "$10M+",
+  "Prefer not to say"
+] as const;
+
+export const LEAD_COMPANY_SIZES = [
+  "1-5 Employees",
+  "6-20 Employees",
+  "21-50 Employees",
+  "51-200 Employees",
+  "200+ Employees",
+  "Prefer not to say"
+] as const;
+
+// Visitor journey order for the funnel report (ANALYZING comes after the lead form).
+export const FUNNEL_STEPS: AppStep[] = [
+  AppStep.LANDING,
+  AppStep.INPUT,
+  AppStep.QUIZ,
+  AppStep.LEAD_FORM,
+  AppStep.ANALYZING,
+  AppStep.DASHBOARD,
+];
+
+// Report languages the server PDF can typeset. The PDF uses the standard
+// (Latin) fonts, so Arabic reports keep the browser's print view.
+export const PDF_LOCALES: Locale[] = ['en', 'fr'];
+
+// Questions asked in every pack. Questions keep their id as long as their meaning
+// and type are unchanged; a reworded or retyped question gets a new id so
+// stored answers are never reinterpreted.
+const CORE_QUESTIONS: Question[] = [
   // Strategy
   {
-    id: 1,
-    text: "Do you spend at least 7% of your revenue on marketing?",
+    id: 17,
+    text: "Roughly what share of your revenue do you reinvest in marketing?",
     category: QuestionCategory.STRATEGY,
-    type: 'boolean'
+    type: 'numeric',
+    weight: 1.5,
+    range: { min: 0, max: 100, unit: '%', zeroAt: 0, fullAt: 10 }
   },
   {
-    id: 2,
-    text: "Do you review customer data regularly to guide your marketing decisions?",
+    id: 18,
+    text: "How much do customer data and reports guide your marketing decisions?",
     category: QuestionCategory.STRATEGY,
-    type: 'boolean'
+    type: 'scale',
+    weight: 1,
+    scaleLabels: ['Gut Feeling', 'Every Decision']
   },
   // Operations
   {
     id: 3,
     text: "Do you use software (CRM) to automatically track your leads?",
     category: QuestionCategory.OPERATIONS,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1
   },
   {
     id: 4,
     text: "Is your sales process clear, consistent, and written down?",
     category: QuestionCategory.OPERATIONS,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1
   },
   // Visuals (Creative)
   {
     id: 5,
     text: "Does your website bring you new potential customers every day?",
     category: QuestionCategory.VISUALS,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1.5
   },
   {
-    id: 6,
-    text: "Does your brand look more professional than your competitors?",
+    id: 19,
+    text: "How professional does your brand look next to your competitors?",
     category: QuestionCategory.VISUALS,
-    type: 'boolean'
+    type: 'scale',
+    weight: 1,
+    scaleLabels: ['Behind Them', 'Clearly Ahead']
   },
   // Content
   {
     id: 7,
     text: "Do you have a content plan for the next 12 months?",
     category: QuestionCategory.CONTENT,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1
   },
   {
     id: 8,
     text: "Do you offer free resources (like guides or videos) to get people's emails?",
     category: QuestionCategory.CONTENT,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1
+  },
+  // Social
+  {
+    id: 20,
+    text: "How often do you post on social media?",
+    category: QuestionCategory.CONTENT,
+    type: 'choice',
+    weight: 1,
+    options: [
+      { value: 0, label: "Rarely or never", score: 0 },
+      { value: 1, label: "A few times a month", score: 0.4 },
+      { value: 2, label: "Every week, with a plan", score: 0.8 },
+      { value: 3, label: "Several times a week, with a plan", score: 1 }
+    ]
+  },
+  {
+    id: 14,
+    text: "Does your social media actually help you sell more products or services?",
+    category: QuestionCategory.CONTENT,
+    type: 'boolean',
+    weight: 1.5,
+    showIf: { questionId: 20, in: [1, 2, 3] }
   },
   // Growth (Advertising)
+  {
+    id: 21,
+    text: "Do you currently run paid ads (Google, Meta, LinkedIn...)?",
+    category: QuestionCategory.GROWTH,
+    type: 'boolean',
+    weight: 1
+  },
   {
     id: 9,
     text: "Do you make a profit from your paid ads?",
     category: QuestionCategory.GROWTH,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1.5,
+    showIf: { questionId: 21, in: [1] }
   },
   {
     id: 10,
     text: "Do you know exactly how much it costs to get a new lead?",
     category: QuestionCategory.GROWTH,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1,
+    showIf: { questionId: 21, in: [1] }
   },
   // Growth (Email/SMS)
   {
     id: 11,
     text: "Do you have a pop-up or form on your site to capture emails?",
     category: QuestionCategory.GROWTH,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1
   },
   {
     id: 12,
     text: "Do you have automatic emails that send to new contacts immediately?",
     category: QuestionCategory.GROWTH,
-    type: 'boolean'
-  },
-  // Social
-  {
-    id: 13,
-    text: "Do you post on social media consistently with a clear plan?",
-    category: QuestionCategory.CONTENT,
-    type: 'boolean'
-  },
-  {
-    id: 14,
-    text: "Does your social media actually help you sell more products or services?",
-    category: QuestionCategory.CONTENT,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1
   },
   // SEO
   {
     id: 15,
     text: "Is your content written specifically to show up on Google?",
     category: QuestionCategory.SEO,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1
   },
   {
     id: 16,
     text: "Is your website fast and optimized for search engines?",
     category: QuestionCategory.SEO,
-    type: 'boolean'
+    type: 'boolean',
+    weight: 1
+  }
+];
+
+export const CORE_QUESTIONNAIRE: Questionnaire = {
+  id: 'core',
+  version: '2.0.0',
+  questions: CORE_QUESTIONS
+};
+
+// --- QUESTION PACKS ---
+// Each pack asks the core questions plus its own, adds a category and
+// re-weights the Momentum Score for its business model.
+
+const SAAS_QUESTIONS: Question[] = [
+  {
+    id: 22,
+    text: "What is your monthly customer churn rate?",
+    category: QuestionCategory.RETENTION,
+    type: 'numeric',
+    weight: 1.5,
+    range: { min: 0, max: 100, unit: '%', zeroAt: 10, fullAt: 1 }
+  },
+  {
+    id: 23,
+    text: "How many new sign-ups reach their first success in the product without help?",
+    category: QuestionCategory.RETENTION,
+    type: 'scale',
+    weight: 1,
+    scaleLabels: ['Most Get Lost', 'Almost All']
+  },
+  {
+    id: 24,
+    text: "Do you send automated onboarding and re-engagement emails to trial users?",
+    category: QuestionCategory.RETENTION,
+    type: 'boolean',
+    weight: 1
+  }
+];
+
+const DTC_QUESTIONS: Question[] = [
+  {
+    id: 25,
+    text: "What share of your orders come from returning customers?",
+    category: QuestionCategory.RETENTION,
+    type: 'numeric',
+    weight: 1.5,
+    range: { min: 0, max: 100, unit: '%', zeroAt: 5, fullAt: 40 }
+  },
+  {
+    id: 26,
+    text: "Do you use upsells, bundles or free-shipping thresholds to raise your average order value?",
+    category: QuestionCategory.RETENTION,
+    type: 'boolean',
+    weight: 1
+  },
+  {
+    id: 27,
+    text: "Do you run post-purchase email or SMS flows (reviews, replenishment, win-back)?",
+    category: QuestionCategory.RETENTION,
+    type: 'boolean',
+    weight: 1
+  }
+];
+
+const B2B_QUESTIONS: Question[] = [
+  {
+    id: 28,
+    text: "How predictable is your sales pipeline from month to month?",
+    category: QuestionCategory.PIPELINE,
+    type: 'scale',
+    weight: 1.5,
+    scaleLabels: ['Feast or Famine', 'Fully Predictable']
+  },
+  {
+    id: 29,
+    text: "What percentage of your qualified leads become customers?",
+    category: QuestionCategory.PIPELINE,
+    type: 'numeric',
+    weight: 1,
+    range: { min: 0, max: 100, unit: '%', zeroAt: 0, fullAt: 30 }
+  },
+  {
+    id: 30,
+    text: "Do you publish case studies or client results on your website?",
+    category: QuestionCategory.PIPELINE,
+    type: 'boolean',
+    weight: 1
+  }
+];
+
+const CORE_CATEGORIES: QuestionCategory[] = [
+  QuestionCategory.STRATEGY,
+  QuestionCategory.VISUALS,
+  QuestionCategory.GROWTH,
+  QuestionCategory.CONTENT,
+  QuestionCategory.OPERATIONS,
+  QuestionCategory.SEO,
+];
+
+export const QUESTION_PACKS: Record<BusinessModel, QuestionPack> = {
+  general: {
+    id: 'general',
+    label: 'Other / Local Business',
+    questionnaire: CORE_QUESTIONNAIRE,
+    categories: CORE_CATEGORIES,
+    categoryWeights: {
+      [QuestionCategory.STRATEGY]: 0.2,
+      [QuestionCategory.GROWTH]: 0.25,
+      [QuestionCategory.VISUALS]: 0.15,
+      [QuestionCategory.CONTENT]: 0.15,
+      [QuestionCategory.OPERATIONS]: 0.1,
+      [QuestionCategory.SEO]: 0.15,
+    },
+    promptGuidance: "Judge it as a general or local business: lead generation, local visibility and trust signals matter most."
+  },
+  saas: {
+    id: 'saas',
+    label: 'SaaS / Software',
+    questionnaire: { id: 'saas', version: '1.0.0', questions: [...CORE_QUESTIONS, ...SAAS_QUESTIONS] },
+    categories: [...CORE_CATEGORIES, QuestionCategory.RETENTION],
+    categoryWeights: {
+      [QuestionCategory.STRATEGY]: 0.15,
+      [QuestionCategory.GROWTH]: 0.2,
+      [QuestionCategory.VISUALS]: 0.1,
+      [QuestionCategory.CONTENT]: 0.1,
+      [QuestionCategory.OPERATIONS]: 0.1,
+      [QuestionCategory.SEO]: 0.1,
+      [QuestionCategory.RETENTION]: 0.25,
+    },
+    promptGuidance: "Judge it as a SaaS company: trial-to-paid conversion, activation, churn and expansion revenue decide its fate. In 'Retention', focus on onboarding and churn. Pricing-page clarity and free trial or demo CTAs matter."
+  },
+  dtc: {
+    id: 'dtc',
+    label: 'E-commerce / DTC',
+    questionnaire: { id: 'dtc', version: '1.0.0', questions: [...CORE_QUESTIONS, ...DTC_QUESTIONS] },
+    categories: [...CORE_CATEGORIES, QuestionCategory.RETENTION],
+    categoryWeights: {
+      [QuestionCategory.STRATEGY]: 0.15,
+      [QuestionCategory.GROWTH]: 0.25,
+      [QuestionCategory.VISUALS]: 0.15,
+      [QuestionCategory.CONTENT]: 0.1,
+      [QuestionCategory.OPERATIONS]: 0.05,
+      [QuestionCategory.SEO]: 0.1,
+      [QuestionCategory.RETENTION]: 0.2,
+    },
+    promptGuidance: "Judge it as a direct-to-consumer brand: ROAS, average order value, repeat purchase rate and mobile checkout speed decide its fate. In 'Retention', focus on AOV and repeat purchases."
+  },
+  b2b: {
+    id: 'b2b',
+    label: 'B2B / Services',
+    questionnaire: { id: 'b2b', version: '1.0.0', questions: [...CORE_QUESTIONS, ...B2B_QUESTIONS] },
+    categories: [...CORE_CATEGORIES, QuestionCategory.PIPELINE],
+    categoryWeights: {
+      [QuestionCategory.STRATEGY]: 0.2,
+      [QuestionCategory.GROWTH]: 0.2,
+      [QuestionCategory.VISUALS]: 0.1,
+      [QuestionCategory.CONTENT]: 0.15,
+      [QuestionCategory.OPERATIONS]: 0.1,
+      [QuestionCategory.SEO]: 0.1,
+      [QuestionCategory.PIPELINE]: 0.15,
+    },
+    promptGuidance: "Judge it as a B2B company: pipeline predictability, lead-to-customer conversion, proof (case studies) and sales-cycle length decide its fate. In 'Pipeline', focus on lead flow and close rates."
   }
-];
\ No newline at end of file
+};
@@ -1,15 +1,30 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { AdminConsole } from './components/AdminConsole';
+import { EmbedApp } from './components/EmbedApp';
+import { LocaleProvider } from './components/LocaleProvider';
+import { TenantProvider } from './components/TenantProvider';
+import { isEmbedPath, readEmbedConfig } from './services/embed';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// The admin console ships in the same bundle; vercel.json rewrites /admin to index.html
+const isAdmin = window.location.pathname.replace(/\/+$/, '') === '/admin';
+// The funnel alone, framed by the partner widget (widget/embed.ts)
+const embedConfig = isEmbedPath(window.location.pathname) ? readEmbedConfig(window.location.search) : null;
+if (embedConfig?.theme === 'light') document.documentElement.classList.add('theme-light');
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <TenantProvider>
+      <LocaleProvider>
+        {isAdmin ? <AdminConsole /> : embedConfig ? <EmbedApp config={embedConfig} /> : <App />}
+      </LocaleProvider>
+    </TenantProvider>
   </React.StrictMode>
 );
\ No newline at end of file
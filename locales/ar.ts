@@ -0,0 +1,348 @@
+import { QuestionCategory } from "../types";
+import { LocaleDictionary } from "./en";
+
+export const ar: LocaleDictionary = {
+  messages: {
+    // Landing
+    'landing.tagline': "توقّف عن التخمين. نحلّل موقعك واستراتيجيتك لنكشف بدقة ما الذي يعيق نمو عملك.",
+    'landing.start': "ابدأ التدقيق الآن",
+    'landing.duration': "يستغرق حوالي دقيقتين",
+    'landing.problemTitle': "التخمين",
+    'landing.problemTitleMuted': "يكلّفك المال.",
+    'landing.problemBody1': "المظهر الجيد لا يكفي. يجب أن يعمل موقعك، وأن تحقق إعلاناتك التحويلات، وأن تكون استراتيجيتك متينة لتنمو فعلاً.",
+    'landing.problemBody2': "صمّمنا أداة تفحص عملك عبر 6 محاور أساسية لتريك بالضبط أين يمكنك التحسّن وكيف تعالج ذلك.",
+    'landing.methodology': "المنهجية",
+    'landing.twoStep': "تحليل من مرحلتين",
+    'landing.technicalTitle': "الفحص التقني",
+    'landing.technicalBody': "نفحص موقعك تلقائياً لنعرف سرعة تحميله، ومدى ملاءمته للهاتف، وما إذا كان مبنياً بشكل صحيح لمحرك Google.",
+    'landing.strategyTitle': "الفحص الاستراتيجي",
+    'landing.strategyBody': "نطرح عليك بعض الأسئلة البسيطة حول التسويق والمبيعات لنتحقق من جاهزية أنظمتك الداخلية للنمو.",
+    'landing.howItWorks': "كيف يعمل",
+    'landing.scanTitle': "الفحص",
+    'landing.scanBody': "أدخل رابط موقعك، وسنتحقق فوراً من سرعته وسلامته.",
+    'landing.quizTitle': "الأسئلة",
+    'landing.quizBody': "أجب عن بضعة أسئلة حول طريقة إدارتك للتسويق.",
+    'landing.resultsTitle': "النتائج",
+    'landing.resultsBody': "احصل على Brand Score وقائمة واضحة بما يجب إصلاحه فوراً.",
+    'landing.finalTitle': "احصل على",
+    'landing.finalTitleStrong': "BRAND SCORE",
+    'landing.finalBody1': "التدقيق مجاني، والنتائج قيّمة.",
+    'landing.finalBody2': "اكتشف موقعك بين منافسيك.",
+
+    // Brand input
+    'input.subtitle': "محرك {agency} للتحليل",
+    'input.brandName': "اسم العلامة التجارية",
+    'input.url': "رابط الموقع",
+    'input.businessModel': "نموذج العمل",
+    'input.detecting': "جارٍ التحديد…",
+    'input.detected': "تم تحديده من موقعك",
+    'input.competitors': "المنافسون",
+    'input.optional': "(اختياري)",
+    'input.competitorUrl': "رابط المنافس {number}",
+    'input.remove': "إزالة",
+    'input.addCompetitor': "+ أضف منافساً للمقارنة",
+    'input.submit': "ابدأ التدقيق",
+    'input.duration': "يستغرق التحليل حوالي دقيقتين",
+    'pack.general': "أخرى / نشاط محلي",
+    'pack.saas': "SaaS / برمجيات",
+    'pack.dtc': "تجارة إلكترونية / DTC",
+    'pack.b2b': "B2B / خدمات",
+
+    // Quiz
+    'quiz.progress': "السؤال {current} / {total} — {category}",
+    'quiz.no': "لا",
+    'quiz.yes': "نعم",
+    'quiz.scaleLow': "ضعيف",
+    'quiz.scaleHigh': "استثنائي",
+    'quiz.continue': "متابعة",
+
+    // Lead form
+    'lead.badge': "التحليل جاهز",
+    'lead.contactTitle': "من أنت؟",
+    'lead.contactIntro': "نحتاج إلى معرفة الشخص الذي سنوجّه إليه تقرير التدقيق.",
+    'lead.businessTitle': "عن الشركة",
+    'lead.businessIntro': "يساعدنا ذلك على مقارنة نتيجتك بشركات مماثلة في الحجم.",
+    'lead.firstName': "الاسم الأول",
+    'lead.lastName': "اسم العائلة",
+    'lead.position': "المنصب",
+    'lead.positionPlaceholder': "اختر منصبك",
+    'lead.email': "البريد الإلكتروني المهني",
+    'lead.phone': "رقم الهاتف المحمول",
+    'lead.next': "الخطوة التالية",
+    'lead.revenue': "الإيرادات السنوية",
+    'lead.revenuePlaceholder': "اختر الإيرادات",
+    'lead.companySize': "حجم الشركة",
+    'lead.companySizePlaceholder': "اختر الحجم",
+    'lead.submitting': "جارٍ إعداد التقرير...",
+    'lead.submit': "احصل على نتيجتي",
+    'lead.back': "رجوع",
+    'lead.version': "التدقيق الإصدار 1.0",
+
+    // Loading
+    'loading.queued': "جارٍ إنشاء اتصال آمن...",
+    'loading.crawling': "جارٍ فحص حضورك الرقمي...",
+    'loading.analyzing': "جارٍ إعداد التقرير الاستراتيجي...",
+    'loading.saving': "جارٍ احتساب النتيجة النهائية...",
+    'loading.done': "التقرير جاهز",
+    'loading.failed': "توقّف التحليل",
+    'loading.stageScan': "الفحص",
+    'loading.stageAnalyze': "التحليل",
+    'loading.stageSave': "الحفظ",
+    'loading.secureLoad': "تحميل آمن",
+    'loading.auditing': "جارٍ التدقيق",
+    'loading.inProgress': "التحليل المعمّق قيد التنفيذ",
+    'loading.resumeHint': "يمكنك إغلاق هذه النافذة. أعد فتح هذه الصفحة لتتابع من حيث توقفت.",
+    'loading.retrieving': "جارٍ استرجاع التقرير الآمن...",
+
+    // Dashboard
+    'dashboard.loadError': "تعذّر تحميل بيانات التقرير. يرجى المحاولة مرة أخرى.",
+    'dashboard.restart': "إعادة التدقيق",
+    'dashboard.reportLabel': "تقرير Brand Score",
+    'dashboard.preparedFor': "أُعدّ لـ {name}",
+    'dashboard.defaultRecipient': "صاحب العمل",
+    'dashboard.savePdf': "حفظ بصيغة PDF",
+    'dashboard.bookConsultation': "احجز استشارة",
+    'dashboard.brandScore': "Brand Score",
+    'dashboard.basedOn': "مبني على {count} محاور أساسية للعمل.",
+    'dashboard.executiveSummary': "الملخص التنفيذي",
+    'dashboard.businessContext': "سياق العمل",
+    'dashboard.realityCheck': "مواجهة الواقع",
+    'dashboard.technicalHealth': "السلامة التقنية",
+    'dashboard.technicalSubtitle': "فحص مباشر للموقع • الهاتف مقابل الحاسوب",
+    'dashboard.waitingSignals': "بانتظار البيانات التقنية...",
+    'dashboard.detailedAnalysis': "التحليل المفصّل",
+    'dashboard.detailedSubtitle': "ما وجدناه والخطوات التالية",
+    'dashboard.issue': "المشكلة",
+    'dashboard.evidence': "الأدلة المرصودة",
+    'dashboard.solution': "الحل",
+    'dashboard.fixNow': "عالج ذلك الآن",
+    'dashboard.expertTitle': "خبير نمو أول",
+    'dashboard.ctaTitle': "لنُصلح ذلك.",
+    'dashboard.ctaBody': "تُظهر البيانات بدقة أين تفقد زخمك. احجز جلسة مراجعة مدتها 30 دقيقة لمناقشة هذه النتائج وخارطة طريق التنفيذ.",
+    'dashboard.bookingFrame': "احجز استشارة",
+    'dashboard.resourceTitle': "ابدأ بخطة العمل الخاصة بك.",
+    'dashboard.resourceBody': "يتضمن تقريرك الحل لكل مجال. ابدأ بالخطوات الأسرع، ثم أعد التدقيق بعد بضعة أسابيع لترى تقدّم نتيجتك.",
+    'dashboard.resourceCta': "تنزيل خطة العمل",
+    'dashboard.resourceTalk': "تفضّل النقاش؟ احجز مكالمة",
+    'dashboard.verifiedVia': "تم التحقق من المعلومات عبر",
+    'dashboard.footer': "{agency} Brand Score",
+    'psi.metric': "المؤشر",
+    'psi.mobile': "الهاتف",
+    'psi.desktop': "الحاسوب",
+    'psi.performance': "الأداء",
+    'psi.seo': "SEO",
+    'psi.accessibility': "إمكانية الوصول",
+    'psi.bestPractices': "أفضل الممارسات",
+    'psi.opportunities': "أهم فرص التحسين",
+    'psi.noOpportunities': "لم يتم رصد توفير ملحوظ في وقت التحميل.",
+    'benchmark.title': "أنت مقابل المنافسين",
+    'benchmark.subtitle': "الفحص العام نفسه لكل موقع • الاستراتيجية والعمليات غير مرئية من الخارج",
+    'benchmark.you': "أنت",
+    'benchmark.inferredScore': "النتيجة المقدّرة",
+    'benchmark.signal': "المؤشر",
+    'trend.title': "تقدّمك",
+    'trend.previousOne': "تدقيق سابق واحد",
+    'trend.previousMany': "{count} عمليات تدقيق سابقة",
+    'trend.lastOn': "آخرها في {date}",
+    'trend.sinceLast': "تغيّر Brand Score منذ آخر تدقيق",
+    'trend.today': "اليوم",
+    'trend.area': "المحور",
+    'trend.last': "السابق",
+    'trend.now': "الآن",
+    'trend.change': "التغيّر",
+    'trend.versionChanged': "تم تحديث نموذج التقييم منذ آخر تدقيق لك، لذا قد يعود جزء من التغيّر إلى القواعد الجديدة.",
+
+    // Owner access (emailed code)
+    'access.title': "هذا التقرير خاص",
+    'access.body': "لفتحه، سنرسل رمزاً لمرة واحدة إلى البريد الإلكتروني الذي أُرسل إليه التقرير.",
+    'access.send': "أرسل لي رمزاً",
+    'access.sent': "أرسلنا رمزاً إلى {email}. الرمز صالح لبضع دقائق.",
+    'access.codeLabel': "رمز من 6 أرقام",
+    'access.verify': "فتح التقرير",
+    'access.resend': "إرسال رمز جديد",
+    'access.invalid': "الرمز غير صحيح. تحقق من البريد الإلكتروني وحاول مجدداً.",
+    'access.expired': "انتهت صلاحية هذا الرمز. اطلب رمزاً جديداً.",
+    'access.locked': "محاولات كثيرة. حاول مرة أخرى بعد ساعة.",
+    'access.tooSoon': "أُرسل رمز للتو. انتظر قليلاً قبل طلب رمز آخر.",
+    'access.notFound': "هذا التقرير غير موجود.",
+    'access.error': "حدث خطأ ما. يرجى المحاولة مرة أخرى.",
+
+    // Share links
+    'share.open': "مشاركة",
+    'share.title': "مشاركة هذا التقرير",
+    'share.body': "يرى من لديه رابط المشاركة النتائج والتوصيات، ولا يرى بيانات الاتصال الخاصة بك أبداً.",
+    'share.expiry': "انتهاء الرابط",
+    'share.never': "أبداً",
+    'share.days': "بعد {days} يوماً",
+    'share.create': "إنشاء رابط",
+    'share.copy': "نسخ",
+    'share.copied': "تم النسخ",
+    'share.revoke': "إلغاء",
+    'share.revoked': "ملغى",
+    'share.expired': "منتهي الصلاحية",
+    'share.expiresOn': "ينتهي في {date}",
+    'share.noExpiry': "بلا انتهاء",
+    'share.empty': "لا توجد روابط مشاركة بعد.",
+    'share.error': "تعذّر تحديث روابط المشاركة. يرجى المحاولة مرة أخرى.",
+    'share.close': "إغلاق",
+    'share.banner': "أنت تشاهد تقرير Brand Score مشتركاً.",
+    'share.getYours': "احصل على نتيجتك",
+    'share.ogTitle': "حصلت {brand} على {score}/100 في Brand Score",
+    'share.ogTitleUnscored': "{brand} في Brand Score",
+    'share.ogDescription': "تدقيق علامة {domain} التجارية من {agency}: النتائج والتشخيص وأهم الإصلاحات.",
+    'share.unavailable': "لم يعد هذا التقرير المشترك متاحًا. أجرِ تدقيقك المجاني الخاص.",
+
+    // Embedded widget
+    'embed.doneTitle': "نتيجة Brand Score لـ {brand} جاهزة",
+    'embed.doneBody': "التقرير الكامل مع جميع التوصيات في طريقه إلى {email}.",
+    'embed.openReport': "افتح التقرير الكامل",
+    'embed.restart': "دقّق علامة تجارية أخرى",
+    'embed.failed': "تعذر إكمال التدقيق. يرجى المحاولة مرة أخرى.",
+
+    // PDF export
+    'pdf.overview': "تفصيل النتائج",
+    'pdf.sources': "المصادر",
+    'pdf.noSources': "لم يُستشهد بأي مصادر خارجية في هذا التقرير.",
+    'pdf.page': "الصفحة {page} / {total}",
+    'pdf.generated': "أُنشئ في {date}",
+    'pdf.scoringVersion': "نموذج التقييم {version}",
+    'pdf.statusGood': "جيد",
+    'pdf.statusWarning': "يحتاج إلى تحسين",
+    'pdf.statusCritical': "حرج",
+
+    // Report fallback
+    'report.fallbackContext': "التحليل غير حاسم",
+    'report.fallbackSummary': "تعذّر إكمال الفحص الآلي. يلزم إجراء مراجعة يدوية.",
+
+    // Email
+    'email.subject': "BRAND SCORE - {brand}",
+    'email.greeting': "مرحباً {name}،",
+    'email.intro': "اكتمل تدقيق {brand}. لقد حلّلنا بنيتك التقنية واستراتيجية نموّك.",
+    'email.scoreLabel': "مؤشر زخم العلامة التجارية",
+    'email.summaryTitle': "الملخص التنفيذي:",
+    'email.scoresTitle': "النتيجة حسب المجال",
+    'email.details': "يتضمن تقريرك المفصّل تحليلاً لـ {count} محاور أساسية لعملك وقائمة محددة بنقاط الاختناق المرصودة.",
+    'email.cta': "عرض التقرير الكامل",
+    'email.pdfLink': "تنزيل التقرير بصيغة PDF",
+    'email.footer': "أُنشئ بواسطة محرك {agency} للتحليل",
+    'email.reportId': "معرّف التقرير: {id}",
+    'email.followUpMissedSubject': "نقطة فاتتك في تقرير {brand}",
+    'email.followUpMissedIntro': "تقريرك شامل، لذلك إليك المجال الذي أبدأ به أولاً.",
+    'email.followUpMissedWeakest': "حصل {category} على {score}/100، وهي أدنى نتيجة بين مجالاتك الـ{count}.",
+    'email.followUpMissedTip': "خطوة سريعة:",
+    'email.followUpReviewSubject': "كنت أراجع تقريرك...",
+    'email.followUpReviewSignal': "لاحظت أن {signal} جاءت نتيجته «{value}» على {domain}.",
+    'email.followUpReviewScore': "لاحظت أن نتيجة {category} لديك كانت {score}/100.",
+    'email.followUpReviewOffer': "لديّ مهندس يمكنه إصلاح ذلك خلال 3 أيام. هل نتحدث؟",
+    'email.followUpReviewCta': "احجز مكالمة لمدة 30 دقيقة",
+    'email.followUpSignoff': "{name}، {agency}",
+    'email.codeSubject': "{code} هو رمزك لتقرير {brand}",
+    'email.codeIntro': "استخدم هذا الرمز لفتح تقرير Brand Score الخاص بـ {brand}:",
+    'email.codeExpiry': "تنتهي صلاحيته خلال {minutes} دقيقة. إذا لم تطلبه، يمكنك تجاهل هذه الرسالة.",
+  },
+  categories: {
+    [QuestionCategory.STRATEGY]: "الاستراتيجية",
+    [QuestionCategory.VISUALS]: "الهوية البصرية",
+    [QuestionCategory.GROWTH]: "النمو",
+    [QuestionCategory.CONTENT]: "المحتوى",
+    [QuestionCategory.OPERATIONS]: "العمليات",
+    [QuestionCategory.SEO]: "تحسين محركات البحث",
+    [QuestionCategory.RETENTION]: "الاحتفاظ بالعملاء",
+    [QuestionCategory.PIPELINE]: "مسار المبيعات",
+  },
+  facts: [
+    "هل تعلم؟ 79% من العملاء المحتملين لا يتحولون إلى مبيعات بسبب غياب المتابعة.",
+    "البيانات: 90% من بيانات العالم أُنتجت خلال العامين الأخيرين فقط.",
+    "مسار الشراء: طوّر St. Elmo Lewis مفهوم «قمع الشراء» عام 1898.",
+    "معلومة تقنية: أول موقع إلكتروني ما زال متاحاً، وقد نشرته CERN عام 1991.",
+    "السرعة مهمة: تأخير ثانية واحدة في التحميل يعني مشاهدات أقل بنسبة 11% وتحويلات أقل بنسبة 7%.",
+    "الذكاء الاصطناعي: خوارزميات Google تُفضّل الآن المحتوى المفيد على حشو الكلمات المفتاحية.",
+    "هل تعلم؟ يكوّن الزائر رأيه في موقعك خلال 0.05 ثانية تقريباً.",
+    "النمو: الرسائل البريدية المخصّصة تحقق معاملات أعلى بست مرات.",
+    "معلومة تقنية: يلمس الشخص العادي هاتفه 2,617 مرة يومياً.",
+    "الذكاء الاصطناعي: يُتوقع أن يضيف الذكاء الاصطناعي التوليدي 4.4 تريليون دولار سنوياً إلى الاقتصاد العالمي."
+  ],
+  questions: {
+    17: { text: "ما النسبة التقريبية من إيراداتك التي تعيد استثمارها في التسويق؟" },
+    18: { text: "إلى أي مدى توجّه بيانات العملاء والتقارير قراراتك التسويقية؟", scaleLabels: ["بالحدس", "كل قرار"] },
+    3: { text: "هل تستخدم برنامجاً (CRM) لتتبّع عملائك المحتملين تلقائياً؟" },
+    4: { text: "هل عملية البيع لديك واضحة وثابتة ومكتوبة؟" },
+    5: { text: "هل يجلب لك موقعك عملاء محتملين جدداً كل يوم؟" },
+    19: { text: "ما مدى احترافية مظهر علامتك التجارية مقارنة بمنافسيك؟", scaleLabels: ["متأخرة عنهم", "متقدمة بوضوح"] },
+    7: { text: "هل لديك خطة محتوى للأشهر الاثني عشر القادمة؟" },
+    8: { text: "هل تقدّم موارد مجانية (مثل الأدلة أو الفيديوهات) لجمع عناوين البريد الإلكتروني؟" },
+    20: {
+      text: "كم مرة تنشر على وسائل التواصل الاجتماعي؟",
+      options: {
+        0: "نادراً أو أبداً",
+        1: "بضع مرات في الشهر",
+        2: "أسبوعياً، وفق خطة",
+        3: "عدة مرات في الأسبوع، وفق خطة"
+      }
+    },
+    14: { text: "هل تساعدك وسائل التواصل الاجتماعي فعلاً على بيع المزيد من منتجاتك أو خدماتك؟" },
+    21: { text: "هل تدير حالياً إعلانات مدفوعة (Google، Meta، LinkedIn...)؟" },
+    9: { text: "هل تحقق أرباحاً من إعلاناتك المدفوعة؟" },
+    10: { text: "هل تعرف بالضبط تكلفة الحصول على عميل محتمل جديد؟" },
+    11: { text: "هل لديك نافذة منبثقة أو نموذج على موقعك لجمع عناوين البريد الإلكتروني؟" },
+    12: { text: "هل لديك رسائل بريدية تلقائية تُرسل فوراً إلى جهات الاتصال الجديدة؟" },
+    15: { text: "هل يُكتب محتواك خصيصاً للظهور على Google؟" },
+    16: { text: "هل موقعك سريع ومُحسّن لمحركات البحث؟" },
+    22: { text: "ما معدل فقدان العملاء (Churn) الشهري لديك؟" },
+    23: { text: "كم من المشتركين الجدد يحققون أول نجاح في المنتج دون مساعدة؟", scaleLabels: ["معظمهم يتوه", "جميعهم تقريباً"] },
+    24: { text: "هل ترسل رسائل تلقائية للتعريف بالمنتج ولإعادة تفاعل مستخدمي الفترة التجريبية؟" },
+    25: { text: "ما نسبة طلباتك التي تأتي من عملاء عائدين؟" },
+    26: { text: "هل تستخدم البيع الإضافي أو الباقات أو حداً أدنى للشحن المجاني لرفع متوسط قيمة الطلب؟" },
+    27: { text: "هل لديك رسائل بريدية أو نصية بعد الشراء (تقييمات، إعادة طلب، استعادة العملاء)؟" },
+    28: { text: "ما مدى قابلية مسار مبيعاتك للتنبؤ من شهر لآخر؟", scaleLabels: ["وفرة أو شحّ", "متوقع تماماً"] },
+    29: { text: "ما نسبة العملاء المحتملين المؤهلين الذين يصبحون عملاء؟" },
+    30: { text: "هل تنشر دراسات حالة أو نتائج عملائك على موقعك؟" },
+  },
+  terms: {
+    "Mobile Speed": "سرعة الهاتف",
+    "Desktop Speed": "سرعة الحاسوب",
+    "SEO Score": "نتيجة SEO",
+    "Tech Stack": "التقنيات المستخدمة",
+    "Site Scan": "فحص الموقع",
+    "Visual Analysis Only": "تحليل بصري فقط",
+    "Site Crawl": "زحف الموقع",
+    "Blocked": "محظور",
+    "Meta Description": "الوصف التعريفي",
+    "Canonical Tag": "الوسم المرجعي",
+    "Social Previews": "معاينات المشاركة",
+    "Structured Data": "البيانات المنظّمة",
+    "Sitemap / Robots": "Sitemap / Robots",
+    "Tracking Pixels": "بكسلات التتبع",
+    "Email Capture": "جمع البريد الإلكتروني",
+    "Platform": "المنصة",
+    "Present": "موجود",
+    "Missing": "مفقود",
+    "Partial": "جزئي",
+    "Open Graph Complete": "Open Graph مكتمل",
+    "None": "لا يوجد",
+    "None Detected": "لم يُرصد شيء",
+    "Form Detected": "تم رصد نموذج",
+    "None Found": "لا يوجد",
+  },
+  options: {
+    "Owner / Founder": "مالك / مؤسس",
+    "CEO / President": "الرئيس التنفيذي / الرئيس",
+    "CMO / Marketing Director": "مدير التسويق",
+    "Product Manager": "مدير المنتج",
+    "Sales Director": "مدير المبيعات",
+    "Other": "أخرى",
+    "Pre-Revenue": "قبل تحقيق الإيرادات",
+    "$0 - $100k": "0 - 100 ألف $",
+    "$100k - $500k": "100 - 500 ألف $",
+    "$500k - $1M": "500 ألف - 1 مليون $",
+    "$1M - $5M": "1 - 5 مليون $",
+    "$5M - $10M": "5 - 10 مليون $",
+    "$10M+": "أكثر من 10 مليون $",
+    "Prefer not to say": "أفضّل عدم الإفصاح",
+    "1-5 Employees": "1 - 5 موظفين",
+    "6-20 Employees": "6 - 20 موظفاً",
+    "21-50 Employees": "21 - 50 موظفاً",
+    "51-200 Employees": "51 - 200 موظف",
+    "200+ Employees": "أكثر من 200 موظف",
+  },
+};
@@ -0,0 +1,292 @@
+import { QuestionCategory } from "../types";
+
+/**
+ * English copy. This file defines the message keys: fr.ts and ar.ts must
+ * translate every key, which the type-check enforces.
+ * Question text lives in constants.ts, so English needs no question copy.
+ */
+
+const messages = {
+  // Landing
+  'landing.tagline': "Stop guessing. We analyze your website and strategy to find out exactly what's holding your business back.",
+  'landing.start': "Start Audit Now",
+  'landing.duration': "Takes approx 2 minutes",
+  'landing.problemTitle': "GUESSWORK IS",
+  'landing.problemTitleMuted': "COSTING YOU MONEY.",
+  'landing.problemBody1': "Looking good isn't enough. Your website needs to work, your ads need to convert, and your strategy needs to be solid to actually grow.",
+  'landing.problemBody2': "We built a tool that checks your business across 6 key areas to show you exactly where you can improve and how to fix it.",
+  'landing.methodology': "The Methodology",
+  'landing.twoStep': "Two-Step Analysis",
+  'landing.technicalTitle': "Technical Check",
+  'landing.technicalBody': "We automatically scan your website to see how fast it loads, if it works well on mobile, and if it's built correctly for Google.",
+  'landing.strategyTitle': "Strategy Check",
+  'landing.strategyBody': "We ask you a few simple questions about your marketing and sales to see if your internal systems are actually set up for growth.",
+  'landing.howItWorks': "How It Works",
+  'landing.scanTitle': "Scan",
+  'landing.scanBody': "Enter your website URL. We instantly check if your site is fast and healthy.",
+  'landing.quizTitle': "Quiz",
+  'landing.quizBody': "Answer a few yes/no questions about how you run your marketing.",
+  'landing.resultsTitle': "Results",
+  'landing.resultsBody': "Get your Brand Score and a simple list of things to fix right away.",
+  'landing.finalTitle': "GET YOUR",
+  'landing.finalTitleStrong': "BRAND SCORE",
+  'landing.finalBody1': "The audit is free. The insights are powerful.",
+  'landing.finalBody2': "See how you stack up.",
+
+  // Brand input
+  'input.subtitle': "The {agency} Intelligence Engine",
+  'input.brandName': "Brand Name",
+  'input.url': "Website URL",
+  'input.businessModel': "Business Model",
+  'input.detecting': "detecting…",
+  'input.detected': "detected from your site",
+  'input.competitors': "Competitors",
+  'input.optional': "(optional)",
+  'input.competitorUrl': "Competitor {number} URL",
+  'input.remove': "Remove",
+  'input.addCompetitor': "+ Add competitor to benchmark against",
+  'input.submit': "Begin Audit",
+  'input.duration': "Analysis takes approx 2 minutes",
+  'pack.general': "Other / Local Business",
+  'pack.saas': "SaaS / Software",
+  'pack.dtc': "E-commerce / DTC",
+  'pack.b2b': "B2B / Services",
+
+  // Quiz
+  'quiz.progress': "Query {current} / {total} — {category}",
+  'quiz.no': "No",
+  'quiz.yes': "Yes",
+  'quiz.scaleLow': "Poor",
+  'quiz.scaleHigh': "Exceptional",
+  'quiz.continue': "Continue",
+
+  // Lead form
+  'lead.badge': "Analysis Ready",
+  'lead.contactTitle': "Who are you?",
+  'lead.contactIntro': "We need to know who to address the forensic report to.",
+  'lead.businessTitle': "About the Business",
+  'lead.businessIntro': "This helps us benchmark your score against similar sized companies.",
+  'lead.firstName': "First Name",
+  'lead.lastName': "Last Name",
+  'lead.position': "Position",
+  'lead.positionPlaceholder': "Select your role",
+  'lead.email': "Work Email",
+  'lead.phone': "Mobile Number",
+  'lead.next': "Next Step",
+  'lead.revenue': "Annual Revenue",
+  'lead.revenuePlaceholder': "Select Revenue",
+  'lead.companySize': "Company Size",
+  'lead.companySizePlaceholder': "Select Size",
+  'lead.submitting': "Generating Report...",
+  'lead.submit': "Get My Score",
+  'lead.back': "Back",
+  'lead.version': "Forensic Audit v1.0",
+
+  // Loading
+  'loading.queued': "Establishing Secure Connection...",
+  'loading.crawling': "Scanning Digital Footprint...",
+  'loading.analyzing': "Synthesizing Strategic Report...",
+  'loading.saving': "Finalizing Momentum Score...",
+  'loading.done': "Report Ready",
+  'loading.failed': "Analysis Interrupted",
+  'loading.stageScan': "Scan",
+  'loading.stageAnalyze': "Analyze",
+  'loading.stageSave': "Save",
+  'loading.secureLoad': "SECURE LOAD",
+  'loading.auditing': "AUDITING SYSTEM",
+  'loading.inProgress': "Forensic analysis in progress",
+  'loading.resumeHint': "You can close this window. Reopen this page to pick up where you left off.",
+  'loading.retrieving': "Retrieving Secure Report...",
+
+  // Dashboard
+  'dashboard.loadError': "Error loading report data. Please try again.",
+  'dashboard.restart': "Restart Audit",
+  'dashboard.reportLabel': "Brand Score Report",
+  'dashboard.preparedFor': "Prepared for {name}",
+  'dashboard.defaultRecipient': "Business Owner",
+  'dashboard.savePdf': "Save as PDF",
+  'dashboard.bookConsultation': "Book Consultation",
+  'dashboard.brandScore': "Brand Score",
+  'dashboard.basedOn': "Based on {count} core business areas.",
+  'dashboard.executiveSummary': "Executive Summary",
+  'dashboard.businessContext': "Business Context",
+  'dashboard.realityCheck': "Reality Check",
+  'dashboard.technicalHealth': "Technical Health",
+  'dashboard.technicalSubtitle': "Live Website Scan • Mobile vs Desktop",
+  'dashboard.waitingSignals': "Waiting for technical data stream...",
+  'dashboard.detailedAnalysis': "Detailed Analysis",
+  'dashboard.detailedSubtitle': "What We Found & Next Steps",
+  'dashboard.issue': "Issue",
+  'dashboard.evidence': "Evidence Found",
+  'dashboard.solution': "Solution",
+  'dashboard.fixNow': "Fix This Now",
+  'dashboard.expertTitle': "Senior Growth Expert",
+  'dashboard.ctaTitle': "Let's Fix This.",
+  'dashboard.ctaBody': "The data shows exactly where you're losing momentum. Book a 30-minute debrief to walk through these findings and discuss the implementation roadmap.",
+  'dashboard.bookingFrame': "Book a Consultation",
+  'dashboard.resourceTitle': "Start With Your Action Plan.",
+  'dashboard.resourceBody': "Your report lists the fix for every area. Work through the quickest wins first, then run the audit again in a few weeks to see your score move.",
+  'dashboard.resourceCta': "Download Action Plan",
+  'dashboard.resourceTalk': "Prefer to talk it through? Book a call",
+  'dashboard.verifiedVia': "Intelligence Verified Via",
+  'dashboard.footer': "{agency} Brand Score",
+  'psi.metric': "Metric",
+  'psi.mobile': "Mobile",
+  'psi.desktop': "Desktop",
+  'psi.performance': "Performance",
+  'psi.seo': "SEO",
+  'psi.accessibility': "Accessibility",
+  'psi.bestPractices': "Best Practices",
+  'psi.opportunities': "Top Opportunities",
+  'psi.noOpportunities': "No significant load-time savings detected.",
+  'benchmark.title': "You vs. Competitors",
+  'benchmark.subtitle': "Same public scan for every site • Strategy & Operations are not visible from outside",
+  'benchmark.you': "You",
+  'benchmark.inferredScore': "Inferred Score",
+  'benchmark.signal': "Signal",
+  'trend.title': "Your Progress",
+  'trend.previousOne': "1 previous audit",
+  'trend.previousMany': "{count} previous audits",
+  'trend.lastOn': "Last on {date}",
+  'trend.sinceLast': "Brand Score since last audit",
+  'trend.today': "Today",
+  'trend.area': "Area",
+  'trend.last': "Last",
+  'trend.now': "Now",
+  'trend.change': "Change",
+  'trend.versionChanged': "Our scoring model was updated since your last audit, so part of the change may come from the new rules.",
+
+  // Owner access (emailed code)
+  'access.title': "This report is private",
+  'access.body': "To open it, we will email a one-time code to the address the report was sent to.",
+  'access.send': "Email Me a Code",
+  'access.sent': "We sent a code to {email}. It is valid for a few minutes.",
+  'access.codeLabel': "6-digit code",
+  'access.verify': "Open Report",
+  'access.resend': "Send a new code",
+  'access.invalid': "That code is not right. Check the email and try again.",
+  'access.expired': "This code has expired. Request a new one.",
+  'access.locked': "Too many attempts. Try again in an hour.",
+  'access.tooSoon': "A code was just sent. Please wait before asking for another.",
+  'access.notFound': "This report does not exist.",
+  'access.error': "Something went wrong. Please try again.",
+
+  // Share links
+  'share.open': "Share",
+  'share.title': "Share this report",
+  'share.body': "People with a share link see the scores and recommendations, never your contact details.",
+  'share.expiry': "Link expires",
+  'share.never': "Never",
+  'share.days': "In {days} days",
+  'share.create': "Create Link",
+  'share.copy': "Copy",
+  'share.copied': "Copied",
+  'share.revoke': "Revoke",
+  'share.revoked': "Revoked",
+  'share.expired': "Expired",
+  'share.expiresOn': "Expires {date}",
+  'share.noExpiry': "No expiry",
+  'share.empty': "No share links yet.",
+  'share.error': "Could not update the share links. Please try again.",
+  'share.close': "Close",
+  'share.banner': "You are viewing a shared Brand Score report.",
+  'share.getYours': "Get Your Own Score",
+  'share.ogTitle': "{brand} scored {score}/100 on the Brand Score",
+  'share.ogTitleUnscored': "{brand} on the Brand Score",
+  'share.ogDescription': "Brand audit of {domain} by {agency}: scores, diagnostics and the fixes that matter most.",
+  'share.unavailable': "This shared report is no longer available. Run your own free audit.",
+
+  // Embedded widget
+  'embed.doneTitle': "The Brand Score of {brand} is ready",
+  'embed.doneBody': "The full report, with every recommendation, is on its way to {email}.",
+  'embed.openReport': "Open Full Report",
+  'embed.restart': "Audit Another Brand",
+  'embed.failed': "The audit could not be completed. Please try again.",
+
+  // PDF export
+  'pdf.overview': "Score Breakdown",
+  'pdf.sources': "Sources",
+  'pdf.noSources': "No external sources were cited for this report.",
+  'pdf.page': "Page {page} / {total}",
+  'pdf.generated': "Generated on {date}",
+  'pdf.scoringVersion': "Scoring model {version}",
+  'pdf.statusGood': "Good",
+  'pdf.statusWarning': "Needs work",
+  'pdf.statusCritical': "Critical",
+
+  // Report fallback (written server-side when the model is unavailable)
+  'report.fallbackContext': "Analysis Inconclusive",
+  'report.fallbackSummary': "We could not complete the automated scan. Manual review required.",
+
+  // Email
+  'email.subject': "BRAND SCORE - {brand}",
+  'email.greeting': "Hi {name},",
+  'email.intro': "The forensic audit for {brand} is complete. We have analyzed your technical infrastructure and growth strategy.",
+  'email.scoreLabel': "Brand Momentum Score",
+  'email.summaryTitle': "Executive Summary:",
+  'email.scoresTitle': "Score by Area",
+  'email.details': "Your detailed report includes a breakdown of {count} key business areas and a specific list of detected bottlenecks.",
+  'email.cta': "View Full Report",
+  'email.pdfLink': "Download the PDF report",
+  'email.footer': "Generated by {agency} Intelligence Engine",
+  'email.reportId': "Secure Report ID: {id}",
+  'email.followUpMissedSubject': "One thing you missed in the {brand} report",
+  'email.followUpMissedIntro': "Your report covered a lot, so here is the one area I would look at first.",
+  'email.followUpMissedWeakest': "{category} scored {score}/100, the lowest of your {count} areas.",
+  'email.followUpMissedTip': "Quick win:",
+  'email.followUpReviewSubject': "I was looking at your report...",
+  'email.followUpReviewSignal': "I noticed that {signal} came back as “{value}” on {domain}.",
+  'email.followUpReviewScore': "I noticed your {category} score was {score}/100.",
+  'email.followUpReviewOffer': "I have an engineer who can fix this in 3 days. Want to chat?",
+  'email.followUpReviewCta': "Book a 30-minute call",
+  'email.followUpSignoff': "{name}, {agency}",
+  'email.codeSubject': "{code} is your code for the {brand} report",
+  'email.codeIntro': "Use this code to open the Brand Score report for {brand}:",
+  'email.codeExpiry': "It expires in {minutes} minutes. If you did not ask for it, you can ignore this email.",
+};
+
+export type MessageKey = keyof typeof messages;
+
+export interface QuestionCopy {
+  text: string;
+  scaleLabels?: [string, string];
+  options?: Record<number, string>; // Choice labels by option value
+}
+
+export interface LocaleDictionary {
+  messages: Record<MessageKey, string>;
+  categories: Record<QuestionCategory, string>;
+  facts: string[]; // Shown while the audit runs
+  questions: Partial<Record<number, QuestionCopy>>; // By question id, English from constants.ts when missing
+  terms: Partial<Record<string, string>>; // Measured signal labels and fixed values, by their English text
+  options: Partial<Record<string, string>>; // Lead-form option labels, by stored value
+}
+
+export const en: LocaleDictionary = {
+  messages,
+  categories: {
+    [QuestionCategory.STRATEGY]: "Strategy",
+    [QuestionCategory.VISUALS]: "Visuals",
+    [QuestionCategory.GROWTH]: "Growth",
+    [QuestionCategory.CONTENT]: "Content",
+    [QuestionCategory.OPERATIONS]: "Operations",
+    [QuestionCategory.SEO]: "SEO",
+    [QuestionCategory.RETENTION]: "Retention",
+    [QuestionCategory.PIPELINE]: "Pipeline",
+  },
+  facts: [
+    "DID YOU KNOW? 79% of marketing leads never convert into sales due to a lack of lead nurturing.",
+    "AI INSIGHT: 90% of the world's data was generated in the last two years alone.",
+    "FUNNEL FACT: The concept of the 'Purchase Funnel' was developed in 1898 by St. Elmo Lewis.",
+    "TECH TRIVIA: The first website is still online. It was published in 1991 by CERN.",
+    "SPEED MATTERS: A 1-second delay in page load time yields 11% fewer page views and 7% loss in conversions.",
+    "AI INSIGHT: Google's AI algorithms now prioritize 'Helpful Content' over keyword stuffing.",
+    "DID YOU KNOW? It takes about 0.05 seconds for users to form an opinion about your website.",
+    "GROWTH HACK: Personalized emails deliver 6x higher transaction rates.",
+    "TECH TRIVIA: The average person touches their phone 2,617 times a day.",
+    "AI INSIGHT: Generative AI is expected to add $4.4 trillion to the global economy annually."
+  ],
+  questions: {},
+  terms: {},
+  options: {},
+};
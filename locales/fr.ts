@@ -0,0 +1,348 @@
+import { QuestionCategory } from "../types";
+import { LocaleDictionary } from "./en";
+
+export const fr: LocaleDictionary = {
+  messages: {
+    // Landing
+    'landing.tagline': "Arrêtez de deviner. Nous analysons votre site et votre stratégie pour identifier précisément ce qui freine votre entreprise.",
+    'landing.start': "Lancer l'audit",
+    'landing.duration': "Environ 2 minutes",
+    'landing.problemTitle': "L'IMPROVISATION",
+    'landing.problemTitleMuted': "VOUS COÛTE CHER.",
+    'landing.problemBody1': "Avoir belle allure ne suffit pas. Votre site doit fonctionner, vos publicités doivent convertir et votre stratégie doit être solide pour réellement croître.",
+    'landing.problemBody2': "Nous avons conçu un outil qui évalue votre entreprise sur 6 axes clés pour vous montrer exactement où progresser et comment y remédier.",
+    'landing.methodology': "La méthode",
+    'landing.twoStep': "Une analyse en deux temps",
+    'landing.technicalTitle': "Diagnostic technique",
+    'landing.technicalBody': "Nous analysons automatiquement votre site : vitesse de chargement, qualité sur mobile et conformité aux exigences de Google.",
+    'landing.strategyTitle': "Diagnostic stratégique",
+    'landing.strategyBody': "Nous vous posons quelques questions simples sur votre marketing et vos ventes pour vérifier que votre organisation est prête pour la croissance.",
+    'landing.howItWorks': "Comment ça marche",
+    'landing.scanTitle': "Analyse",
+    'landing.scanBody': "Saisissez l'adresse de votre site. Nous vérifions immédiatement sa rapidité et sa santé.",
+    'landing.quizTitle': "Questionnaire",
+    'landing.quizBody': "Répondez à quelques questions sur la façon dont vous pilotez votre marketing.",
+    'landing.resultsTitle': "Résultats",
+    'landing.resultsBody': "Obtenez votre Brand Score et une liste claire des actions prioritaires.",
+    'landing.finalTitle': "OBTENEZ VOTRE",
+    'landing.finalTitleStrong': "BRAND SCORE",
+    'landing.finalBody1': "L'audit est gratuit. Les enseignements sont puissants.",
+    'landing.finalBody2': "Découvrez où vous vous situez.",
+
+    // Brand input
+    'input.subtitle': "Le moteur d'analyse {agency}",
+    'input.brandName': "Nom de la marque",
+    'input.url': "Adresse du site",
+    'input.businessModel': "Modèle d'affaires",
+    'input.detecting': "détection…",
+    'input.detected': "détecté depuis votre site",
+    'input.competitors': "Concurrents",
+    'input.optional': "(facultatif)",
+    'input.competitorUrl': "Adresse du concurrent {number}",
+    'input.remove': "Retirer",
+    'input.addCompetitor': "+ Ajouter un concurrent à comparer",
+    'input.submit': "Commencer l'audit",
+    'input.duration': "L'analyse prend environ 2 minutes",
+    'pack.general': "Autre / Commerce local",
+    'pack.saas': "SaaS / Logiciel",
+    'pack.dtc': "E-commerce / DTC",
+    'pack.b2b': "B2B / Services",
+
+    // Quiz
+    'quiz.progress': "Question {current} / {total} — {category}",
+    'quiz.no': "Non",
+    'quiz.yes': "Oui",
+    'quiz.scaleLow': "Faible",
+    'quiz.scaleHigh': "Exceptionnel",
+    'quiz.continue': "Continuer",
+
+    // Lead form
+    'lead.badge': "Analyse prête",
+    'lead.contactTitle': "Qui êtes-vous ?",
+    'lead.contactIntro': "Nous devons savoir à qui adresser le rapport d'audit.",
+    'lead.businessTitle': "Votre entreprise",
+    'lead.businessIntro': "Cela nous permet de comparer votre score à celui d'entreprises de taille similaire.",
+    'lead.firstName': "Prénom",
+    'lead.lastName': "Nom",
+    'lead.position': "Fonction",
+    'lead.positionPlaceholder': "Choisissez votre fonction",
+    'lead.email': "E-mail professionnel",
+    'lead.phone': "Téléphone mobile",
+    'lead.next': "Étape suivante",
+    'lead.revenue': "Chiffre d'affaires annuel",
+    'lead.revenuePlaceholder': "Choisissez une tranche",
+    'lead.companySize': "Taille de l'entreprise",
+    'lead.companySizePlaceholder': "Choisissez une taille",
+    'lead.submitting': "Génération du rapport...",
+    'lead.submit': "Obtenir mon score",
+    'lead.back': "Retour",
+    'lead.version': "Audit v1.0",
+
+    // Loading
+    'loading.queued': "Connexion sécurisée en cours...",
+    'loading.crawling': "Analyse de votre présence en ligne...",
+    'loading.analyzing': "Rédaction du rapport stratégique...",
+    'loading.saving': "Calcul final du score...",
+    'loading.done': "Rapport prêt",
+    'loading.failed': "Analyse interrompue",
+    'loading.stageScan': "Analyse",
+    'loading.stageAnalyze': "Synthèse",
+    'loading.stageSave': "Enregistrement",
+    'loading.secureLoad': "CHARGEMENT SÉCURISÉ",
+    'loading.auditing': "AUDIT EN COURS",
+    'loading.inProgress': "Analyse approfondie en cours",
+    'loading.resumeHint': "Vous pouvez fermer cette fenêtre. Rouvrez cette page pour reprendre où vous en étiez.",
+    'loading.retrieving': "Récupération du rapport sécurisé...",
+
+    // Dashboard
+    'dashboard.loadError': "Impossible de charger le rapport. Veuillez réessayer.",
+    'dashboard.restart': "Recommencer l'audit",
+    'dashboard.reportLabel': "Rapport Brand Score",
+    'dashboard.preparedFor': "Préparé pour {name}",
+    'dashboard.defaultRecipient': "Dirigeant",
+    'dashboard.savePdf': "Enregistrer en PDF",
+    'dashboard.bookConsultation': "Réserver un échange",
+    'dashboard.brandScore': "Brand Score",
+    'dashboard.basedOn': "Calculé sur {count} axes clés de l'entreprise.",
+    'dashboard.executiveSummary': "Synthèse",
+    'dashboard.businessContext': "Contexte",
+    'dashboard.realityCheck': "Confrontation à la réalité",
+    'dashboard.technicalHealth': "Santé technique",
+    'dashboard.technicalSubtitle': "Analyse en direct du site • Mobile et ordinateur",
+    'dashboard.waitingSignals': "En attente des données techniques...",
+    'dashboard.detailedAnalysis': "Analyse détaillée",
+    'dashboard.detailedSubtitle': "Nos constats et les prochaines étapes",
+    'dashboard.issue': "Problème",
+    'dashboard.evidence': "Éléments relevés",
+    'dashboard.solution': "Solution",
+    'dashboard.fixNow': "Corriger maintenant",
+    'dashboard.expertTitle': "Expert croissance senior",
+    'dashboard.ctaTitle': "Passons à l'action.",
+    'dashboard.ctaBody': "Les données montrent précisément où vous perdez de l'élan. Réservez un débrief de 30 minutes pour passer ces constats en revue et définir la feuille de route.",
+    'dashboard.bookingFrame': "Réserver un échange",
+    'dashboard.resourceTitle': "Commencez par votre plan d'action.",
+    'dashboard.resourceBody': "Votre rapport détaille la correction pour chaque domaine. Commencez par les actions les plus rapides, puis refaites l'audit dans quelques semaines pour voir votre score progresser.",
+    'dashboard.resourceCta': "Télécharger le plan d'action",
+    'dashboard.resourceTalk': "Vous préférez en parler ? Réservez un appel",
+    'dashboard.verifiedVia': "Informations vérifiées via",
+    'dashboard.footer': "{agency} Brand Score",
+    'psi.metric': "Indicateur",
+    'psi.mobile': "Mobile",
+    'psi.desktop': "Ordinateur",
+    'psi.performance': "Performance",
+    'psi.seo': "SEO",
+    'psi.accessibility': "Accessibilité",
+    'psi.bestPractices': "Bonnes pratiques",
+    'psi.opportunities': "Principales optimisations",
+    'psi.noOpportunities': "Aucun gain de chargement significatif détecté.",
+    'benchmark.title': "Vous face à vos concurrents",
+    'benchmark.subtitle': "Même analyse publique pour chaque site • Stratégie et opérations ne sont pas visibles de l'extérieur",
+    'benchmark.you': "Vous",
+    'benchmark.inferredScore': "Score estimé",
+    'benchmark.signal': "Signal",
+    'trend.title': "Votre progression",
+    'trend.previousOne': "1 audit précédent",
+    'trend.previousMany': "{count} audits précédents",
+    'trend.lastOn': "Dernier le {date}",
+    'trend.sinceLast': "Évolution du Brand Score depuis le dernier audit",
+    'trend.today': "Aujourd'hui",
+    'trend.area': "Axe",
+    'trend.last': "Avant",
+    'trend.now': "Maintenant",
+    'trend.change': "Écart",
+    'trend.versionChanged': "Notre modèle de notation a évolué depuis votre dernier audit : une partie de l'écart peut venir des nouvelles règles.",
+
+    // Owner access (emailed code)
+    'access.title': "Ce rapport est privé",
+    'access.body': "Pour l'ouvrir, nous envoyons un code à usage unique à l'adresse qui a reçu le rapport.",
+    'access.send': "Recevoir un code",
+    'access.sent': "Nous avons envoyé un code à {email}. Il est valable quelques minutes.",
+    'access.codeLabel': "Code à 6 chiffres",
+    'access.verify': "Ouvrir le rapport",
+    'access.resend': "Envoyer un nouveau code",
+    'access.invalid': "Ce code est incorrect. Vérifiez l'e-mail et réessayez.",
+    'access.expired': "Ce code a expiré. Demandez-en un nouveau.",
+    'access.locked': "Trop de tentatives. Réessayez dans une heure.",
+    'access.tooSoon': "Un code vient d'être envoyé. Patientez avant d'en demander un autre.",
+    'access.notFound': "Ce rapport n'existe pas.",
+    'access.error': "Une erreur est survenue. Veuillez réessayer.",
+
+    // Share links
+    'share.open': "Partager",
+    'share.title': "Partager ce rapport",
+    'share.body': "Les personnes disposant d'un lien de partage voient les scores et les recommandations, jamais vos coordonnées.",
+    'share.expiry': "Expiration du lien",
+    'share.never': "Jamais",
+    'share.days': "Dans {days} jours",
+    'share.create': "Créer un lien",
+    'share.copy': "Copier",
+    'share.copied': "Copié",
+    'share.revoke': "Révoquer",
+    'share.revoked': "Révoqué",
+    'share.expired': "Expiré",
+    'share.expiresOn': "Expire le {date}",
+    'share.noExpiry': "Sans expiration",
+    'share.empty': "Aucun lien de partage pour l'instant.",
+    'share.error': "Impossible de mettre à jour les liens de partage. Veuillez réessayer.",
+    'share.close': "Fermer",
+    'share.banner': "Vous consultez un rapport Brand Score partagé.",
+    'share.getYours': "Obtenir mon score",
+    'share.ogTitle': "{brand} obtient {score}/100 au Brand Score",
+    'share.ogTitleUnscored': "{brand} au Brand Score",
+    'share.ogDescription': "Audit de marque de {domain} par {agency} : scores, diagnostics et corrections prioritaires.",
+    'share.unavailable': "Ce rapport partagé n'est plus disponible. Lancez votre propre audit gratuit.",
+
+    // Embedded widget
+    'embed.doneTitle': "Le Brand Score de {brand} est prêt",
+    'embed.doneBody': "Le rapport complet, avec toutes les recommandations, est en route vers {email}.",
+    'embed.openReport': "Ouvrir le rapport complet",
+    'embed.restart': "Auditer une autre marque",
+    'embed.failed': "L'audit n'a pas pu aboutir. Veuillez réessayer.",
+
+    // PDF export
+    'pdf.overview': "Détail des scores",
+    'pdf.sources': "Sources",
+    'pdf.noSources': "Aucune source externe n'a été citée pour ce rapport.",
+    'pdf.page': "Page {page} / {total}",
+    'pdf.generated': "Généré le {date}",
+    'pdf.scoringVersion': "Modèle de notation {version}",
+    'pdf.statusGood': "Bon",
+    'pdf.statusWarning': "À améliorer",
+    'pdf.statusCritical': "Critique",
+
+    // Report fallback
+    'report.fallbackContext': "Analyse non concluante",
+    'report.fallbackSummary': "L'analyse automatique n'a pas pu aboutir. Une revue manuelle est nécessaire.",
+
+    // Email
+    'email.subject': "BRAND SCORE - {brand}",
+    'email.greeting': "Bonjour {name},",
+    'email.intro': "L'audit de {brand} est terminé. Nous avons analysé votre infrastructure technique et votre stratégie de croissance.",
+    'email.scoreLabel': "Brand Momentum Score",
+    'email.summaryTitle': "Synthèse :",
+    'email.scoresTitle': "Score par domaine",
+    'email.details': "Votre rapport détaillé couvre {count} axes clés de votre activité et liste précisément les points de blocage détectés.",
+    'email.cta': "Voir le rapport complet",
+    'email.pdfLink': "Télécharger le rapport PDF",
+    'email.footer': "Généré par le moteur d'analyse {agency}",
+    'email.reportId': "Identifiant du rapport : {id}",
+    'email.followUpMissedSubject': "Un point à ne pas manquer dans le rapport {brand}",
+    'email.followUpMissedIntro': "Votre rapport couvre beaucoup de choses, alors voici le domaine que je regarderais en premier.",
+    'email.followUpMissedWeakest': "{category} a obtenu {score}/100, le score le plus bas de vos {count} domaines.",
+    'email.followUpMissedTip': "Action rapide :",
+    'email.followUpReviewSubject': "Je regardais votre rapport...",
+    'email.followUpReviewSignal': "J'ai remarqué que {signal} indique « {value} » sur {domain}.",
+    'email.followUpReviewScore': "J'ai remarqué que votre score {category} était de {score}/100.",
+    'email.followUpReviewOffer': "J'ai un ingénieur qui peut corriger cela en 3 jours. On en parle ?",
+    'email.followUpReviewCta': "Réserver un appel de 30 minutes",
+    'email.followUpSignoff': "{name}, {agency}",
+    'email.codeSubject': "{code} est votre code pour le rapport {brand}",
+    'email.codeIntro': "Utilisez ce code pour ouvrir le rapport Brand Score de {brand} :",
+    'email.codeExpiry': "Il expire dans {minutes} minutes. Si vous ne l'avez pas demandé, ignorez cet e-mail.",
+  },
+  categories: {
+    [QuestionCategory.STRATEGY]: "Stratégie",
+    [QuestionCategory.VISUALS]: "Image",
+    [QuestionCategory.GROWTH]: "Croissance",
+    [QuestionCategory.CONTENT]: "Contenu",
+    [QuestionCategory.OPERATIONS]: "Opérations",
+    [QuestionCategory.SEO]: "SEO",
+    [QuestionCategory.RETENTION]: "Fidélisation",
+    [QuestionCategory.PIPELINE]: "Pipeline",
+  },
+  facts: [
+    "LE SAVIEZ-VOUS ? 79 % des prospects marketing ne deviennent jamais clients, faute de suivi.",
+    "DONNÉES : 90 % des données mondiales ont été produites au cours des deux dernières années.",
+    "ENTONNOIR : le concept d'« entonnoir d'achat » a été formulé en 1898 par St. Elmo Lewis.",
+    "ANECDOTE TECH : le tout premier site web, publié par le CERN en 1991, est toujours en ligne.",
+    "LA VITESSE COMPTE : une seconde de chargement en plus, c'est 11 % de pages vues et 7 % de conversions en moins.",
+    "IA : les algorithmes de Google privilégient désormais le contenu utile au bourrage de mots-clés.",
+    "LE SAVIEZ-VOUS ? Il faut environ 0,05 seconde pour qu'un visiteur se fasse une opinion de votre site.",
+    "CROISSANCE : les e-mails personnalisés génèrent 6 fois plus de transactions.",
+    "ANECDOTE TECH : une personne touche son téléphone en moyenne 2 617 fois par jour.",
+    "IA : l'IA générative devrait apporter 4 400 milliards de dollars par an à l'économie mondiale."
+  ],
+  questions: {
+    17: { text: "Quelle part approximative de votre chiffre d'affaires réinvestissez-vous dans le marketing ?" },
+    18: { text: "Dans quelle mesure les données clients et les rapports guident-ils vos décisions marketing ?", scaleLabels: ["À l'intuition", "Chaque décision"] },
+    3: { text: "Utilisez-vous un logiciel (CRM) pour suivre automatiquement vos prospects ?" },
+    4: { text: "Votre processus de vente est-il clair, constant et documenté ?" },
+    5: { text: "Votre site vous apporte-t-il chaque jour de nouveaux clients potentiels ?" },
+    19: { text: "Votre marque paraît-elle professionnelle face à vos concurrents ?", scaleLabels: ["En retard", "Nettement devant"] },
+    7: { text: "Avez-vous un plan de contenu pour les 12 prochains mois ?" },
+    8: { text: "Proposez-vous des ressources gratuites (guides, vidéos) pour collecter des e-mails ?" },
+    20: {
+      text: "À quelle fréquence publiez-vous sur les réseaux sociaux ?",
+      options: {
+        0: "Rarement ou jamais",
+        1: "Quelques fois par mois",
+        2: "Chaque semaine, avec un plan",
+        3: "Plusieurs fois par semaine, avec un plan"
+      }
+    },
+    14: { text: "Vos réseaux sociaux vous aident-ils réellement à vendre davantage ?" },
+    21: { text: "Diffusez-vous actuellement des publicités payantes (Google, Meta, LinkedIn...) ?" },
+    9: { text: "Vos publicités payantes sont-elles rentables ?" },
+    10: { text: "Savez-vous exactement combien vous coûte un nouveau prospect ?" },
+    11: { text: "Avez-vous une pop-up ou un formulaire sur votre site pour collecter des e-mails ?" },
+    12: { text: "Envoyez-vous des e-mails automatiques dès qu'un nouveau contact s'inscrit ?" },
+    15: { text: "Vos contenus sont-ils rédigés spécifiquement pour être trouvés sur Google ?" },
+    16: { text: "Votre site est-il rapide et optimisé pour les moteurs de recherche ?" },
+    22: { text: "Quel est votre taux d'attrition (churn) mensuel ?" },
+    23: { text: "Quelle part des nouveaux inscrits obtient un premier résultat dans le produit sans aide ?", scaleLabels: ["La plupart décrochent", "Presque tous"] },
+    24: { text: "Envoyez-vous des e-mails automatiques d'onboarding et de relance aux utilisateurs en essai ?" },
+    25: { text: "Quelle part de vos commandes provient de clients fidèles ?" },
+    26: { text: "Utilisez-vous la vente additionnelle, les lots ou un seuil de livraison offerte pour augmenter votre panier moyen ?" },
+    27: { text: "Avez-vous des séquences e-mail ou SMS après achat (avis, réapprovisionnement, reconquête) ?" },
+    28: { text: "Votre pipeline commercial est-il prévisible d'un mois sur l'autre ?", scaleLabels: ["Tout ou rien", "Totalement prévisible"] },
+    29: { text: "Quel pourcentage de vos prospects qualifiés devient client ?" },
+    30: { text: "Publiez-vous des études de cas ou des résultats clients sur votre site ?" },
+  },
+  terms: {
+    "Mobile Speed": "Vitesse mobile",
+    "Desktop Speed": "Vitesse ordinateur",
+    "SEO Score": "Score SEO",
+    "Tech Stack": "Technologies",
+    "Site Scan": "Analyse du site",
+    "Visual Analysis Only": "Analyse visuelle uniquement",
+    "Site Crawl": "Exploration du site",
+    "Blocked": "Bloquée",
+    "Meta Description": "Méta-description",
+    "Canonical Tag": "Balise canonique",
+    "Social Previews": "Aperçus sociaux",
+    "Structured Data": "Données structurées",
+    "Sitemap / Robots": "Sitemap / Robots",
+    "Tracking Pixels": "Pixels de suivi",
+    "Email Capture": "Collecte d'e-mails",
+    "Platform": "Plateforme",
+    "Present": "Présente",
+    "Missing": "Absente",
+    "Partial": "Partiels",
+    "Open Graph Complete": "Open Graph complet",
+    "None": "Aucune",
+    "None Detected": "Aucun détecté",
+    "Form Detected": "Formulaire détecté",
+    "None Found": "Aucune trouvée",
+  },
+  options: {
+    "Owner / Founder": "Propriétaire / Fondateur",
+    "CEO / President": "PDG / Président",
+    "CMO / Marketing Director": "Directeur marketing",
+    "Product Manager": "Chef de produit",
+    "Sales Director": "Directeur commercial",
+    "Other": "Autre",
+    "Pre-Revenue": "Pas encore de chiffre d'affaires",
+    "$0 - $100k": "0 - 100 k$",
+    "$100k - $500k": "100 k$ - 500 k$",
+    "$500k - $1M": "500 k$ - 1 M$",
+    "$1M - $5M": "1 M$ - 5 M$",
+    "$5M - $10M": "5 M$ - 10 M$",
+    "$10M+": "10 M$ et plus",
+    "Prefer not to say": "Je préfère ne pas répondre",
+    "1-5 Employees": "1 à 5 salariés",
+    "6-20 Employees": "6 à 20 salariés",
+    "21-50 Employees": "21 à 50 salariés",
+    "51-200 Employees": "51 à 200 salariés",
+    "200+ Employees": "Plus de 200 salariés",
+  },
+};
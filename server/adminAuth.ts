@@ -0,0 +1,16 @@
+import { HttpError } from './http';
+import { constantTimeEqual } from './constantTime';
+
+/**
+ * Guard for the /api/admin routes: `Authorization: Bearer <ADMIN_TOKEN>`.
+ * Without ADMIN_TOKEN the admin API is disabled entirely.
+ */
+
+export const requireAdmin = (request: Request): void => {
+  const token = process.env.ADMIN_TOKEN?.trim();
+  if (!token) throw new HttpError(503, "Admin console is not configured");
+
+  const header = request.headers.get('authorization') || '';
+  const provided = header.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() || '';
+  if (!provided || !constantTimeEqual(provided, token)) throw new HttpError(401, "Invalid admin token");
+};
@@ -0,0 +1,55 @@
+import { AuditJob } from '../types';
+import { performBrandAudit } from '../services/geminiService';
+import { getAuditHistory, saveToSupabase } from './supabaseService';
+import { getAuditCacheConfig } from './cacheStore';
+import { claimJob, getJob, updateJobStatus } from './jobStore';
+import { deliverToCrms } from './crm';
+import { qualifyLead } from '../services/leadQualification';
+import { getTenant } from '../services/tenants';
+
+/**
+ * Runs a queued audit job to completion, recording each stage as it starts.
+ * Safe to call more than once: only the first caller claims the job, later
+ * callers just get its current state back.
+ */
+export const runAuditJob = async (jobId: string, appOrigin: string): Promise<AuditJob | null> => {
+  const request = await claimJob(jobId);
+  if (!request) return getJob(jobId);
+
+  const { brand, lead, responses, trafficSource, locale, tenantId } = request;
+
+  try {
+    // 1. Crawl + AI (stages reported through onStage, repeat domains served from cache)
+    const result = await performBrandAudit(brand, responses, {
+      cache: getAuditCacheConfig(),
+      locale,
+      tenant: getTenant(tenantId),
+      onStage: async stage => {
+        // 'crawling' was already recorded by claimJob
+        if (stage !== 'crawling') await updateJobStatus(jobId, stage);
+      }
+    });
+
+    // 2. Attach earlier audits of this domain so the report can show the trend
+    await updateJobStatus(jobId, 'saving');
+    result.history = await getAuditHistory(brand.url, lead.email);
+    result.qualification = qualifyLead(lead, result);
+
+    // 3. Save to Supabase (Includes CRM Data Generation & Traffic Source)
+    const saved = await saveToSupabase(brand, lead, result, responses, trafficSource, appOrigin);
+
+    const job = await updateJobStatus(jobId, 'done', {
+      result,
+      auditId: saved?.id || null,
+      reportUrl: saved?.reportUrl || null
+    });
+
+    // 4. Push the lead to the configured CRMs (the visitor already has the report)
+    if (saved) await deliverToCrms(saved.crmData, saved.id);
+
+    return job;
+  } catch (err: any) {
+    console.error(`Audit job ${jobId} failed:`, err);
+    return updateJobStatus(jobId, 'failed', { error: err?.message || "Audit failed" });
+  }
+};
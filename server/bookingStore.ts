@@ -0,0 +1,112 @@
+import { AuditBooking, BookingEvent } from '../types';
+import { supabase } from './supabaseService';
+
+/**
+ * Scheduler events per audit (table `audit_bookings`). A confirmed booking
+ * also stamps `brand_audits.booked_at`, so booked leads show on the audit row:
+ * in the admin list, the admin report view and the funnel's booked count.
+ * Without Supabase the events stay in process memory.
+ */
+
+// Postgres foreign_key_violation: the audit does not exist
+const FOREIGN_KEY_VIOLATION = '23503';
+
+const MEMORY_LOG_LIMIT = 200;
+// Booked audits counted per funnel report
+const MAX_BOOKED_ROWS = 10000;
+const memoryLog: (BookingEvent & { auditId: string; createdAt: string })[] = [];
+
+/**
+ * Returns false when the audit does not exist.
+ */
+export const recordBookingEvent = async (auditId: string, event: BookingEvent): Promise<boolean> => {
+  const createdAt = new Date().toISOString();
+
+  if (!supabase) {
+    memoryLog.unshift({ ...event, auditId, createdAt });
+    memoryLog.length = Math.min(memoryLog.length, MEMORY_LOG_LIMIT);
+    return true;
+  }
+
+  const { error } = await supabase.from('audit_bookings').insert([{
+    audit_id: auditId,
+    provider: event.provider,
+    type: event.type,
+    expert: event.expert,
+    external_id: event.externalId ?? null,
+    created_at: createdAt
+  }]);
+  if (error) {
+    if (error.code === FOREIGN_KEY_VIOLATION) return false;
+    throw new Error(`Booking event write failed: ${error.message}`);
+  }
+
+  if (event.type === 'scheduled') {
+    const { error: updateError } = await supabase
+      .from('brand_audits')
+      .update({ booked_at: createdAt, booking_expert: event.expert })
+      .eq('id', auditId);
+    if (updateError) console.warn("Audit booking stamp failed:", updateError.message);
+  }
+  return true;
+};
+
+/**
+ * The booked call of an audit, or null when none was booked (or the store cannot be read).
+ */
+export const getAuditBooking = async (auditId: string): Promise<AuditBooking | null> => {
+  if (!supabase) {
+    const event = memoryLog.find(e => e.auditId === auditId && e.type === 'scheduled');
+    return event ? { bookedAt: event.createdAt, expert: event.expert } : null;
+  }
+
+  const { data, error } = await supabase
+    .from('brand_audits')
+    .select('booked_at, booking_expert')
+    .eq('id', auditId)
+    .maybeSingle();
+  if (error) {
+    console.warn("Audit booking read failed:", error.message);
+    return null;
+  }
+  return data?.booked_at ? { bookedAt: data.booked_at, expert: data.booking_expert ?? null } : null;
+};
+
+/**
+ * utm_campaign of every audit booked in the day range (inclusive), optionally
+ * of one tenant, for the funnel report. Returns null when the store cannot be
+ * read. Without Supabase the campaign is unknown (null) and tenants are not told apart.
+ */
+export const listBookedCampaigns = async (
+  { from, to, tenant }: { from?: string; to?: string; tenant?: string }
+): Promise<(string | null)[] | null> => {
+  let toExclusive: string | undefined;
+  if (to) {
+    const date = new Date(`${to}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + 1);
+    toExclusive = date.toISOString();
+  }
+
+  if (!supabase) {
+    return memoryLog
+      .filter(e => e.type === 'scheduled')
+      .filter(e => (!from || e.createdAt >= from) && (!toExclusive || e.createdAt < toExclusive))
+      .map(() => null);
+  }
+
+  let query = supabase
+    .from('brand_audits')
+    .select('utm_campaign')
+    .not('booked_at', 'is', null)
+    .limit(MAX_BOOKED_ROWS);
+  if (from) query = query.gte('booked_at', from);
+  if (toExclusive) query = query.lt('booked_at', toExclusive);
+  if (tenant) query = query.eq('tenant_id', tenant);
+
+  const { data, error } = await query;
+  if (error) {
+    console.error("Error listing booked audits:", error.message);
+    return null;
+  }
+  return (data || []).map(row => row.utm_campaign ?? null);
+};
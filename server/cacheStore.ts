@@ -0,0 +1,54 @@
+import { AuditCacheConfig, CacheStore, createMemoryCache } from '../services/auditCache';
+import { supabase } from './supabaseService';
+
+/**
+ * Supabase-backed cache (table `audit_cache`), shared by all function instances.
+ * Falls back to process memory when Supabase is not configured.
+ */
+
+const DEFAULT_CRAWL_TTL_SECONDS = 6 * 60 * 60; // PSI/crawl data: 6 hours
+const DEFAULT_AI_TTL_SECONDS = 24 * 60 * 60; // Model output: 24 hours, capped by the crawl TTL
+
+const readTtl = (value: string | undefined, fallback: number) => {
+  const parsed = value === undefined || value === '' ? NaN : Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+const memoryCache = createMemoryCache();
+
+const supabaseCache: CacheStore = {
+  get: async <T>(key: string) => {
+    const { data, error } = await supabase!
+      .from('audit_cache')
+      .select('value, expires_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      console.warn("Cache read failed:", error.message);
+      return null;
+    }
+    if (!data || Date.parse(data.expires_at) <= Date.now()) return null;
+    return data.value as T;
+  },
+  set: async <T>(key: string, value: T, ttlSeconds: number) => {
+    const { error } = await supabase!
+      .from('audit_cache')
+      .upsert({
+        key,
+        value,
+        expires_at: new Date(Date.now() + ttlSeconds * 1000).toISOString()
+      });
+    if (error) console.warn("Cache write failed:", error.message);
+  }
+};
+
+export const getAuditCacheConfig = (): AuditCacheConfig => {
+  const crawlTtlSeconds = readTtl(process.env.CRAWL_CACHE_TTL_SECONDS, DEFAULT_CRAWL_TTL_SECONDS);
+  return {
+    store: supabase ? supabaseCache : memoryCache,
+    crawlTtlSeconds,
+    // The AI key includes the crawl snapshot, so a narrative can't outlive the crawl it quotes
+    aiTtlSeconds: Math.min(crawlTtlSeconds, readTtl(process.env.AI_CACHE_TTL_SECONDS, DEFAULT_AI_TTL_SECONDS))
+  };
+};
@@ -0,0 +1,16 @@
+/**
+ * Secret comparison shared by the admin and owner guards.
+ */
+
+const encoder = new TextEncoder();
+
+// Compares every byte so the response time doesn't reveal how much of the secret matched
+export const constantTimeEqual = (a: string, b: string): boolean => {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+};
@@ -0,0 +1,22 @@
+import { CrmDelivery } from './types';
+import { supabase } from '../supabaseService';
+
+/**
+ * One row per connector per audit (table `crm_deliveries`), so failed pushes
+ * can be found and replayed. Without Supabase the log stays in process memory.
+ */
+
+const MEMORY_LOG_LIMIT = 200;
+const memoryLog: CrmDelivery[] = [];
+
+export const recordCrmDelivery = async (delivery: CrmDelivery): Promise<void> => {
+  if (!supabase) {
+    memoryLog.unshift(delivery);
+    memoryLog.length = Math.min(memoryLog.length, MEMORY_LOG_LIMIT);
+    return;
+  }
+
+  const { error } = await supabase.from('crm_deliveries').insert([delivery]);
+  if (error) console.warn("CRM delivery log write failed:", error.message);
+};
+
@@ -0,0 +1,103 @@
+import { CrmConnector, CrmPayload } from "./types";
+import { crmRequest } from "./request";
+import { formatRichText } from "../../services/emailTemplates";
+import { normalizeDomain } from "../../services/utils";
+
+interface HubSpotOptions {
+  accessToken: string; // Private app token with contacts, companies and deals scopes
+  baseUrl?: string; // Overridable to point at a local stub
+  pipeline?: string;
+  dealStage?: string;
+}
+
+// HubSpot-defined association types (v3 objects API)
+const DEAL_TO_CONTACT = 3;
+const DEAL_TO_COMPANY = 5;
+
+/**
+ * Upserts the contact (by email) and the company (by domain), links them,
+ * then creates one deal per audit carrying the audit properties.
+ * The deal is looked up by `brand_score_audit_id` first, so a retry never
+ * creates a second one. The `brand_score_*` deal properties must exist in
+ * the portal (see README).
+ */
+export const createHubSpotConnector = ({
+  accessToken,
+  baseUrl = 'https://api.hubapi.com',
+  pipeline = 'default',
+  dealStage = 'appointmentscheduled'
+}: HubSpotOptions): CrmConnector => {
+  const api = <T = any>(path: string, method: string, body?: unknown) =>
+    crmRequest<T>(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${accessToken}` },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const findOne = async (objectType: string, propertyName: string, value: string): Promise<string | null> => {
+    const data = await api(`/crm/v3/objects/${objectType}/search`, 'POST', {
+      filterGroups: [{ filters: [{ propertyName, operator: 'EQ', value }] }],
+      limit: 1
+    });
+    return data?.results?.[0]?.id ?? null;
+  };
+
+  const upsertContact = async ({ lead }: CrmPayload): Promise<string> => {
+    const data = await api('/crm/v3/objects/contacts/batch/upsert', 'POST', {
+      inputs: [{
+        idProperty: 'email',
+        id: lead.email,
+        properties: {
+          email: lead.email,
+          firstname: lead.firstName,
+          lastname: lead.lastName,
+          phone: lead.phone,
+          jobtitle: lead.position
+        }
+      }]
+    });
+    return data.results[0].id;
+  };
+
+  const upsertCompany = async ({ brand }: CrmPayload): Promise<string> => {
+    const domain = normalizeDomain(brand.url);
+    const existing = await findOne('companies', 'domain', domain);
+    if (existing) return existing;
+    const data = await api('/crm/v3/objects/companies', 'POST', { properties: { name: brand.name, domain } });
+    return data.id;
+  };
+
+  return {
+    id: 'hubspot',
+    deliver: async (payload, auditId) => {
+      // 1. Contact + company, linked with the default association
+      const contactId = await upsertContact(payload);
+      const companyId = await upsertCompany(payload);
+      await api(`/crm/v4/objects/contacts/${contactId}/associations/default/companies/${companyId}`, 'PUT');
+
+      // 2. One deal per audit
+      const existingDeal = await findOne('deals', 'brand_score_audit_id', auditId);
+      if (existingDeal) return { externalId: existingDeal };
+
+      const deal = await api('/crm/v3/objects/deals', 'POST', {
+        properties: {
+          dealname: `Brand Score: ${payload.brand.name}`,
+          pipeline,
+          dealstage: dealStage,
+          description: formatRichText(payload.summary),
+          brand_score: String(payload.scores.total),
+          brand_score_audit_id: auditId,
+          brand_score_report_url: payload.report_link,
+          brand_score_pdf_url: payload.pdf_link || '',
+          brand_score_business_model: payload.brand.businessModel,
+          brand_score_lead_tier: payload.qualification?.tier || ''
+        },
+        associations: [
+          { to: { id: contactId }, types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: DEAL_TO_CONTACT }] },
+          { to: { id: companyId }, types: [{ associationCategory: 'HUBSPOT_DEFINED', associationTypeId: DEAL_TO_COMPANY }] }
+        ]
+      });
+      return { externalId: deal.id };
+    }
+  };
+};
@@ -0,0 +1,109 @@
+import { CrmConnector, CrmDelivery, CrmPayload } from "./types";
+import { createHubSpotConnector } from "./hubspotConnector";
+import { createPipedriveConnector } from "./pipedriveConnector";
+import { createWebhookConnector } from "./webhookConnector";
+import { isRetryable } from "./request";
+import { recordCrmDelivery } from "./deliveryLog";
+import { generateUUID } from "../../services/utils";
+
+export type { CrmConnector, CrmDelivery, CrmPayload } from "./types";
+export { createHubSpotConnector, createPipedriveConnector, createWebhookConnector };
+export { signWebhookBody } from "./webhookConnector";
+
+const MAX_ATTEMPTS = 3;
+const BACKOFF_BASE_MS = 1000; // 1s, then 3s
+const MAX_RETRY_AFTER_MS = 10000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Every CRM with credentials in the environment (several can be active):
+ * HUBSPOT_ACCESS_TOKEN, PIPEDRIVE_API_TOKEN, CRM_WEBHOOK_URL + CRM_WEBHOOK_SECRET.
+ * The *_API_URL variables point a connector at another host, e.g. a local stub.
+ */
+export const resolveCrmConnectors = (): CrmConnector[] => {
+  const connectors: CrmConnector[] = [];
+
+  const hubspotToken = process.env.HUBSPOT_ACCESS_TOKEN?.trim();
+  if (hubspotToken) {
+    connectors.push(createHubSpotConnector({
+      accessToken: hubspotToken,
+      baseUrl: process.env.HUBSPOT_API_URL?.trim() || undefined,
+      pipeline: process.env.HUBSPOT_PIPELINE?.trim() || undefined,
+      dealStage: process.env.HUBSPOT_DEAL_STAGE?.trim() || undefined
+    }));
+  }
+
+  const pipedriveToken = process.env.PIPEDRIVE_API_TOKEN?.trim();
+  if (pipedriveToken) {
+    const stageId = Number(process.env.PIPEDRIVE_STAGE_ID);
+    connectors.push(createPipedriveConnector({
+      apiToken: pipedriveToken,
+      baseUrl: process.env.PIPEDRIVE_API_URL?.trim() || undefined,
+      stageId: Number.isInteger(stageId) && stageId > 0 ? stageId : undefined
+    }));
+  }
+
+  const webhookUrl = process.env.CRM_WEBHOOK_URL?.trim();
+  if (webhookUrl) {
+    const secret = process.env.CRM_WEBHOOK_SECRET?.trim();
+    if (secret) {
+      connectors.push(createWebhookConnector({ url: webhookUrl, secret }));
+    } else {
+      console.warn("CRM_WEBHOOK_URL is set without CRM_WEBHOOK_SECRET; webhook deliveries are disabled.");
+    }
+  }
+
+  return connectors;
+};
+
+/**
+ * Delivers to one connector, retrying network errors, rate limits and 5xx
+ * responses with backoff, and logs the outcome. Never throws.
+ */
+export const deliverWithRetry = async (connector: CrmConnector, payload: CrmPayload, auditId: string): Promise<CrmDelivery> => {
+  let attempts = 0;
+  let externalId: string | null = null;
+  let lastError: string | null = null;
+
+  while (attempts < MAX_ATTEMPTS) {
+    attempts++;
+    try {
+      externalId = (await connector.deliver(payload, auditId)).externalId;
+      lastError = null;
+      break;
+    } catch (err: any) {
+      lastError = err?.message || String(err);
+      console.warn(`CRM delivery to ${connector.id} failed (attempt ${attempts}/${MAX_ATTEMPTS}):`, lastError);
+      if (!isRetryable(err) || attempts >= MAX_ATTEMPTS) break;
+      const backoff = BACKOFF_BASE_MS * 3 ** (attempts - 1);
+      await sleep(Math.min(Math.max(backoff, err.retryAfterMs || 0), MAX_RETRY_AFTER_MS));
+    }
+  }
+
+  const delivery: CrmDelivery = {
+    id: generateUUID(),
+    audit_id: auditId,
+    connector: connector.id,
+    status: lastError ? 'failed' : 'delivered',
+    attempts,
+    external_id: externalId,
+    error: lastError,
+    created_at: new Date().toISOString()
+  };
+  await recordCrmDelivery(delivery);
+  return delivery;
+};
+
+/**
+ * Pushes a saved audit to every configured CRM in parallel.
+ * A failing CRM is logged and does not affect the others or the audit.
+ */
+export const deliverToCrms = async (
+  payload: CrmPayload,
+  auditId: string,
+  connectors: CrmConnector[] = resolveCrmConnectors()
+): Promise<CrmDelivery[]> => {
+  if (connectors.length === 0) return [];
+  return Promise.all(connectors.map(connector => deliverWithRetry(connector, payload, auditId)));
+};
@@ -0,0 +1,98 @@
+import { CrmConnector, CrmPayload } from "./types";
+import { crmRequest } from "./request";
+import { escapeHtml, formatRichHtml } from "../../services/emailTemplates";
+
+interface PipedriveOptions {
+  apiToken: string;
+  baseUrl?: string; // Overridable to point at a local stub
+  stageId?: number; // First stage of the default pipeline when omitted
+}
+
+/**
+ * Finds or creates the organization (by name) and the person (by email),
+ * then creates a deal with a note holding the score, summary and links.
+ * The deal title carries the short audit id so a retry finds it again, and
+ * adds the note if the earlier attempt stopped before writing it.
+ */
+export const createPipedriveConnector = ({
+  apiToken,
+  baseUrl = 'https://api.pipedrive.com/v1',
+  stageId
+}: PipedriveOptions): CrmConnector => {
+  const api = <T = any>(path: string, method: string, body?: unknown) =>
+    crmRequest<T>(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+      method,
+      headers: { 'x-api-token': apiToken },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  const search = async (entity: 'organizations' | 'persons' | 'deals', term: string, fields: string, exact: boolean): Promise<number | null> => {
+    const query = new URLSearchParams({ term, fields, exact_match: String(exact), limit: '1' });
+    const data = await api(`/${entity}/search?${query}`, 'GET');
+    return data?.data?.items?.[0]?.item?.id ?? null;
+  };
+
+  const findOrCreateOrganization = async ({ brand }: CrmPayload): Promise<number> => {
+    const existing = await search('organizations', brand.name, 'name', true);
+    if (existing) return existing;
+    const data = await api('/organizations', 'POST', { name: brand.name });
+    return data.data.id;
+  };
+
+  const findOrCreatePerson = async ({ lead }: CrmPayload, orgId: number): Promise<number> => {
+    const existing = await search('persons', lead.email, 'email', true);
+    if (existing) return existing;
+    const data = await api('/persons', 'POST', {
+      name: lead.fullName,
+      org_id: orgId,
+      email: [{ value: lead.email, primary: true, label: 'work' }],
+      phone: lead.phone ? [{ value: lead.phone, primary: true, label: 'mobile' }] : []
+    });
+    return data.data.id;
+  };
+
+  const noteContent = (payload: CrmPayload) => [
+    `<b>Brand Score: ${payload.scores.total}/100</b>`
+      + (payload.qualification ? `<br/>Lead: ${payload.qualification.tier} (${payload.qualification.score}/100)` : ''),
+    formatRichHtml(payload.summary),
+    `<a href="${escapeHtml(payload.report_link)}">Report</a>`
+      + (payload.pdf_link ? ` · <a href="${escapeHtml(payload.pdf_link)}">PDF</a>` : '')
+  ].join('<br/><br/>');
+
+  const ensureNote = async (dealId: number, payload: CrmPayload) => {
+    const query = new URLSearchParams({ deal_id: String(dealId), limit: '1' });
+    const notes = await api(`/notes?${query}`, 'GET');
+    if (notes?.data?.length) return;
+    await api('/notes', 'POST', { deal_id: dealId, content: noteContent(payload) });
+  };
+
+  return {
+    id: 'pipedrive',
+    deliver: async (payload, auditId) => {
+      const reference = auditId.slice(0, 8);
+
+      // 1. Organization + person
+      const orgId = await findOrCreateOrganization(payload);
+      const personId = await findOrCreatePerson(payload, orgId);
+
+      // 2. One deal per audit
+      const existingDeal = await search('deals', reference, 'title', false);
+      if (existingDeal) {
+        await ensureNote(existingDeal, payload);
+        return { externalId: String(existingDeal) };
+      }
+
+      const deal = await api('/deals', 'POST', {
+        title: `Brand Score: ${payload.brand.name} (${reference})`,
+        person_id: personId,
+        org_id: orgId,
+        ...(stageId ? { stage_id: stageId } : {})
+      });
+      const dealId: number = deal.data.id;
+
+      // 3. Audit details as a note on the deal
+      await api('/notes', 'POST', { deal_id: dealId, content: noteContent(payload) });
+      return { externalId: String(dealId) };
+    }
+  };
+};
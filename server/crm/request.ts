@@ -0,0 +1,64 @@
+/**
+ * JSON over HTTP for the connectors, with a timeout and errors that say
+ * whether trying again can help.
+ */
+
+export class CrmRequestError extends Error {
+  status: number | null; // null when the request never got a response
+  retryAfterMs: number | null;
+
+  constructor(message: string, status: number | null = null, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'CrmRequestError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// Network errors, timeouts, rate limits and server errors are worth another try
+export const isRetryable = (err: unknown): boolean => {
+  if (!(err instanceof CrmRequestError)) return false;
+  return err.status === null || err.status === 429 || err.status >= 500;
+};
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export const crmRequest = async <T = any>(
+  url: string,
+  init: RequestInit & { timeoutMs?: number } = {}
+): Promise<T> => {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, ...options } = init;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...options,
+      signal: controller.signal,
+      headers: { 'Content-Type': 'application/json', Accept: 'application/json', ...options.headers }
+    });
+  } catch (err: any) {
+    throw new CrmRequestError(err?.name === 'AbortError' ? `Timed out after ${timeoutMs}ms` : (err?.message || "Network error"));
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    const details = await response.text().catch(() => response.statusText);
+    const retryAfter = Number(response.headers.get('retry-after'));
+    throw new CrmRequestError(
+      `${new URL(url).pathname} responded ${response.status}: ${details.slice(0, 200)}`,
+      response.status,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : null
+    );
+  }
+
+  // Webhook receivers often answer with plain text ("OK")
+  const text = await response.text();
+  try {
+    return (text ? JSON.parse(text) : null) as T;
+  } catch (e) {
+    return text as T;
+  }
+};
@@ -0,0 +1,34 @@
+import { prepareCrmData } from '../../services/crmService';
+
+/**
+ * Contract between the audit pipeline and the CRMs it pushes leads to.
+ * Connectors only map the CRM payload onto their API; retries and the
+ * delivery log live in index.ts.
+ */
+
+// The same payload stored in report_data.crm
+export type CrmPayload = ReturnType<typeof prepareCrmData>;
+
+export interface CrmDeliveryResult {
+  externalId: string | null; // Record created on the CRM side (deal id), when it returns one
+}
+
+export interface CrmConnector {
+  id: string; // e.g. "hubspot", stored with each delivery
+  // Safe to call again for the same audit: retries must not duplicate records
+  deliver: (payload: CrmPayload, auditId: string) => Promise<CrmDeliveryResult>;
+}
+
+export type CrmDeliveryStatus = 'delivered' | 'failed';
+
+// Row of the crm_deliveries table
+export interface CrmDelivery {
+  id: string;
+  audit_id: string;
+  connector: string;
+  status: CrmDeliveryStatus;
+  attempts: number;
+  external_id: string | null;
+  error: string | null;
+  created_at: string;
+}
@@ -0,0 +1,48 @@
+import { CrmConnector } from "./types";
+import { crmRequest } from "./request";
+
+interface WebhookOptions {
+  url: string;
+  secret: string; // Shared with the receiver to verify the signature
+}
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+/**
+ * HMAC-SHA256 of `${timestamp}.${body}`, hex. WebCrypto, so it runs on
+ * Node and edge runtimes alike.
+ */
+export const signWebhookBody = async (secret: string, timestamp: number, body: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`)));
+};
+
+/**
+ * POSTs the CRM payload as JSON to any endpoint (Zapier, Make, n8n, own API).
+ * Headers:
+ *   X-Brandscore-Event: audit.created
+ *   X-Brandscore-Delivery: the audit id, identical across retries so receivers can dedupe
+ *   X-Brandscore-Signature: t=<unix seconds>,v1=<hex HMAC of "<t>.<raw body>">
+ */
+export const createWebhookConnector = ({ url, secret }: WebhookOptions): CrmConnector => ({
+  id: 'webhook',
+  deliver: async (payload, auditId) => {
+    const body = JSON.stringify({ event: 'audit.created', audit_id: auditId, data: payload });
+    const timestamp = Math.floor(Date.now() / 1000);
+    const signature = await signWebhookBody(secret, timestamp, body);
+
+    await crmRequest(url, {
+      method: 'POST',
+      headers: {
+        'X-Brandscore-Event': 'audit.created',
+        'X-Brandscore-Delivery': auditId,
+        'X-Brandscore-Signature': `t=${timestamp},v1=${signature}`
+      },
+      body
+    });
+    return { externalId: null };
+  }
+});
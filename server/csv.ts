@@ -0,0 +1,22 @@
+/**
+ * RFC 4180 CSV. Cells that a spreadsheet would run as a formula
+ * (=, +, -, @) are prefixed with a quote, since lead fields are user input.
+ */
+
+export interface CsvColumn<T> {
+  header: string;
+  value: (row: T) => string | number | null | undefined;
+}
+
+const escapeCell = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = <T>(rows: T[], columns: CsvColumn<T>[]): string =>
+  [
+    columns.map(c => escapeCell(c.header)).join(','),
+    ...rows.map(row => columns.map(c => escapeCell(c.value(row))).join(','))
+  ].join('\r\n') + '\r\n';
@@ -0,0 +1,113 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { IncomingMessage } from 'node:http';
+import type { Plugin } from 'vite';
+
+/**
+ * Serves the /api route files from the Vite dev server, mirroring Vercel's
+ * file-based routing: api/audits/index.ts -> /api/audits,
+ * api/audits/[id]/index.ts -> /api/audits/:id.
+ * Handlers export one function per HTTP method taking a Web Request.
+ */
+
+interface ApiRoute {
+  file: string;
+  pattern: RegExp;
+  isDynamic: boolean;
+}
+
+const collectRoutes = (apiDir: string): ApiRoute[] => {
+  const routes: ApiRoute[] = [];
+
+  const walk = (dir: string) => {
+    fs.readdirSync(dir, { withFileTypes: true }).forEach(entry => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return walk(fullPath);
+      if (!entry.name.endsWith('.ts')) return;
+
+      const routePath = path.relative(apiDir, fullPath)
+        .split(path.sep).join('/')
+        .replace(/\.ts$/, '')
+        .replace(/(^|\/)index$/, '');
+      const source = routePath
+        .split('/')
+        .map(segment => /^\[.+\]$/.test(segment) ? '[^/]+' : segment.replace(/[.*+?^${}()|\\]/g, '\\$&'))
+        .join('/');
+
+      routes.push({
+        file: fullPath,
+        pattern: new RegExp(`^/api${source ? `/${source}` : ''}/?$`),
+        isDynamic: routePath.includes('[')
+      });
+    });
+  };
+
+  walk(apiDir);
+  // Static segments win over dynamic ones, like on Vercel
+  return routes.sort((a, b) => Number(a.isDynamic) - Number(b.isDynamic));
+};
+
+const readBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', chunk => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+export const devApiPlugin = (env: Record<string, string>): Plugin => ({
+  name: 'brandscore-dev-api',
+  apply: 'serve',
+  configureServer(server) {
+    // Server modules read process.env, so expose .env values the same way Vercel does
+    Object.entries(env).forEach(([key, value]) => {
+      const target = process.env as Record<string, string | undefined>;
+      if (target[key] === undefined) target[key] = value;
+    });
+
+    const apiDir = path.resolve(server.config.root, 'api');
+
+    server.middlewares.use(async (req, res, next) => {
+      if (!req.url?.startsWith('/api/')) return next();
+
+      const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+      // Re-scan on every request so new route files work without a restart
+      const route = collectRoutes(apiDir).find(r => r.pattern.test(url.pathname));
+      if (!route) return next();
+
+      try {
+        const mod = await server.ssrLoadModule(route.file);
+        const method = req.method || 'GET';
+        const handler = mod[method];
+        if (typeof handler !== 'function') {
+          res.statusCode = 405;
+          res.end(JSON.stringify({ error: `Method ${method} not allowed` }));
+          return;
+        }
+
+        const headers = new Headers();
+        Object.entries(req.headers).forEach(([key, value]) => {
+          if (Array.isArray(value)) value.forEach(v => headers.append(key, v));
+          else if (value !== undefined) headers.set(key, value);
+        });
+
+        const hasBody = method !== 'GET' && method !== 'HEAD';
+        const request = new Request(url, {
+          method,
+          headers,
+          body: hasBody ? new Uint8Array(await readBody(req)) : undefined
+        });
+
+        const response: Response = await handler(request);
+        res.statusCode = response.status;
+        response.headers.forEach((value, key) => res.setHeader(key, value));
+        res.end(Buffer.from(await response.arrayBuffer()));
+      } catch (err) {
+        server.ssrFixStacktrace(err as Error);
+        console.error(`[dev-api] ${req.method} ${url.pathname} failed:`, err);
+        res.statusCode = 500;
+        res.end(JSON.stringify({ error: "Internal Server Error" }));
+      }
+    });
+  }
+});
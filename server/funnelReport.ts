@@ -0,0 +1,112 @@
+import { AppStep, FunnelBreakdown, FunnelCta, FunnelEvent, FunnelReport } from '../types';
+import { FUNNEL_STEPS } from '../constants';
+
+/**
+ * Aggregates raw funnel events into per-session journeys, then into step
+ * reach, lead form completion, CTA clicks and per-question drop-off, for all
+ * traffic and per utm_campaign. Booked calls come from the audit rows instead
+ * (brand_audits.booked_at): bookings carry no funnel session.
+ */
+
+interface SessionJourney {
+  campaign: string | null;
+  steps: Set<AppStep>;
+  questions: number[]; // Viewed, in order, without repeats
+  leadFormSteps: Set<string>;
+  ctaClicks: FunnelCta[];
+}
+
+const emptyBreakdown = (campaign: string | null): FunnelBreakdown => ({
+  campaign,
+  sessions: 0,
+  steps: Object.fromEntries(FUNNEL_STEPS.map(step => [step, 0])) as Record<AppStep, number>,
+  leadFormStep1: 0,
+  leadFormStep2: 0,
+  ctaClicks: {},
+  questions: [],
+  booked: 0
+});
+
+// Events must be oldest first so a session's campaign is the one it arrived with
+const toJourneys = (events: FunnelEvent[]): SessionJourney[] => {
+  const journeys = new Map<string, SessionJourney>();
+
+  events.forEach(event => {
+    let journey = journeys.get(event.sessionId);
+    if (!journey) {
+      journey = { campaign: null, steps: new Set(), questions: [], leadFormSteps: new Set(), ctaClicks: [] };
+      journeys.set(event.sessionId, journey);
+    }
+    if (!journey.campaign && event.utm_campaign) journey.campaign = event.utm_campaign;
+
+    switch (event.type) {
+      case 'step_viewed':
+        if (event.step) journey.steps.add(event.step);
+        break;
+      case 'question_viewed':
+        if (event.questionId !== undefined && !journey.questions.includes(event.questionId)) journey.questions.push(event.questionId);
+        break;
+      case 'lead_form_step_completed':
+        if (event.detail) journey.leadFormSteps.add(event.detail);
+        break;
+      case 'cta_clicked':
+        if (event.detail) journey.ctaClicks.push(event.detail as FunnelCta);
+        break;
+    }
+  });
+
+  return Array.from(journeys.values());
+};
+
+const addJourney = (breakdown: FunnelBreakdown, journey: SessionJourney) => {
+  // 1. Reach
+  breakdown.sessions++;
+  journey.steps.forEach(step => { breakdown.steps[step] = (breakdown.steps[step] || 0) + 1; });
+  if (journey.leadFormSteps.has('1')) breakdown.leadFormStep1++;
+  if (journey.leadFormSteps.has('2')) breakdown.leadFormStep2++;
+  journey.ctaClicks.forEach(cta => { breakdown.ctaClicks[cta] = (breakdown.ctaClicks[cta] || 0) + 1; });
+
+  // 2. Question drop-off: the last question seen, unless the quiz was finished
+  const lastQuestion = journey.questions[journey.questions.length - 1];
+  const finishedQuiz = journey.steps.has(AppStep.LEAD_FORM);
+  journey.questions.forEach(questionId => {
+    let entry = breakdown.questions.find(q => q.questionId === questionId);
+    if (!entry) {
+      entry = { questionId, viewed: 0, abandoned: 0 };
+      breakdown.questions.push(entry);
+    }
+    entry.viewed++;
+    if (questionId === lastQuestion && !finishedQuiz) entry.abandoned++;
+  });
+};
+
+/**
+ * `bookedCampaigns`: the utm_campaign of each audit booked in the period.
+ */
+export const buildFunnelReport = (events: FunnelEvent[], truncated = false, bookedCampaigns: (string | null)[] = []): FunnelReport => {
+  const total = emptyBreakdown(null);
+  const campaigns = new Map<string | null, FunnelBreakdown>();
+  const campaignBreakdown = (campaign: string | null) => {
+    let breakdown = campaigns.get(campaign);
+    if (!breakdown) {
+      breakdown = emptyBreakdown(campaign);
+      campaigns.set(campaign, breakdown);
+    }
+    return breakdown;
+  };
+
+  toJourneys(events).forEach(journey => {
+    addJourney(total, journey);
+    addJourney(campaignBreakdown(journey.campaign), journey);
+  });
+  bookedCampaigns.forEach(campaign => {
+    total.booked++;
+    campaignBreakdown(campaign).booked++;
+  });
+
+  return {
+    total,
+    campaigns: Array.from(campaigns.values()).sort((a, b) => b.sessions - a.sessions),
+    truncated
+  };
+};
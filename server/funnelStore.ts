@@ -0,0 +1,100 @@
+import { FunnelEvent } from '../types';
+import { supabase } from './supabaseService';
+
+/**
+ * Funnel events (table `funnel_events`), one row per tracked interaction.
+ * Without Supabase they stay in process memory, enough to try the report locally.
+ */
+
+export interface StoredFunnelEvent extends FunnelEvent {
+  createdAt: string;
+}
+
+const MEMORY_LOG_LIMIT = 5000;
+const memoryLog: StoredFunnelEvent[] = [];
+
+// PostgREST caps each response, so longer periods are read in pages
+const READ_PAGE_SIZE = 1000;
+
+export const recordFunnelEvent = async (event: FunnelEvent): Promise<void> => {
+  if (!supabase) {
+    memoryLog.push({ ...event, createdAt: new Date().toISOString() });
+    if (memoryLog.length > MEMORY_LOG_LIMIT) memoryLog.splice(0, memoryLog.length - MEMORY_LOG_LIMIT);
+    return;
+  }
+
+  const { error } = await supabase.from('funnel_events').insert([{
+    session_id: event.sessionId,
+    type: event.type,
+    step: event.step ?? null,
+    question_id: event.questionId ?? null,
+    detail: event.detail ?? null,
+    utm_source: event.utm_source ?? null,
+    utm_medium: event.utm_medium ?? null,
+    utm_campaign: event.utm_campaign ?? null,
+    tenant_id: event.tenantId ?? null
+  }]);
+  if (error) console.warn("Funnel event write failed:", error.message);
+};
+
+const fromRow = (row: any): StoredFunnelEvent => ({
+  sessionId: row.session_id,
+  type: row.type,
+  step: row.step ?? undefined,
+  questionId: row.question_id ?? undefined,
+  detail: row.detail ?? undefined,
+  utm_source: row.utm_source ?? undefined,
+  utm_medium: row.utm_medium ?? undefined,
+  utm_campaign: row.utm_campaign ?? undefined,
+  tenantId: row.tenant_id ?? undefined,
+  createdAt: row.created_at
+});
+
+const dayAfter = (day: string): string => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString();
+};
+
+/**
+ * Events in the day range (inclusive), optionally of one tenant, oldest first, at most `limit`.
+ * Returns null when the store cannot be read.
+ */
+export const listFunnelEvents = async (
+  { from, to, tenant }: { from?: string; to?: string; tenant?: string },
+  limit: number
+): Promise<StoredFunnelEvent[] | null> => {
+  const toExclusive = to ? dayAfter(to) : undefined;
+
+  if (!supabase) {
+    return memoryLog
+      .filter(e => (!from || e.createdAt >= from) && (!toExclusive || e.createdAt < toExclusive))
+      .filter(e => !tenant || e.tenantId === tenant)
+      .slice(0, limit);
+  }
+
+  try {
+    const events: StoredFunnelEvent[] = [];
+    while (events.length < limit) {
+      const start = events.length;
+      let query = supabase
+        .from('funnel_events')
+        .select('session_id, type, step, question_id, detail, utm_source, utm_medium, utm_campaign, tenant_id, created_at')
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(start, start + Math.min(READ_PAGE_SIZE, limit - start) - 1);
+      if (from) query = query.gte('created_at', from);
+      if (toExclusive) query = query.lt('created_at', toExclusive);
+      if (tenant) query = query.eq('tenant_id', tenant);
+
+      const { data, error } = await query;
+      if (error) throw error;
+      events.push(...(data || []).map(fromRow));
+      if (!data || data.length < READ_PAGE_SIZE) break;
+    }
+    return events;
+  } catch (err) {
+    console.error("Error listing funnel events:", err);
+    return null;
+  }
+};
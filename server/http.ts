@@ -0,0 +1,58 @@
+/**
+ * Small helpers shared by the /api route handlers.
+ * Handlers use the Web Request/Response API so the same files run on
+ * Vercel Functions and inside the Vite dev server (see devApiPlugin.ts).
+ */
+
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+export const json = (data: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers }
+  });
+
+export const readJson = async (request: Request): Promise<any> => {
+  try {
+    return await request.json();
+  } catch (e) {
+    throw new HttpError(400, "Request body must be valid JSON");
+  }
+};
+
+/**
+ * Returns the path segments after "/api", e.g. "/api/audits/123" -> ["audits", "123"].
+ */
+export const routeSegments = (request: Request): string[] =>
+  new URL(request.url).pathname.split('/').filter(Boolean).slice(1).map(decodeURIComponent);
+
+/**
+ * Public origin used when building links that leave the server (emails, CRM).
+ */
+export const getAppOrigin = (request: Request): string =>
+  (process.env.PUBLIC_APP_URL || new URL(request.url).origin).replace(/\/+$/, '');
+
+/**
+ * Wraps a handler so thrown HttpErrors become JSON error responses and
+ * anything else becomes a logged 500.
+ */
+export const withErrorHandling = (handler: (request: Request) => Promise<Response>) =>
+  async (request: Request): Promise<Response> => {
+    try {
+      return await handler(request);
+    } catch (err: any) {
+      if (err instanceof HttpError) {
+        return json({ error: err.message }, err.status);
+      }
+      console.error(`[API] ${request.method} ${new URL(request.url).pathname} failed:`, err);
+      return json({ error: "Internal Server Error" }, 500);
+    }
+  };
@@ -0,0 +1,213 @@
+import { AuditJob, AuditJobEvent, AuditJobStatus, AuditResult, CreateAuditRequest } from '../types';
+import { supabase } from './supabaseService';
+import { generateUUID } from '../services/utils';
+
+/**
+ * Persistence for audit jobs (table `audit_jobs`).
+ * Without Supabase, jobs live in process memory: fine for `npm run dev`,
+ * but serverless instances don't share memory, so production needs the table.
+ */
+
+interface JobRow {
+  id: string;
+  status: AuditJobStatus;
+  request: CreateAuditRequest;
+  events: AuditJobEvent[];
+  audit_id: string | null;
+  report_url: string | null;
+  result: AuditResult | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface JobPatch {
+  auditId?: string | null;
+  reportUrl?: string | null;
+  result?: AuditResult;
+  error?: string;
+  message?: string;
+}
+
+const memoryJobs = new Map<string, JobRow>();
+
+// A job still "active" after this long lost its worker (function timeout, crash)
+// and may be claimed again. Longer than the run function's maxDuration.
+const STALE_JOB_MS = 6 * 60 * 1000;
+
+// A finished job stays readable this long: enough for the polling tab and for
+// a report opened from the embed widget. The job id hands out owner tokens
+// (ownerAuth.ts withOwnerToken), so after that the row is deleted.
+export const FINISHED_JOB_TTL_MS = 15 * 60 * 1000;
+
+const isExpired = (row: JobRow): boolean =>
+  (row.status === 'done' || row.status === 'failed') && Date.now() - Date.parse(row.updated_at) > FINISHED_JOB_TTL_MS;
+
+const isClaimable = (row: JobRow): boolean => {
+  if (row.status === 'queued') return true;
+  const isActive = row.status === 'crawling' || row.status === 'analyzing' || row.status === 'saving';
+  return isActive && Date.now() - Date.parse(row.updated_at) > STALE_JOB_MS;
+};
+
+// The request holds lead PII, so it never leaves the server
+const toPublicJob = (row: JobRow): AuditJob => ({
+  id: row.id,
+  status: row.status,
+  brand: row.request.brand,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  events: row.events || [],
+  auditId: row.audit_id,
+  reportUrl: row.report_url,
+  result: row.result,
+  error: row.error
+});
+
+const readRow = async (id: string): Promise<JobRow | null> => {
+  if (!supabase) return memoryJobs.get(id) || null;
+
+  const { data, error } = await supabase
+    .from('audit_jobs')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Job lookup failed:", error);
+    return null;
+  }
+  return data as JobRow | null;
+};
+
+export const createJob = async (request: CreateAuditRequest): Promise<AuditJob> => {
+  const now = new Date().toISOString();
+  const row: JobRow = {
+    id: generateUUID(),
+    status: 'queued',
+    request,
+    events: [{ status: 'queued', at: now }],
+    audit_id: null,
+    report_url: null,
+    result: null,
+    error: null,
+    created_at: now,
+    updated_at: now
+  };
+
+  if (!supabase) {
+    memoryJobs.set(row.id, row);
+    return toPublicJob(row);
+  }
+
+  const { error } = await supabase.from('audit_jobs').insert([row]);
+  if (error) throw new Error(`Could not create audit job: ${error.message}`);
+  return toPublicJob(row);
+};
+
+const deleteRow = async (id: string): Promise<void> => {
+  if (!supabase) {
+    memoryJobs.delete(id);
+    return;
+  }
+  const { error } = await supabase.from('audit_jobs').delete().eq('id', id);
+  if (error) console.warn("Job delete failed:", error.message);
+};
+
+/**
+ * The job, or null when unknown or finished more than FINISHED_JOB_TTL_MS ago
+ * (expired rows are deleted on the way).
+ */
+export const getJob = async (id: string): Promise<AuditJob | null> => {
+  const row = await readRow(id);
+  if (!row) return null;
+  if (isExpired(row)) {
+    await deleteRow(id);
+    return null;
+  }
+  return toPublicJob(row);
+};
+
+/**
+ * Moves a queued (or stale) job to 'crawling' and returns its request.
+ * Returns null when the job is missing or another worker already took it,
+ * so a job never runs twice (e.g. two tabs resuming the same job).
+ */
+export const claimJob = async (id: string): Promise<CreateAuditRequest | null> => {
+  const now = new Date().toISOString();
+
+  if (!supabase) {
+    const row = memoryJobs.get(id);
+    if (!row || !isClaimable(row)) return null;
+    row.status = 'crawling';
+    row.events = [...row.events, { status: 'crawling', at: now }];
+    row.updated_at = now;
+    return row.request;
+  }
+
+  const current = await readRow(id);
+  if (!current || !isClaimable(current)) return null;
+
+  // Optimistic lock on updated_at: only one caller can win the claim
+  const { data, error } = await supabase
+    .from('audit_jobs')
+    .update({
+      status: 'crawling',
+      events: [...current.events, { status: 'crawling', at: now }],
+      updated_at: now
+    })
+    .eq('id', id)
+    .eq('updated_at', current.updated_at)
+    .select('request');
+
+  if (error) {
+    console.error("Job claim failed:", error);
+    return null;
+  }
+  return data && data.length > 0 ? (data[0].request as CreateAuditRequest) : null;
+};
+
+/**
+ * Records a status transition (and its event) on a job.
+ */
+export const updateJobStatus = async (
+  id: string,
+  status: AuditJobStatus,
+  patch: JobPatch = {}
+): Promise<AuditJob | null> => {
+  const row = await readRow(id);
+  if (!row) return null;
+
+  const now = new Date().toISOString();
+  const event: AuditJobEvent = { status, at: now, ...(patch.message ? { message: patch.message } : {}) };
+  const next: JobRow = {
+    ...row,
+    status,
+    events: [...(row.events || []), event],
+    updated_at: now,
+    audit_id: patch.auditId !== undefined ? patch.auditId : row.audit_id,
+    report_url: patch.reportUrl !== undefined ? patch.reportUrl : row.report_url,
+    result: patch.result ?? row.result,
+    error: patch.error ?? row.error
+  };
+
+  if (!supabase) {
+    memoryJobs.set(id, next);
+    return toPublicJob(next);
+  }
+
+  const { error } = await supabase
+    .from('audit_jobs')
+    .update({
+      status: next.status,
+      events: next.events,
+      updated_at: next.updated_at,
+      audit_id: next.audit_id,
+      report_url: next.report_url,
+      result: next.result,
+      error: next.error
+    })
+    .eq('id', id);
+
+  if (error) console.error("Job update failed:", error);
+  return toPublicJob(next);
+};
@@ -0,0 +1,39 @@
+/**
+ * Transactional email sent by the server itself (owner access codes).
+ * Report emails and follow-ups still go out through Zapier / the CRM.
+ * Uses Resend when RESEND_API_KEY is set; otherwise the message is logged,
+ * so codes can be read from the terminal during `npm run dev`.
+ */
+
+export interface OutgoingEmail {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const RESEND_API_URL = 'https://api.resend.com/emails';
+const DEFAULT_FROM = 'Brand Score <onboarding@resend.dev>';
+
+export const sendEmail = async (email: OutgoingEmail): Promise<void> => {
+  const apiKey = process.env.RESEND_API_KEY?.trim();
+  if (!apiKey) {
+    console.warn(`RESEND_API_KEY not set. Email to ${email.to} not sent:\n${email.subject}\n${email.text}`);
+    return;
+  }
+
+  const response = await fetch(RESEND_API_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+    body: JSON.stringify({
+      from: process.env.EMAIL_FROM?.trim() || DEFAULT_FROM,
+      to: [email.to],
+      subject: email.subject,
+      html: email.html,
+      text: email.text
+    })
+  });
+  if (!response.ok) {
+    throw new Error(`Email send failed: Resend ${response.status} ${await response.text().catch(() => '')}`);
+  }
+};
@@ -0,0 +1,83 @@
+import { AuditJob, OwnerSession } from '../types';
+import { HttpError } from './http';
+import { constantTimeEqual } from './constantTime';
+
+/**
+ * Owner access to a stored report. The lead proves they own the audit with a
+ * code emailed to them (see ownerCodes.ts) and gets a signed session token:
+ * `<expiry>.<HMAC of audit id + expiry>`. Nothing is stored per session, so a
+ * token stays valid until it expires.
+ *
+ * Signed with OWNER_TOKEN_SECRET. Without it a random secret is made per
+ * process, which is fine for `npm run dev` but logs everyone out on restart
+ * (and breaks across serverless instances).
+ */
+
+// Session opened with the emailed code, or handed to the visitor who ran the audit
+export const OWNER_SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+// PDF links in emails and CRM records, fetched long after the audit ran
+export const PDF_LINK_TTL_SECONDS = 180 * 24 * 60 * 60;
+
+const encoder = new TextEncoder();
+
+let fallbackSecret: string | null = null;
+
+const getSecret = (): string => {
+  const secret = process.env.OWNER_TOKEN_SECRET?.trim();
+  if (secret) return secret;
+  if (!fallbackSecret) {
+    console.warn("OWNER_TOKEN_SECRET is not set: report sessions only last until this process restarts.");
+    fallbackSecret = crypto.randomUUID() + crypto.randomUUID();
+  }
+  return fallbackSecret;
+};
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+  btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+/**
+ * base64url HMAC-SHA256 of `message` with the owner secret. Also used to hash
+ * the emailed codes, so a leaked table does not leak live codes.
+ */
+export const signOwnerMessage = async (message: string): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(getSecret()), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toBase64Url(await crypto.subtle.sign('HMAC', key, encoder.encode(message)));
+};
+
+export const createOwnerSession = async (auditId: string, ttlSeconds = OWNER_SESSION_TTL_SECONDS): Promise<OwnerSession> => {
+  const expiry = Math.floor(Date.now() / 1000) + ttlSeconds;
+  const signature = await signOwnerMessage(`owner:${auditId.toLowerCase()}:${expiry}`);
+  return { token: `${expiry}.${signature}`, expiresAt: new Date(expiry * 1000).toISOString() };
+};
+
+export const verifyOwnerToken = async (auditId: string, token: string): Promise<boolean> => {
+  const [expiryPart, signature] = token.split('.');
+  const expiry = Number(expiryPart);
+  if (!signature || !Number.isInteger(expiry) || expiry * 1000 <= Date.now()) return false;
+  return constantTimeEqual(signature, await signOwnerMessage(`owner:${auditId.toLowerCase()}:${expiry}`));
+};
+
+/**
+ * Guard for owner-only routes: `Authorization: Bearer <token>`, or `?token=`
+ * for links that cannot carry a header (PDF downloads, emailed PDF links).
+ */
+export const requireOwner = async (request: Request, auditId: string): Promise<void> => {
+  const header = request.headers.get('authorization') || '';
+  const provided = header.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+    || new URL(request.url).searchParams.get('token')?.trim()
+    || '';
+  if (!provided || !await verifyOwnerToken(auditId, provided)) {
+    throw new HttpError(401, "This report needs the code sent to its owner");
+  }
+};
+
+/**
+ * Adds an owner token to a finished job, so the visitor who ran the audit
+ * can open their report without an emailed code. Holding the job id is the
+ * proof: only the visitor's browser has it, and only for FINISHED_JOB_TTL_MS
+ * after the job ends (jobStore.ts), after which the id opens nothing.
+ */
+export const withOwnerToken = async (job: AuditJob): Promise<AuditJob> =>
+  job.status === 'done' && job.auditId
+    ? { ...job, ownerToken: (await createOwnerSession(job.auditId)).token }
+    : job;
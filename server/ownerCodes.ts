@@ -0,0 +1,152 @@
+import { supabase } from './supabaseService';
+import { signOwnerMessage } from './ownerAuth';
+import { constantTimeEqual } from './constantTime';
+
+/**
+ * One-time codes emailed to a report's owner (table `audit_owner_codes`,
+ * one live code per audit). Only a keyed hash of the code is stored.
+ * Without Supabase the codes stay in process memory.
+ */
+
+export const OWNER_CODE_TTL_MINUTES = 10;
+const CODE_TTL_MS = OWNER_CODE_TTL_MINUTES * 60 * 1000;
+// A new code replaces the old one, but not more than once a minute
+const RESEND_AFTER_MS = 60 * 1000;
+// Codes and wrong guesses are counted per audit over an hour; a new code
+// does not reset the guesses, so the hour allows MAX_ATTEMPTS guesses in total
+const WINDOW_MS = 60 * 60 * 1000;
+const MAX_CODES_PER_WINDOW = 5;
+const MAX_ATTEMPTS = 5;
+
+export type OwnerCodeCheck = 'valid' | 'invalid' | 'expired' | 'locked';
+// too_soon: the last code is less than a minute old; limit: the hour's codes or guesses are used up
+export type OwnerCodeThrottle = 'too_soon' | 'limit';
+
+interface CodeRow {
+  code_hash: string;
+  attempts: number;
+  expires_at: string;
+  created_at: string;
+  window_started_at: string;
+  codes_sent: number;
+}
+
+const CODE_COLUMNS = 'code_hash, attempts, expires_at, created_at, window_started_at, codes_sent';
+
+const memoryCodes = new Map<string, CodeRow>();
+
+const hashCode = (auditId: string, code: string) => signOwnerMessage(`code:${auditId.toLowerCase()}:${code}`);
+
+const readCode = async (auditId: string): Promise<CodeRow | null> => {
+  if (!supabase) return memoryCodes.get(auditId) || null;
+  const { data, error } = await supabase
+    .from('audit_owner_codes')
+    .select(CODE_COLUMNS)
+    .eq('audit_id', auditId)
+    .maybeSingle();
+  if (error) throw new Error(`Owner code read failed: ${error.message}`);
+  return data as CodeRow | null;
+};
+
+const deleteCode = async (auditId: string): Promise<void> => {
+  if (!supabase) {
+    memoryCodes.delete(auditId);
+    return;
+  }
+  const { error } = await supabase.from('audit_owner_codes').delete().eq('audit_id', auditId);
+  if (error) console.warn("Owner code delete failed:", error.message);
+};
+
+/**
+ * Replaces `seen` with `next`, only if nobody changed the row since it was
+ * read (compare-and-swap on the code and the counters). False when another
+ * request got there first.
+ */
+const swapCode = async (auditId: string, seen: CodeRow, next: CodeRow): Promise<boolean> => {
+  if (!supabase) {
+    const current = memoryCodes.get(auditId);
+    if (!current || current.code_hash !== seen.code_hash || current.attempts !== seen.attempts || current.codes_sent !== seen.codes_sent) return false;
+    memoryCodes.set(auditId, next);
+    return true;
+  }
+  const { data, error } = await supabase
+    .from('audit_owner_codes')
+    .update(next)
+    .eq('audit_id', auditId)
+    .eq('code_hash', seen.code_hash)
+    .eq('attempts', seen.attempts)
+    .eq('codes_sent', seen.codes_sent)
+    .select('audit_id');
+  if (error) throw new Error(`Owner code update failed: ${error.message}`);
+  return (data || []).length > 0;
+};
+
+const insertCode = async (auditId: string, row: CodeRow): Promise<boolean> => {
+  if (!supabase) {
+    if (memoryCodes.has(auditId)) return false;
+    memoryCodes.set(auditId, row);
+    return true;
+  }
+  const { error } = await supabase.from('audit_owner_codes').insert([{ audit_id: auditId, ...row }]);
+  if (error?.code === '23505') return false; // Created by a parallel request
+  if (error) throw new Error(`Owner code write failed: ${error.message}`);
+  return true;
+};
+
+/**
+ * Creates a 6-digit code for the audit, replacing any earlier one.
+ * At most one code a minute and MAX_CODES_PER_WINDOW an hour, and none once
+ * the hour's guesses are used up.
+ */
+export const issueOwnerCode = async (auditId: string): Promise<{ code: string; expiresAt: string } | OwnerCodeThrottle> => {
+  const existing = await readCode(auditId);
+  const now = Date.now();
+  if (existing && now - Date.parse(existing.created_at) < RESEND_AFTER_MS) return 'too_soon';
+
+  const inWindow = !!existing && now - Date.parse(existing.window_started_at) < WINDOW_MS;
+  if (existing && inWindow && (existing.codes_sent >= MAX_CODES_PER_WINDOW || existing.attempts >= MAX_ATTEMPTS)) return 'limit';
+
+  const code = String(crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).padStart(6, '0');
+  const row: CodeRow = {
+    code_hash: await hashCode(auditId, code),
+    attempts: existing && inWindow ? existing.attempts : 0,
+    expires_at: new Date(now + CODE_TTL_MS).toISOString(),
+    created_at: new Date(now).toISOString(),
+    window_started_at: existing && inWindow ? existing.window_started_at : new Date(now).toISOString(),
+    codes_sent: existing && inWindow ? existing.codes_sent + 1 : 1
+  };
+
+  const stored = existing ? await swapCode(auditId, existing, row) : await insertCode(auditId, row);
+  // Lost the race to a parallel request, which sent its own code
+  if (!stored) return 'too_soon';
+  return { code, expiresAt: row.expires_at };
+};
+
+// Parallel guesses each retry the swap; this bounds the retries under contention
+const MAX_SWAP_RETRIES = 10;
+
+/**
+ * Checks a code. The guess is counted first, with a compare-and-swap on the
+ * attempts, and the code is only compared once the count went through, so
+ * parallel guesses cannot get past MAX_ATTEMPTS. A valid code is used up.
+ */
+export const checkOwnerCode = async (auditId: string, code: string): Promise<OwnerCodeCheck> => {
+  const codeHash = await hashCode(auditId, code);
+
+  for (let retry = 0; retry < MAX_SWAP_RETRIES; retry++) {
+    const row = await readCode(auditId);
+    if (!row) return 'expired';
+    if (Date.parse(row.expires_at) <= Date.now()) return 'expired';
+    if (row.attempts >= MAX_ATTEMPTS) return 'locked';
+
+    const attempts = row.attempts + 1;
+    if (!await swapCode(auditId, row, { ...row, attempts })) continue;
+
+    if (constantTimeEqual(row.code_hash, codeHash)) {
+      await deleteCode(auditId);
+      return 'valid';
+    }
+    return attempts >= MAX_ATTEMPTS ? 'locked' : 'invalid';
+  }
+  return 'locked';
+};
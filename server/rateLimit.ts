@@ -0,0 +1,51 @@
+import { HttpError } from './http';
+
+/**
+ * Fixed-window rate limit per client IP, kept in process memory. On
+ * serverless each instance counts on its own, so this caps bursts rather
+ * than enforcing an exact global quota.
+ */
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+const windows = new Map<string, Window>();
+
+// Vercel and most proxies put the client first in x-forwarded-for
+export const clientIp = (request: Request): string =>
+  request.headers.get('x-forwarded-for')?.split(',')[0]?.trim()
+  || request.headers.get('x-real-ip')?.trim()
+  || 'unknown';
+
+/**
+ * Counts one call against `id` and says whether it is within `limit` calls
+ * per `windowMs`. For limits on something other than the client IP, e.g. a
+ * funnel session.
+ */
+export const isWithinLimit = (id: string, limit: number, windowMs: number): boolean => {
+  const now = Date.now();
+  const current = windows.get(id);
+
+  if (!current || current.resetAt <= now) {
+    // Drop expired windows now and then so the map doesn't grow forever
+    if (windows.size > 10_000) {
+      windows.forEach((w, k) => { if (w.resetAt <= now) windows.delete(k); });
+    }
+    windows.set(id, { count: 1, resetAt: now + windowMs });
+    return true;
+  }
+
+  current.count += 1;
+  return current.count <= limit;
+};
+
+/**
+ * Throws 429 once `key` made more than `limit` calls within `windowMs`.
+ */
+export const enforceRateLimit = (request: Request, key: string, limit: number, windowMs: number): void => {
+  if (!isWithinLimit(`${key}:${clientIp(request)}`, limit, windowMs)) {
+    throw new HttpError(429, "Too many requests, please slow down");
+  }
+};
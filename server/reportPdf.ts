@@ -0,0 +1,497 @@
+import { LineCapStyle, PDFDocument, PDFFont, PDFPage, rgb, RGB, StandardFonts } from 'pdf-lib';
+import { AuditRecord, AuditResult, PsiStrategyReport, TechnicalSignal } from '../types';
+import { PDF_LOCALES } from '../constants';
+import { createTranslator, Translator } from '../services/i18n';
+import { getTenant } from '../services/tenants';
+import { normalizeDomain } from '../services/utils';
+
+/**
+ * Branded PDF of a stored report, served by GET /api/audits/:id/pdf and
+ * linked from the follow-up email. Share links get the same PDF without the
+ * lead from GET /api/shares/:token/pdf.
+ * Uses pdf-lib's standard fonts so it runs on any serverless runtime without
+ * font files. Layout: black cover with the score gauge, summary and score
+ * breakdown, one page per category, technical signals, sources.
+ */
+
+const PAGE_SIZE: [number, number] = [595.28, 841.89]; // A4 in points
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_SIZE[0] - MARGIN * 2;
+const BOTTOM = MARGIN + 24; // Keeps content clear of the footer
+
+const BLACK = rgb(0, 0, 0);
+const WHITE = rgb(1, 1, 1);
+const INK = rgb(0.07, 0.07, 0.07);
+const MUTED = rgb(0.44, 0.44, 0.48);
+const RULE = rgb(0.89, 0.89, 0.91);
+const TRACK = rgb(0.2, 0.2, 0.2);
+
+export const canRenderPdf = (result: AuditResult): boolean => PDF_LOCALES.includes(result.locale || 'en');
+
+// --- TEXT HELPERS ---
+
+// Standard fonts only encode WinAnsi: Latin-1 plus a few typographic characters
+const WIN_ANSI_EXTRA = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+const toWinAnsi = (text: string): string =>
+  Array.from(text.replace(/\r/g, '').replace(/\t/g, ' ')).map(ch => {
+    const code = ch.charCodeAt(0);
+    if (ch === '\n' || (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRA.includes(ch)) return ch;
+    if (/\s/.test(ch)) return ' ';
+    // Accented letters outside Latin-1 lose their accent rather than the letter
+    const base = ch.normalize('NFKD').replace(/[̀-ͯ]/g, '');
+    return /^[\x20-\x7e]+$/.test(base) ? base : '?';
+  }).join('');
+
+interface Run {
+  text: string;
+  bold: boolean;
+}
+
+// Same **bold** convention the dashboard renders
+const parseBold = (text: string): Run[] =>
+  text.split(/(\*\*[\s\S]+?\*\*)/g)
+    .filter(Boolean)
+    .map(part => part.startsWith('**') && part.endsWith('**')
+      ? { text: part.slice(2, -2), bold: true }
+      : { text: part, bold: false });
+
+const scoreLabel = (score: number) => score < 0 ? '—' : `${score}`;
+
+const formatMs = (ms: number | null) => ms === null ? '—' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
+
+// --- LAYOUT ---
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+}
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  italic?: boolean;
+  color?: RGB;
+  x?: number;
+  width?: number;
+  lineHeight?: number;
+}
+
+interface Column {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+/**
+ * Top-down writer over pdf-lib's bottom-up coordinates. Starts a new page
+ * whenever the next block doesn't fit.
+ */
+const createWriter = (doc: PDFDocument, fonts: Fonts) => {
+  let page: PDFPage = doc.addPage(PAGE_SIZE);
+  let y = PAGE_SIZE[1] - MARGIN;
+
+  const fontFor = (o: TextOptions) => o.bold ? fonts.bold : o.italic ? fonts.italic : fonts.regular;
+
+  const newPage = () => {
+    page = doc.addPage(PAGE_SIZE);
+    y = PAGE_SIZE[1] - MARGIN;
+  };
+
+  const ensure = (height: number) => {
+    if (y - height < BOTTOM) newPage();
+  };
+
+  const gap = (height: number) => {
+    y -= height;
+  };
+
+  // Truncates to the width, for table cells
+  const fit = (text: string, font: PDFFont, size: number, width: number) => {
+    let value = toWinAnsi(text).replace(/\n/g, ' ');
+    if (font.widthOfTextAtSize(value, size) <= width) return value;
+    while (value.length > 1 && font.widthOfTextAtSize(`${value}…`, size) > width) value = value.slice(0, -1);
+    return `${value.trimEnd()}…`;
+  };
+
+  /**
+   * Wrapped paragraph with **bold** runs. Blank lines start new paragraphs.
+   */
+  const paragraph = (text: string, o: TextOptions = {}) => {
+    const size = o.size ?? 10.5;
+    const lineHeight = o.lineHeight ?? size * 1.5;
+    const x = o.x ?? MARGIN;
+    const width = o.width ?? CONTENT_WIDTH;
+    const color = o.color ?? INK;
+
+    toWinAnsi(text).split(/\n+/).filter(p => p.trim()).forEach((block, index) => {
+      if (index > 0) gap(lineHeight * 0.5);
+      const words = parseBold(block).flatMap(run =>
+        run.text.split(/\s+/).filter(Boolean).map(word => ({ word, bold: run.bold || !!o.bold }))
+      );
+
+      let line: typeof words = [];
+      let lineWidth = 0;
+      const flush = () => {
+        if (line.length === 0) return;
+        ensure(lineHeight);
+        let cursor = x;
+        line.forEach(({ word, bold }) => {
+          const font = bold ? fonts.bold : fontFor(o);
+          page.drawText(word, { x: cursor, y: y - size, size, font, color });
+          cursor += font.widthOfTextAtSize(`${word} `, size);
+        });
+        gap(lineHeight);
+        line = [];
+        lineWidth = 0;
+      };
+
+      words.forEach(entry => {
+        const font = entry.bold ? fonts.bold : fontFor(o);
+        const wordWidth = font.widthOfTextAtSize(entry.word, size);
+        const spaceWidth = line.length > 0 ? font.widthOfTextAtSize(' ', size) : 0;
+        if (line.length > 0 && lineWidth + spaceWidth + wordWidth > width) flush();
+        lineWidth += (line.length > 0 ? font.widthOfTextAtSize(' ', size) : 0) + wordWidth;
+        line.push(entry);
+      });
+      flush();
+    });
+  };
+
+  // Small uppercase section label
+  const label = (text: string, color: RGB = MUTED) => {
+    ensure(18);
+    page.drawText(toWinAnsi(text.toUpperCase()), { x: MARGIN, y: y - 8, size: 8, font: fonts.bold, color });
+    gap(18);
+  };
+
+  const heading = (text: string, size = 22) => {
+    paragraph(text, { size, bold: true, lineHeight: size * 1.2 });
+    gap(6);
+  };
+
+  const rule = () => {
+    ensure(12);
+    page.drawLine({ start: { x: MARGIN, y: y - 4 }, end: { x: MARGIN + CONTENT_WIDTH, y: y - 4 }, thickness: 0.5, color: RULE });
+    gap(12);
+  };
+
+  // Horizontal score bar, 0-100
+  const bar = (score: number, x: number, width: number, barY: number) => {
+    page.drawRectangle({ x, y: barY, width, height: 4, color: RULE });
+    const filled = Math.max(0, Math.min(100, score)) / 100 * width;
+    if (filled > 0) page.drawRectangle({ x, y: barY, width: filled, height: 4, color: INK });
+  };
+
+  const bullets = (items: string[], size = 9.5) => {
+    items.forEach(item => {
+      ensure(size * 1.5);
+      page.drawText('•', { x: MARGIN, y: y - size, size, font: fonts.regular, color: MUTED });
+      paragraph(item, { size, x: MARGIN + 12, width: CONTENT_WIDTH - 12, color: INK });
+      gap(2);
+    });
+  };
+
+  /**
+   * Simple ruled table. The header row repeats on every page it spans.
+   */
+  const table = (columns: Column[], rows: string[][]) => {
+    const size = 9;
+    const rowHeight = 20;
+    const drawRow = (cells: string[], isHeader: boolean) => {
+      ensure(rowHeight);
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const column = columns[i];
+        const font = isHeader || i === 0 ? fonts.bold : fonts.regular;
+        const cellSize = isHeader ? 7.5 : size;
+        const value = fit(isHeader ? cell.toUpperCase() : cell, font, cellSize, column.width - 8);
+        const textWidth = font.widthOfTextAtSize(value, cellSize);
+        const textX = column.align === 'right' ? x + column.width - textWidth : x;
+        page.drawText(value, { x: textX, y: y - 13, size: cellSize, font, color: isHeader ? MUTED : INK });
+        x += column.width;
+      });
+      page.drawLine({ start: { x: MARGIN, y: y - rowHeight }, end: { x: MARGIN + CONTENT_WIDTH, y: y - rowHeight }, thickness: isHeader ? 0.8 : 0.4, color: RULE });
+      gap(rowHeight);
+    };
+
+    drawRow(columns.map(c => c.header), true);
+    rows.forEach(row => {
+      if (y - rowHeight < BOTTOM) {
+        newPage();
+        drawRow(columns.map(c => c.header), true);
+      }
+      drawRow(row, false);
+    });
+  };
+
+  return {
+    get page() { return page; },
+    get y() { return y; },
+    newPage,
+    ensure,
+    gap,
+    paragraph,
+    label,
+    heading,
+    rule,
+    bar,
+    bullets,
+    table,
+    fit,
+  };
+};
+
+// --- SECTIONS ---
+
+const drawCover = (page: PDFPage, fonts: Fonts, record: Pick<AuditRecord, 'brand' | 'result' | 'lead'>, i18n: Translator) => {
+  const { brand, result, lead } = record;
+  const { t } = i18n;
+  const [width, height] = PAGE_SIZE;
+  page.drawRectangle({ x: 0, y: 0, width, height, color: BLACK });
+
+  // 1. Wordmark + title block
+  page.drawText('ZOUHALL', { x: MARGIN, y: height - MARGIN - 14, size: 14, font: fonts.bold, color: WHITE });
+  page.drawText(toWinAnsi(t('dashboard.reportLabel').toUpperCase()), { x: MARGIN, y: height - 160, size: 9, font: fonts.bold, color: MUTED });
+
+  let nameSize = 40;
+  const name = toWinAnsi(brand.name);
+  while (nameSize > 18 && fonts.bold.widthOfTextAtSize(name, nameSize) > CONTENT_WIDTH) nameSize -= 2;
+  page.drawText(name, { x: MARGIN, y: height - 210, size: nameSize, font: fonts.bold, color: WHITE });
+  page.drawText(toWinAnsi(normalizeDomain(brand.url)), { x: MARGIN, y: height - 236, size: 11, font: fonts.regular, color: MUTED });
+
+  // 2. Score gauge: track circle plus a clockwise arc from 12 o'clock
+  const cx = width / 2;
+  const cy = height / 2 - 60;
+  const radius = 95;
+  page.drawCircle({ x: cx, y: cy, size: radius, borderColor: TRACK, borderWidth: 10 });
+  const score = Math.max(0, Math.min(100, result.momentumScore));
+  if (score > 0) {
+    const angle = (Math.min(score, 99.9) / 100) * Math.PI * 2;
+    const endX = radius * Math.sin(angle);
+    const endY = -radius * Math.cos(angle);
+    page.drawSvgPath(`M 0 ${-radius} A ${radius} ${radius} 0 ${score > 50 ? 1 : 0} 1 ${endX} ${endY}`, {
+      x: cx,
+      y: cy,
+      borderColor: WHITE,
+      borderWidth: 10,
+      borderLineCap: LineCapStyle.Round
+    });
+  }
+  const scoreText = `${result.momentumScore}`;
+  page.drawText(scoreText, { x: cx - fonts.bold.widthOfTextAtSize(scoreText, 64) / 2, y: cy - 16, size: 64, font: fonts.bold, color: WHITE });
+  page.drawText('/ 100', { x: cx - fonts.regular.widthOfTextAtSize('/ 100', 10) / 2, y: cy - 40, size: 10, font: fonts.regular, color: MUTED });
+
+  const scoreCaption = toWinAnsi(t('email.scoreLabel').toUpperCase());
+  page.drawText(scoreCaption, { x: cx - fonts.bold.widthOfTextAtSize(scoreCaption, 9) / 2, y: cy - radius - 40, size: 9, font: fonts.bold, color: WHITE });
+  const basedOn = toWinAnsi(t('dashboard.basedOn', { count: result.categories.length }));
+  page.drawText(basedOn, { x: cx - fonts.regular.widthOfTextAtSize(basedOn, 9) / 2, y: cy - radius - 56, size: 9, font: fonts.regular, color: MUTED });
+
+  // 3. Recipient + date
+  const recipient = t('dashboard.preparedFor', { name: lead?.fullName?.trim() || t('dashboard.defaultRecipient') });
+  page.drawText(toWinAnsi(recipient), { x: MARGIN, y: MARGIN + 16, size: 10, font: fonts.bold, color: WHITE });
+  page.drawText(toWinAnsi(new Date().toLocaleDateString(i18n.locale, { year: 'numeric', month: 'long', day: 'numeric' })), { x: MARGIN, y: MARGIN, size: 9, font: fonts.regular, color: MUTED });
+};
+
+const statusLabel = (status: TechnicalSignal['status'], i18n: Translator) =>
+  status === 'good' ? i18n.t('pdf.statusGood') : status === 'critical' ? i18n.t('pdf.statusCritical') : i18n.t('pdf.statusWarning');
+
+const psiRows = (mobile: PsiStrategyReport | null, desktop: PsiStrategyReport | null, i18n: Translator): string[][] => {
+  const value = (report: PsiStrategyReport | null, read: (r: PsiStrategyReport) => string) => report ? read(report) : '—';
+  const rows: [string, (r: PsiStrategyReport) => string][] = [
+    [i18n.t('psi.performance'), r => scoreLabel(r.perfScore)],
+    [i18n.t('psi.seo'), r => scoreLabel(r.seoScore)],
+    [i18n.t('psi.accessibility'), r => scoreLabel(r.accessibilityScore)],
+    [i18n.t('psi.bestPractices'), r => scoreLabel(r.bestPracticesScore)],
+    ['LCP', r => formatMs(r.metrics.lcpMs)],
+    ['CLS', r => r.metrics.cls === null ? '—' : r.metrics.cls.toFixed(2)],
+    ['TBT', r => formatMs(r.metrics.tbtMs)],
+    ['INP', r => formatMs(r.metrics.inpMs)],
+  ];
+  return rows.map(([name, read]) => [name, value(mobile, read), value(desktop, read)]);
+};
+
+// --- MAIN ---
+
+/**
+ * Renders the report. Throws for locales the standard fonts cannot typeset;
+ * check canRenderPdf first.
+ */
+export const renderReportPdf = async (record: Pick<AuditRecord, 'brand' | 'result' | 'lead'>): Promise<Uint8Array> => {
+  const { brand, result } = record;
+  if (!canRenderPdf(result)) throw new Error(`PDF export does not support locale "${result.locale}"`);
+
+  const i18n = createTranslator(result.locale);
+  const { t } = i18n;
+
+  const doc = await PDFDocument.create();
+  doc.setTitle(`${brand.name} - Brand Score`);
+  const agency = getTenant(result.tenantId).name;
+  doc.setAuthor(agency);
+  doc.setCreator(`${agency} Brand Score`);
+  doc.setLanguage(i18n.locale);
+
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(StandardFonts.HelveticaOblique),
+  };
+
+  // 1. Cover (the writer's first page)
+  const w = createWriter(doc, fonts);
+  drawCover(w.page, fonts, record, i18n);
+
+  // 2. Executive summary + score breakdown
+  w.newPage();
+  w.heading(t('dashboard.executiveSummary'));
+  if (result.businessContext) {
+    w.label(t('dashboard.businessContext'));
+    w.paragraph(result.businessContext, { italic: true, color: MUTED });
+    w.gap(10);
+  }
+  w.paragraph(result.executiveSummary, { size: 11 });
+  if (result.perceptionGap?.detected) {
+    w.gap(12);
+    w.label(t('dashboard.realityCheck'));
+    if (result.perceptionGap.verdict) w.paragraph(result.perceptionGap.verdict, { bold: true });
+    w.paragraph(result.perceptionGap.details, { color: MUTED });
+  }
+
+  w.gap(20);
+  w.rule();
+  w.label(t('pdf.overview'));
+  result.categories.forEach(cat => {
+    w.ensure(26);
+    const top = w.y;
+    w.page.drawText(toWinAnsi(i18n.category(cat.title)), { x: MARGIN, y: top - 11, size: 10.5, font: fonts.bold, color: INK });
+    w.bar(cat.score, MARGIN + 160, CONTENT_WIDTH - 200, top - 10);
+    const value = `${cat.score}`;
+    w.page.drawText(value, { x: MARGIN + CONTENT_WIDTH - fonts.bold.widthOfTextAtSize(value, 10.5), y: top - 11, size: 10.5, font: fonts.bold, color: INK });
+    w.gap(26);
+  });
+
+  // 3. One page per category
+  result.categories.forEach(cat => {
+    w.newPage();
+    w.label(t('dashboard.detailedAnalysis'));
+    const top = w.y;
+    const value = `${cat.score}`;
+    w.page.drawText(value, { x: MARGIN + CONTENT_WIDTH - fonts.bold.widthOfTextAtSize(value, 36), y: top - 30, size: 36, font: fonts.bold, color: INK });
+    w.paragraph(i18n.category(cat.title), { size: 26, bold: true, lineHeight: 32, width: CONTENT_WIDTH - 90 });
+    w.bar(cat.score, MARGIN, CONTENT_WIDTH, w.y - 8);
+    w.gap(28);
+
+    w.label(t('dashboard.issue'));
+    w.paragraph(cat.diagnostic || '—');
+    w.gap(14);
+    if (cat.evidence.length > 0) {
+      w.label(t('dashboard.evidence'));
+      w.bullets(cat.evidence);
+      w.gap(12);
+    }
+    w.label(t('dashboard.solution'));
+    w.paragraph(cat.strategy || '—');
+  });
+
+  // 4. Technical signals, PageSpeed and competitor benchmark
+  w.newPage();
+  w.heading(t('dashboard.technicalHealth'));
+  if (result.technicalSignals.length > 0) {
+    w.table(
+      [
+        { header: t('benchmark.signal'), width: CONTENT_WIDTH * 0.35 },
+        { header: '', width: CONTENT_WIDTH * 0.45 },
+        { header: '', width: CONTENT_WIDTH * 0.2, align: 'right' },
+      ],
+      result.technicalSignals.map(s => [i18n.term(s.label), i18n.term(s.value), statusLabel(s.status, i18n)])
+    );
+    w.gap(24);
+  }
+
+  const { mobile = null, desktop = null } = result.pageSpeed || {};
+  if (mobile || desktop) {
+    w.table(
+      [
+        { header: t('psi.metric'), width: CONTENT_WIDTH * 0.5 },
+        { header: t('psi.mobile'), width: CONTENT_WIDTH * 0.25, align: 'right' },
+        { header: t('psi.desktop'), width: CONTENT_WIDTH * 0.25, align: 'right' },
+      ],
+      psiRows(mobile, desktop, i18n)
+    );
+    const opportunities = (mobile || desktop)?.opportunities || [];
+    if (opportunities.length > 0) {
+      w.gap(16);
+      w.label(t('psi.opportunities'));
+      w.bullets(opportunities.map(o => `${o.title} (-${formatMs(o.savingsMs)})`));
+    }
+    w.gap(24);
+  }
+
+  if (result.benchmark && result.benchmark.sites.length > 1) {
+    const { sites, categories } = result.benchmark;
+    w.ensure(80);
+    w.label(t('benchmark.title'));
+    const siteWidth = (CONTENT_WIDTH * 0.65) / sites.length;
+    w.table(
+      [
+        { header: t('benchmark.inferredScore'), width: CONTENT_WIDTH * 0.35 },
+        ...sites.map(site => ({ header: site.isSelf ? t('benchmark.you') : site.domain, width: siteWidth, align: 'right' as const })),
+      ],
+      categories.map(category => [
+        i18n.category(category),
+        ...sites.map(site => {
+          const score = site.scores.find(s => s.category === category)?.score;
+          return score === null || score === undefined ? '—' : `${score}`;
+        }),
+      ])
+    );
+  }
+
+  // 5. Sources
+  w.newPage();
+  w.heading(t('pdf.sources'));
+  const sources = result.groundingUrls || [];
+  if (sources.length > 0) {
+    w.bullets(sources);
+  } else {
+    w.paragraph(t('pdf.noSources'), { color: MUTED });
+  }
+  w.gap(24);
+  w.rule();
+  w.paragraph(t('pdf.generated', { date: new Date().toLocaleDateString(i18n.locale) }), { size: 8.5, color: MUTED });
+  if (result.scoring?.version) {
+    w.paragraph(t('pdf.scoringVersion', { version: result.scoring.version }), { size: 8.5, color: MUTED });
+  }
+
+  // 6. Footer on every page but the cover
+  const pages = doc.getPages();
+  const footerLeft = toWinAnsi(`${t('dashboard.footer', { agency }).toUpperCase()} • ${brand.name}`);
+  pages.forEach((page, index) => {
+    if (index === 0) return;
+    const pageText = toWinAnsi(t('pdf.page', { page: index + 1, total: pages.length }));
+    page.drawText(w.fit(footerLeft, fonts.regular, 7.5, CONTENT_WIDTH - 80), { x: MARGIN, y: MARGIN - 24, size: 7.5, font: fonts.regular, color: MUTED });
+    page.drawText(pageText, { x: MARGIN + CONTENT_WIDTH - fonts.regular.widthOfTextAtSize(pageText, 7.5), y: MARGIN - 24, size: 7.5, font: fonts.regular, color: MUTED });
+  });
+
+  return doc.save();
+};
+
+/**
+ * The rendered report as an HTTP response: inline, or as a download with ?download=1.
+ */
+export const reportPdfResponse = async (request: Request, record: Pick<AuditRecord, 'brand' | 'result' | 'lead'>): Promise<Response> => {
+  const pdf = await renderReportPdf(record);
+  const slug = normalizeDomain(record.brand.url).replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '') || 'report';
+  const disposition = new URL(request.url).searchParams.get('download') === '1' ? 'attachment' : 'inline';
+
+  // Copy into a plain ArrayBuffer-backed view, which is what BodyInit accepts
+  return new Response(new Uint8Array(pdf), {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `${disposition}; filename="brand-score-${slug}.pdf"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+};
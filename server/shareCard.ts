@@ -0,0 +1,162 @@
+import React from 'react';
+import { ImageResponse } from '@vercel/og';
+import { Locale, SharedAudit } from '../types';
+import { PDF_LOCALES } from '../constants';
+import { createTranslator } from '../services/i18n';
+import { escapeHtml } from '../services/emailTemplates';
+import { getTenant, tenantApiOrigin, tenantAppUrl } from '../services/tenants';
+import { normalizeDomain } from '../services/utils';
+
+/**
+ * Link previews for share links: the 1200x630 score card served by
+ * GET /api/shares/:token/og, and the <head> tags crawlers get from
+ * GET /api/shares/:token/meta (vercel.json routes LinkedIn, Slack & co. there).
+ * @vercel/og only bundles a Latin font, so Arabic reports get an English card.
+ */
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const CARD_CATEGORIES = 4; // Best-scoring categories shown next to the gauge
+
+const h = React.createElement;
+
+// Same ramp as the dashboard rings
+const scoreColor = (score: number) => score >= 80 ? '#ffffff' : score >= 60 ? '#a1a1aa' : '#52525b';
+
+const cardLocale = (locale?: Locale): Locale => PDF_LOCALES.includes(locale || 'en') ? locale || 'en' : 'en';
+
+/**
+ * Public page of a share link, under the branding of the tenant the report was made for.
+ */
+export const shareLinkUrl = (shared: SharedAudit, token: string, appOrigin: string) =>
+  `${tenantAppUrl(getTenant(shared.result.tenantId), appOrigin)}/s/${encodeURIComponent(token)}`;
+
+const shareCardUrl = (shared: SharedAudit, token: string, appOrigin: string) =>
+  `${tenantApiOrigin(getTenant(shared.result.tenantId), appOrigin)}/api/shares/${encodeURIComponent(token)}/og`;
+
+const gauge = (score: number) => {
+  const radius = 120;
+  const circumference = 2 * Math.PI * radius;
+  const clamped = Math.max(0, Math.min(100, score));
+  return h('div', { style: { display: 'flex', position: 'relative', width: 280, height: 280, alignItems: 'center', justifyContent: 'center' } },
+    h('svg', { width: 280, height: 280, viewBox: '0 0 280 280', style: { position: 'absolute', top: 0, left: 0 } },
+      h('circle', { cx: 140, cy: 140, r: radius, fill: 'none', stroke: '#27272a', strokeWidth: 16 }),
+      h('circle', {
+        cx: 140,
+        cy: 140,
+        r: radius,
+        fill: 'none',
+        stroke: scoreColor(clamped),
+        strokeWidth: 16,
+        strokeLinecap: 'round',
+        strokeDasharray: `${(clamped / 100) * circumference} ${circumference}`,
+        transform: 'rotate(-90 140 140)'
+      })
+    ),
+    h('div', { style: { display: 'flex', alignItems: 'baseline' } },
+      h('span', { style: { fontSize: 104, color: '#ffffff', letterSpacing: -4 } }, `${score}`),
+      h('span', { style: { fontSize: 28, color: '#71717a', marginLeft: 6 } }, '/100')
+    )
+  );
+};
+
+/**
+ * PNG score card: tenant, brand, the Momentum Score gauge and the best category scores.
+ */
+export const renderShareCard = (shared: SharedAudit): ImageResponse => {
+  const { result, brand } = shared;
+  const { t, category } = createTranslator(cardLocale(result.locale));
+  const tenant = getTenant(result.tenantId);
+  const topCategories = [...result.categories].sort((a, b) => b.score - a.score).slice(0, CARD_CATEGORIES);
+
+  const card = h('div', {
+    style: { display: 'flex', width: '100%', height: '100%', backgroundColor: '#000000', color: '#ffffff', padding: 64 }
+  },
+    h('div', { style: { display: 'flex', flexDirection: 'column', justifyContent: 'space-between', width: 680, marginRight: 52 } },
+      h('div', { style: { display: 'flex', flexDirection: 'column' } },
+        h('span', { style: { fontSize: 22, color: '#71717a', textTransform: 'uppercase', letterSpacing: 4 } }, tenant.name),
+        h('span', { style: { fontSize: brand.name.length > 24 ? 48 : 64, marginTop: 24, letterSpacing: -2, lineHeight: 1.1 } }, brand.name),
+        h('span', { style: { fontSize: 24, color: '#71717a', marginTop: 12 } }, normalizeDomain(brand.url))
+      ),
+      h('div', { style: { display: 'flex', flexDirection: 'column' } },
+        ...topCategories.map(cat => h('div', { key: cat.title, style: { display: 'flex', flexDirection: 'column', marginTop: 18 } },
+          h('div', { style: { display: 'flex', justifyContent: 'space-between', fontSize: 22 } },
+            h('span', { style: { color: '#d4d4d8' } }, category(cat.title)),
+            h('span', { style: { color: '#ffffff' } }, `${cat.score}`)
+          ),
+          h('div', { style: { display: 'flex', width: '100%', height: 6, backgroundColor: '#27272a', marginTop: 8 } },
+            h('div', { style: { width: `${Math.max(0, Math.min(100, cat.score))}%`, height: 6, backgroundColor: scoreColor(cat.score) } })
+          )
+        ))
+      )
+    ),
+    h('div', { style: { display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', width: 340 } },
+      gauge(result.momentumScore),
+      h('span', { style: { fontSize: 20, marginTop: 28, textTransform: 'uppercase', letterSpacing: 3 } }, t('email.scoreLabel'))
+    )
+  );
+
+  return new ImageResponse(card, {
+    width: CARD_WIDTH,
+    height: CARD_HEIGHT,
+    headers: { 'cache-control': 'public, max-age=3600' } // Lowercase, to replace @vercel/og's year-long default
+  });
+};
+
+const shareMetaPage = (locale: Locale, head: string[], body: string) => `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="UTF-8">
+${head.join('\n')}
+</head>
+<body>${body}</body>
+</html>`;
+
+/**
+ * HTML with the title, description and Open Graph / Twitter tags of a shared
+ * report. Crawlers read the <head>; anyone else following the link lands on the report.
+ * Unverified reports (migrated from legacy links) preview without their score.
+ */
+export const renderShareMeta = (shared: SharedAudit, token: string, appOrigin: string): string => {
+  const { result, brand } = shared;
+  const { t } = createTranslator(result.locale);
+  const url = shareLinkUrl(shared, token, appOrigin);
+  const title = shared.unverified
+    ? t('share.ogTitleUnscored', { brand: brand.name })
+    : t('share.ogTitle', { brand: brand.name, score: result.momentumScore });
+  const description = t('share.ogDescription', { agency: getTenant(result.tenantId).name, domain: normalizeDomain(brand.url) });
+  const image = shared.unverified ? [] : [
+    `<meta property="og:image" content="${escapeHtml(shareCardUrl(shared, token, appOrigin))}">`,
+    `<meta property="og:image:width" content="${CARD_WIDTH}">`,
+    `<meta property="og:image:height" content="${CARD_HEIGHT}">`
+  ];
+
+  return shareMetaPage(result.locale || 'en', [
+    `<title>${escapeHtml(title)}</title>`,
+    `<meta name="description" content="${escapeHtml(description)}">`,
+    `<meta name="robots" content="noindex">`,
+    `<meta property="og:type" content="website">`,
+    `<meta property="og:url" content="${escapeHtml(url)}">`,
+    `<meta property="og:title" content="${escapeHtml(title)}">`,
+    `<meta property="og:description" content="${escapeHtml(description)}">`,
+    ...image,
+    `<meta name="twitter:card" content="${shared.unverified ? 'summary' : 'summary_large_image'}">`,
+    `<meta name="twitter:title" content="${escapeHtml(title)}">`,
+    `<meta name="twitter:description" content="${escapeHtml(description)}">`,
+    ...(shared.unverified ? [] : [`<meta name="twitter:image" content="${escapeHtml(shareCardUrl(shared, token, appOrigin))}">`])
+  ], `<a href="${escapeHtml(url)}">${escapeHtml(title)}</a>`);
+};
+
+/**
+ * Preview for revoked, expired or unknown links: the product, not the report.
+ */
+export const renderUnavailableShareMeta = (appOrigin: string): string => {
+  const { t } = createTranslator('en');
+  const title = t('dashboard.reportLabel');
+  return shareMetaPage('en', [
+    `<title>${escapeHtml(title)}</title>`,
+    `<meta name="robots" content="noindex">`,
+    `<meta property="og:title" content="${escapeHtml(title)}">`,
+    `<meta property="og:description" content="${escapeHtml(t('share.unavailable'))}">`
+  ], `<a href="${escapeHtml(appOrigin)}">${escapeHtml(t('share.unavailable'))}</a>`);
+};
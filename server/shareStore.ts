@@ -0,0 +1,154 @@
+import { AuditRecord, AuditShare, SharedAudit } from '../types';
+import { getAuditById, supabase } from './supabaseService';
+import { generateUUID } from '../services/utils';
+
+/**
+ * Share links for stored reports (table `audit_shares`). Each link has its own
+ * random token, so sharing never exposes the audit id the owner session is
+ * tied to, and a link can expire or be revoked on its own.
+ * Without Supabase the links stay in process memory.
+ */
+
+interface ShareRow {
+  id: string;
+  audit_id: string;
+  token: string;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+const SHARE_COLUMNS = 'id, audit_id, token, created_at, expires_at, revoked_at';
+
+const memoryShares: ShareRow[] = [];
+
+const toShare = (row: ShareRow): AuditShare => ({
+  id: row.id,
+  token: row.token,
+  createdAt: row.created_at,
+  expiresAt: row.expires_at,
+  revokedAt: row.revoked_at
+});
+
+// 32 random bytes, base64url: unguessable and safe in a query string
+const generateShareToken = (): string =>
+  btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32))))
+    .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const isShareActive = (share: Pick<AuditShare, 'expiresAt' | 'revokedAt'>): boolean =>
+  !share.revokedAt && (!share.expiresAt || Date.parse(share.expiresAt) > Date.now());
+
+export const createShare = async (auditId: string, expiresAt: string | null): Promise<AuditShare> => {
+  const row: ShareRow = {
+    id: generateUUID(),
+    audit_id: auditId,
+    token: generateShareToken(),
+    created_at: new Date().toISOString(),
+    expires_at: expiresAt,
+    revoked_at: null
+  };
+
+  if (!supabase) {
+    memoryShares.push(row);
+    return toShare(row);
+  }
+
+  const { error } = await supabase.from('audit_shares').insert([row]);
+  if (error) throw new Error(`Share write failed: ${error.message}`);
+  return toShare(row);
+};
+
+/**
+ * Every link of the audit, newest first, revoked and expired ones included.
+ */
+export const listShares = async (auditId: string): Promise<AuditShare[]> => {
+  if (!supabase) {
+    return memoryShares.filter(row => row.audit_id === auditId).reverse().map(toShare);
+  }
+
+  const { data, error } = await supabase
+    .from('audit_shares')
+    .select(SHARE_COLUMNS)
+    .eq('audit_id', auditId)
+    .order('created_at', { ascending: false });
+  if (error) throw new Error(`Share read failed: ${error.message}`);
+  return (data as ShareRow[]).map(toShare);
+};
+
+/**
+ * Returns the revoked link, or null when the audit has no link with this id.
+ * Revoking twice keeps the first revocation time.
+ */
+export const revokeShare = async (auditId: string, shareId: string): Promise<AuditShare | null> => {
+  const revokedAt = new Date().toISOString();
+
+  if (!supabase) {
+    const row = memoryShares.find(r => r.id === shareId && r.audit_id === auditId);
+    if (!row) return null;
+    row.revoked_at = row.revoked_at || revokedAt;
+    return toShare(row);
+  }
+
+  const { error } = await supabase
+    .from('audit_shares')
+    .update({ revoked_at: revokedAt })
+    .eq('id', shareId)
+    .eq('audit_id', auditId)
+    .is('revoked_at', null);
+  if (error) throw new Error(`Share revoke failed: ${error.message}`);
+
+  const { data, error: readError } = await supabase
+    .from('audit_shares')
+    .select(SHARE_COLUMNS)
+    .eq('id', shareId)
+    .eq('audit_id', auditId)
+    .maybeSingle();
+  if (readError) throw new Error(`Share read failed: ${readError.message}`);
+  return data ? toShare(data as ShareRow) : null;
+};
+
+/**
+ * The link behind a public token, whatever its state; null when unknown.
+ */
+export const findShareByToken = async (token: string): Promise<(AuditShare & { auditId: string }) | null> => {
+  if (!supabase) {
+    const row = memoryShares.find(r => r.token === token);
+    return row ? { ...toShare(row), auditId: row.audit_id } : null;
+  }
+
+  const { data, error } = await supabase
+    .from('audit_shares')
+    .select(SHARE_COLUMNS)
+    .eq('token', token)
+    .maybeSingle();
+  if (error) throw new Error(`Share read failed: ${error.message}`);
+  return data ? { ...toShare(data as ShareRow), auditId: (data as ShareRow).audit_id } : null;
+};
+
+/**
+ * What a public token opens: the redacted report, 'expired' for a link past
+ * its expiry, null for unknown or revoked links and deleted audits.
+ */
+export const getSharedAudit = async (token: string): Promise<SharedAudit | 'expired' | null> => {
+  const share = await findShareByToken(token);
+  if (!share || share.revokedAt) return null;
+  if (!isShareActive(share)) return 'expired';
+
+  const audit = await getAuditById(share.auditId);
+  return audit ? toSharedAudit(audit, share.expiresAt) : null;
+};
+
+/**
+ * The public version of a report: no lead, and nothing derived from the lead
+ * (qualification tier, quiz answers in the debug log).
+ */
+export const toSharedAudit = (record: Pick<AuditRecord, 'brand' | 'result' | 'lead'>, expiresAt: string | null): SharedAudit => {
+  const { qualification, debugLog, ...result } = record.result;
+  return {
+    brand: { name: record.brand.name, url: record.brand.url },
+    result,
+    expiresAt,
+    // Only reports migrated from legacy links have no lead
+    ...(record.lead ? {} : { unverified: true })
+  };
+};
@@ -0,0 +1,324 @@
+
+import { createClient } from '@supabase/supabase-js';
+import { AuditResult, AuditRecord, AuditHistoryEntry, AuditListFilters, AuditListItem, AuditListPage, BrandInfo, LeadInfo, UserResponse, TrafficSource } from '../types';
+import { prepareCrmData } from '../services/crmService';
+import { generateUUID, normalizeDomain } from '../services/utils';
+import { canRenderPdf } from './reportPdf';
+import { getTenant, tenantApiOrigin, tenantAppUrl } from '../services/tenants';
+import { createOwnerSession, PDF_LINK_TTL_SECONDS } from './ownerAuth';
+
+// Number of earlier audits shown in the dashboard trend.
+const HISTORY_LIMIT = 12;
+
+// Server-only: the service role key bypasses RLS and must never reach the bundle.
+// The VITE_ names are still read so existing deployments keep working.
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+
+// Only initialize if keys are present
+export const supabase = (supabaseUrl && supabaseKey) 
+  ? createClient(supabaseUrl, supabaseKey, { auth: { persistSession: false } }) 
+  : null;
+
+/**
+ * Saves the audit to Supabase and returns its ID, Short URL and CRM payload.
+ * `appOrigin` is the public origin of the app, used to build the report link
+ * (tenants with their own domain link there instead).
+ */
+export const saveToSupabase = async (
+  brand: BrandInfo,
+  lead: LeadInfo,
+  result: AuditResult,
+  quizResponses: UserResponse[],
+  trafficSource: TrafficSource = {},
+  appOrigin: string = ''
+): Promise<{ id: string; reportUrl: string; crmData: ReturnType<typeof prepareCrmData> } | null> => {
+  if (!supabase) {
+    console.warn("Supabase not configured. Skipping database save.");
+    return null;
+  }
+
+  try {
+    // 1. Generate ID up front so the URL exists before the insert
+    const id = generateUUID();
+
+    // 2. Construct the Short URL using the ID, under the tenant's branding
+    const tenant = getTenant(result.tenantId);
+    const shortUrl = `${tenantAppUrl(tenant, appOrigin)}/?id=${id}`;
+    const apiOrigin = tenantApiOrigin(tenant, appOrigin);
+    // The report page asks its owner for an emailed code; the PDF link carries a long-lived token instead,
+    // because mail clients and CRMs fetch it without a session
+    const pdfToken = canRenderPdf(result) ? (await createOwnerSession(id, PDF_LINK_TTL_SECONDS)).token : null;
+    const pdfUrl = pdfToken ? `${apiOrigin}/api/audits/${id}/pdf?token=${encodeURIComponent(pdfToken)}` : null;
+
+    // 3. Generate CRM Data (Email HTML, etc)
+    const crmData = prepareCrmData(lead, brand, result, quizResponses, shortUrl, pdfUrl, id);
+
+    // 4. Single Insert with ALL data (including UTMs)
+    const { error } = await supabase
+      .from('brand_audits')
+      .insert([
+        {
+          id: id,
+          brand_name: brand.name,
+          brand_url: brand.url,
+          brand_domain: normalizeDomain(brand.url),
+          lead_first_name: lead.firstName,
+          lead_last_name: lead.lastName,
+          lead_email: lead.email,
+          lead_phone: lead.phone,
+          lead_position: lead.position,
+          lead_revenue: lead.revenue,
+          lead_company_size: lead.companySize,
+          score: result.momentumScore,
+          lead_score: result.qualification?.score ?? null,
+          lead_tier: result.qualification?.tier ?? null,
+          tenant_id: tenant.id,
+          
+          // CRM Data
+          email_subject: crmData.email_config.subject,
+          email_body: crmData.email_config.html_body,
+          report_url: shortUrl,
+
+          // UTM / Traffic Source
+          utm_source: trafficSource.utm_source || null,
+          utm_medium: trafficSource.utm_medium || null,
+          utm_campaign: trafficSource.utm_campaign || null,
+          utm_term: trafficSource.utm_term || null,
+          utm_content: trafficSource.utm_content || null,
+          referrer: trafficSource.referrer || null,
+
+          // Full data payload
+          report_data: {
+            result,
+            quizResponses,
+            crm: crmData, 
+            traffic: trafficSource,
+            meta: {
+              source: 'web_app',
+              version: '1.0',
+              scoringVersion: result.scoring?.version || null,
+              questionnaire: result.scoring?.questionnaire || null,
+              businessModel: brand.businessModel || 'general',
+              locale: result.locale || 'en',
+              tenant: tenant.id
+            }
+          }
+        }
+      ]);
+
+    if (error) {
+      console.error("Supabase Insert Error:", error);
+      return null;
+    }
+
+    return { id, reportUrl: shortUrl, crmData };
+  } catch (err) {
+    console.error("Supabase Exception:", err);
+    return null;
+  }
+};
+
+/**
+ * Earlier audits of the same domain by the same lead email, oldest first.
+ * History is scoped to the lead so re-auditing someone else's domain never
+ * exposes their scores. Returns [] when Supabase is unavailable.
+ */
+export const getAuditHistory = async (brandUrl: string, email: string): Promise<AuditHistoryEntry[]> => {
+  if (!supabase) return [];
+
+  try {
+    // Escape LIKE wildcards: ilike is only used for a case-insensitive match
+    const emailPattern = email.trim().replace(/[\\%_]/g, c => `\\${c}`);
+    const { data, error } = await supabase
+      .from('brand_audits')
+      .select('id, created_at, score, scoring:report_data->result->scoring, categories:report_data->result->categories')
+      .eq('brand_domain', normalizeDomain(brandUrl))
+      .ilike('lead_email', emailPattern)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT);
+
+    if (error) throw error;
+
+    return (data || []).reverse().map((row: any) => ({
+      id: row.id,
+      createdAt: row.created_at,
+      momentumScore: row.score ?? 0,
+      // Audits saved before the scoring engine only carry model scores on their categories
+      categories: row.scoring?.categories
+        ? row.scoring.categories.map((c: any) => ({ category: c.category, score: c.score }))
+        : (row.categories || []).map((c: any) => ({ category: c.title, score: c.score })),
+      scoringVersion: row.scoring?.version ?? null
+    }));
+  } catch (err) {
+    console.error("Error fetching audit history:", err);
+    return [];
+  }
+};
+
+/**
+ * Retrieves a full audit report by its UUID, lead included: only return it
+ * to the report's owner or an admin.
+ */
+export const getAuditById = async (id: string): Promise<AuditRecord | null> => {
+  if (!supabase) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from('brand_audits')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    
+    // Transform back to App format
+    return {
+      id: data.id,
+      brand: {
+        name: data.brand_name,
+        url: data.brand_url
+      } as BrandInfo,
+      result: data.report_data.result as AuditResult,
+      // Reports migrated from legacy links have no lead
+      lead: data.lead_email ? {
+        firstName: data.lead_first_name,
+        lastName: data.lead_last_name,
+        position: data.lead_position,
+        revenue: data.lead_revenue || "",
+        companySize: data.lead_company_size || "",
+        email: data.lead_email,
+        phone: data.lead_phone,
+        fullName: `${data.lead_first_name} ${data.lead_last_name}`
+      } as LeadInfo : null
+    };
+  } catch (err) {
+    console.error("Error fetching audit by ID:", err);
+    return null;
+  }
+};
+
+// Name-based UUID (SHA-256, version 5 layout) so the same legacy link always maps to the same row
+const legacyAuditId = async (legacyLink: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`legacy:${legacyLink}`));
+  const hex = Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+  const variant = ((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+/**
+ * Stores a report decoded from a legacy ?r= link. It has no lead, and the id
+ * is derived from the link, so opening the same link again reuses the row.
+ * Returns the audit id, or null when Supabase is unavailable or the write fails.
+ */
+export const saveLegacyAudit = async (brand: BrandInfo, result: AuditResult, legacyLink: string): Promise<string | null> => {
+  if (!supabase) {
+    console.warn("Supabase not configured. Legacy report not stored.");
+    return null;
+  }
+
+  try {
+    const id = await legacyAuditId(legacyLink);
+    const tenant = getTenant(result.tenantId);
+    const { error } = await supabase
+      .from('brand_audits')
+      .upsert([
+        {
+          id,
+          brand_name: brand.name,
+          brand_url: brand.url,
+          brand_domain: normalizeDomain(brand.url),
+          score: result.momentumScore,
+          tenant_id: tenant.id,
+          report_data: {
+            result,
+            meta: {
+              source: 'legacy_link',
+              version: '1.0',
+              scoringVersion: result.scoring?.version || null,
+              locale: result.locale || 'en',
+              tenant: tenant.id
+            }
+          }
+        }
+      ], { onConflict: 'id', ignoreDuplicates: true });
+
+    if (error) {
+      console.error("Supabase Legacy Insert Error:", error);
+      return null;
+    }
+    return id;
+  } catch (err) {
+    console.error("Supabase Exception:", err);
+    return null;
+  }
+};
+
+// Columns shown in the admin list; report_data stays out of it
+const AUDIT_LIST_COLUMNS = 'id, created_at, brand_name, brand_url, lead_first_name, lead_last_name, lead_email, lead_position, lead_revenue, lead_company_size, score, lead_tier, utm_source, utm_campaign, tenant_id, booked_at, booking_expert';
+
+const toListItem = (row: any): AuditListItem => ({
+  id: row.id,
+  createdAt: row.created_at,
+  brandName: row.brand_name,
+  brandUrl: row.brand_url,
+  leadName: [row.lead_first_name, row.lead_last_name].filter(Boolean).join(' '),
+  leadEmail: row.lead_email || '',
+  leadPosition: row.lead_position ?? null,
+  revenue: row.lead_revenue ?? null,
+  companySize: row.lead_company_size ?? null,
+  score: row.score ?? null,
+  leadTier: row.lead_tier ?? null,
+  utmSource: row.utm_source ?? null,
+  utmCampaign: row.utm_campaign ?? null,
+  tenantId: row.tenant_id,
+  bookedAt: row.booked_at ?? null,
+  bookingExpert: row.booking_expert ?? null
+});
+
+/**
+ * Admin list of saved audits, newest first. `to` is inclusive (whole day).
+ * Returns null when Supabase is not configured or the query fails.
+ */
+export const listAudits = async (
+  filters: AuditListFilters,
+  { limit, offset }: { limit: number; offset: number }
+): Promise<AuditListPage | null> => {
+  if (!supabase) return null;
+
+  try {
+    let query = supabase
+      .from('brand_audits')
+      .select(AUDIT_LIST_COLUMNS, { count: 'exact' })
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (filters.from) query = query.gte('created_at', filters.from);
+    if (filters.to) {
+      const dayAfter = new Date(`${filters.to}T00:00:00Z`);
+      dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+      query = query.lt('created_at', dayAfter.toISOString());
+    }
+    if (filters.minScore !== undefined) query = query.gte('score', filters.minScore);
+    if (filters.maxScore !== undefined) query = query.lte('score', filters.maxScore);
+    if (filters.utmSource) query = query.eq('utm_source', filters.utmSource);
+    if (filters.utmCampaign) query = query.eq('utm_campaign', filters.utmCampaign);
+    if (filters.revenue) query = query.eq('lead_revenue', filters.revenue);
+    if (filters.tier) query = query.eq('lead_tier', filters.tier);
+    if (filters.tenant) query = query.eq('tenant_id', filters.tenant);
+    if (filters.booked !== undefined) query = filters.booked ? query.not('booked_at', 'is', null) : query.is('booked_at', null);
+    if (filters.search) {
+      // Characters with a meaning in PostgREST's or() syntax or in LIKE are dropped
+      const term = filters.search.replace(/[,()*%_\\:"]/g, ' ').trim();
+      if (term) query = query.or(`brand_name.ilike.*${term}*,brand_domain.ilike.*${term}*,lead_email.ilike.*${term}*`);
+    }
+
+    const { data, error, count } = await query;
+    if (error) throw error;
+
+    return { items: (data || []).map(toListItem), total: count ?? 0 };
+  } catch (err) {
+    console.error("Error listing audits:", err);
+    return null;
+  }
+};
@@ -0,0 +1,366 @@
+import { AppStep, AuditListFilters, AuditResult, BookingEvent, BookingEventType, BookingProvider, BrandInfo, CreateAuditRequest, FunnelEvent, FunnelEventType, LeadTier, Locale, LeadInfo, TrafficSource, UserResponse } from '../types';
+import { HttpError } from './http';
+import { LEAD_COMPANY_SIZES, LEAD_POSITIONS, LEAD_REVENUE_RANGES, MAX_COMPETITORS } from '../constants';
+import { getQuestion, getQuestionPack, isBusinessModel, isValidAnswer, sanitizeResponses } from '../services/questionnaire';
+import { normalizeDomain, normalizeUrl } from '../services/utils';
+import { parsePublicHttpUrl } from '../services/publicUrl';
+import { DEFAULT_LOCALE, isLocale } from '../services/i18n';
+import { DEFAULT_TENANT, getTenant, isTenantId } from '../services/tenants';
+import { reportCategories, validateAuditOutput } from '../services/auditSchema';
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const requireString = (value: unknown, field: string, maxLength = 500): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${field}" is required`);
+  }
+  if (value.length > maxLength) {
+    throw new HttpError(400, `"${field}" is too long`);
+  }
+  return value.trim();
+};
+
+// One of the lead form's options, exactly as the form sends it
+const requireOption = (value: unknown, field: string, options: readonly string[]): string => {
+  const option = requireString(value, field, 100);
+  if (!options.includes(option)) throw new HttpError(400, `"${field}" is not one of the form's options`);
+  return option;
+};
+
+const optionalString = (value: unknown, maxLength = 500): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim().slice(0, maxLength) : undefined;
+
+/**
+ * A site the server may crawl: a domain or http(s) URL on a public host
+ * (the scheme defaults to https, as in the crawler).
+ */
+export const isPublicSiteUrl = (url: string): boolean =>
+  /^(https?:\/\/)?[^\s/.]+(\.[^\s/.]+)+(\/\S*)?$/i.test(url) && !!parsePublicHttpUrl(normalizeUrl(url));
+
+/**
+ * Competitor URLs: optional, at most MAX_COMPETITORS, deduplicated by domain
+ * and never the audited brand itself.
+ */
+const parseCompetitors = (value: unknown, brandUrl: string): string[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw new HttpError(400, '"brand.competitors" must be an array');
+
+  const urls = value
+    .map((v, i) => {
+      if (typeof v !== 'string') throw new HttpError(400, `"brand.competitors[${i}]" must be a string`);
+      return v.trim().slice(0, 2000);
+    })
+    .filter(Boolean);
+  urls.forEach((url, i) => {
+    if (!isPublicSiteUrl(url)) {
+      throw new HttpError(400, `"brand.competitors[${i}]" is not a valid URL`);
+    }
+  });
+
+  const seen = new Set([normalizeDomain(brandUrl)]);
+  const unique = urls.filter(url => {
+    const domain = normalizeDomain(url);
+    if (seen.has(domain)) return false;
+    seen.add(domain);
+    return true;
+  });
+  if (unique.length > MAX_COMPETITORS) {
+    throw new HttpError(400, `At most ${MAX_COMPETITORS} competitors can be compared`);
+  }
+  return unique.length > 0 ? unique : undefined;
+};
+
+/**
+ * Validates the body of POST /api/audits.
+ * Only known fields are copied so the client cannot inject extra columns.
+ */
+export const parseCreateAuditRequest = (body: unknown): CreateAuditRequest => {
+  if (!isObject(body)) throw new HttpError(400, "Request body must be an object");
+  const { brand, lead, responses, trafficSource, locale, tenantId } = body;
+
+  if (!isObject(brand)) throw new HttpError(400, '"brand" is required');
+  if (!isObject(lead)) throw new HttpError(400, '"lead" is required');
+  if (!Array.isArray(responses)) throw new HttpError(400, '"responses" must be an array');
+
+  const brandUrl = requireString(brand.url, 'brand.url', 2000);
+  if (!isPublicSiteUrl(brandUrl)) throw new HttpError(400, '"brand.url" is not a valid URL');
+  const parsedBrand: BrandInfo = {
+    name: requireString(brand.name, 'brand.name', 200),
+    url: brandUrl,
+  };
+  const competitors = parseCompetitors(brand.competitors, brandUrl);
+  if (competitors) parsedBrand.competitors = competitors;
+  if (brand.businessModel !== undefined && brand.businessModel !== null) {
+    if (!isBusinessModel(brand.businessModel)) throw new HttpError(400, '"brand.businessModel" is not a known business model');
+    parsedBrand.businessModel = brand.businessModel;
+  }
+  if (tenantId !== undefined && tenantId !== null && !isTenantId(tenantId)) {
+    throw new HttpError(400, '"tenantId" is not a known tenant');
+  }
+  const parsedTenantId: string = tenantId ?? DEFAULT_TENANT.id;
+  const { questionnaire } = getQuestionPack(parsedBrand.businessModel, getTenant(parsedTenantId));
+
+  const firstName = requireString(lead.firstName, 'lead.firstName', 100);
+  const lastName = requireString(lead.lastName, 'lead.lastName', 100);
+  const email = requireString(lead.email, 'lead.email', 320);
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new HttpError(400, '"lead.email" is not a valid email address');
+  }
+
+  const parsedLead: LeadInfo = {
+    firstName,
+    lastName,
+    email,
+    phone: requireString(lead.phone, 'lead.phone', 50),
+    position: requireOption(lead.position, 'lead.position', LEAD_POSITIONS),
+    revenue: requireOption(lead.revenue, 'lead.revenue', LEAD_REVENUE_RANGES),
+    companySize: requireOption(lead.companySize, 'lead.companySize', LEAD_COMPANY_SIZES),
+    fullName: `${firstName} ${lastName}`,
+  };
+
+  const parsedResponses: UserResponse[] = responses.map((r, i) => {
+    if (!isObject(r) || !Number.isFinite(r.questionId) || !Number.isFinite(r.answer)) {
+      throw new HttpError(400, `"responses[${i}]" must have numeric questionId and answer`);
+    }
+    const question = getQuestion(r.questionId, questionnaire);
+    if (question && !isValidAnswer(question, r.answer)) {
+      throw new HttpError(400, `"responses[${i}]" is not a valid ${question.type} answer`);
+    }
+    return { questionId: r.questionId, answer: r.answer };
+  });
+
+  if (locale !== undefined && locale !== null && !isLocale(locale)) {
+    throw new HttpError(400, '"locale" is not a supported language');
+  }
+  const parsedLocale: Locale = locale ?? DEFAULT_LOCALE;
+
+  const source = isObject(trafficSource) ? trafficSource : {};
+  const parsedSource: TrafficSource = {
+    utm_source: optionalString(source.utm_source),
+    utm_medium: optionalString(source.utm_medium),
+    utm_campaign: optionalString(source.utm_campaign),
+    utm_term: optionalString(source.utm_term),
+    utm_content: optionalString(source.utm_content),
+    referrer: optionalString(source.referrer, 2000),
+  };
+
+  // Unknown questions (e.g. from a stale bundle) and branches that don't apply are dropped
+  return {
+    brand: parsedBrand,
+    lead: parsedLead,
+    responses: sanitizeResponses(questionnaire, parsedResponses),
+    trafficSource: parsedSource,
+    locale: parsedLocale,
+    tenantId: parsedTenantId
+  };
+};
+
+const LEAD_TIERS: LeadTier[] = ['hot', 'warm', 'nurture'];
+
+const optionalDate = (params: URLSearchParams, field: string): string | undefined => {
+  const value = params.get(field)?.trim();
+  if (!value) return undefined;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value) || Number.isNaN(Date.parse(value))) {
+    throw new HttpError(400, `"${field}" must be a date (YYYY-MM-DD)`);
+  }
+  return value;
+};
+
+const optionalScore = (params: URLSearchParams, field: string): number | undefined => {
+  const value = params.get(field)?.trim();
+  if (!value) return undefined;
+  const score = Number(value);
+  if (!Number.isInteger(score) || score < 0 || score > 100) {
+    throw new HttpError(400, `"${field}" must be an integer between 0 and 100`);
+  }
+  return score;
+};
+
+/**
+ * Optional from/to day range (inclusive), shared by the admin reports.
+ */
+export const parseDateRange = (params: URLSearchParams): { from?: string; to?: string } => {
+  const from = optionalDate(params, 'from');
+  const to = optionalDate(params, 'to');
+  if (from && to && from > to) {
+    throw new HttpError(400, '"from" must not be after "to"');
+  }
+  return { from, to };
+};
+
+/**
+ * Validates the query string of GET /api/admin/audits.
+ */
+export const parseAuditListFilters = (params: URLSearchParams): AuditListFilters => {
+  const revenue = optionalString(params.get('revenue'), 100);
+  if (revenue && !(LEAD_REVENUE_RANGES as readonly string[]).includes(revenue)) {
+    throw new HttpError(400, '"revenue" is not a known revenue band');
+  }
+  const tier = optionalString(params.get('tier'), 20);
+  if (tier && !LEAD_TIERS.includes(tier as LeadTier)) {
+    throw new HttpError(400, '"tier" must be hot, warm or nurture');
+  }
+
+  const booked = optionalString(params.get('booked'), 10);
+  if (booked && booked !== 'true' && booked !== 'false') {
+    throw new HttpError(400, '"booked" must be true or false');
+  }
+
+  const filters: AuditListFilters = {
+    ...parseDateRange(params),
+    minScore: optionalScore(params, 'minScore'),
+    maxScore: optionalScore(params, 'maxScore'),
+    utmSource: optionalString(params.get('utmSource'), 200),
+    utmCampaign: optionalString(params.get('utmCampaign'), 200),
+    revenue,
+    tier: tier as LeadTier | undefined,
+    search: optionalString(params.get('search'), 200),
+    tenant: optionalString(params.get('tenant'), 100),
+    booked: booked ? booked === 'true' : undefined,
+  };
+  if (filters.minScore !== undefined && filters.maxScore !== undefined && filters.minScore > filters.maxScore) {
+    throw new HttpError(400, '"minScore" must not be above "maxScore"');
+  }
+  return filters;
+};
+
+const FUNNEL_EVENT_TYPES: FunnelEventType[] = ['step_viewed', 'question_viewed', 'lead_form_step_completed', 'cta_clicked'];
+const APP_STEPS = Object.values(AppStep) as string[];
+
+/**
+ * Validates the body of POST /api/events. The endpoint is public, so every
+ * field is bounded and only known event types and steps are accepted.
+ */
+export const parseFunnelEvent = (body: unknown): FunnelEvent => {
+  if (!isObject(body)) throw new HttpError(400, "Request body must be an object");
+
+  const sessionId = requireString(body.sessionId, 'sessionId', 64);
+  if (!FUNNEL_EVENT_TYPES.includes(body.type)) {
+    throw new HttpError(400, '"type" is not a known event type');
+  }
+  const type: FunnelEventType = body.type;
+
+  const event: FunnelEvent = {
+    sessionId,
+    type,
+    detail: optionalString(body.detail, 100),
+    utm_source: optionalString(body.utm_source, 200),
+    utm_medium: optionalString(body.utm_medium, 200),
+    utm_campaign: optionalString(body.utm_campaign, 200),
+    tenantId: isTenantId(body.tenantId) ? body.tenantId : undefined,
+  };
+
+  if (type === 'step_viewed') {
+    if (!APP_STEPS.includes(body.step)) throw new HttpError(400, '"step" is not a known step');
+    event.step = body.step;
+  }
+  if (type === 'question_viewed') {
+    if (!Number.isInteger(body.questionId)) throw new HttpError(400, '"questionId" must be an integer');
+    event.questionId = body.questionId;
+  }
+  return event;
+};
+
+const BOOKING_PROVIDERS: BookingProvider[] = ['calcom', 'calendly'];
+const BOOKING_EVENT_TYPES: BookingEventType[] = ['viewed', 'date_selected', 'scheduled'];
+
+/**
+ * Validates the body of POST /api/audits/:id/bookings.
+ */
+export const parseBookingEvent = (body: unknown): BookingEvent => {
+  if (!isObject(body)) throw new HttpError(400, "Request body must be an object");
+  if (!BOOKING_PROVIDERS.includes(body.provider)) {
+    throw new HttpError(400, '"provider" must be calcom or calendly');
+  }
+  if (!BOOKING_EVENT_TYPES.includes(body.type)) {
+    throw new HttpError(400, '"type" is not a known booking event');
+  }
+  return {
+    provider: body.provider,
+    type: body.type,
+    expert: requireString(body.expert, 'expert', 200),
+    externalId: optionalString(body.externalId, 500),
+  };
+};
+
+/**
+ * Validates the body of POST /api/audits/:id/session: the emailed 6-digit code.
+ */
+export const parseOwnerCode = (body: unknown): string => {
+  if (!isObject(body)) throw new HttpError(400, "Request body must be an object");
+  const code = typeof body.code === 'string' ? body.code.replace(/\s+/g, '') : '';
+  if (!/^\d{6}$/.test(code)) throw new HttpError(400, '"code" must be 6 digits');
+  return code;
+};
+
+const MAX_SHARE_DAYS = 365;
+
+/**
+ * Validates the body of POST /api/audits/:id/shares. Returns the expiry
+ * timestamp, or null for a link that lasts until revoked.
+ */
+export const parseShareRequest = (body: unknown): { expiresAt: string | null } => {
+  if (!isObject(body)) throw new HttpError(400, "Request body must be an object");
+  const days = body.expiresInDays;
+  if (days === undefined || days === null) return { expiresAt: null };
+  if (!Number.isInteger(days) || days < 1 || days > MAX_SHARE_DAYS) {
+    throw new HttpError(400, `"expiresInDays" must be a whole number from 1 to ${MAX_SHARE_DAYS}`);
+  }
+  return { expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() };
+};
+
+// A real six-category report is ~20 kB of base64
+const MAX_LEGACY_LINK_LENGTH = 64_000;
+const MAX_GROUNDING_URLS = 20;
+
+/**
+ * Validates the body of POST /api/shares/legacy: `data` is the `r` parameter
+ * of a legacy link, base64 of `{ brand, result }` JSON. The link was built in
+ * the browser, so the result is repaired like model output and only the
+ * fields the schema knows are kept. Its scores can't be re-derived (the link
+ * has no answers or crawl data), so stored copies are marked unverified.
+ */
+export const parseLegacyReport = (body: unknown): { brand: BrandInfo; result: AuditResult; data: string } => {
+  if (!isObject(body)) throw new HttpError(400, "Request body must be an object");
+  // Query strings turn "+" into spaces
+  const data = requireString(body.data, 'data', MAX_LEGACY_LINK_LENGTH).replace(/ /g, '+');
+
+  let parsed: any;
+  try {
+    const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+    parsed = JSON.parse(new TextDecoder().decode(bytes));
+  } catch (e) {
+    throw new HttpError(400, '"data" is not a report link');
+  }
+  if (!isObject(parsed) || !isObject(parsed.brand) || !isObject(parsed.result)) {
+    throw new HttpError(400, '"data" is not a report link');
+  }
+
+  const brandUrl = requireString(parsed.brand.url, 'brand.url', 500);
+  if (!isPublicSiteUrl(brandUrl)) throw new HttpError(400, '"brand.url" is not a valid URL');
+
+  const raw = parsed.result;
+  // Question packs score different category sets: expect the ones the link has, in its order
+  // Old links can miss fields or whole categories: they are migrated with the
+  // repaired values, as the link itself used to render them
+  const validation = validateAuditOutput(raw, { requireScores: true }, reportCategories(raw));
+
+  const groundingUrls = Array.isArray(raw.groundingUrls)
+    ? raw.groundingUrls.filter((url: unknown): url is string => typeof url === 'string' && /^https?:\/\//i.test(url)).slice(0, MAX_GROUNDING_URLS)
+    : undefined;
+
+  return {
+    brand: {
+      name: requireString(parsed.brand.name, 'brand.name', 200),
+      url: brandUrl
+    },
+    result: {
+      ...validation.value,
+      groundingUrls,
+      locale: isLocale(raw.locale) ? raw.locale : undefined,
+      tenantId: isTenantId(raw.tenantId) ? raw.tenantId : undefined
+    },
+    data
+  };
+};
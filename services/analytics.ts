@@ -0,0 +1,86 @@
+import { FunnelCta, FunnelEvent, FunnelEventType, TrafficSource } from '../types';
+import { generateUUID } from './utils';
+
+/**
+ * Funnel tracking: step views, quiz questions, lead form steps and CTA clicks,
+ * sent to POST /api/events. Visitors are identified by an anonymous id that
+ * lives for the browser tab only; no lead data is ever attached.
+ */
+
+const SESSION_STORAGE_KEY = 'brandscore:session';
+const EVENTS_ENDPOINT = '/api/events';
+
+let source: TrafficSource = {};
+let tenantId: string | undefined;
+let enabled = true;
+let fallbackSessionId: string | undefined;
+
+const getSessionId = (): string => {
+  try {
+    let id = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (!id) {
+      id = generateUUID();
+      sessionStorage.setItem(SESSION_STORAGE_KEY, id);
+    }
+    return id;
+  } catch (e) {
+    // Storage disabled: one id per page load is still useful
+    return (fallbackSessionId ??= generateUUID());
+  }
+};
+
+/**
+ * Attaches the visit's UTMs and tenant to every later event.
+ */
+export const setTrafficContext = (traffic: TrafficSource, tenant?: string) => {
+  source = traffic;
+  tenantId = tenant;
+};
+
+/**
+ * Turns tracking off for this page, e.g. when staff open reports in the admin console.
+ */
+export const disableTracking = () => {
+  enabled = false;
+};
+
+/**
+ * Turns tracking back on, e.g. when someone viewing a report starts their own audit.
+ */
+export const enableTracking = () => {
+  enabled = true;
+};
+
+export const isTrackingEnabled = () => enabled;
+
+/**
+ * Fire and forget: uses sendBeacon so events survive the tab closing,
+ * with a keepalive fetch where beacons are unavailable.
+ */
+export const track = (type: FunnelEventType, props: Pick<FunnelEvent, 'step' | 'questionId' | 'detail'> = {}) => {
+  if (!enabled || typeof window === 'undefined') return;
+
+  const event: FunnelEvent = {
+    sessionId: getSessionId(),
+    type,
+    ...props,
+    utm_source: source.utm_source,
+    utm_medium: source.utm_medium,
+    utm_campaign: source.utm_campaign,
+    tenantId
+  };
+  const body = JSON.stringify(event);
+
+  try {
+    if (navigator.sendBeacon?.(EVENTS_ENDPOINT, new Blob([body], { type: 'application/json' }))) return;
+  } catch (e) { /* fall through to fetch */ }
+
+  fetch(EVENTS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body,
+    keepalive: true
+  }).catch(e => console.warn("Funnel event not sent", e));
+};
+
+export const trackCta = (cta: FunnelCta) => track('cta_clicked', { detail: cta });
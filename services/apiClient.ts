@@ -0,0 +1,190 @@
+import { AdminAuditRecord, AuditJob, AuditListFilters, AuditListPage, AuditRecord, AuditShare, BookingEvent, BusinessClassification, CreateAuditRequest, FunnelReport, OwnerCodeResponse, OwnerSession, SharedAudit } from '../types';
+
+/**
+ * Browser-side access to the /api routes.
+ * All keys (model, PSI, Supabase) live on the server; the bundle only talks to these endpoints.
+ */
+
+// Non-2xx response; `status` lets callers tell e.g. a wrong code (401) from an expired one (410)
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(`API ${status}: ${message}`);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(path, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers }
+  });
+
+  if (!response.ok) {
+    let message = response.statusText;
+    try {
+      const body = await response.json();
+      message = body.error || message;
+    } catch (e) { /* ignore */ }
+    throw new ApiError(response.status, message);
+  }
+  return response.json();
+};
+
+const ownerHeaders = (ownerToken: string) => ({ Authorization: `Bearer ${ownerToken}` });
+
+/**
+ * Retrieves a stored audit with the owner's session token. Returns null when
+ * it does not exist, the token is no longer valid, or it cannot be loaded.
+ */
+export const fetchAudit = async (id: string, ownerToken: string): Promise<AuditRecord | null> => {
+  try {
+    return await request<AuditRecord>(`/api/audits/${encodeURIComponent(id)}`, { headers: ownerHeaders(ownerToken) });
+  } catch (err) {
+    console.error("Error fetching audit by ID:", err);
+    return null;
+  }
+};
+
+/**
+ * Link to the server-rendered PDF of a stored audit. The token rides in the
+ * query string because the link is opened, not fetched.
+ */
+export const auditPdfUrl = (id: string, ownerToken: string, download = false) => {
+  const params = new URLSearchParams({ token: ownerToken });
+  if (download) params.set('download', '1');
+  return `/api/audits/${encodeURIComponent(id)}/pdf?${params}`;
+};
+
+// --- REPORT ACCESS ---
+
+// Emails the owner a one-time code. 429 when one was sent less than a minute ago.
+export const requestOwnerCode = (auditId: string) =>
+  request<OwnerCodeResponse>(`/api/audits/${encodeURIComponent(auditId)}/code`, { method: 'POST' });
+
+// 401 wrong code, 410 expired, 429 too many attempts
+export const openOwnerSession = (auditId: string, code: string) =>
+  request<OwnerSession>(`/api/audits/${encodeURIComponent(auditId)}/session`, {
+    method: 'POST',
+    body: JSON.stringify({ code })
+  });
+
+export const listShares = (auditId: string, ownerToken: string) =>
+  request<AuditShare[]>(`/api/audits/${encodeURIComponent(auditId)}/shares`, { headers: ownerHeaders(ownerToken) });
+
+export const createShare = (auditId: string, ownerToken: string, expiresInDays: number | null) =>
+  request<AuditShare>(`/api/audits/${encodeURIComponent(auditId)}/shares`, {
+    method: 'POST',
+    headers: ownerHeaders(ownerToken),
+    body: JSON.stringify({ expiresInDays })
+  });
+
+export const revokeShare = (auditId: string, ownerToken: string, shareId: string) =>
+  request<AuditShare>(`/api/audits/${encodeURIComponent(auditId)}/shares/${encodeURIComponent(shareId)}`, {
+    method: 'DELETE',
+    headers: ownerHeaders(ownerToken)
+  });
+
+// 404 unknown or revoked, 410 expired
+export const fetchSharedAudit = (token: string) =>
+  request<SharedAudit>(`/api/shares/${encodeURIComponent(token)}`);
+
+export const sharedPdfUrl = (token: string, download = false) =>
+  `/api/shares/${encodeURIComponent(token)}/pdf${download ? '?download=1' : ''}`;
+
+// Stores the report of a legacy ?r= link and returns its share link
+export const migrateLegacyLink = (data: string) =>
+  request<AuditShare>('/api/shares/legacy', {
+    method: 'POST',
+    body: JSON.stringify({ data })
+  });
+
+/**
+ * Records a scheduler event against a stored audit. Fire and forget: a lost
+ * event must never get in the way of the booking itself.
+ */
+export const reportBookingEvent = (auditId: string, ownerToken: string, event: BookingEvent) => {
+  fetch(`/api/audits/${encodeURIComponent(auditId)}/bookings`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...ownerHeaders(ownerToken) },
+    body: JSON.stringify(event),
+    keepalive: true
+  })
+    .then(response => { if (!response.ok) console.warn(`Booking event not recorded: API ${response.status}`); })
+    .catch(err => console.warn("Booking event not recorded:", err));
+};
+
+/**
+ * Guesses the business model from the site. Returns null when detection fails;
+ * the visitor then picks the model themselves.
+ */
+export const classifyBusiness = async (url: string): Promise<BusinessClassification | null> => {
+  try {
+    return await request<BusinessClassification>('/api/classify', {
+      method: 'POST',
+      body: JSON.stringify({ url })
+    });
+  } catch (err) {
+    console.warn("Business classification failed:", err);
+    return null;
+  }
+};
+
+// --- AUDIT JOBS ---
+
+export const createAuditJob = (payload: CreateAuditRequest) =>
+  request<AuditJob>('/api/jobs', {
+    method: 'POST',
+    body: JSON.stringify(payload)
+  });
+
+/**
+ * Starts a queued job. The request stays open until the audit finishes,
+ * so callers should not await it for progress; poll getAuditJob instead.
+ */
+export const runAuditJob = (jobId: string) =>
+  request<AuditJob>(`/api/jobs/${encodeURIComponent(jobId)}/run`, { method: 'POST' });
+
+export const getAuditJob = (jobId: string) =>
+  request<AuditJob>(`/api/jobs/${encodeURIComponent(jobId)}`);
+
+// --- ADMIN ---
+
+const adminHeaders = (token: string) => ({ Authorization: `Bearer ${token}` });
+
+const auditListQuery = (filters: AuditListFilters, extra: Record<string, string> = {}) => {
+  const params = new URLSearchParams(extra);
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return params.toString();
+};
+
+export const listAdminAudits = (token: string, filters: AuditListFilters, limit: number, offset: number) =>
+  request<AuditListPage>(`/api/admin/audits?${auditListQuery(filters, { limit: String(limit), offset: String(offset) })}`, {
+    headers: adminHeaders(token)
+  });
+
+export const fetchAdminAudit = (token: string, id: string) =>
+  request<AdminAuditRecord>(`/api/admin/audits/${encodeURIComponent(id)}`, {
+    headers: adminHeaders(token)
+  });
+
+export const fetchAdminFunnel = (token: string, range: { from?: string; to?: string; tenant?: string }) =>
+  request<FunnelReport>(`/api/admin/funnel?${auditListQuery(range)}`, {
+    headers: adminHeaders(token)
+  });
+
+/**
+ * Every audit matching the filters as CSV. Fetched rather than linked
+ * because the token travels in a header.
+ */
+export const downloadAdminAuditsCsv = async (token: string, filters: AuditListFilters): Promise<Blob> => {
+  const response = await fetch(`/api/admin/audits?${auditListQuery(filters, { format: 'csv' })}`, {
+    headers: adminHeaders(token)
+  });
+  if (!response.ok) throw new Error(`API ${response.status}: ${response.statusText}`);
+  return response.blob();
+};
@@ -0,0 +1,82 @@
+import { BrandInfo, CacheOutcome, Locale, UserResponse } from "../types";
+import { normalizeDomain } from "./utils";
+
+/**
+ * Cache contract used by performBrandAudit.
+ * Two entries per audit:
+ * - crawl: PSI + first-party crawl, keyed on the normalized domain only
+ * - ai: the validated model output, keyed on domain + a hash of the brand
+ *   name, business model, competitors, quiz answers, scoring version,
+ *   provider and the crawl snapshots the prompt quotes, so any input change
+ *   (a fresh PSI or crawl included) misses.
+ * The storage backend is injected (see server/cacheStore.ts).
+ */
+
+export interface CacheStore {
+  get: <T>(key: string) => Promise<T | null>;
+  set: <T>(key: string, value: T, ttlSeconds: number) => Promise<void>;
+}
+
+export interface AuditCacheConfig {
+  store: CacheStore;
+  crawlTtlSeconds: number; // 0 disables the crawl cache
+  aiTtlSeconds: number; // 0 disables the AI cache
+}
+
+export type { CacheOutcome };
+
+// Bump when the shape of a cached value changes
+const CACHE_SCHEMA = 'v1';
+
+export const crawlCacheKey = (url: string) => `crawl:${CACHE_SCHEMA}:${normalizeDomain(url)}`;
+
+export async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Answers and competitors are sorted so the hash doesn't depend on input order.
+ * The locale is part of the key: the same answers in French get a French narrative.
+ * So is the tenant, whose voice the narrative is written in.
+ * `snapshots` are the fetchedAt of the brand's and competitors' crawls.
+ */
+export async function aiCacheKey(
+  brand: BrandInfo,
+  responses: UserResponse[],
+  scoringVersion: string,
+  providerId: string,
+  locale: Locale = 'en',
+  tenantId = '',
+  snapshots: string[] = []
+): Promise<string> {
+  const answers = [...responses]
+    .sort((a, b) => a.questionId - b.questionId)
+    .map(r => `${r.questionId}=${r.answer}`)
+    .join('&');
+  const competitors = (brand.competitors || []).map(normalizeDomain).sort().join(',');
+  const hash = await sha256Hex(`${brand.name.trim().toLowerCase()}|${brand.businessModel || 'general'}|${competitors}|${answers}|${scoringVersion}|${providerId}|${locale}|${tenantId}|${snapshots.join(',')}`);
+  return `ai:${CACHE_SCHEMA}:${normalizeDomain(brand.url)}:${hash.slice(0, 32)}`;
+}
+
+/**
+ * In-process store. Used when no shared store is configured.
+ */
+export const createMemoryCache = (): CacheStore => {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+
+  return {
+    get: async <T>(key: string) => {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value as T;
+    },
+    set: async <T>(key: string, value: T, ttlSeconds: number) => {
+      entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+    }
+  };
+};
@@ -0,0 +1,360 @@
+import { AuditResult, CategoryAnalysis, QuestionCategory, TechnicalSignal } from "../types";
+import { clampScore } from "./scoringEngine";
+
+/**
+ * Runtime schema for AuditResult.
+ * Model output is never trusted as-is: every field is checked, repaired where
+ * the intent is obvious (e.g. "Good" -> "good", "72" -> 72) and defaulted
+ * otherwise. Each repair/default is reported so callers can re-prompt on the
+ * fields that matter and record what was filled in.
+ */
+
+export const AUDIT_CATEGORIES = Object.values(QuestionCategory) as QuestionCategory[];
+
+// The categories every report had before question packs
+const LEGACY_AUDIT_CATEGORIES: readonly QuestionCategory[] = Object.freeze([
+  QuestionCategory.STRATEGY,
+  QuestionCategory.VISUALS,
+  QuestionCategory.GROWTH,
+  QuestionCategory.CONTENT,
+  QuestionCategory.OPERATIONS,
+  QuestionCategory.SEO,
+]);
+
+/**
+ * The categories a stored or linked report was scored on: the known titles it
+ * carries, in its order, or the six original categories for reports that
+ * carry none (legacy links predate question packs).
+ */
+export function reportCategories(raw: unknown): QuestionCategory[] {
+  const titles: unknown[] = isObject(raw) && Array.isArray(raw.categories)
+    ? raw.categories.map((c: unknown) => isObject(c) ? c.title : undefined)
+    : [];
+  const categories = titles.filter((title, i): title is QuestionCategory =>
+    AUDIT_CATEGORIES.includes(title as QuestionCategory) && titles.indexOf(title) === i);
+  return categories.length ? categories : [...LEGACY_AUDIT_CATEGORIES];
+}
+
+const SIGNAL_STATUSES: TechnicalSignal['status'][] = ['good', 'warning', 'critical'];
+
+// Common model synonyms for signal status.
+const STATUS_ALIASES: Record<string, TechnicalSignal['status']> = {
+  ok: 'good',
+  pass: 'good',
+  passed: 'good',
+  strong: 'good',
+  high: 'good',
+  medium: 'warning',
+  moderate: 'warning',
+  average: 'warning',
+  weak: 'critical',
+  low: 'critical',
+  bad: 'critical',
+  fail: 'critical',
+  failed: 'critical',
+  error: 'critical',
+};
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+  // 'repaired': value was coerced, 'defaulted': value was replaced, 'invalid': worth a re-prompt
+  kind: 'repaired' | 'defaulted' | 'invalid';
+}
+
+export type AuditModelOutput = Pick<
+  AuditResult,
+  'businessContext' | 'executiveSummary' | 'technicalSignals' | 'categories' | 'perceptionGap'
+> & { momentumScore: number };
+
+export interface AuditValidation {
+  value: AuditModelOutput;
+  issues: SchemaIssue[];
+  defaultedFields: string[];
+  // False when at least one issue is worth asking the model to fix.
+  isComplete: boolean;
+}
+
+interface ValidateOptions {
+  // Scores are computed locally for fresh audits, so their absence is expected.
+  requireScores?: boolean;
+}
+
+export class AuditParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditParseError';
+  }
+}
+
+// --- JSON EXTRACTION ---
+
+/**
+ * Finds the first balanced JSON object in a model response.
+ * Handles markdown fences, leading prose and braces inside strings.
+ */
+function sliceFirstObject(text: string): string {
+  const start = text.indexOf('{');
+  if (start === -1) throw new AuditParseError("Response does not contain a JSON object");
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '{') depth++;
+    else if (ch === '}') {
+      depth--;
+      if (depth === 0) return text.substring(start, i + 1);
+    }
+  }
+  throw new AuditParseError("JSON object is not closed (response was truncated)");
+}
+
+export function extractJsonObject(text: string): unknown {
+  const unfenced = text.replace(/```(?:json)?/gi, '');
+  const jsonStr = sliceFirstObject(unfenced);
+  try {
+    return JSON.parse(jsonStr);
+  } catch (e) {
+    // Second chance: strip // comments and trailing commas (both common in model output)
+    const cleaned = jsonStr
+      .replace(/^\s*\/\/.*$/gm, '')
+      .replace(/,\s*([}\]])/g, '$1');
+    try {
+      return JSON.parse(cleaned);
+    } catch (e2: any) {
+      throw new AuditParseError(`Invalid JSON: ${e2.message}`);
+    }
+  }
+}
+
+// --- FIELD VALIDATORS ---
+
+const isObject = (v: unknown): v is Record<string, any> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+function readString(
+  raw: unknown,
+  path: string,
+  fallback: string,
+  issues: SchemaIssue[],
+  invalidIfMissing = false
+): string {
+  if (typeof raw === 'string' && raw.trim()) return raw.trim();
+  if (typeof raw === 'number' || typeof raw === 'boolean') {
+    issues.push({ path, message: `Expected string, got ${typeof raw}`, kind: 'repaired' });
+    return String(raw);
+  }
+  issues.push({
+    path,
+    message: raw === undefined ? 'Missing' : 'Expected non-empty string',
+    kind: invalidIfMissing ? 'invalid' : 'defaulted',
+  });
+  return fallback;
+}
+
+function readScore(raw: unknown, path: string, issues: SchemaIssue[], required: boolean): number {
+  const num = typeof raw === 'string' ? parseFloat(raw) : raw;
+  if (typeof num === 'number' && Number.isFinite(num)) {
+    if (typeof raw === 'string') {
+      issues.push({ path, message: 'Score given as string', kind: 'repaired' });
+    }
+    const clamped = clampScore(num);
+    if (clamped !== num) {
+      issues.push({ path, message: `Score ${num} clamped to ${clamped}`, kind: 'repaired' });
+    }
+    return clamped;
+  }
+  if (required) {
+    issues.push({ path, message: 'Missing or non-numeric score', kind: 'defaulted' });
+  }
+  return required ? 50 : 0;
+}
+
+function readStatus(raw: unknown, path: string, issues: SchemaIssue[]): TechnicalSignal['status'] {
+  const status = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+  if (SIGNAL_STATUSES.includes(status as TechnicalSignal['status'])) {
+    if (status !== raw) issues.push({ path, message: `Normalized "${raw}"`, kind: 'repaired' });
+    return status as TechnicalSignal['status'];
+  }
+  const alias = STATUS_ALIASES[status];
+  if (alias) {
+    issues.push({ path, message: `Mapped "${raw}" to "${alias}"`, kind: 'repaired' });
+    return alias;
+  }
+  issues.push({ path, message: `Unknown status ${JSON.stringify(raw)}`, kind: 'defaulted' });
+  return 'warning';
+}
+
+function readSignals(raw: unknown, issues: SchemaIssue[]): TechnicalSignal[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push({ path: 'technicalSignals', message: 'Expected array', kind: 'defaulted' });
+    return [];
+  }
+  const signals: TechnicalSignal[] = [];
+  raw.forEach((s, i) => {
+    const path = `technicalSignals[${i}]`;
+    if (!isObject(s) || typeof s.label !== 'string' || !s.label.trim()) {
+      issues.push({ path, message: 'Dropped signal without label', kind: 'repaired' });
+      return;
+    }
+    signals.push({
+      label: s.label.trim(),
+      value: readString(s.value, `${path}.value`, 'Unknown', issues),
+      status: readStatus(s.status, `${path}.status`, issues),
+    });
+  });
+  return signals;
+}
+
+function readEvidence(raw: unknown, path: string, issues: SchemaIssue[]): string[] {
+  if (Array.isArray(raw)) {
+    const items = raw
+      .filter(item => typeof item === 'string' || typeof item === 'number')
+      .map(item => String(item).trim())
+      .filter(Boolean);
+    if (items.length !== raw.length) {
+      issues.push({ path, message: 'Dropped non-string evidence items', kind: 'repaired' });
+    }
+    return items;
+  }
+  if (typeof raw === 'string' && raw.trim()) {
+    issues.push({ path, message: 'Expected array, wrapped string', kind: 'repaired' });
+    return [raw.trim()];
+  }
+  issues.push({ path, message: 'Missing evidence list', kind: 'defaulted' });
+  return [];
+}
+
+function readCategories(
+  raw: unknown,
+  expected: QuestionCategory[],
+  requireScores: boolean,
+  issues: SchemaIssue[]
+): CategoryAnalysis[] {
+  const list = Array.isArray(raw) ? raw : [];
+  if (!Array.isArray(raw)) {
+    issues.push({ path: 'categories', message: 'Expected array of categories', kind: 'invalid' });
+  }
+
+  // Index model entries by canonical category, ignoring unknown/duplicate titles
+  const byCategory = new Map<QuestionCategory, Record<string, any>>();
+  list.forEach((c, i) => {
+    const title = isObject(c) && typeof c.title === 'string' ? c.title.trim().toLowerCase() : '';
+    const category = expected.find(cat => cat.toLowerCase() === title);
+    if (!category) {
+      issues.push({ path: `categories[${i}].title`, message: `Unknown category ${JSON.stringify(isObject(c) ? c.title : c)}`, kind: 'repaired' });
+      return;
+    }
+    if (byCategory.has(category)) {
+      issues.push({ path: `categories[${i}]`, message: `Duplicate category ${category}`, kind: 'repaired' });
+      return;
+    }
+    byCategory.set(category, c);
+  });
+
+  return expected.map(category => {
+    const path = `categories[${category}]`;
+    const entry = byCategory.get(category);
+    if (!entry) {
+      issues.push({ path, message: 'Category missing from response', kind: 'invalid' });
+    }
+    const c = entry || {};
+    return {
+      title: category,
+      score: readScore(c.score, `${path}.score`, issues, requireScores),
+      diagnostic: readString(c.diagnostic, `${path}.diagnostic`, "No diagnostic was generated for this area.", issues, !!entry),
+      evidence: readEvidence(c.evidence, `${path}.evidence`, issues),
+      strategy: readString(c.strategy, `${path}.strategy`, "Book a debrief to review this area with an expert.", issues, !!entry),
+    };
+  });
+}
+
+function readPerceptionGap(raw: unknown, issues: SchemaIssue[]): AuditResult['perceptionGap'] {
+  if (!isObject(raw)) {
+    issues.push({ path: 'perceptionGap', message: 'Missing object', kind: 'defaulted' });
+    return { detected: false, verdict: "None", details: "" };
+  }
+  let detected = raw.detected;
+  if (typeof detected !== 'boolean') {
+    detected = String(detected).toLowerCase() === 'true';
+    issues.push({ path: 'perceptionGap.detected', message: 'Coerced to boolean', kind: 'repaired' });
+  }
+  return {
+    detected,
+    verdict: readString(raw.verdict, 'perceptionGap.verdict', "None", issues),
+    details: readString(raw.details, 'perceptionGap.details', "", issues),
+  };
+}
+
+// --- PUBLIC API ---
+
+/**
+ * Validates and repairs a parsed audit object.
+ * `expectedCategories` defaults to every QuestionCategory; reports scored
+ * on a question pack pass the pack's categories (see reportCategories).
+ */
+export function validateAuditOutput(
+  raw: unknown,
+  options: ValidateOptions = {},
+  expectedCategories: QuestionCategory[] = AUDIT_CATEGORIES
+): AuditValidation {
+  const issues: SchemaIssue[] = [];
+  const requireScores = options.requireScores ?? false;
+  const obj = isObject(raw) ? raw : {};
+  if (!isObject(raw)) {
+    issues.push({ path: '$', message: 'Expected a JSON object', kind: 'invalid' });
+  }
+
+  const value: AuditModelOutput = {
+    momentumScore: readScore(obj.momentumScore, 'momentumScore', issues, requireScores),
+    businessContext: readString(obj.businessContext, 'businessContext', "Analysis Inconclusive", issues),
+    executiveSummary: readString(obj.executiveSummary, 'executiveSummary', "Audit Complete.", issues, true),
+    technicalSignals: readSignals(obj.technicalSignals, issues),
+    categories: readCategories(obj.categories, expectedCategories, requireScores, issues),
+    perceptionGap: readPerceptionGap(obj.perceptionGap, issues),
+  };
+
+  return {
+    value,
+    issues,
+    defaultedFields: issues.filter(i => i.kind !== 'repaired').map(i => i.path),
+    isComplete: !issues.some(i => i.kind === 'invalid'),
+  };
+}
+
+/**
+ * Builds the follow-up instruction sent to the model when the first
+ * response had invalid fields.
+ */
+export function buildRepairPrompt(
+  originalPrompt: string,
+  validation: AuditValidation | null,
+  parseError?: string,
+  expectedCategories: QuestionCategory[] = AUDIT_CATEGORIES
+): string {
+  const problems = parseError
+    ? [`- The response was not valid JSON (${parseError}).`]
+    : validation!.issues
+        .filter(i => i.kind === 'invalid')
+        .map(i => `- ${i.path}: ${i.message}`);
+
+  return `${originalPrompt}
+
+    **CORRECTION REQUIRED**
+    Your previous response was rejected for these reasons:
+    ${problems.join('\n    ')}
+    Return the COMPLETE JSON object again with every field present.
+    "categories" must contain exactly one object for each of: ${expectedCategories.join(', ')}.
+    Return JSON only. No markdown, no commentary.
+  `;
+}
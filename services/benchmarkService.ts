@@ -0,0 +1,129 @@
+import { BenchmarkSite, CompetitorBenchmark, QuestionCategory } from "../types";
+import { SiteScan } from "./siteScan";
+import { crawlToSignals } from "./siteCrawler";
+import { psiToSignals } from "./pageSpeedService";
+import { clampScore } from "./scoringEngine";
+import { normalizeDomain } from "./utils";
+
+/**
+ * Competitor benchmarking.
+ * Competitors never take the quiz, so every site (the audited brand included)
+ * is scored the same way: from public PSI + crawl signals only. These scores
+ * are for the side-by-side comparison and never replace the ScoreCard.
+ */
+
+// Categories with enough public signal to infer a score. Strategy,
+// Operations, Retention and Pipeline happen behind closed doors.
+export const BENCHMARK_CATEGORIES: QuestionCategory[] = [
+  QuestionCategory.VISUALS,
+  QuestionCategory.GROWTH,
+  QuestionCategory.CONTENT,
+  QuestionCategory.SEO,
+];
+
+const CONTENT_HUB_PATHS = /\/(blog|news|resources|guides|insights|articles|journal|learn|academy)(\/|$)/i;
+
+// --- HELPERS ---
+
+const average = (values: (number | null | undefined)[]): number | null => {
+  const known = values.filter((v): v is number => typeof v === 'number' && v >= 0);
+  return known.length > 0 ? known.reduce((sum, v) => sum + v, 0) / known.length : null;
+};
+
+// Share of passed checks, as 0-100
+const checklist = (checks: boolean[]) => (checks.filter(Boolean).length / checks.length) * 100;
+
+// --- INFERENCE ---
+
+/**
+ * Technical-only category scores for one site. Null where nothing was measured.
+ */
+export function inferCategoryScores(scan: SiteScan): Record<QuestionCategory, number | null> {
+  const psi = scan.psi.success ? scan.psi : null;
+  const crawl = scan.crawl.success && scan.crawl.pages.length > 0 ? scan.crawl : null;
+  const home = crawl?.pages[0];
+
+  const hasSchema = !!crawl?.pages.some(p => p.structuredDataTypes.length > 0);
+  const ogScore = home
+    ? home.openGraph.title && home.openGraph.image ? 100 : Object.keys(home.openGraph).length > 0 ? 50 : 0
+    : null;
+  const hasContentHub = !!crawl?.pages.some(p =>
+    CONTENT_HUB_PATHS.test(new URL(p.url).pathname) || p.internalLinks.some(l => CONTENT_HUB_PATHS.test(new URL(l).pathname))
+  );
+
+  const scores: Record<QuestionCategory, number | null> = {
+    [QuestionCategory.STRATEGY]: null,
+    [QuestionCategory.OPERATIONS]: null,
+    [QuestionCategory.RETENTION]: null,
+    [QuestionCategory.PIPELINE]: null,
+    [QuestionCategory.VISUALS]: average([
+      psi?.perfScore,
+      psi?.mobile?.accessibilityScore,
+      psi?.mobile?.bestPracticesScore,
+      ogScore
+    ]),
+    [QuestionCategory.GROWTH]: crawl
+      ? average([Math.min(crawl.analytics.length, 2) * 50, crawl.emailCapture ? 100 : 0])
+      : null,
+    [QuestionCategory.CONTENT]: crawl
+      ? checklist([hasContentHub, crawl.emailCapture, ogScore === 100])
+      : null,
+    [QuestionCategory.SEO]: average([
+      psi?.seoScore,
+      home ? checklist([!!home.title, !!home.metaDescription, !!home.canonical, hasSchema, crawl!.sitemap, crawl!.robotsTxt]) : null
+    ]),
+  };
+
+  BENCHMARK_CATEGORIES.forEach(category => {
+    const value = scores[category];
+    if (value !== null) scores[category] = clampScore(value);
+  });
+  return scores;
+}
+
+const toBenchmarkSite = (url: string, scan: SiteScan, isSelf: boolean): BenchmarkSite => {
+  const inferred = inferCategoryScores(scan);
+  return {
+    url,
+    domain: normalizeDomain(url),
+    isSelf,
+    scanned: scan.psi.success || scan.crawl.success,
+    signals: [...psiToSignals(scan.psi), ...crawlToSignals(scan.crawl)],
+    scores: BENCHMARK_CATEGORIES.map(category => ({ category, score: inferred[category] })),
+  };
+};
+
+/**
+ * Builds the comparison, audited brand first.
+ */
+export function buildBenchmark(
+  ownUrl: string,
+  ownScan: SiteScan,
+  competitors: { url: string; scan: SiteScan }[]
+): CompetitorBenchmark {
+  return {
+    sites: [
+      toBenchmarkSite(ownUrl, ownScan, true),
+      ...competitors.map(c => toBenchmarkSite(c.url, c.scan, false))
+    ],
+    categories: BENCHMARK_CATEGORIES,
+  };
+}
+
+/**
+ * One line per site for the model prompt.
+ */
+export function formatBenchmarkForPrompt(benchmark: CompetitorBenchmark): string {
+  return benchmark.sites.map(site => {
+    const label = `${site.domain}${site.isSelf ? ' (TARGET)' : ''}`;
+    if (!site.scanned) return `- ${label}: scan blocked`;
+    const signals = site.signals
+      .filter(s => s.label !== 'Tech Stack' && s.label !== 'Platform')
+      .map(s => `${s.label} ${s.value}`)
+      .join(', ');
+    const scores = site.scores
+      .map(s => `${s.category} ${s.score ?? 'N/A'}`)
+      .join(', ');
+    return `- ${label}: ${signals} | Inferred: ${scores}`;
+  }).join('\n');
+}
@@ -0,0 +1,128 @@
+import { AuditResult, BookingEvent, BookingProvider, CategoryAnalysis, ExpertProfile, TenantConfig } from "../types";
+
+/**
+ * Booking CTA: which expert a lead talks to, the scheduler link pre-filled
+ * with the lead and audit, and the events the embedded scheduler posts back.
+ * Cal.com and Calendly are recognised from the link; other schedulers get the
+ * plain link and report nothing.
+ */
+
+export interface BookingRoute {
+  expert: ExpertProfile;
+  bookingUrl: string;
+  provider: BookingProvider | null;
+}
+
+export interface BookingPrefill {
+  name?: string;
+  email?: string;
+  auditId?: string | null;
+}
+
+// Lowest-scoring category; the first one wins a tie
+export const weakestCategory = (result: AuditResult): CategoryAnalysis | null =>
+  result.categories.reduce<CategoryAnalysis | null>((lowest, cat) => !lowest || cat.score < lowest.score ? cat : lowest, null);
+
+export const detectBookingProvider = (bookingUrl: string): BookingProvider | null => {
+  try {
+    const host = new URL(bookingUrl).hostname.toLowerCase();
+    if (host === 'cal.com' || host.endsWith('.cal.com')) return 'calcom';
+    if (host === 'calendly.com' || host.endsWith('.calendly.com')) return 'calendly';
+  } catch (e) { /* not a URL */ }
+  return null;
+};
+
+/**
+ * The tenant's first expert route matching the lead tier and the weakest
+ * category, else its default expert.
+ */
+export const routeBooking = (tenant: TenantConfig, result: AuditResult): BookingRoute => {
+  const tier = result.qualification?.tier;
+  const weakest = weakestCategory(result)?.title;
+
+  const route = (tenant.expertRoutes || []).find(r =>
+    (!r.tiers || (!!tier && r.tiers.includes(tier)))
+    && (!r.weakestCategories || (!!weakest && (r.weakestCategories as string[]).includes(weakest)))
+  );
+  const { expert, bookingUrl } = route || tenant;
+  return { expert, bookingUrl, provider: detectBookingProvider(bookingUrl) };
+};
+
+/**
+ * Scheduler link with the lead's name and email filled in and the audit id
+ * attached, so the booking can be matched to the audit on the scheduler side.
+ * Pass `embedDomain` (the host page's hostname) for the iframe version:
+ * both schedulers only post events to the parent page in embed mode.
+ */
+export const buildBookingUrl = (
+  bookingUrl: string,
+  { name, email, auditId }: BookingPrefill,
+  { embedDomain }: { embedDomain?: string } = {}
+): string => {
+  const provider = detectBookingProvider(bookingUrl);
+  if (!provider) return bookingUrl; // Unknown scheduler: its parameters are unknown too
+  const url = new URL(bookingUrl);
+  const set = (key: string, value?: string | null) => { if (value) url.searchParams.set(key, value); };
+
+  set('name', name);
+  set('email', email);
+
+  if (provider === 'calcom') {
+    // Stored on the booking and sent with Cal.com webhooks
+    set('metadata[auditId]', auditId);
+    if (embedDomain) set('embed', 'true');
+  } else {
+    // Calendly keeps UTM parameters on the invitee (webhooks, exports)
+    set('utm_source', auditId ? 'brandscore' : null);
+    set('utm_content', auditId);
+    if (embedDomain) {
+      set('embed_domain', embedDomain);
+      set('embed_type', 'Inline');
+    }
+  }
+  return url.toString();
+};
+
+// Event name of a Cal.com embed message: "bookingSuccessful" or "CAL:<namespace>:bookingSuccessful"
+const calEventName = (data: any): string => String(data?.type || '').split(':').pop() || '';
+
+/**
+ * Reads a postMessage from the embedded scheduler. Returns null for anything
+ * else, including messages from other origins.
+ */
+export const parseBookingMessage = (
+  message: MessageEvent,
+  { bookingUrl, provider }: Pick<BookingRoute, 'bookingUrl' | 'provider'>
+): Pick<BookingEvent, 'type' | 'externalId'> | null => {
+  let origin: string;
+  try {
+    origin = new URL(bookingUrl).origin;
+  } catch (e) {
+    return null;
+  }
+  if (message.origin !== origin || typeof message.data !== 'object' || message.data === null) return null;
+  const data = message.data;
+
+  if (provider === 'calcom' && data.originator === 'CAL') {
+    switch (calEventName(data)) {
+      case 'linkReady':
+        return { type: 'viewed' };
+      case 'bookingSuccessful':
+      case 'bookingSuccessfulV2':
+      case 'rescheduleBookingSuccessful':
+        return { type: 'scheduled', externalId: data.data?.uid || data.data?.booking?.uid || undefined };
+    }
+  }
+
+  if (provider === 'calendly' && typeof data.event === 'string') {
+    switch (data.event) {
+      case 'calendly.event_type_viewed':
+        return { type: 'viewed' };
+      case 'calendly.date_and_time_selected':
+        return { type: 'date_selected' };
+      case 'calendly.event_scheduled':
+        return { type: 'scheduled', externalId: data.payload?.invitee?.uri || data.payload?.event?.uri || undefined };
+    }
+  }
+  return null;
+};
@@ -0,0 +1,94 @@
+import { BusinessClassification, BusinessModel, PageSignals } from "../types";
+import { defaultFetchText, extractPageSignals, FetchText } from "./siteCrawler";
+import { normalizeUrl } from "./utils";
+
+/**
+ * Business-model detection from the homepage, used to pre-select the question
+ * pack before the quiz starts. It is only a suggestion: the visitor can always
+ * change it in InputStep.
+ */
+
+interface Rule {
+  model: BusinessModel;
+  points: number;
+  reason: string;
+  test: (html: string, page: PageSignals) => boolean;
+}
+
+const linksTo = (page: PageSignals, pattern: RegExp) =>
+  page.internalLinks.some(link => pattern.test(new URL(link).pathname));
+
+const RULES: Rule[] = [
+  // SaaS
+  { model: 'saas', points: 2, reason: "Free trial or self-serve sign-up", test: html => /free trial|start (for )?free|try (it )?free|sign up free|get started free/i.test(html) },
+  { model: 'saas', points: 2, reason: "SoftwareApplication structured data", test: (_, p) => p.structuredDataTypes.some(t => /SoftwareApplication|WebApplication/i.test(t)) },
+  { model: 'saas', points: 1, reason: "Per-month or per-seat pricing", test: html => /\/\s?(mo|month)\b|per (user|seat|month)/i.test(html) },
+  { model: 'saas', points: 1, reason: "Pricing page", test: (_, p) => linksTo(p, /^\/pricing\/?$/i) },
+  { model: 'saas', points: 1, reason: "Integrations or API docs", test: (_, p) => linksTo(p, /^\/(integrations|docs|api|developers)(\/|$)/i) },
+
+  // DTC
+  { model: 'dtc', points: 3, reason: "E-commerce platform", test: (html, p) => p.cms.includes('Shopify') || /woocommerce|bigcommerce|Magento/i.test(html) },
+  { model: 'dtc', points: 2, reason: "Product structured data", test: (_, p) => p.structuredDataTypes.some(t => /^(Product|Offer|AggregateOffer)$/i.test(t)) },
+  { model: 'dtc', points: 2, reason: "Cart and shop links", test: (_, p) => linksTo(p, /^\/(cart|collections|shop|products?)(\/|$)/i) },
+  { model: 'dtc', points: 1, reason: "Add-to-cart or shipping offers", test: html => /add to (cart|bag)|free shipping|shop now/i.test(html) },
+
+  // B2B
+  { model: 'b2b', points: 2, reason: "Sales-led calls to action", test: html => /(book|request|schedule) a (demo|call|consultation)|contact sales|talk to (sales|an expert)|get a quote/i.test(html) },
+  { model: 'b2b', points: 2, reason: "Case studies or client results", test: (html, p) => /case stud(y|ies)|our clients|client results/i.test(html) || linksTo(p, /^\/(case-studies|clients|customers)(\/|$)/i) },
+  { model: 'b2b', points: 1, reason: "Services or industries pages", test: (_, p) => linksTo(p, /^\/(services|solutions|industries)(\/|$)/i) },
+
+  // General / local
+  { model: 'general', points: 2, reason: "Local business details", test: (html, p) => p.structuredDataTypes.some(t => /LocalBusiness|Restaurant|Store$/i.test(t)) || /opening hours|get directions/i.test(html) },
+];
+
+// A model needs this many points, and this lead over the runner-up, for a confident guess
+const MIN_POINTS = 2;
+const CONFIDENT_POINTS = 3;
+const CONFIDENT_MARGIN = 2;
+
+/**
+ * Scores the homepage against each model's rules. Pure, so it can be run on
+ * saved HTML.
+ */
+export function classifyBusiness(html: string, page: PageSignals): BusinessClassification {
+  const totals: Record<BusinessModel, { points: number; reasons: string[] }> = {
+    saas: { points: 0, reasons: [] },
+    dtc: { points: 0, reasons: [] },
+    b2b: { points: 0, reasons: [] },
+    general: { points: 0, reasons: [] },
+  };
+
+  RULES.forEach(rule => {
+    if (rule.test(html, page)) {
+      totals[rule.model].points += rule.points;
+      totals[rule.model].reasons.push(rule.reason);
+    }
+  });
+
+  const ranked = (Object.keys(totals) as BusinessModel[]).sort((a, b) => totals[b].points - totals[a].points);
+  const [best, runnerUp] = ranked;
+  const bestPoints = totals[best].points;
+
+  if (bestPoints < MIN_POINTS) {
+    return { model: 'general', confidence: 'low', reasons: [] };
+  }
+  return {
+    model: best,
+    confidence: bestPoints >= CONFIDENT_POINTS && bestPoints - totals[runnerUp].points >= CONFIDENT_MARGIN ? 'high' : 'low',
+    reasons: totals[best].reasons,
+  };
+}
+
+/**
+ * Fetches the homepage and classifies it. Unreachable sites return 'general'.
+ */
+export const detectBusinessModel = async (
+  rawUrl: string,
+  fetchText: FetchText = defaultFetchText
+): Promise<BusinessClassification> => {
+  const home = await fetchText(normalizeUrl(rawUrl));
+  if (!home || home.status < 200 || home.status >= 300 || !home.text) {
+    return { model: 'general', confidence: 'low', reasons: [] };
+  }
+  return classifyBusiness(home.text, extractPageSignals(home.text, home.url));
+};
@@ -1,6 +1,10 @@
 import { AuditResult, BrandInfo, LeadInfo, UserResponse } from "../types";
-import { QUESTIONS } from "../constants";
-import { generateEmailHtml, generateEmailSubject } from "./emailTemplates";
+import { formatResponses, getQuestionPack } from "./questionnaire";
+import { generateEmailHtml, generateEmailSubject, generateEmailText } from "./emailTemplates";
+import { generateFollowUpSequence } from "./emailSequence";
+import { buildBookingUrl, routeBooking } from "./booking";
+import { getTenant } from "./tenants";
+import { normalizeDomain } from "./utils";
 
 // We no longer send from the client. This service now just formats data for the DB.
 export const prepareCrmData = (
@@ -8,30 +12,37 @@ export const prepareCrmData = (
   brand: BrandInfo,
   result: AuditResult,
   responses: UserResponse[],
-  reportUrl: string 
+  reportUrl: string,
+  pdfUrl: string | null = null,
+  auditId: string | null = null
 ) => {
   
-  // 1. Format the raw answers for the CRM
-  const formattedQuizData = responses.map(r => {
-    const q = QUESTIONS.find(q => q.id === r.questionId);
-    let answerText = r.answer.toString();
-    if (q?.type === 'boolean') {
-      answerText = r.answer === 1 ? "Yes" : "No";
-    }
-    return {
-      category: q?.category || "Unknown",
-      question: q?.text || `Question ${r.questionId}`,
-      answer: answerText
-    };
-  });
+  // 1. Format the raw answers for the CRM (with the question set they were given)
+  const tenant = getTenant(result.tenantId);
+  const { questionnaire } = getQuestionPack(brand.businessModel, tenant);
+  const formattedQuizData = formatResponses(responses, questionnaire).map(r => ({
+    category: r.category,
+    question: r.question,
+    answer: r.answer
+  }));
+
+  // Most recent earlier audit, if this brand has been scored before
+  const previous = result.history?.[result.history.length - 1] || null;
 
   // 2. Generate the Email Content locally
-  const emailHtml = generateEmailHtml(lead, brand, result, reportUrl);
+  const emailHtml = generateEmailHtml(lead, brand, result, reportUrl, pdfUrl);
+  const emailText = generateEmailText(lead, brand, result, reportUrl, pdfUrl);
   const emailSubject = generateEmailSubject(brand, result);
+  const capturedAt = new Date();
+  const followUps = generateFollowUpSequence(lead, brand, result, reportUrl, capturedAt, auditId);
+  const booking = routeBooking(tenant, result);
 
   // 3. Return the payload to be saved in Supabase
   return {
-    capturedAt: new Date().toISOString(),
+    capturedAt: capturedAt.toISOString(),
+
+    // White-label tenant the lead came through
+    tenant: { id: tenant.id, name: tenant.name },
     
     // Lead Data
     lead: {
@@ -48,7 +59,9 @@ export const prepareCrmData = (
     // Brand Data
     brand: {
       name: brand.name,
-      url: brand.url
+      url: brand.url,
+      competitors: brand.competitors || [],
+      businessModel: brand.businessModel || 'general'
     },
     
     // Scores
@@ -57,20 +70,45 @@ export const prepareCrmData = (
       strategy: result.categories.find(c => c.title === 'Strategy')?.score || 0,
       growth: result.categories.find(c => c.title === 'Growth')?.score || 0,
       visuals: result.categories.find(c => c.title === 'Visuals')?.score || 0,
+      previous_total: previous?.momentumScore ?? null,
+      change: previous ? result.momentumScore - previous.momentumScore : null,
+      previous_audit_at: previous?.createdAt ?? null,
     },
     
+    // Lead score and tier (hot / warm / nurture)
+    qualification: result.qualification
+      ? { score: result.qualification.score, tier: result.qualification.tier, factors: result.qualification.factors }
+      : null,
+
     // The Magic/Vanity Link
     report_link: reportUrl, 
+    pdf_link: pdfUrl,
+
+    // Expert the lead is routed to, and their scheduler pre-filled with the lead and audit
+    booking: {
+      expert: booking.expert.name,
+      provider: booking.provider,
+      url: buildBookingUrl(booking.bookingUrl, { name: lead.fullName, email: lead.email, auditId })
+    },
     
     // Context
     summary: result.executiveSummary,
+    locale: result.locale || 'en', // Language of the summary and email
     
     // Ready-to-send Email Data
     email_config: {
       recipient: lead.email,
       subject: emailSubject,
       html_body: emailHtml,
+      text_body: emailText, // text/plain alternative
+      // Fetched by the sender at send time, so the PDF always matches the stored report
+      attachments: pdfUrl
+        ? [{ filename: `brand-score-${normalizeDomain(brand.url)}.pdf`, url: pdfUrl, content_type: 'application/pdf' }]
+        : [],
     },
+
+    // Follow-ups to send later, in order (send_at / send_after_hours)
+    email_sequence: followUps,
     
     quiz_data: formattedQuizData
   };
@@ -0,0 +1,138 @@
+import { AuditResult, BrandInfo, LeadInfo, TechnicalSignal } from "../types";
+import { escapeHtml, formatRichHtml, formatRichText } from "./emailTemplates";
+import { buildBookingUrl, routeBooking, weakestCategory } from "./booking";
+import { createTranslator } from "./i18n";
+import { getTenant } from "./tenants";
+import { normalizeDomain } from "./utils";
+
+/**
+ * Follow-up emails sent after the immediate report email (see
+ * SETUP_AND_MARKETING.md, "The Follow-Up"). They are generated with the audit
+ * and stored in the CRM payload, so the sender only has to wait and dispatch.
+ */
+
+export type FollowUpStep = 'missed_one_thing' | 'report_review';
+
+export interface FollowUpEmail {
+  step: FollowUpStep;
+  send_after_hours: number; // Offset from capturedAt
+  send_at: string; // capturedAt + offset, ISO
+  subject: string;
+  html_body: string;
+  text_body: string; // text/plain alternative
+}
+
+// Hours after the lead was captured
+export const FOLLOW_UP_DELAYS: Record<FollowUpStep, number> = {
+  missed_one_thing: 24,
+  report_review: 48,
+};
+
+// Most severe measured problem: critical first, then warning
+const failedSignal = (result: AuditResult): TechnicalSignal | null =>
+  result.technicalSignals.find(s => s.status === 'critical')
+  || result.technicalSignals.find(s => s.status === 'warning')
+  || null;
+
+// Plain, personal layout: these read as a note from the expert, not a newsletter.
+// Paragraphs may use the model's **bold** markup and are escaped here.
+const renderFollowUpHtml = (
+  agency: string,
+  locale: string,
+  dir: 'ltr' | 'rtl',
+  paragraphs: string[],
+  cta: { href: string; label: string },
+  signoff: string
+) => `
+<!DOCTYPE html>
+<html lang="${locale}" dir="${dir}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(agency)} Brand Score</title>
+<style>
+  body { font-family: 'Helvetica Neue', Helvetica, Arial, Tahoma, sans-serif; background-color: #ffffff; margin: 0; padding: 0; color: #111111; }
+  .container { max-width: 500px; margin: 40px auto; padding: 0 20px; }
+  p { font-size: 14px; line-height: 1.6; color: #333333; margin: 0 0 16px; }
+  .btn { display: inline-block; background-color: #000000; color: #ffffff; padding: 14px 28px; text-decoration: none; font-weight: bold; text-transform: uppercase; letter-spacing: 1px; font-size: 12px; }
+  .signoff { margin-top: 32px; color: #71717a; }
+</style>
+</head>
+<body dir="${dir}">
+  <div class="container">
+    ${paragraphs.map(p => `<p>${formatRichHtml(p)}</p>`).join('\n    ')}
+    <p><a href="${escapeHtml(cta.href)}" class="btn">${escapeHtml(cta.label)}</a></p>
+    <p class="signoff">${escapeHtml(signoff)}</p>
+  </div>
+</body>
+</html>
+  `;
+
+/**
+ * Builds the 24h and 48h follow-ups in the report's language.
+ * The 24h email is skipped when the report has no categories.
+ */
+export const generateFollowUpSequence = (
+  lead: LeadInfo,
+  brand: BrandInfo,
+  result: AuditResult,
+  reportLink: string,
+  capturedAt: Date = new Date(),
+  auditId: string | null = null
+): FollowUpEmail[] => {
+  const { t, category, term, locale, dir } = createTranslator(result.locale);
+  const tenant = getTenant(result.tenantId); // Sent on behalf of the agency the audit ran under
+  const booking = routeBooking(tenant, result); // Signed by the expert the lead would book with
+  const bookingLink = buildBookingUrl(booking.bookingUrl, { name: lead.fullName, email: lead.email, auditId });
+  const greeting = t('email.greeting', { name: lead.firstName });
+  const signoff = t('email.followUpSignoff', { name: booking.expert.name, agency: tenant.name });
+  const weakest = weakestCategory(result);
+  const signal = failedSignal(result);
+
+  const schedule = (step: FollowUpStep, subject: string, paragraphs: string[], cta: { href: string; label: string }): FollowUpEmail => ({
+    step,
+    send_after_hours: FOLLOW_UP_DELAYS[step],
+    send_at: new Date(capturedAt.getTime() + FOLLOW_UP_DELAYS[step] * 60 * 60 * 1000).toISOString(),
+    subject,
+    html_body: renderFollowUpHtml(tenant.name, locale, dir, paragraphs, cta, signoff),
+    text_body: [...paragraphs.map(formatRichText), `${cta.label}: ${cta.href}`, signoff].join('\n\n'),
+  });
+
+  const emails: FollowUpEmail[] = [];
+
+  // 1. "One thing you missed": the weakest area and its fix
+  if (weakest) {
+    emails.push(schedule(
+      'missed_one_thing',
+      t('email.followUpMissedSubject', { brand: brand.name }),
+      [
+        greeting,
+        t('email.followUpMissedIntro'),
+        `**${t('email.followUpMissedWeakest', { category: category(weakest.title), score: weakest.score, count: result.categories.length })}**`,
+        weakest.diagnostic,
+        `**${t('email.followUpMissedTip')}** ${weakest.strategy}`,
+      ].filter(Boolean),
+      { href: reportLink, label: t('email.cta') }
+    ));
+  }
+
+  // 2. "I was looking at your report": a measured problem, else the weakest score, then the call offer
+  const observation = signal
+    ? t('email.followUpReviewSignal', { signal: term(signal.label), value: term(signal.value), domain: normalizeDomain(brand.url) })
+    : weakest
+      ? t('email.followUpReviewScore', { category: category(weakest.title), score: weakest.score })
+      : null;
+
+  emails.push(schedule(
+    'report_review',
+    t('email.followUpReviewSubject'),
+    [
+      greeting,
+      observation,
+      t('email.followUpReviewOffer'),
+    ].filter((p): p is string => !!p),
+    { href: bookingLink, label: t('email.followUpReviewCta') }
+  ));
+
+  return emails;
+};
@@ -1,23 +1,62 @@
 import { AuditResult, BrandInfo, LeadInfo } from "../types";
+import { createTranslator, Translator } from "./i18n";
+import { getTenant } from "./tenants";
 
+// --- FORMATTING ---
+
+// Lead input and model output are untrusted: escape before they reach the HTML
+export const escapeHtml = (value: string | number | null | undefined) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * Model prose to HTML: escaped, **bold** to <strong>, line breaks kept.
+ */
+export const formatRichHtml = (text: string) =>
+  escapeHtml(text)
+    .replace(/\*\*([\s\S]+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\n/g, '<br/>');
+
+// Model prose for text/plain: the bold markers are dropped
+export const formatRichText = (text: string) => (text || '').replace(/\*\*([\s\S]+?)\*\*/g, '$1');
+
+const reportIdOf = (reportLink: string) => reportLink.split('id=')[1]?.slice(0, 8) || 'Unknown';
+
+// Category rows shared by both bodies, in report order
+const categoryScores = (result: AuditResult, { category }: Translator) =>
+  result.categories.map(cat => ({ name: category(cat.title), score: cat.score }));
+
+// --- EMAILS ---
+
+// Emails go out in the language the report was written in
 export const generateEmailSubject = (brand: BrandInfo, result: AuditResult) => {
-  return `BRAND SCORE - ${brand.name}`;
+  return createTranslator(result.locale).t('email.subject', { brand: brand.name });
 };
 
-export const generateEmailHtml = (lead: LeadInfo, brand: BrandInfo, result: AuditResult, reportLink: string) => {
+// pdfLink is null when the report's language has no PDF export
+export const generateEmailHtml = (lead: LeadInfo, brand: BrandInfo, result: AuditResult, reportLink: string, pdfLink: string | null = null) => {
+  const i18n = createTranslator(result.locale);
+  const { t, locale, dir } = i18n;
+  const agency = escapeHtml(getTenant(result.tenantId).name); // Branded for the tenant the audit ran under
   const score = result.momentumScore;
+  // Email clients ignore logical CSS properties, so the accent border is mirrored by hand
+  const startSide = dir === 'rtl' ? 'right' : 'left';
   // Dynamic color for the score
   const scoreColor = score >= 80 ? "#000000" : score >= 60 ? "#555555" : "#000000";
   
   return `
 <!DOCTYPE html>
-<html>
+<html lang="${locale}" dir="${dir}">
 <head>
 <meta charset="utf-8">
 <meta name="viewport" content="width=device-width, initial-scale=1.0">
-<title>Zouhall Brand Score</title>
+<title>${agency} Brand Score</title>
 <style>
-  body { font-family: 'Helvetica Neue', Helvetica, Arial, sans-serif; background-color: #f4f4f5; margin: 0; padding: 0; color: #111111; -webkit-font-smoothing: antialiased; }
+  body { font-family: 'Helvetica Neue', Helvetica, Arial, Tahoma, sans-serif; background-color: #f4f4f5; margin: 0; padding: 0; color: #111111; -webkit-font-smoothing: antialiased; }
   .container { max-width: 500px; margin: 40px auto; background-color: #ffffff; padding: 0; border: 1px solid #e4e4e7; }
   .header { background-color: #000000; padding: 30px 40px; text-align: center; }
   .logo { color: #ffffff; font-weight: 900; font-size: 20px; letter-spacing: 2px; text-transform: uppercase; text-decoration: none; }
@@ -26,52 +65,126 @@ export const generateEmailHtml = (lead: LeadInfo, brand: BrandInfo, result: Audi
   .score-section { text-align: center; margin: 30px 0; border: 1px solid #f4f4f5; padding: 20px; background-color: #fafafa; }
   .score-val { font-size: 64px; font-weight: 800; line-height: 1; color: ${scoreColor}; letter-spacing: -2px; }
   .score-label { font-size: 11px; text-transform: uppercase; letter-spacing: 2px; color: #71717a; margin-top: 10px; }
-  .summary { line-height: 1.6; font-size: 14px; margin-bottom: 30px; color: #52525b; border-left: 2px solid #000; padding-left: 15px; }
+  .summary { line-height: 1.6; font-size: 14px; margin-bottom: 30px; color: #52525b; border-${startSide}: 2px solid #000; padding-${startSide}: 15px; }
   .btn-container { text-align: center; margin-top: 40px; margin-bottom: 20px; }
   .btn { display: inline-block; background-color: #000000; color: #ffffff; padding: 18px 36px; text-decoration: none; font-weight: bold; text-transform: uppercase; letter-spacing: 1px; font-size: 12px; }
+  .scores { width: 100%; border-collapse: collapse; margin: 20px 0 10px; font-size: 13px; }
+  .scores td { padding: 8px 0; border-bottom: 1px solid #f4f4f5; color: #333; }
+  .scores .score { text-align: ${dir === 'rtl' ? 'left' : 'right'}; font-weight: bold; color: #000; }
+  .pdf-link { text-align: center; font-size: 12px; margin-bottom: 10px; }
   .footer { background-color: #f4f4f5; padding: 20px; text-align: center; font-size: 10px; color: #a1a1aa; text-transform: uppercase; letter-spacing: 1px; }
   a { color: #000; text-decoration: underline; }
 </style>
 </head>
-<body>
+<body dir="${dir}">
   <div class="container">
     <div class="header">
-      <span class="logo">Zouhall</span>
+      <span class="logo">${agency}</span>
     </div>
     
     <div class="content">
-      <p class="greeting">Hi ${lead.firstName},</p>
+      <p class="greeting">${t('email.greeting', { name: escapeHtml(lead.firstName) })}</p>
       
       <p style="font-size: 14px; line-height: 1.5; color: #333;">
-        The forensic audit for <strong>${brand.name}</strong> is complete. 
-        We have analyzed your technical infrastructure and growth strategy.
+        ${t('email.intro', { brand: `<strong>${escapeHtml(brand.name)}</strong>` })}
       </p>
       
       <div class="score-section">
         <div class="score-val">${score}</div>
-        <div class="score-label">Brand Momentum Score</div>
+        <div class="score-label">${t('email.scoreLabel')}</div>
       </div>
       
       <div class="summary">
-        <strong>Executive Summary:</strong><br/><br/>
-        ${result.executiveSummary}
+        <strong>${t('email.summaryTitle')}</strong><br/><br/>
+        ${formatRichHtml(result.executiveSummary)}
       </div>
       
       <p style="font-size: 14px; line-height: 1.5; color: #333;">
-        Your detailed report includes a breakdown of 6 key business areas and a specific list of detected bottlenecks.
+        ${t('email.details', { count: result.categories.length })}
       </p>
+
+      <table class="scores" role="presentation">
+        <tr><td colspan="2"><strong>${t('email.scoresTitle')}</strong></td></tr>
+        ${categoryScores(result, i18n).map(row => `<tr><td>${escapeHtml(row.name)}</td><td class="score">${row.score}/100</td></tr>`).join('\n        ')}
+      </table>
       
       <div class="btn-container">
-        <a href="${reportLink}" class="btn">View Full Report</a>
+        <a href="${escapeHtml(reportLink)}" class="btn">${t('email.cta')}</a>
       </div>
+      ${pdfLink ? `<p class="pdf-link"><a href="${escapeHtml(pdfLink)}">${t('email.pdfLink')}</a></p>` : ''}
     </div>
     
     <div class="footer">
-      Generated by Zouhall Intelligence Engine<br/>
-      Secure Report ID: ${reportLink.split('id=')[1]?.slice(0, 8) || 'Unknown'}
+      ${t('email.footer', { agency })}<br/>
+      ${t('email.reportId', { id: escapeHtml(reportIdOf(reportLink)) })}
     </div>
   </div>
 </body>
 </html>
   `;
-};
\ No newline at end of file
+};
+
+/**
+ * text/plain alternative of generateEmailHtml, for clients that don't render
+ * HTML and for spam scoring.
+ */
+export const generateEmailText = (lead: LeadInfo, brand: BrandInfo, result: AuditResult, reportLink: string, pdfLink: string | null = null) => {
+  const i18n = createTranslator(result.locale);
+  const { t } = i18n;
+
+  return [
+    t('email.greeting', { name: lead.firstName }),
+    t('email.intro', { brand: brand.name }),
+    `${t('email.scoreLabel')}: ${result.momentumScore}/100`,
+    `${t('email.summaryTitle')}\n${formatRichText(result.executiveSummary)}`,
+    t('email.details', { count: result.categories.length }),
+    [t('email.scoresTitle'), ...categoryScores(result, i18n).map(row => `- ${row.name}: ${row.score}/100`)].join('\n'),
+    `${t('email.cta')}: ${reportLink}`,
+    pdfLink ? `${t('email.pdfLink')}: ${pdfLink}` : null,
+    `--\n${t('email.footer', { agency: getTenant(result.tenantId).name })}\n${t('email.reportId', { id: reportIdOf(reportLink) })}`,
+  ].filter(Boolean).join('\n\n');
+};
+
+/**
+ * One-time code that opens the stored report for its owner
+ * (POST /api/audits/:id/code), in the report's language and branding.
+ */
+export const generateOwnerCodeEmail = (brand: BrandInfo, result: AuditResult, code: string, validMinutes: number) => {
+  const { t, locale, dir } = createTranslator(result.locale);
+  const agency = getTenant(result.tenantId).name;
+  const lines = {
+    intro: t('email.codeIntro', { brand: brand.name }),
+    expiry: t('email.codeExpiry', { minutes: validMinutes }),
+    footer: t('email.footer', { agency })
+  };
+
+  return {
+    subject: t('email.codeSubject', { code, brand: brand.name }),
+    text: [lines.intro, code, lines.expiry, `--\n${lines.footer}`].join('\n\n'),
+    html: `
+<!DOCTYPE html>
+<html lang="${locale}" dir="${dir}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(agency)} Brand Score</title>
+<style>
+  body { font-family: 'Helvetica Neue', Helvetica, Arial, Tahoma, sans-serif; background-color: #ffffff; margin: 0; padding: 0; color: #111111; }
+  .container { max-width: 500px; margin: 40px auto; padding: 0 20px; }
+  p { font-size: 14px; line-height: 1.6; color: #333333; margin: 0 0 16px; }
+  .code { font-family: 'Courier New', monospace; font-size: 32px; font-weight: bold; letter-spacing: 8px; color: #000000; }
+  .footer { margin-top: 32px; font-size: 10px; text-transform: uppercase; letter-spacing: 1px; color: #a1a1aa; }
+</style>
+</head>
+<body dir="${dir}">
+  <div class="container">
+    <p>${escapeHtml(lines.intro)}</p>
+    <p class="code" dir="ltr">${escapeHtml(code)}</p>
+    <p>${escapeHtml(lines.expiry)}</p>
+    <p class="footer">${escapeHtml(lines.footer)}</p>
+  </div>
+</body>
+</html>
+  `
+  };
+};
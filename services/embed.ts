@@ -0,0 +1,46 @@
+import { EmbedMessage, EmbedTheme } from '../types';
+
+/**
+ * The funnel embedded in a partner's page (widget/embed.ts puts /embed in an
+ * iframe). The loader passes its settings as query parameters: `theme`,
+ * `lang`, `utm_*` and `host`, the host page's origin that messages go to.
+ */
+
+export interface EmbedConfig {
+  theme: EmbedTheme;
+  hostOrigin: string | null; // null: no host to talk to, messages are dropped
+}
+
+// /embed, or /t/<id>/embed for a tenant
+export const isEmbedPath = (pathname: string): boolean => /^(\/t\/[a-z0-9-]+)?\/embed\/?$/i.test(pathname);
+
+const toOrigin = (value: string | null): string | null => {
+  if (!value) return null;
+  try {
+    const { origin, protocol } = new URL(value);
+    return protocol === 'https:' || protocol === 'http:' ? origin : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const readEmbedConfig = (search: string): EmbedConfig => {
+  const params = new URLSearchParams(search);
+  return {
+    theme: params.get('theme') === 'light' ? 'light' : 'dark',
+    hostOrigin: toOrigin(params.get('host'))
+  };
+};
+
+/**
+ * Posts to the page embedding the iframe. The target origin keeps messages
+ * from reaching a page that navigated the iframe's parent elsewhere.
+ */
+export const postToHost = (config: EmbedConfig, message: EmbedMessage) => {
+  if (!config.hostOrigin || window.parent === window) return;
+  try {
+    window.parent.postMessage(message, config.hostOrigin);
+  } catch (e) {
+    console.warn("Could not post to the host page", e);
+  }
+};
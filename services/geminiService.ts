@@ -1,353 +1,309 @@
-import { GoogleGenAI } from "@google/genai";
-import { AuditResult, BrandInfo, UserResponse, TechnicalSignal } from "../types";
-import { QUESTIONS } from "../constants";
-
-// STAGE 1: ROBUST KEY SANITIZATION
-// Removes quotes, spaces, newlines, and common copy-paste artifacts
-const RAW_KEY = process.env.VITE_PSI_API_KEY || "";
-const PSI_API_KEY = RAW_KEY.replace(/["';\s\n\r]/g, "").trim();
+import { AuditResult, BrandInfo, UserResponse, TechnicalSignal, ScoreCard, CategoryAnalysis, QuestionCategory, CacheOutcome, Locale, TenantConfig } from "../types";
+import { computeScoreCard } from "./scoringEngine";
+import { formatResponses, getQuestionPack } from "./questionnaire";
+import { AuditValidation, buildRepairPrompt, extractJsonObject, validateAuditOutput } from "./auditSchema";
+import { AuditModelProvider, resolveAuditModelProvider } from "./providers";
+import { normalizeUrl } from "./utils";
+import { crawlToEvidence, crawlToSignals } from "./siteCrawler";
+import { psiToSignals } from "./pageSpeedService";
+import { AuditCacheConfig, aiCacheKey } from "./auditCache";
+import { scanSite } from "./siteScan";
+import { buildBenchmark, formatBenchmarkForPrompt } from "./benchmarkService";
+import { createTranslator, DEFAULT_LOCALE, LOCALE_NAMES } from "./i18n";
+import { DEFAULT_TENANT } from "./tenants";
 
 // --- UTILITIES ---
 
-function normalizeUrl(url: string): string {
-  let normalized = url.trim();
-  while (normalized.endsWith('/')) {
-    normalized = normalized.slice(0, -1);
-  }
-  if (!normalized.match(/^https?:\/\//)) {
-    normalized = `https://${normalized}`;
-  }
-  return normalized;
-}
-
-function cleanAndParseJSON(text: string): any {
-  const start = text.indexOf('{');
-  const end = text.lastIndexOf('}');
-  if (start === -1 || end === -1) throw new Error("Response does not contain a JSON object");
-  const jsonStr = text.substring(start, end + 1);
-  try {
-    return JSON.parse(jsonStr);
-  } catch (e) {
-    const cleaned = jsonStr.replace(/```json/g, '').replace(/```/g, '');
-    return JSON.parse(cleaned);
-  }
-}
-
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// --- API FETCHERS ---
-
-interface PsiResult {
-  success: boolean;
-  perfScore: number;
-  seoScore: number;
-  webVitals: { lcp: string; cls: string; fcp: string };
-  techStack: string[];
-  bugs: string[];
-  error?: string;
-  isFallback?: boolean;
-}
+const formatMs = (ms: number | null) => ms === null ? 'N/A' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.round(ms)}ms`;
 
 /**
- * Robust PSI Fetcher.
- * - Uses explicit string concatenation for API KEY to avoid any Header/Param confusion.
- * - Retries logic included.
+ * Attaches the model's prose to the locally computed category scores.
+ * The score always comes from the ScoreCard; the model never sets it.
+ * Measured evidence (crawler) is listed before the model's evidence.
  */
-async function fetchPageSpeedData(rawUrl: string): Promise<PsiResult> {
-  const url = normalizeUrl(rawUrl);
-  
-  const performFetch = async (useKey: boolean): Promise<any> => {
-    // 1. Prepare Base Params using URLSearchParams for safe encoding of the URL
-    const params = new URLSearchParams();
-    params.append('url', url);
-    params.append('strategy', 'mobile');
-    params.append('category', 'performance');
-    params.append('category', 'seo');
-    
-    // 2. Construct the Base URL String
-    let fetchUrl = `https://www.googleapis.com/pagespeedonline/v5/runPagespeed?${params.toString()}`;
-
-    // 3. Append Key manually if required (Explicit Query Param)
-    if (useKey) {
-      if (!PSI_API_KEY) throw new Error("MISSING_KEY");
-      fetchUrl += `&key=${PSI_API_KEY}`;
-    }
-
-    if (useKey) {
-      console.log(`PSI Request: Authenticated via Query Param (&key=...${PSI_API_KEY.slice(-4)})`);
-    } else {
-      console.log(`PSI Request: Anonymous`);
-    }
-
-    const controller = new AbortController();
-    // 60s timeout for slow PSI scans
-    const timeoutId = setTimeout(() => controller.abort(), 60000); 
+function mergeCategoryProse(
+  scoreCard: ScoreCard,
+  prose: CategoryAnalysis[],
+  measuredEvidence: Partial<Record<QuestionCategory, string[]>> = {}
+): CategoryAnalysis[] {
+  return scoreCard.categories.map(cs => {
+    const match = prose.find(p => p.title === cs.category);
+    const measured = measuredEvidence[cs.category] || [];
+    return {
+      title: cs.category,
+      score: cs.score,
+      diagnostic: match?.diagnostic || "",
+      evidence: [...measured, ...(match?.evidence || []).filter(e => !measured.includes(e))],
+      strategy: match?.strategy || ""
+    };
+  });
+}
 
-    try {
-      const response = await fetch(fetchUrl, { signal: controller.signal });
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        let errorDetails = response.statusText;
-        try {
-          const errJson = await response.json();
-          errorDetails = errJson.error?.message || response.statusText;
-          console.warn(`[PSI API ERROR] ${response.status}: ${errorDetails}`);
-        } catch (e) { /* ignore */ }
-
-        return { error: true, status: response.status, text: errorDetails };
-      }
-      return await response.json();
-    } catch (e: any) {
-      clearTimeout(timeoutId);
-      throw e;
-    }
-  };
+interface ModelNarrative {
+  validation: AuditValidation | null; // Best response across attempts, null if none parsed
+  groundingUrls: string[];
+  attempts: number;
+}
 
-  try {
-    let data;
-    let attempt1 = null;
+/**
+ * Calls the model up to twice. Keeps the best validated response across
+ * attempts and re-prompts only when the schema flags invalid fields.
+ */
+async function generateNarrative(
+  provider: AuditModelProvider,
+  prompt: string,
+  expectedCategories: QuestionCategory[]
+): Promise<ModelNarrative> {
+  let best: AuditValidation | null = null;
+  let groundingUrls: string[] = [];
+  let currentPrompt = prompt;
+  let attempts = 0;
 
-    // Attempt 1: With API Key
+  for (let attempt = 1; attempt <= 2; attempt++) {
+    attempts = attempt;
     try {
-      attempt1 = await performFetch(true);
-    } catch (e: any) {
-      // If Timeout (AbortError), try ONE more time with KEY before giving up
-      if (e.name === 'AbortError') {
-        console.warn("PSI Request Timed Out (60s). Retrying once with key...");
-        try {
-           attempt1 = await performFetch(true);
-        } catch(e2) {
-           console.warn("PSI Retry also failed:", e2);
-        }
-      } else if (e.message !== "MISSING_KEY") {
-        console.warn("PSI Network Error:", e);
-      }
-    }
+      const result = await provider.generate({
+        prompt: currentPrompt,
+        useSearch: true,
+        temperature: 0.4 // Slightly higher creativity for "Zouhall" tone
+      });
 
-    if (attempt1 && !attempt1.error) {
-      data = attempt1;
-    } else {
-      // Fallback Logic
-      const status = attempt1?.status || 0;
-      let shouldRetryAnonymous = true;
-      let waitTime = 1000;
-
-      // If we timed out (status 0), anonymous is likely to fail too, so we skip to fallback to save time.
-      if (!attempt1 && !data) {
-         console.warn("PSI connection failed. Skipping anonymous retry to prevent 429.");
-         shouldRetryAnonymous = false;
+      let validation: AuditValidation;
+      try {
+        validation = validateAuditOutput(extractJsonObject(result.text), {}, expectedCategories);
+      } catch (parseError: any) {
+        console.warn(`AI Attempt ${attempt} returned unparseable JSON:`, parseError.message);
+        currentPrompt = buildRepairPrompt(prompt, null, parseError.message, expectedCategories);
+        continue;
       }
 
-      if (status === 403) {
-         console.error("CRITICAL: Google Cloud API Key rejected. Ensure 'PageSpeed Insights API' is ENABLED.");
-         waitTime = 500; 
-      } else if (status === 429) {
-         console.warn("QUOTA EXCEEDED (429). Waiting 5s before anonymous retry...");
-         waitTime = 5000;
+      if (!best || validation.defaultedFields.length < best.defaultedFields.length) {
+        best = validation;
+        groundingUrls = result.groundingUrls;
       }
+      if (validation.isComplete) break;
 
-      if (shouldRetryAnonymous) {
-         await delay(waitTime);
-         console.log("Retrying PSI anonymously...");
-         const attempt2 = await performFetch(false);
-         if (attempt2 && !attempt2.error) {
-           data = attempt2;
-         } else {
-           console.warn(`PSI Anonymous Failed: ${attempt2?.status || 'Unknown'}`);
-         }
-      }
-    }
-
-    // FINAL CHECK: Do we have data?
-    if (!data || !data.lighthouseResult) {
-       throw new Error("PSI Data Unavailable");
+      console.warn(`AI Attempt ${attempt} failed schema:`, validation.defaultedFields);
+      currentPrompt = buildRepairPrompt(prompt, validation, undefined, expectedCategories);
+    } catch (e) {
+      console.error(`AI Attempt ${attempt} error:`, e);
+      if (attempt === 2) break;
+      await delay(1000);
     }
-
-    const lighthouse = data.lighthouseResult;
-    const perfScore = lighthouse.categories.performance?.score 
-        ? Math.round(lighthouse.categories.performance.score * 100) : -1;
-    const seoScore = lighthouse.categories.seo?.score 
-        ? Math.round(lighthouse.categories.seo.score * 100) : -1;
-
-    return {
-      success: true,
-      perfScore,
-      seoScore,
-      webVitals: {
-        lcp: lighthouse.audits?.['largest-contentful-paint']?.displayValue || 'N/A',
-        cls: lighthouse.audits?.['cumulative-layout-shift']?.displayValue || 'N/A',
-        fcp: lighthouse.audits?.['first-contentful-paint']?.displayValue || 'N/A',
-      },
-      techStack: (lighthouse.stackPacks || []).map((p: any) => p.title),
-      bugs: []
-    };
-
-  } catch (error: any) {
-    console.warn("PSI Scan aborted. Switching to AI Estimation Mode.", error.message);
-    return {
-      success: false,
-      perfScore: -1,
-      seoScore: -1,
-      webVitals: { lcp: '?', cls: '?', fcp: '?' },
-      techStack: [],
-      bugs: [],
-      error: error.message,
-      isFallback: true
-    };
   }
+
+  return { validation: best, groundingUrls, attempts };
 }
 
 // --- MAIN SERVICE ---
 
+export interface AuditOptions {
+  provider?: AuditModelProvider | null; // Defaults to the provider configured in the environment
+  onStage?: (stage: 'crawling' | 'analyzing') => void | Promise<void>; // Progress hook for audit jobs
+  cache?: AuditCacheConfig; // No caching when omitted
+  locale?: Locale; // Language of the prose, English when omitted
+  tenant?: TenantConfig; // Persona, voice and question set; the default tenant when omitted
+}
+
 export const performBrandAudit = async (
   brand: BrandInfo,
-  responses: UserResponse[]
+  responses: UserResponse[],
+  options: AuditOptions = {}
 ): Promise<AuditResult> => {
-  const apiKey = process.env.API_KEY;
-  let ai;
-  if (apiKey) ai = new GoogleGenAI({ apiKey: apiKey });
-
-  // 1. EXECUTE CRAWL (With robust fallback)
-  const psiData = await fetchPageSpeedData(brand.url);
+  const provider = options.provider !== undefined ? options.provider : resolveAuditModelProvider();
+  const cache = options.cache;
+  const locale = options.locale || DEFAULT_LOCALE;
+  const tenant = options.tenant || DEFAULT_TENANT;
+  const { t } = createTranslator(locale);
+  let aiCache: CacheOutcome = 'bypass';
+
+  // 1. EXECUTE CRAWL (PSI + first-party crawl, brand and competitors in parallel, all with robust fallback)
+  await options.onStage?.('crawling');
+  const competitorUrls = brand.competitors || [];
+  const [own, ...rivals] = await Promise.all([
+    scanSite(brand.url, cache),
+    ...competitorUrls.map(url => scanSite(url, cache))
+  ]);
+  const crawlCache = own.cache;
+  const { psi: psiData, crawl, fetchedAt: crawledAt } = own.scan;
+  const crawlEvidence = crawlToEvidence(crawl);
+  const benchmark = rivals.length > 0
+    ? buildBenchmark(brand.url, own.scan, competitorUrls.map((url, i) => ({ url, scan: rivals[i].scan })))
+    : undefined;
   
   // 2. PREPARE QUIZ DATA
-  const formattedAnswers = responses.map(r => {
-    const q = QUESTIONS.find(q => q.id === r.questionId);
-    return `- ${q?.category}: ${r.answer === 1 ? 'YES' : 'NO'} (${q?.text})`;
-  }).join('\n');
-
-  // 3. CONSTRUCT SIGNALS
-  const signals: TechnicalSignal[] = [];
-  
-  if (psiData.success) {
-    signals.push({
-      label: "Mobile Speed",
-      value: `${psiData.perfScore}/100`,
-      status: psiData.perfScore >= 90 ? 'good' : psiData.perfScore >= 50 ? 'warning' : 'critical'
-    });
-    signals.push({
-      label: "SEO Score",
-      value: `${psiData.seoScore}/100`,
-      status: psiData.seoScore >= 90 ? 'good' : psiData.seoScore >= 70 ? 'warning' : 'critical'
-    });
-    if (psiData.techStack.length > 0) {
-      signals.push({ label: "Tech Stack", value: psiData.techStack.join(', '), status: 'good' });
-    }
-  } else {
-    // Graceful Signal if scan failed
-    signals.push({ label: "Site Scan", value: "Visual Analysis Only", status: "warning" });
-  }
-
-  // 4. AI PROMPT - FORENSIC STYLE
+  const pack = getQuestionPack(brand.businessModel, tenant);
+  const formattedAnswers = formatResponses(responses, pack.questionnaire)
+    .map(r => `- ${r.category}: ${r.answer} (${r.question})`)
+    .join('\n');
+
+  // 3. DETERMINISTIC SCORING (the model only writes prose around these)
+  const scoreCard = computeScoreCard(responses, psiData, pack);
+  const formattedScores = scoreCard.categories
+    .map(c => `- ${c.category}: ${c.score}/100`)
+    .join('\n');
+
+  // 4. CONSTRUCT SIGNALS
+  const signals: TechnicalSignal[] = psiToSignals(psiData);
+  const crawlSignals = crawlToSignals(crawl);
+  signals.push(...crawlSignals);
+
+  const formattedCrawl = crawl.success
+    ? crawlSignals.map(s => `- ${s.label}: ${s.value}`).join('\n')
+    : `- First-Party Crawl: BLOCKED (${crawl.error || 'unknown reason'}).`;
+
+  // 5. AI PROMPT - FORENSIC STYLE
   const domain = normalizeUrl(brand.url).replace(/^https?:\/\//, '');
+  const language = LOCALE_NAMES[locale].english;
   
   const prompt = `
-    Role: You are the **Zouhall Intelligence Engine**, a ruthless, high-end brand auditor.
-    Tone: Cold, Clinical, Expensive. No fluff. No "Hello". Direct forensic analysis only.
-    Style: Minimalist, Bold, Black & White. 
-    
+    Role: You are the **${tenant.name} Intelligence Engine**, ${tenant.voice.role}.
+    Tone: ${tenant.voice.tone}
+    Style: ${tenant.voice.style}
+    ${locale === DEFAULT_LOCALE ? '' : `
+    **OUTPUT LANGUAGE: ${language}.** The founder reads ${language}. Write every prose value (businessContext, executiveSummary, technicalSignals label and value, diagnostic, evidence, strategy, perceptionGap verdict and details) in ${language}${locale === 'ar' ? ' (Modern Standard Arabic)' : ''}.
+    Keep JSON keys, "status" values and category "title" values exactly as written in English below.
+    `}
     Target: "${brand.name}" (${domain}).
     Task: Analyze the brand and generate a forensic report.
 
-    **STEP 1: BUSINESS CLASSIFICATION**
-    Use 'google_search' to identify if this is B2B, DTC, or SaaS.
+    **STEP 1: BUSINESS CONTEXT**
+    ${pack.id === 'general'
+      ? `Use 'google_search' to identify if this is B2B, DTC, SaaS or a local business.`
+      : `The founder classified the business as ${pack.label}. Use 'google_search' to confirm what it sells and to whom.`}
+    ${pack.promptGuidance}
     
     **STEP 2: DATA INGESTION**
     [Technical Diagnostics]
     ${psiData.success 
       ? `- Mobile Performance: ${psiData.perfScore}/100
+         - Desktop Performance: ${psiData.desktop ? `${psiData.desktop.perfScore}/100` : 'N/A'}
          - SEO Structure: ${psiData.seoScore}/100
+         - Accessibility: ${psiData.mobile ? `${psiData.mobile.accessibilityScore}/100` : 'N/A'}
+         - Best Practices: ${psiData.mobile ? `${psiData.mobile.bestPracticesScore}/100` : 'N/A'}
+         - Mobile LCP: ${formatMs(psiData.mobile?.metrics.lcpMs ?? null)}, TBT: ${formatMs(psiData.mobile?.metrics.tbtMs ?? null)}, CLS: ${psiData.mobile?.metrics.cls?.toFixed(2) ?? 'N/A'}
+         - Top Fixes: ${(psiData.mobile?.opportunities || []).map(o => `${o.title} (-${formatMs(o.savingsMs)})`).join('; ') || 'None'}
          - Tech Stack: ${psiData.techStack.join(', ') || 'Undetected'}`
       : `- Automated Scan: BLOCKED (Assume infrastructure is weak or hidden).`
     }
 
+    [On-Page Crawl - measured facts, cite them as evidence]
+    ${formattedCrawl}
+
+    ${benchmark
+      ? `[Competitor Benchmark - same public signals for every site]
+    ${formatBenchmarkForPrompt(benchmark)}
+`
+      : ''}
     [Strategic Self-Report]
     ${formattedAnswers}
 
+    [Computed Scores - FINAL, do not alter or restate differently]
+    - Momentum Score: ${scoreCard.momentumScore}/100
+    ${formattedScores}
+
     **STEP 3: GENERATE FORENSIC SUMMARY**
     Write an 'executiveSummary' in 3 distinct, punchy paragraphs. 
     Use **bold text** for impact.
     
     1. **The Brutal Reality**: Start with a hard truth about their technical setup or market position. (e.g. "**Your tech stack is obsolete.** You are running on Wix/Squarespace which is throttling your SEO visibility.")
-    2. **The Strategy Gap**: Isolate ONE specific "NO" answer from the quiz and attack it. (e.g. "You claimed to want scale, yet you have **zero email automation**. You are voluntarily donating margin to your competitors.")
+    2. **The Strategy Gap**: Isolate ONE specific weak answer from the quiz (a "No", a low rating or a low number) and attack it. (e.g. "You claimed to want scale, yet you have **zero email automation**. You are voluntarily donating margin to your competitors.")
     3. **The Verdict**: A final, high-stakes warning. (e.g. "** Momentum is low.** Fix the funnel or continue to bleed ad spend.")
+    Your tone must be consistent with the Computed Scores above.
 
     **STEP 4: OUTPUT JSON**
     {
       "businessContext": "1 concise sentence defining the business model.",
       "executiveSummary": "The 3 paragraphs defined above.",
-      "momentumScore": [Integer 0-100. If quiz has many NOs, score must be < 50.],
       "technicalSignals": [
          // If PSI passed, do NOT repeat Speed/SEO.
          // If PSI failed, infer signals like "Search Presence: Strong" or "Tech Stack: Unknown".
          { "label": "Domain Authority", "value": "High/Low", "status": "good/warning/critical" }
       ],
       "categories": [
-        // Generate 6 objects: Strategy, Visuals, Growth, Content, Operations, SEO.
-        // { "title": "Strategy", "score": 45, "diagnostic": "Specific problem...", "evidence": ["..."], "strategy": "Actionable fix..." }
+        // Generate ${pack.categories.length} objects: ${pack.categories.join(', ')}.
+        // Scores are already computed. Do NOT include a score field.
+        // { "title": "Strategy", "diagnostic": "Specific problem...", "evidence": ["..."], "strategy": "Actionable fix..." }
       ],
       "perceptionGap": {
         "detected": [Boolean],
         "verdict": "Short Verdict (e.g. 'Delusion Detected')",
-        "details": "Explanation of why their self-perception matches or fails reality."
+        "details": "Explanation of why their self-perception matches or fails reality.${benchmark ? ' Judge their claim about looking more professional than competitors against the Competitor Benchmark, naming the rival that beats them.' : ''}"
       }
     }
   `;
 
-  const getFallbackResult = (): AuditResult => ({
-    momentumScore: 50,
-    businessContext: "Analysis Inconclusive",
-    executiveSummary: "We could not complete the automated scan. Manual review required.",
+  // '$' in defaultedFields marks the whole narrative as defaulted
+  const getFallbackResult = (attempts = 0): AuditResult => ({
+    momentumScore: scoreCard.momentumScore,
+    businessContext: t('report.fallbackContext'),
+    executiveSummary: t('report.fallbackSummary'),
     technicalSignals: signals,
-    categories: [],
+    categories: mergeCategoryProse(scoreCard, [], crawlEvidence),
     perceptionGap: { detected: false, verdict: "N/A", details: "" },
-    groundingUrls: []
+    groundingUrls: [],
+    scoring: scoreCard,
+    crawl,
+    pageSpeed: { mobile: psiData.mobile, desktop: psiData.desktop },
+    benchmark,
+    locale,
+    tenantId: tenant.id,
+    validation: { attempts, defaultedFields: ['$'] },
+    modelProvider: provider?.id,
+    cache: { crawl: crawlCache, ai: aiCache, crawledAt }
   });
 
-  if (!ai) return getFallbackResult();
+  await options.onStage?.('analyzing');
+  if (!provider) return getFallbackResult();
 
-  for (let attempt = 1; attempt <= 2; attempt++) {
-    try {
-      console.log(`AI Gen Attempt ${attempt}...`);
-      const result = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: {
-          tools: [{ googleSearch: {} }],
-          temperature: 0.4 // Slightly higher creativity for "Zouhall" tone
-        }
-      });
-      
-      const text = result.text || "{}";
-      const parsed = cleanAndParseJSON(text);
-      
-      // Merge Signals
-      let finalSignals = [...signals];
-      if (parsed.technicalSignals && Array.isArray(parsed.technicalSignals)) {
-          parsed.technicalSignals.forEach((s: any) => {
-              if (!finalSignals.some(fs => fs.label === s.label)) {
-                  finalSignals.push(s);
-              }
-          });
-      }
-
-      return {
-        momentumScore: parsed.momentumScore || 50,
-        businessContext: parsed.businessContext || `Analysis of ${brand.name}`,
-        executiveSummary: parsed.executiveSummary || "Audit Complete.",
-        technicalSignals: finalSignals,
-        categories: parsed.categories || [],
-        perceptionGap: parsed.perceptionGap || { detected: false, verdict: "None", details: "" },
-        groundingUrls: result.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((c:any) => c.web?.uri) || []
-      };
+  // 6. MODEL NARRATIVE (cached per domain, quiz answers and crawl snapshot)
+  const aiKey = cache && cache.aiTtlSeconds > 0
+    ? await aiCacheKey(brand, responses, scoreCard.version, provider.id, locale, tenant.id, [crawledAt, ...rivals.map(r => r.scan.fetchedAt)])
+    : null;
+  let narrative = aiKey ? await cache!.store.get<ModelNarrative>(aiKey) : null;
 
-    } catch (e) {
-      console.error(`AI Attempt ${attempt} error:`, e);
-      if (attempt === 2) break;
-      await delay(1000);
+  if (narrative) {
+    aiCache = 'hit';
+  } else {
+    narrative = await generateNarrative(provider, prompt, pack.categories);
+    if (aiKey) {
+      aiCache = 'miss';
+      // Only complete responses are worth replaying
+      if (narrative.validation?.isComplete) await cache!.store.set(aiKey, narrative, cache!.aiTtlSeconds);
     }
   }
 
-  return getFallbackResult();
-};
\ No newline at end of file
+  const { validation: best, groundingUrls, attempts } = narrative;
+  if (!best) return getFallbackResult(attempts);
+
+  const parsed = best.value;
+
+  // Merge Signals (measured signals win over model-inferred ones)
+  const finalSignals = [...signals];
+  parsed.technicalSignals.forEach(s => {
+    if (!finalSignals.some(fs => fs.label === s.label)) {
+      finalSignals.push(s);
+    }
+  });
+
+  return {
+    momentumScore: scoreCard.momentumScore,
+    businessContext: parsed.businessContext,
+    executiveSummary: parsed.executiveSummary,
+    technicalSignals: finalSignals,
+    categories: mergeCategoryProse(scoreCard, parsed.categories, crawlEvidence),
+    perceptionGap: parsed.perceptionGap,
+    groundingUrls,
+    scoring: scoreCard,
+    crawl,
+    pageSpeed: { mobile: psiData.mobile, desktop: psiData.desktop },
+    benchmark,
+    locale,
+    tenantId: tenant.id,
+    validation: { attempts, defaultedFields: best.defaultedFields },
+    modelProvider: provider.id,
+    cache: { crawl: crawlCache, ai: aiCache, crawledAt }
+  };
+};
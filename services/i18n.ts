@@ -0,0 +1,84 @@
+import { Locale, Question, QuestionCategory } from "../types";
+import { en, LocaleDictionary, MessageKey } from "../locales/en";
+import { fr } from "../locales/fr";
+import { ar } from "../locales/ar";
+
+/**
+ * Locale layer shared by the React app (through LocaleProvider) and the
+ * server (email, prompt, fallback report). Stored values stay English:
+ * question ids, categories, lead-form options and signal labels are only
+ * translated at display time.
+ */
+
+export type { MessageKey };
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const DICTIONARIES: Record<Locale, LocaleDictionary> = { en, fr, ar };
+
+export const LOCALES = Object.keys(DICTIONARIES) as Locale[];
+
+// Native names for the language switcher, English names for the prompt
+export const LOCALE_NAMES: Record<Locale, { native: string; english: string }> = {
+  en: { native: 'English', english: 'English' },
+  fr: { native: 'Français', english: 'French' },
+  ar: { native: 'العربية', english: 'Arabic' },
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && LOCALES.includes(value as Locale);
+
+export const getDirection = (locale: Locale): 'ltr' | 'rtl' => locale === 'ar' ? 'rtl' : 'ltr';
+
+/**
+ * First supported language in a list of tags like "fr-CA" or "ar", else English.
+ */
+export const matchLocale = (tags: readonly (string | null | undefined)[]): Locale => {
+  for (const tag of tags) {
+    const base = tag?.toLowerCase().split(/[-_]/)[0];
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+};
+
+export type MessageVars = Record<string, string | number>;
+
+export interface Translator {
+  locale: Locale;
+  dir: 'ltr' | 'rtl';
+  t: (key: MessageKey, vars?: MessageVars) => string;
+  category: (category: QuestionCategory | string) => string;
+  term: (text: string) => string;
+  option: (value: string) => string;
+  question: (question: Question) => Question;
+  facts: string[];
+}
+
+// "{name}" placeholders; unknown names are left as-is so a typo stays visible
+const interpolate = (template: string, vars?: MessageVars) =>
+  vars ? template.replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match) : template;
+
+export const createTranslator = (locale: Locale = DEFAULT_LOCALE): Translator => {
+  const dictionary = DICTIONARIES[locale] || en;
+
+  return {
+    locale,
+    dir: getDirection(locale),
+    t: (key, vars) => interpolate(dictionary.messages[key] ?? en.messages[key], vars),
+    category: category => dictionary.categories[category as QuestionCategory] ?? category,
+    term: text => dictionary.terms[text] ?? text,
+    option: value => dictionary.options[value] ?? value,
+    // Same id, type and scoring; only the wording changes
+    question: question => {
+      const copy = dictionary.questions[question.id];
+      if (!copy) return question;
+      return {
+        ...question,
+        text: copy.text,
+        scaleLabels: copy.scaleLabels ?? question.scaleLabels,
+        options: question.options?.map(o => ({ ...o, label: copy.options?.[o.value] ?? o.label })),
+      };
+    },
+    facts: dictionary.facts,
+  };
+};
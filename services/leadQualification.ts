@@ -0,0 +1,85 @@
+import { AuditResult, LeadInfo, LeadQualification, LeadTier } from "../types";
+import { LEAD_COMPANY_SIZES, LEAD_POSITIONS, LEAD_REVENUE_RANGES } from "../constants";
+import { clampScore } from "./scoringEngine";
+
+/**
+ * Lead score (0-100) and tier from the lead form and the audit.
+ * Fit (revenue, size, role) says whether we can help profitably; need (a low
+ * Brand Score, several weak areas) says whether they need help now.
+ * Bump QUALIFICATION_VERSION whenever a table or threshold below changes.
+ */
+export const QUALIFICATION_VERSION = "1.0.0";
+
+// Fit: 75 points
+const REVENUE_POINTS: Record<(typeof LEAD_REVENUE_RANGES)[number], number> = {
+  "Pre-Revenue": 0,
+  "$0 - $100k": 5,
+  "$100k - $500k": 15,
+  "$500k - $1M": 25,
+  "$1M - $5M": 32,
+  "$5M - $10M": 35,
+  "$10M+": 35,
+  "Prefer not to say": 10,
+};
+
+const COMPANY_SIZE_POINTS: Record<(typeof LEAD_COMPANY_SIZES)[number], number> = {
+  "1-5 Employees": 4,
+  "6-20 Employees": 10,
+  "21-50 Employees": 16,
+  "51-200 Employees": 20,
+  "200+ Employees": 20,
+  "Prefer not to say": 6,
+};
+
+// Decision makers first
+const POSITION_POINTS: Record<(typeof LEAD_POSITIONS)[number], number> = {
+  "Owner / Founder": 20,
+  "CEO / President": 20,
+  "CMO / Marketing Director": 18,
+  "Sales Director": 12,
+  "Product Manager": 10,
+  "Other": 5,
+};
+
+// Need: 25 points
+const MAX_SCORE_NEED = 15; // Scaled by how far the Brand Score is from 100
+const WEAK_CATEGORY_THRESHOLD = 50;
+const POINTS_PER_WEAK_CATEGORY = 4;
+const MAX_WEAK_CATEGORY_NEED = 10;
+
+// Minimum score per tier, highest first
+const TIER_THRESHOLDS: [LeadTier, number][] = [
+  ['hot', 65],
+  ['warm', 40],
+];
+
+// Values outside the form's options count as "Prefer not to say"; only own
+// keys, so "constructor" and friends don't reach the prototype
+const pointsFor = <K extends string>(table: Record<K, number>, value: string, fallback: K) =>
+  Object.prototype.hasOwnProperty.call(table, value) ? table[value as K] : table[fallback];
+
+export const qualifyLead = (lead: LeadInfo, result: AuditResult): LeadQualification => {
+  // 1. Fit from the lead form
+  const revenue = pointsFor(REVENUE_POINTS, lead.revenue, "Prefer not to say");
+  const companySize = pointsFor(COMPANY_SIZE_POINTS, lead.companySize, "Prefer not to say");
+  const position = pointsFor(POSITION_POINTS, lead.position, "Other");
+
+  // 2. Need from the audit
+  const momentum = Math.min(100, Math.max(0, result.momentumScore));
+  const weakCategories = result.categories.filter(c => c.score < WEAK_CATEGORY_THRESHOLD).length;
+  const need = Math.round(
+    ((100 - momentum) / 100) * MAX_SCORE_NEED
+    + Math.min(MAX_WEAK_CATEGORY_NEED, weakCategories * POINTS_PER_WEAK_CATEGORY)
+  );
+
+  // 3. Tier
+  const score = clampScore(revenue + companySize + position + need);
+  const tier = TIER_THRESHOLDS.find(([, min]) => score >= min)?.[0] ?? 'nurture';
+
+  return {
+    version: QUALIFICATION_VERSION,
+    score,
+    tier,
+    factors: { revenue, companySize, position, need }
+  };
+};
@@ -0,0 +1,271 @@
+import { CoreWebVitals, PsiOpportunity, PsiResult, PsiStrategy, PsiStrategyReport, TechnicalSignal } from "../types";
+import { normalizeUrl } from "./utils";
+
+// STAGE 1: ROBUST KEY SANITIZATION
+// Removes quotes, spaces, newlines, and common copy-paste artifacts
+const RAW_KEY = process.env.PSI_API_KEY || process.env.VITE_PSI_API_KEY || "";
+const PSI_API_KEY = RAW_KEY.replace(/["';\s\n\r]/g, "").trim();
+
+const PSI_CATEGORIES = ['performance', 'seo', 'accessibility', 'best-practices'];
+const MAX_OPPORTUNITIES = 5;
+
+// --- UTILITIES ---
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const toScore = (category: any): number =>
+  typeof category?.score === 'number' ? Math.round(category.score * 100) : -1;
+
+const toNumber = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+// --- API FETCHERS ---
+
+/**
+ * Robust PSI Fetcher for a single strategy.
+ * - Uses explicit string concatenation for API KEY to avoid any Header/Param confusion.
+ * - Retries logic included.
+ * Returns the raw API payload, or throws "PSI Data Unavailable".
+ */
+async function fetchStrategyData(url: string, strategy: PsiStrategy): Promise<any> {
+  const performFetch = async (useKey: boolean): Promise<any> => {
+    // 1. Prepare Base Params using URLSearchParams for safe encoding of the URL
+    const params = new URLSearchParams();
+    params.append('url', url);
+    params.append('strategy', strategy);
+    PSI_CATEGORIES.forEach(category => params.append('category', category));
+
+    // 2. Construct the Base URL String
+    let fetchUrl = `https://www.googleapis.com/pagespeedonline/v5/runPagespeed?${params.toString()}`;
+
+    // 3. Append Key manually if required (Explicit Query Param)
+    if (useKey) {
+      if (!PSI_API_KEY) throw new Error("MISSING_KEY");
+      fetchUrl += `&key=${PSI_API_KEY}`;
+    }
+
+    const controller = new AbortController();
+    // 60s timeout for slow PSI scans
+    const timeoutId = setTimeout(() => controller.abort(), 60000);
+
+    try {
+      const response = await fetch(fetchUrl, { signal: controller.signal });
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        let errorDetails = response.statusText;
+        try {
+          const errJson = await response.json();
+          errorDetails = errJson.error?.message || response.statusText;
+          console.warn(`[PSI API ERROR] ${response.status}: ${errorDetails}`);
+        } catch (e) { /* ignore */ }
+
+        return { error: true, status: response.status, text: errorDetails };
+      }
+      return await response.json();
+    } catch (e: any) {
+      clearTimeout(timeoutId);
+      throw e;
+    }
+  };
+
+  let data;
+  let attempt1 = null;
+
+  // Attempt 1: With API Key
+  try {
+    attempt1 = await performFetch(true);
+  } catch (e: any) {
+    // If Timeout (AbortError), try ONE more time with KEY before giving up
+    if (e.name === 'AbortError') {
+      console.warn(`PSI Request (${strategy}) Timed Out (60s). Retrying once with key...`);
+      try {
+         attempt1 = await performFetch(true);
+      } catch(e2) {
+         console.warn("PSI Retry also failed:", e2);
+      }
+    } else if (e.message !== "MISSING_KEY") {
+      console.warn("PSI Network Error:", e);
+    }
+  }
+
+  if (attempt1 && !attempt1.error) {
+    data = attempt1;
+  } else {
+    // Fallback Logic
+    const status = attempt1?.status || 0;
+    let shouldRetryAnonymous = true;
+    let waitTime = 1000;
+
+    // If we timed out (status 0), anonymous is likely to fail too, so we skip to fallback to save time.
+    if (!attempt1 && !data) {
+       console.warn("PSI connection failed. Skipping anonymous retry to prevent 429.");
+       shouldRetryAnonymous = false;
+    }
+
+    if (status === 403) {
+       console.error("CRITICAL: Google Cloud API Key rejected. Ensure 'PageSpeed Insights API' is ENABLED.");
+       waitTime = 500;
+    } else if (status === 429) {
+       console.warn("QUOTA EXCEEDED (429). Waiting 5s before anonymous retry...");
+       waitTime = 5000;
+    }
+
+    if (shouldRetryAnonymous) {
+       await delay(waitTime);
+       const attempt2 = await performFetch(false);
+       if (attempt2 && !attempt2.error) {
+         data = attempt2;
+       } else {
+         console.warn(`PSI Anonymous Failed: ${attempt2?.status || 'Unknown'}`);
+       }
+    }
+  }
+
+  // FINAL CHECK: Do we have data?
+  if (!data || !data.lighthouseResult) {
+     throw new Error("PSI Data Unavailable");
+  }
+  return data;
+}
+
+// --- PARSERS ---
+
+/**
+ * Numeric Core Web Vitals. Lab values from Lighthouse, except INP which only
+ * exists as field data (CrUX) and is null for low-traffic sites.
+ */
+function parseMetrics(data: any): CoreWebVitals {
+  const audits = data.lighthouseResult?.audits || {};
+  const field = data.loadingExperience?.metrics || {};
+  return {
+    lcpMs: toNumber(audits['largest-contentful-paint']?.numericValue),
+    cls: toNumber(audits['cumulative-layout-shift']?.numericValue),
+    tbtMs: toNumber(audits['total-blocking-time']?.numericValue),
+    inpMs: toNumber(field.INTERACTION_TO_NEXT_PAINT?.percentile),
+    ttfbMs: toNumber(audits['server-response-time']?.numericValue)
+      ?? toNumber(field.EXPERIMENTAL_TIME_TO_FIRST_BYTE?.percentile),
+    fcpMs: toNumber(audits['first-contentful-paint']?.numericValue),
+  };
+}
+
+/**
+ * Lighthouse "opportunity" audits with estimated savings, largest first.
+ */
+function parseOpportunities(data: any): PsiOpportunity[] {
+  const audits: Record<string, any> = data.lighthouseResult?.audits || {};
+  return Object.entries(audits)
+    .filter(([, audit]) => audit?.details?.type === 'opportunity' && (audit.details.overallSavingsMs || 0) > 0)
+    .map(([id, audit]) => ({
+      id,
+      title: audit.title,
+      savingsMs: Math.round(audit.details.overallSavingsMs),
+      savingsBytes: toNumber(audit.details.overallSavingsBytes),
+    }))
+    .sort((a, b) => b.savingsMs - a.savingsMs)
+    .slice(0, MAX_OPPORTUNITIES);
+}
+
+function parseStrategyReport(data: any, strategy: PsiStrategy): PsiStrategyReport {
+  const categories = data.lighthouseResult.categories || {};
+  return {
+    strategy,
+    perfScore: toScore(categories.performance),
+    seoScore: toScore(categories.seo),
+    accessibilityScore: toScore(categories.accessibility),
+    bestPracticesScore: toScore(categories['best-practices']),
+    metrics: parseMetrics(data),
+    opportunities: parseOpportunities(data),
+  };
+}
+
+const fetchStrategyReport = async (url: string, strategy: PsiStrategy): Promise<{ report: PsiStrategyReport; raw: any } | null> => {
+  try {
+    const raw = await fetchStrategyData(url, strategy);
+    return { report: parseStrategyReport(raw, strategy), raw };
+  } catch (error: any) {
+    console.warn(`PSI ${strategy} scan failed:`, error.message);
+    return null;
+  }
+};
+
+// --- MAIN ---
+
+/**
+ * Runs mobile and desktop scans in parallel. The flat fields (perfScore,
+ * seoScore, webVitals) mirror the mobile run, falling back to desktop.
+ */
+export async function fetchPageSpeedData(rawUrl: string): Promise<PsiResult> {
+  const url = normalizeUrl(rawUrl);
+  const [mobile, desktop] = await Promise.all([
+    fetchStrategyReport(url, 'mobile'),
+    fetchStrategyReport(url, 'desktop')
+  ]);
+
+  const primary = mobile || desktop;
+  if (!primary) {
+    console.warn("PSI Scan aborted. Switching to AI Estimation Mode.");
+    return {
+      success: false,
+      perfScore: -1,
+      seoScore: -1,
+      webVitals: { lcp: '?', cls: '?', fcp: '?' },
+      techStack: [],
+      bugs: [],
+      mobile: null,
+      desktop: null,
+      error: "PSI Data Unavailable",
+      isFallback: true
+    };
+  }
+
+  const lighthouse = primary.raw.lighthouseResult;
+  return {
+    success: true,
+    perfScore: primary.report.perfScore,
+    seoScore: primary.report.seoScore,
+    webVitals: {
+      lcp: lighthouse.audits?.['largest-contentful-paint']?.displayValue || 'N/A',
+      cls: lighthouse.audits?.['cumulative-layout-shift']?.displayValue || 'N/A',
+      fcp: lighthouse.audits?.['first-contentful-paint']?.displayValue || 'N/A',
+    },
+    techStack: (lighthouse.stackPacks || []).map((p: any) => p.title),
+    bugs: [],
+    mobile: mobile?.report || null,
+    desktop: desktop?.report || null
+  };
+}
+
+// --- INTERPRETATION ---
+
+/**
+ * Dashboard signals for a scan. A single warning signal when PSI failed.
+ */
+export function psiToSignals(psi: PsiResult): TechnicalSignal[] {
+  if (!psi.success) {
+    // Graceful Signal if scan failed
+    return [{ label: "Site Scan", value: "Visual Analysis Only", status: "warning" }];
+  }
+
+  const signals: TechnicalSignal[] = [{
+    label: "Mobile Speed",
+    value: `${psi.perfScore}/100`,
+    status: psi.perfScore >= 90 ? 'good' : psi.perfScore >= 50 ? 'warning' : 'critical'
+  }];
+  if (psi.desktop) {
+    signals.push({
+      label: "Desktop Speed",
+      value: `${psi.desktop.perfScore}/100`,
+      status: psi.desktop.perfScore >= 90 ? 'good' : psi.desktop.perfScore >= 50 ? 'warning' : 'critical'
+    });
+  }
+  signals.push({
+    label: "SEO Score",
+    value: `${psi.seoScore}/100`,
+    status: psi.seoScore >= 90 ? 'good' : psi.seoScore >= 70 ? 'warning' : 'critical'
+  });
+  if (psi.techStack.length > 0) {
+    signals.push({ label: "Tech Stack", value: psi.techStack.join(', '), status: 'good' });
+  }
+  return signals;
+}
@@ -0,0 +1,19 @@
+import { AuditModelProvider } from "./types";
+import defaultFixture from "./fixtures/auditResponse.json";
+
+/**
+ * Offline provider that always answers with the same fixture.
+ * Used for local development, demos and anywhere a deterministic
+ * response matters more than a real analysis.
+ */
+export const createFixtureProvider = (fixture: unknown = defaultFixture): AuditModelProvider => {
+  const text = JSON.stringify(fixture, null, 2);
+
+  return {
+    id: 'fixture',
+    generate: async () => ({
+      text,
+      groundingUrls: ['https://example.com/']
+    })
+  };
+};
@@ -0,0 +1,29 @@
+import { GoogleGenAI } from "@google/genai";
+import { AuditModelProvider } from "./types";
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export const createGeminiProvider = (apiKey: string, model: string = DEFAULT_GEMINI_MODEL): AuditModelProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: `gemini:${model}`,
+    generate: async ({ prompt, temperature, useSearch }) => {
+      const result = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          tools: useSearch ? [{ googleSearch: {} }] : undefined,
+          temperature
+        }
+      });
+
+      return {
+        text: result.text || "",
+        groundingUrls: result.candidates?.[0]?.groundingMetadata?.groundingChunks
+          ?.map((c: any) => c.web?.uri)
+          .filter(Boolean) || []
+      };
+    }
+  };
+};
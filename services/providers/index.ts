@@ -0,0 +1,45 @@
+import { AuditModelProvider } from "./types";
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createFixtureProvider } from "./fixtureProvider";
+
+export type { AuditModelProvider, ModelRequest, ModelResponse } from "./types";
+export { createGeminiProvider, createOpenAiCompatibleProvider, createFixtureProvider };
+
+/**
+ * Picks the model provider from the environment.
+ * AI_PROVIDER = "gemini" (default) | "openai" | "fixture"
+ * Returns null when the selected provider is not configured, in which case
+ * the audit falls back to the score-only report.
+ */
+export const resolveAuditModelProvider = (): AuditModelProvider | null => {
+  const providerName = (process.env.AI_PROVIDER || 'gemini').trim().toLowerCase();
+  const model = process.env.AI_MODEL?.trim() || undefined;
+
+  switch (providerName) {
+    case 'fixture':
+      return createFixtureProvider();
+
+    case 'openai': {
+      const baseUrl = process.env.OPENAI_BASE_URL?.trim();
+      if (!baseUrl || !model) {
+        console.warn("AI_PROVIDER=openai requires OPENAI_BASE_URL and AI_MODEL.");
+        return null;
+      }
+      return createOpenAiCompatibleProvider({
+        baseUrl,
+        model,
+        apiKey: process.env.OPENAI_API_KEY?.trim() || undefined
+      });
+    }
+
+    case 'gemini': {
+      const apiKey = process.env.API_KEY;
+      return apiKey ? createGeminiProvider(apiKey, model || DEFAULT_GEMINI_MODEL) : null;
+    }
+
+    default:
+      console.warn(`Unknown AI_PROVIDER "${providerName}".`);
+      return null;
+  }
+};
@@ -0,0 +1,59 @@
+import { AuditModelProvider } from "./types";
+
+interface OpenAiCompatibleOptions {
+  baseUrl: string; // e.g. "http://localhost:11434/v1" or "https://api.openai.com/v1"
+  model: string;
+  apiKey?: string; // Local servers usually don't need one
+  timeoutMs?: number;
+}
+
+/**
+ * Adapter for any server exposing the OpenAI Chat Completions API
+ * (OpenAI, Ollama, LM Studio, vLLM, llama.cpp server...).
+ * Web search is not part of that API, so `useSearch` is ignored.
+ */
+export const createOpenAiCompatibleProvider = ({
+  baseUrl,
+  model,
+  apiKey,
+  timeoutMs = 120000
+}: OpenAiCompatibleOptions): AuditModelProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    id: `openai-compatible:${model}`,
+    generate: async ({ prompt, temperature }) => {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+      try {
+        const response = await fetch(endpoint, {
+          method: 'POST',
+          signal: controller.signal,
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+          },
+          body: JSON.stringify({
+            model,
+            temperature,
+            messages: [{ role: 'user', content: prompt }]
+          })
+        });
+
+        if (!response.ok) {
+          const details = await response.text().catch(() => response.statusText);
+          throw new Error(`Model server responded ${response.status}: ${details.slice(0, 200)}`);
+        }
+
+        const data = await response.json();
+        return {
+          text: data.choices?.[0]?.message?.content || "",
+          groundingUrls: []
+        };
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    }
+  };
+};
@@ -0,0 +1,22 @@
+/**
+ * Contract between the audit prompt logic and whichever model runs it.
+ * Adapters only move text in and out; prompt building, parsing and
+ * validation stay in geminiService.ts.
+ */
+
+export interface ModelRequest {
+  prompt: string;
+  temperature?: number;
+  // Ask the provider to ground the answer with web search when it supports it
+  useSearch?: boolean;
+}
+
+export interface ModelResponse {
+  text: string;
+  groundingUrls: string[];
+}
+
+export interface AuditModelProvider {
+  id: string; // e.g. "gemini:gemini-2.5-flash", stored with each result
+  generate: (request: ModelRequest) => Promise<ModelResponse>;
+}
@@ -0,0 +1,107 @@
+import { lookup } from 'node:dns/promises';
+import { isIP, LookupFunction } from 'node:net';
+
+/**
+ * Guard for URLs the server fetches on a visitor's behalf (crawler, business
+ * classifier). Only http(s) to public hosts: no credentials, no internal
+ * names, and no address in a private, loopback, link-local or metadata range,
+ * checked again on every redirect hop. Server-only (uses node:dns).
+ * Fetches connect through `publicLookup`, so the address checked is the one
+ * connected to: a name can't resolve publicly for the check and privately
+ * for the connection (DNS rebinding).
+ */
+
+const BLOCKED_HOSTNAMES = /(^|\.)(localhost|local|internal|localdomain|home\.arpa)$/i;
+
+// IPv4 ranges that must never be fetched: [first octets, prefix length]
+const BLOCKED_V4: [string, number][] = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, cloud metadata (169.254.169.254)
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved, broadcast
+];
+
+const v4ToInt = (ip: string) => ip.split('.').reduce((acc, part) => (acc << 8) + Number(part), 0) >>> 0;
+
+const isBlockedV4 = (ip: string): boolean =>
+  BLOCKED_V4.some(([base, bits]) => {
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    return (v4ToInt(ip) & mask) === (v4ToInt(base) & mask);
+  });
+
+const isBlockedV6 = (ip: string): boolean => {
+  const address = ip.toLowerCase().replace(/^\[|\]$/g, '');
+  // IPv4-mapped / -compatible (::ffff:10.0.0.1, ::10.0.0.1)
+  const embedded = address.match(/(?:^|:)(\d+\.\d+\.\d+\.\d+)$/)?.[1];
+  if (embedded) return isBlockedV4(embedded);
+  // Same in hex, as the URL parser writes it (::ffff:a00:1)
+  const mapped = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    return isBlockedV4([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+  if (address === '::' || address === '::1') return true; // Unspecified, loopback
+  const first = parseInt(address.split(':')[0] || '0', 16);
+  return (first & 0xfe00) === 0xfc00 // Unique local fc00::/7
+    || (first & 0xffc0) === 0xfe80 // Link-local fe80::/10
+    || (first & 0xff00) === 0xff00; // Multicast
+};
+
+/**
+ * True for addresses the server must not connect to.
+ */
+export const isBlockedAddress = (ip: string): boolean => {
+  const version = isIP(ip.replace(/^\[|\]$/g, ''));
+  if (version === 4) return isBlockedV4(ip);
+  if (version === 6) return isBlockedV6(ip);
+  return true;
+};
+
+/**
+ * Parses a URL and checks everything that can be checked without DNS.
+ * Returns null for anything that isn't an http(s) URL to a public-looking host.
+ */
+export const parsePublicHttpUrl = (raw: string): URL | null => {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch (e) {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+  if (url.username || url.password) return null;
+  if (url.port && url.port !== '80' && url.port !== '443') return null;
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname)) return isBlockedAddress(hostname) ? null : url;
+  // Public names have a dot and a non-numeric TLD
+  if (!hostname.includes('.') || /\.\d+$/.test(hostname) || BLOCKED_HOSTNAMES.test(hostname)) return null;
+  return url;
+};
+
+/**
+ * dns.lookup for outgoing connections (net/tls `lookup` option): resolves the
+ * host and fails with EBLOCKEDADDRESS unless every address is public.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true, verbatim: true })
+    .then(addresses => {
+      const blocked = addresses.find(a => isBlockedAddress(a.address));
+      if (!addresses.length || blocked) {
+        const error: NodeJS.ErrnoException = new Error(`Refusing to connect to ${hostname} (${blocked?.address || 'no address'})`);
+        error.code = 'EBLOCKEDADDRESS';
+        callback(error, '', 0);
+        return;
+      }
+      if (options.all) callback(null, addresses);
+      else callback(null, addresses[0].address, addresses[0].family);
+    })
+    .catch(error => callback(error, '', 0));
+};
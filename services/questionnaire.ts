@@ -0,0 +1,165 @@
+import { BusinessModel, Question, QuestionPack, Questionnaire, TenantConfig, UserResponse } from "../types";
+import { CORE_QUESTIONNAIRE, QUESTION_PACKS } from "../constants";
+
+/**
+ * Questionnaire engine.
+ * Every consumer (quiz UI, scoring, prompt, CRM payload, request validation)
+ * goes through these helpers so an answer means the same thing everywhere.
+ */
+
+export const SCALE_MIN = 1;
+export const SCALE_MAX = 5;
+
+export const questionnaireRef = (questionnaire: Questionnaire) => `${questionnaire.id}@${questionnaire.version}`;
+
+export const getQuestion = (questionId: number, questionnaire: Questionnaire = CORE_QUESTIONNAIRE): Question | undefined =>
+  questionnaire.questions.find(q => q.id === questionId);
+
+export const BUSINESS_MODELS = Object.keys(QUESTION_PACKS) as BusinessModel[];
+
+export const isBusinessModel = (value: unknown): value is BusinessModel =>
+  typeof value === 'string' && BUSINESS_MODELS.includes(value as BusinessModel);
+
+/**
+ * The pack for a business model. Unknown or missing models get 'general'.
+ * A tenant's own question set replaces the default pack for that model.
+ */
+export const getQuestionPack = (model?: string | null, tenant?: TenantConfig): QuestionPack => {
+  const id: BusinessModel = isBusinessModel(model) ? model : 'general';
+  return tenant?.questionPacks?.[id] || QUESTION_PACKS[id];
+};
+
+// --- BRANCHING ---
+
+/**
+ * True when the question's condition is met by the answers given so far.
+ * Questions without `showIf` are always asked.
+ */
+export function isQuestionVisible(question: Question, responses: UserResponse[]): boolean {
+  if (!question.showIf) return true;
+  const { questionId, in: allowed } = question.showIf;
+  const answer = responses.find(r => r.questionId === questionId);
+  return !!answer && allowed.includes(answer.answer);
+}
+
+/**
+ * Questions that apply given the answers so far, in order.
+ */
+export function getVisibleQuestions(questionnaire: Questionnaire, responses: UserResponse[]): Question[] {
+  return questionnaire.questions.filter(q => isQuestionVisible(q, responses));
+}
+
+/**
+ * The next unanswered question, or null when the quiz is complete.
+ */
+export function getNextQuestion(questionnaire: Questionnaire, responses: UserResponse[]): Question | null {
+  return getVisibleQuestions(questionnaire, responses)
+    .find(q => !responses.some(r => r.questionId === q.id)) || null;
+}
+
+// --- ANSWERS ---
+
+export function isValidAnswer(question: Question, answer: number): boolean {
+  if (!Number.isFinite(answer)) return false;
+  switch (question.type) {
+    case 'boolean':
+      return answer === 0 || answer === 1;
+    case 'scale':
+      return Number.isInteger(answer) && answer >= SCALE_MIN && answer <= SCALE_MAX;
+    case 'choice':
+      return !!question.options?.some(o => o.value === answer);
+    case 'numeric':
+      return !question.range || (answer >= question.range.min && answer <= question.range.max);
+  }
+}
+
+/**
+ * Keeps answers to known, visible questions only (in questionnaire order).
+ * Answers to questions hidden by branching are dropped, so a changed gate
+ * answer can't leave stale follow-ups behind.
+ */
+export function sanitizeResponses(questionnaire: Questionnaire, responses: UserResponse[]): UserResponse[] {
+  const kept: UserResponse[] = [];
+  questionnaire.questions.forEach(q => {
+    const response = responses.find(r => r.questionId === q.id);
+    if (response && isValidAnswer(q, response.answer) && isQuestionVisible(q, kept)) {
+      kept.push({ questionId: q.id, answer: response.answer });
+    }
+  });
+  return kept;
+}
+
+/**
+ * Maps an answer onto 0..1 for scoring.
+ * Boolean: 0 = No, 1 = Yes. Scale: 1-5 mapped linearly. Choice: the option's
+ * score. Numeric: linear between `zeroAt` and `fullAt`, clamped.
+ */
+export function normalizeAnswer(question: Question, answer: number): number {
+  const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+  switch (question.type) {
+    case 'scale':
+      return clamp01((answer - SCALE_MIN) / (SCALE_MAX - SCALE_MIN));
+    case 'choice':
+      return question.options?.find(o => o.value === answer)?.score ?? 0;
+    case 'numeric': {
+      if (!question.range || question.range.fullAt === question.range.zeroAt) return 0;
+      const { zeroAt, fullAt } = question.range;
+      return clamp01((answer - zeroAt) / (fullAt - zeroAt));
+    }
+    default:
+      return answer === 1 ? 1 : 0;
+  }
+}
+
+/**
+ * Human-readable answer, e.g. "Yes", "4/5 (Gut Feeling = 1, Every Decision = 5)",
+ * "A few times a month", "12%".
+ */
+export function formatAnswer(question: Question, answer: number): string {
+  switch (question.type) {
+    case 'boolean':
+      return answer === 1 ? "Yes" : "No";
+    case 'scale': {
+      const [low, high] = question.scaleLabels || ['Poor', 'Exceptional'];
+      return `${answer}/${SCALE_MAX} (${low} = ${SCALE_MIN}, ${high} = ${SCALE_MAX})`;
+    }
+    case 'choice':
+      return question.options?.find(o => o.value === answer)?.label ?? String(answer);
+    case 'numeric':
+      return `${answer}${question.range?.unit || ''}`;
+  }
+}
+
+export interface FormattedResponse {
+  questionId: number;
+  category: string;
+  question: string;
+  answer: string;
+  normalized: number; // 0-1, as used by the scoring engine
+}
+
+/**
+ * Answers with their question text, in questionnaire order.
+ * Answers to unknown question ids are kept with a placeholder label.
+ */
+export function formatResponses(
+  responses: UserResponse[],
+  questionnaire: Questionnaire = CORE_QUESTIONNAIRE
+): FormattedResponse[] {
+  const order = (id: number) => {
+    const index = questionnaire.questions.findIndex(q => q.id === id);
+    return index === -1 ? Number.MAX_SAFE_INTEGER : index;
+  };
+  return [...responses]
+    .sort((a, b) => order(a.questionId) - order(b.questionId))
+    .map(r => {
+      const q = getQuestion(r.questionId, questionnaire);
+      return {
+        questionId: r.questionId,
+        category: q?.category || "Unknown",
+        question: q?.text || `Question ${r.questionId}`,
+        answer: q ? formatAnswer(q, r.answer) : String(r.answer),
+        normalized: q ? normalizeAnswer(q, r.answer) : 0
+      };
+    });
+}
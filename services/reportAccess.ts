@@ -0,0 +1,44 @@
+import { TenantConfig } from '../types';
+import { tenantAppUrl } from './tenants';
+
+/**
+ * Owner session tokens per audit, kept in localStorage so a returning owner
+ * is not asked for a new emailed code every visit. A token starts with its
+ * expiry (unix seconds), see server/ownerAuth.ts.
+ */
+
+const storageKey = (auditId: string) => `brandscore:owner:${auditId}`;
+
+export const loadOwnerToken = (auditId: string): string | null => {
+  try {
+    const token = localStorage.getItem(storageKey(auditId));
+    if (!token) return null;
+    if (Number(token.split('.')[0]) * 1000 > Date.now()) return token;
+    localStorage.removeItem(storageKey(auditId));
+  } catch (e) { /* storage unavailable */ }
+  return null;
+};
+
+export const saveOwnerToken = (auditId: string, token: string) => {
+  try {
+    localStorage.setItem(storageKey(auditId), token);
+  } catch (e) { /* storage unavailable: the session lasts until reload */ }
+};
+
+export const clearOwnerToken = (auditId: string) => {
+  try {
+    localStorage.removeItem(storageKey(auditId));
+  } catch (e) { /* storage unavailable */ }
+};
+
+const SHARE_PATH = /\/s\/([\w-]+)\/?$/;
+
+/**
+ * Public link for a share token, under the branding of the tenant the report was made for.
+ * A path rather than a query, so vercel.json can hand crawlers the preview tags.
+ */
+export const shareUrl = (tenant: TenantConfig, token: string) =>
+  `${tenantAppUrl(tenant, window.location.origin)}/s/${encodeURIComponent(token)}`;
+
+// Token of a /s/<token> (or /t/<id>/s/<token>) path, null elsewhere
+export const shareTokenFromPath = (pathname: string): string | null => pathname.match(SHARE_PATH)?.[1] || null;
@@ -0,0 +1,109 @@
+import { CategoryScore, PsiResult, QuestionCategory, QuestionPack, Questionnaire, ScoreCard, UserResponse } from "../types";
+import { CORE_QUESTIONNAIRE, QUESTION_PACKS } from "../constants";
+import { getQuestion, normalizeAnswer, questionnaireRef } from "./questionnaire";
+
+/**
+ * Deterministic scoring engine.
+ * The same answers + the same PSI numbers always produce the same scores.
+ * Bump SCORING_VERSION whenever a weight or formula below changes so stored
+ * reports can be traced back to the rules that produced them.
+ */
+export const SCORING_VERSION = "2.1.0";
+
+// Categories where measured PSI data is blended with the self-report.
+// `weight` is the share of the category score taken from the measurement.
+const TECHNICAL_BLEND: Partial<Record<QuestionCategory, { metric: 'perfScore' | 'seoScore'; weight: number }>> = {
+  [QuestionCategory.SEO]: { metric: 'seoScore', weight: 0.4 },
+  [QuestionCategory.VISUALS]: { metric: 'perfScore', weight: 0.3 },
+};
+
+// Score used when a category has neither answers nor measurements.
+const NEUTRAL_SCORE = 50;
+
+export const clampScore = (value: number) => Math.min(100, Math.max(0, Math.round(value)));
+
+/**
+ * Weighted average of the quiz answers for one category, as 0-100.
+ * Returns null when the visitor answered nothing in that category.
+ */
+function scoreSelfReport(
+  category: QuestionCategory,
+  responses: UserResponse[],
+  questionnaire: Questionnaire
+): number | null {
+  let total = 0;
+  let weightSum = 0;
+
+  responses.forEach(r => {
+    const q = getQuestion(r.questionId, questionnaire);
+    if (!q || q.category !== category) return;
+    const weight = q.weight ?? 1;
+    total += normalizeAnswer(q, r.answer) * weight;
+    weightSum += weight;
+  });
+
+  return weightSum > 0 ? (total / weightSum) * 100 : null;
+}
+
+/**
+ * Measured score for a category, or null when the category has no
+ * technical component or the scan did not return a usable value.
+ */
+function scoreTechnical(category: QuestionCategory, psi: PsiResult | null): number | null {
+  const blend = TECHNICAL_BLEND[category];
+  if (!blend || !psi?.success) return null;
+  const value = psi[blend.metric];
+  return value >= 0 ? value : null;
+}
+
+export function scoreCategory(
+  category: QuestionCategory,
+  responses: UserResponse[],
+  psi: PsiResult | null,
+  questionnaire: Questionnaire = CORE_QUESTIONNAIRE
+): CategoryScore {
+  const selfReportScore = scoreSelfReport(category, responses, questionnaire);
+  const technicalScore = scoreTechnical(category, psi);
+  const techWeight = TECHNICAL_BLEND[category]?.weight ?? 0;
+
+  let score: number;
+  if (selfReportScore !== null && technicalScore !== null) {
+    score = selfReportScore * (1 - techWeight) + technicalScore * techWeight;
+  } else {
+    score = selfReportScore ?? technicalScore ?? NEUTRAL_SCORE;
+  }
+
+  return {
+    category,
+    score: clampScore(score),
+    selfReportScore: selfReportScore === null ? null : clampScore(selfReportScore),
+    technicalScore: technicalScore === null ? null : clampScore(technicalScore),
+  };
+}
+
+/**
+ * Computes the pack's category scores plus the overall Momentum Score.
+ * Each pack carries its own category set and weights (see QUESTION_PACKS);
+ * categories are returned in the pack's display order.
+ */
+export function computeScoreCard(
+  responses: UserResponse[],
+  psi: PsiResult | null,
+  pack: QuestionPack = QUESTION_PACKS.general
+): ScoreCard {
+  const { questionnaire } = pack;
+  const categories = pack.categories
+    .map(category => scoreCategory(category, responses, psi, questionnaire));
+
+  const momentumScore = categories.reduce(
+    (sum, c) => sum + c.score * (pack.categoryWeights[c.category] ?? 0),
+    0
+  );
+
+  return {
+    version: SCORING_VERSION,
+    questionnaire: questionnaireRef(questionnaire),
+    momentumScore: clampScore(momentumScore),
+    categories,
+  };
+}
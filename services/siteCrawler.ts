@@ -0,0 +1,455 @@
+import { CrawlResult, PageSignals, QuestionCategory, TechnicalSignal } from "../types";
+import { normalizeUrl } from "./utils";
+import { Agent, fetch as undiciFetch, Response as FetchResponse } from "undici";
+import { parsePublicHttpUrl, publicLookup } from "./publicUrl";
+
+/**
+ * First-party crawler.
+ * Fetches the homepage plus a few linked pages and extracts the on-page
+ * signals PageSpeed Insights doesn't report (meta tags, structured data,
+ * pixels, forms, CMS). Parsing is regex-based so it runs in any runtime
+ * without a DOM, and all network access goes through `fetchText` so the
+ * crawler can be pointed at local HTML fixtures.
+ */
+
+export interface FetchedText {
+  status: number;
+  url: string; // Final URL after redirects
+  contentType: string;
+  text: string;
+}
+
+export type FetchText = (url: string) => Promise<FetchedText | null>;
+
+interface CrawlOptions {
+  fetchText?: FetchText;
+  maxPages?: number; // Including the homepage
+}
+
+const USER_AGENT = "ZouhallBrandScore/1.0 (+https://zouhall.com)";
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_BODY_BYTES = 1_500_000;
+const MAX_REDIRECTS = 5;
+
+// Every connection resolves through publicLookup, so a host can't pass the
+// address check and then connect somewhere private
+const publicAgent = new Agent({ connect: { lookup: publicLookup } });
+
+// Linked pages worth crawling first, in priority order
+const PRIORITY_PATHS = /\/(pricing|about|services|products?|shop|collections|contact|blog|solutions|features)(\/|$)/i;
+const ASSET_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|pdf|zip|css|js|xml|json|mp4|mp3)(\?|$)/i;
+
+const ANALYTICS_PATTERNS: [string, RegExp][] = [
+  ["Google Analytics", /googletagmanager\.com\/gtag\/js|google-analytics\.com\/(analytics|ga)\.js|gtag\(\s*['"]config/i],
+  ["Google Tag Manager", /googletagmanager\.com\/gtm\.js|GTM-[A-Z0-9]{4,}/],
+  ["Meta Pixel", /connect\.facebook\.net\/[^"']*\/fbevents\.js|fbq\(\s*['"]init/i],
+  ["LinkedIn Insight", /snap\.licdn\.com|_linkedin_partner_id/i],
+  ["TikTok Pixel", /analytics\.tiktok\.com|ttq\.load/i],
+  ["Hotjar", /static\.hotjar\.com|hotjar\.com\/c\/hotjar/i],
+  ["Microsoft Clarity", /clarity\.ms\/tag/i],
+  ["Segment", /cdn\.segment\.com/i],
+  ["HubSpot Tracking", /js\.hs-scripts\.com|js\.hs-analytics\.net/i],
+  ["Klaviyo", /static\.klaviyo\.com|klaviyo\.com\/onsite/i],
+];
+
+const CMS_PATTERNS: [string, RegExp][] = [
+  ["WordPress", /\/wp-content\/|\/wp-includes\//i],
+  ["Shopify", /cdn\.shopify\.com|Shopify\.theme/],
+  ["Wix", /static\.wixstatic\.com|wix-code|_wixCIDX/i],
+  ["Squarespace", /static1\.squarespace\.com|squarespace-cdn\.com/i],
+  ["Webflow", /data-wf-page|webflow\.(io|com)\/|assets\.website-files\.com/i],
+  ["Framer", /framerusercontent\.com|framer\.com\/m\//i],
+  ["HubSpot CMS", /\.hubspotusercontent|hs-sites\.com/i],
+  ["Ghost", /ghost\.(io|org)|content="Ghost/i],
+  ["Drupal", /\/sites\/default\/files\/|Drupal\.settings/],
+  ["Next.js", /\/_next\/static\//],
+];
+
+// Third-party form tools that imply an email capture even without a visible <form>
+const EMAIL_CAPTURE_SCRIPTS = /list-manage\.com|static\.klaviyo\.com|js\.hsforms\.net|convertkit\.com|ck\.page|mailerlite\.com|optinmonster|privy\.com/i;
+
+// --- HTML PARSING ---
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ');
+
+const cleanText = (text: string) => decodeEntities(text).replace(/\s+/g, ' ').trim();
+
+/**
+ * Parses the attributes of a single tag, e.g. `<meta name="x" content="y">`.
+ * Attribute names are lower-cased.
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const attrRegex = /([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  let match: RegExpExecArray | null;
+  while ((match = attrRegex.exec(tag)) !== null) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[3] ?? match[4] ?? match[5] ?? '');
+  }
+  return attrs;
+}
+
+const findTags = (html: string, tagName: string): Record<string, string>[] =>
+  (html.match(new RegExp(`<${tagName}\\b[^>]*>`, 'gi')) || []).map(parseAttributes);
+
+function collectJsonLdTypes(node: unknown, types: Set<string>) {
+  if (Array.isArray(node)) {
+    node.forEach(n => collectJsonLdTypes(n, types));
+    return;
+  }
+  if (typeof node !== 'object' || node === null) return;
+  const obj = node as Record<string, unknown>;
+  const type = obj['@type'];
+  if (typeof type === 'string') types.add(type);
+  if (Array.isArray(type)) type.forEach(t => typeof t === 'string' && types.add(t));
+  if (obj['@graph']) collectJsonLdTypes(obj['@graph'], types);
+}
+
+function extractStructuredDataTypes(html: string): string[] {
+  const types = new Set<string>();
+
+  const jsonLdRegex = /<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  let match: RegExpExecArray | null;
+  while ((match = jsonLdRegex.exec(html)) !== null) {
+    try {
+      collectJsonLdTypes(JSON.parse(match[1].trim()), types);
+    } catch (e) {
+      // Invalid JSON-LD is common; ignore the block
+    }
+  }
+
+  // Microdata: itemtype="https://schema.org/Organization"
+  findTags(html, '[a-z][a-z0-9]*').forEach(attrs => {
+    const itemType = attrs.itemtype?.match(/schema\.org\/(\w+)/i);
+    if (itemType) types.add(itemType[1]);
+  });
+
+  return Array.from(types);
+}
+
+function hasEmailCaptureForm(html: string): boolean {
+  const forms = html.match(/<form\b[\s\S]*?<\/form>/gi) || [];
+  const formHasEmail = forms.some(form =>
+    /<input\b[^>]*(type\s*=\s*["']?email|name\s*=\s*["'][^"']*e-?mail)/i.test(form)
+  );
+  return formHasEmail || EMAIL_CAPTURE_SCRIPTS.test(html);
+}
+
+const matchPatterns = (html: string, patterns: [string, RegExp][]) =>
+  patterns.filter(([, regex]) => regex.test(html)).map(([name]) => name);
+
+function extractInternalLinks(html: string, pageUrl: string): string[] {
+  const base = new URL(pageUrl);
+  const links = new Set<string>();
+
+  findTags(html, 'a').forEach(({ href }) => {
+    if (!href || href.startsWith('#') || /^(mailto|tel|javascript):/i.test(href)) return;
+    try {
+      const url = new URL(href, base);
+      if (url.hostname.replace(/^www\./, '') !== base.hostname.replace(/^www\./, '')) return;
+      if (ASSET_EXTENSIONS.test(url.pathname)) return;
+      url.hash = '';
+      url.search = '';
+      const normalized = url.toString().replace(/\/$/, '');
+      if (normalized !== base.toString().replace(/\/$/, '')) links.add(normalized);
+    } catch (e) {
+      // Malformed href
+    }
+  });
+
+  return Array.from(links);
+}
+
+/**
+ * Extracts every on-page signal from one HTML document. Pure: no I/O.
+ */
+export function extractPageSignals(html: string, pageUrl: string): PageSignals {
+  const metas = findTags(html, 'meta');
+  const metaValue = (key: string) =>
+    metas.find(m => (m.name || m.property || '').toLowerCase() === key)?.content?.trim() || null;
+
+  const prefixed = (prefix: string) => {
+    const values: Record<string, string> = {};
+    metas.forEach(m => {
+      const key = (m.property || m.name || '').toLowerCase();
+      if (key.startsWith(prefix) && m.content) values[key.slice(prefix.length)] = m.content.trim();
+    });
+    return values;
+  };
+
+  const titleMatch = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i);
+  const canonical = findTags(html, 'link').find(l => (l.rel || '').toLowerCase().split(/\s+/).includes('canonical'));
+
+  const cms = matchPatterns(html, CMS_PATTERNS);
+  const generator = metaValue('generator');
+  if (generator) {
+    const generatorName = generator.split(/\s|;/)[0];
+    if (generatorName && !cms.some(c => c.toLowerCase().startsWith(generatorName.toLowerCase()))) {
+      cms.push(generatorName);
+    }
+  }
+
+  return {
+    url: pageUrl,
+    title: titleMatch ? cleanText(titleMatch[1]) || null : null,
+    metaDescription: metaValue('description'),
+    canonical: canonical?.href || null,
+    openGraph: prefixed('og:'),
+    twitter: prefixed('twitter:'),
+    structuredDataTypes: extractStructuredDataTypes(html),
+    analytics: matchPatterns(html, ANALYTICS_PATTERNS),
+    emailCapture: hasEmailCaptureForm(html),
+    cms,
+    internalLinks: extractInternalLinks(html, pageUrl),
+  };
+}
+
+// --- NETWORK ---
+
+// Reads at most MAX_BODY_BYTES and drops the rest of the stream
+const readCappedText = async (response: FetchResponse): Promise<string> => {
+  if (!response.body) return '';
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < MAX_BODY_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const chunk = value.subarray(0, MAX_BODY_BYTES - size);
+    chunks.push(chunk);
+    size += chunk.length;
+  }
+  reader.cancel().catch(() => undefined);
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return new TextDecoder().decode(bytes);
+};
+
+/**
+ * Fetches a visitor-supplied URL. Redirects are followed by hand so every hop
+ * goes through the public-host check (services/publicUrl.ts) first.
+ */
+export const defaultFetchText: FetchText = async (url) => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    let current = url;
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      const target = parsePublicHttpUrl(current);
+      if (!target) {
+        console.warn(`Crawl fetch refused for ${current}: not a public http(s) address`);
+        return null;
+      }
+
+      const response = await undiciFetch(target, {
+        dispatcher: publicAgent,
+        signal: controller.signal,
+        redirect: 'manual',
+        headers: { 'User-Agent': USER_AGENT, Accept: 'text/html,application/xhtml+xml,text/plain,application/xml;q=0.9' }
+      });
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        response.body?.cancel().catch(() => undefined);
+        current = new URL(location, target).toString();
+        continue;
+      }
+
+      const contentType = response.headers.get('content-type') || '';
+      const text = /text|xml|html/i.test(contentType) ? await readCappedText(response) : '';
+      if (!text) response.body?.cancel().catch(() => undefined);
+      return { status: response.status, url: target.toString(), contentType, text };
+    }
+    console.warn(`Crawl fetch failed for ${url}: too many redirects`);
+    return null;
+  } catch (e) {
+    // undici reports connection errors, a refused address included, as the cause
+    const cause = (e as Error & { cause?: Error }).cause;
+    console.warn(`Crawl fetch failed for ${url}:`, cause?.message || (e as Error).message);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+const isOk = (res: FetchedText | null): res is FetchedText => !!res && res.status >= 200 && res.status < 300;
+
+/**
+ * Picks which internal links to visit: priority sections first, then page order.
+ */
+function pickLinks(links: string[], count: number): string[] {
+  const priority = links.filter(l => PRIORITY_PATHS.test(new URL(l).pathname));
+  const rest = links.filter(l => !priority.includes(l));
+  return [...priority, ...rest].slice(0, count);
+}
+
+export const crawlSite = async (rawUrl: string, options: CrawlOptions = {}): Promise<CrawlResult> => {
+  const fetchText = options.fetchText || defaultFetchText;
+  const maxPages = options.maxPages ?? 4;
+  const empty: CrawlResult = { success: false, pages: [], robotsTxt: false, sitemap: false, analytics: [], cms: [], emailCapture: false };
+
+  try {
+    // 1. Homepage (follows redirects, e.g. http -> https -> www)
+    const home = await fetchText(normalizeUrl(rawUrl));
+    if (!isOk(home) || !home.text) {
+      return { ...empty, error: home ? `Homepage returned ${home.status}` : "Homepage unreachable" };
+    }
+    const homepage = extractPageSignals(home.text, home.url);
+    const origin = new URL(home.url).origin;
+
+    // 2. Linked pages + robots.txt in parallel
+    const [subpages, robots] = await Promise.all([
+      Promise.all(pickLinks(homepage.internalLinks, maxPages - 1).map(async link => {
+        const res = await fetchText(link);
+        return isOk(res) && /html/i.test(res.contentType) ? extractPageSignals(res.text, res.url) : null;
+      })),
+      fetchText(`${origin}/robots.txt`)
+    ]);
+
+    // robots.txt served as an HTML error page doesn't count
+    const robotsTxt = isOk(robots) && !/<html/i.test(robots.text);
+    const sitemapUrls = robotsTxt
+      ? Array.from(robots.text.matchAll(/^\s*sitemap:\s*(\S+)/gim)).map(m => m[1])
+      : [];
+
+    // 3. Sitemap: declared in robots.txt, else the conventional location
+    const sitemapRes = await fetchText(sitemapUrls[0] || `${origin}/sitemap.xml`);
+    const sitemap = isOk(sitemapRes) && /<(urlset|sitemapindex)\b/i.test(sitemapRes.text);
+
+    const pages = [homepage, ...subpages.filter((p): p is PageSignals => p !== null)];
+    const unique = (values: string[]) => Array.from(new Set(values));
+
+    return {
+      success: true,
+      pages,
+      robotsTxt,
+      sitemap,
+      analytics: unique(pages.flatMap(p => p.analytics)),
+      cms: unique(pages.flatMap(p => p.cms)),
+      emailCapture: pages.some(p => p.emailCapture),
+    };
+  } catch (error: any) {
+    console.warn("Site crawl failed:", error.message);
+    return { ...empty, error: error.message };
+  }
+};
+
+// --- INTERPRETATION ---
+
+/**
+ * Turns a crawl into dashboard signals. Each one is a measured fact.
+ */
+export function crawlToSignals(crawl: CrawlResult): TechnicalSignal[] {
+  if (!crawl.success || crawl.pages.length === 0) {
+    return [{ label: "Site Crawl", value: "Blocked", status: 'warning' }];
+  }
+  const home = crawl.pages[0];
+  const og = home.openGraph;
+  const ogComplete = !!(og.title && og.image);
+  const signals: TechnicalSignal[] = [];
+
+  signals.push(home.metaDescription
+    ? { label: "Meta Description", value: `${home.metaDescription.length} chars`, status: home.metaDescription.length <= 160 ? 'good' : 'warning' }
+    : { label: "Meta Description", value: "Missing", status: 'critical' });
+
+  signals.push({ label: "Canonical Tag", value: home.canonical ? "Present" : "Missing", status: home.canonical ? 'good' : 'warning' });
+
+  signals.push({
+    label: "Social Previews",
+    value: ogComplete ? "Open Graph Complete" : Object.keys(og).length > 0 ? "Partial" : "Missing",
+    status: ogComplete ? 'good' : Object.keys(og).length > 0 ? 'warning' : 'critical'
+  });
+
+  const schemaTypes = Array.from(new Set(crawl.pages.flatMap(p => p.structuredDataTypes)));
+  signals.push({
+    label: "Structured Data",
+    value: schemaTypes.length > 0 ? schemaTypes.slice(0, 3).join(', ') : "None",
+    status: schemaTypes.length > 0 ? 'good' : 'warning'
+  });
+
+  signals.push({
+    label: "Sitemap / Robots",
+    value: `${crawl.sitemap ? 'Sitemap' : 'No Sitemap'} • ${crawl.robotsTxt ? 'robots.txt' : 'No robots.txt'}`,
+    status: crawl.sitemap && crawl.robotsTxt ? 'good' : crawl.sitemap || crawl.robotsTxt ? 'warning' : 'critical'
+  });
+
+  signals.push({
+    label: "Tracking Pixels",
+    value: crawl.analytics.length > 0 ? crawl.analytics.join(', ') : "None Detected",
+    status: crawl.analytics.length >= 2 ? 'good' : crawl.analytics.length === 1 ? 'warning' : 'critical'
+  });
+
+  signals.push({
+    label: "Email Capture",
+    value: crawl.emailCapture ? "Form Detected" : "None Found",
+    status: crawl.emailCapture ? 'good' : 'critical'
+  });
+
+  if (crawl.cms.length > 0) {
+    signals.push({ label: "Platform", value: crawl.cms.join(', '), status: 'good' });
+  }
+
+  return signals;
+}
+
+/**
+ * Concrete evidence lines per category, shown ahead of the model's evidence.
+ */
+export function crawlToEvidence(crawl: CrawlResult): Partial<Record<QuestionCategory, string[]>> {
+  if (!crawl.success || crawl.pages.length === 0) return {};
+  const home = crawl.pages[0];
+  const evidence: Partial<Record<QuestionCategory, string[]>> = {};
+  const add = (category: QuestionCategory, line: string) => {
+    evidence[category] = [...(evidence[category] || []), line];
+  };
+
+  // SEO
+  if (!home.title) add(QuestionCategory.SEO, "Homepage has no <title> tag");
+  if (!home.metaDescription) add(QuestionCategory.SEO, "Homepage has no meta description");
+  if (!home.canonical) add(QuestionCategory.SEO, "No canonical URL declared on the homepage");
+  if (!crawl.sitemap) add(QuestionCategory.SEO, "No XML sitemap found");
+  if (!crawl.robotsTxt) add(QuestionCategory.SEO, "No robots.txt found");
+  const missingDescriptions = crawl.pages.filter(p => !p.metaDescription).length;
+  if (missingDescriptions > 1) {
+    add(QuestionCategory.SEO, `${missingDescriptions} of ${crawl.pages.length} crawled pages lack a meta description`);
+  }
+  if (crawl.pages.every(p => p.structuredDataTypes.length === 0)) {
+    add(QuestionCategory.SEO, "No schema.org structured data detected");
+  }
+
+  // Growth
+  if (crawl.analytics.length === 0) {
+    add(QuestionCategory.GROWTH, "No analytics or ad pixels detected: paid traffic cannot be attributed");
+  } else {
+    add(QuestionCategory.GROWTH, `Tracking installed: ${crawl.analytics.join(', ')}`);
+    if (!crawl.analytics.some(a => /Meta|LinkedIn|TikTok/.test(a))) {
+      add(QuestionCategory.GROWTH, "No ad platform pixel detected (Meta, LinkedIn, TikTok)");
+    }
+  }
+  if (!crawl.emailCapture) add(QuestionCategory.GROWTH, `No email capture form on ${crawl.pages.length} crawled pages`);
+
+  // Visuals
+  if (!home.openGraph.image) add(QuestionCategory.VISUALS, "No og:image: shared links render without a preview image");
+  if (!home.twitter.card) add(QuestionCategory.VISUALS, "No Twitter/X card tags");
+
+  // Content
+  if (!crawl.pages.some(p => /\/blog|\/resources|\/guides|\/articles/i.test(p.url) || p.internalLinks.some(l => /\/blog|\/resources/i.test(l)))) {
+    add(QuestionCategory.CONTENT, "No blog or resource section linked from crawled pages");
+  }
+
+  // Operations
+  const crmTools = crawl.analytics.filter(a => /HubSpot|Klaviyo|Segment/.test(a));
+  if (crmTools.length > 0) add(QuestionCategory.OPERATIONS, `Marketing automation detected: ${crmTools.join(', ')}`);
+
+  return evidence;
+}
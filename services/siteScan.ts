@@ -0,0 +1,39 @@
+import { CacheOutcome, CrawlResult, PsiResult } from "../types";
+import { crawlSite } from "./siteCrawler";
+import { fetchPageSpeedData } from "./pageSpeedService";
+import { AuditCacheConfig, crawlCacheKey } from "./auditCache";
+
+/**
+ * Everything measured about a site from the outside: PSI (mobile + desktop)
+ * and the first-party crawl. Used for the audited brand and its competitors.
+ */
+export interface SiteScan {
+  psi: PsiResult;
+  crawl: CrawlResult;
+  fetchedAt: string;
+}
+
+/**
+ * Runs PSI and the crawl in parallel, served from the crawl cache when fresh.
+ */
+export const scanSite = async (
+  url: string,
+  cache?: AuditCacheConfig
+): Promise<{ scan: SiteScan; cache: CacheOutcome }> => {
+  const key = crawlCacheKey(url);
+  const useCache = !!cache && cache.crawlTtlSeconds > 0;
+
+  const cached = useCache ? await cache!.store.get<SiteScan>(key) : null;
+  if (cached) return { scan: cached, cache: 'hit' };
+
+  const [psi, crawl] = await Promise.all([
+    fetchPageSpeedData(url),
+    crawlSite(url)
+  ]);
+  const scan: SiteScan = { psi, crawl, fetchedAt: new Date().toISOString() };
+
+  // Never cache a failed PSI scan: the next visitor should get a fresh attempt
+  if (useCache && psi.success) await cache!.store.set(key, scan, cache!.crawlTtlSeconds);
+
+  return { scan, cache: useCache ? 'miss' : 'bypass' };
+};
@@ -0,0 +1,50 @@
+import { TenantConfig } from "../types";
+import { TENANTS } from "../constants";
+
+/**
+ * White-label tenants. The browser resolves its tenant from the URL and sends
+ * the id with the audit; everything downstream (prompt, stored row, emails,
+ * PDF, dashboard) looks the tenant up again from `result.tenantId`.
+ */
+
+export const DEFAULT_TENANT: TenantConfig = TENANTS[0];
+
+const TENANT_PATH = /^\/t\/([a-z0-9-]+)(?=\/|$)/i;
+
+export const isTenantId = (value: unknown): value is string =>
+  typeof value === 'string' && TENANTS.some(t => t.id === value);
+
+/**
+ * The tenant for an id. Unknown or missing ids get the default tenant.
+ */
+export const getTenant = (id?: string | null): TenantConfig =>
+  TENANTS.find(t => t.id === id) || DEFAULT_TENANT;
+
+/**
+ * A /t/<id> path prefix wins over the hostname, so partners can be served
+ * from the main domain before their own is set up.
+ */
+export const resolveTenant = (hostname: string, pathname = '/'): TenantConfig => {
+  const fromPath = pathname.match(TENANT_PATH)?.[1]?.toLowerCase();
+  if (isTenantId(fromPath)) return getTenant(fromPath);
+  const host = hostname.toLowerCase();
+  return TENANTS.find(t => t.hostnames.includes(host)) || DEFAULT_TENANT;
+};
+
+/**
+ * Where the tenant's app lives, for links that leave the server (emails, CRM).
+ * `appOrigin` is the main deployment's public origin.
+ */
+export const tenantAppUrl = (tenant: TenantConfig, appOrigin: string): string => {
+  if (tenant.appUrl) return tenant.appUrl.replace(/\/+$/, '');
+  return tenant.id === DEFAULT_TENANT.id ? appOrigin : `${appOrigin}/t/${tenant.id}`;
+};
+
+/**
+ * Origin the tenant's API is reached at: the root of its own domain, never under /t/<id>.
+ */
+export const tenantApiOrigin = (tenant: TenantConfig, appOrigin: string): string =>
+  tenant.appUrl ? tenantAppUrl(tenant, appOrigin) : appOrigin;
+
+// Path prefix the app runs under in this browser ('' outside /t/<id>)
+export const tenantBasePath = (pathname: string): string => pathname.match(TENANT_PATH)?.[0] || '';
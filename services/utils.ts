@@ -1,5 +1,3 @@
-import { AuditResult, BrandInfo } from "../types";
-
 /**
  * Generates a random UUID v4.
  * Used to create the ID client-side so we can generate the URL before saving to DB.
@@ -18,32 +16,23 @@ export function generateUUID(): string {
 }
 
 /**
- * Generates a sharable link by encoding the result in the URL.
- * Used by both CRM and Supabase services.
+ * Canonical form of a user-entered website: https scheme, no trailing slash.
  */
-export function generateMagicLink(brand: BrandInfo, result: AuditResult): string {
-  try {
-    const minifiedResult = {
-      ...result,
-      debugLog: undefined, // Strip debug info to save space
-    };
-    
-    // Create a payload that includes brand info so we can restore everything
-    const restorePayload = {
-      brand: brand,
-      result: minifiedResult
-    };
-
-    const jsonString = JSON.stringify(restorePayload);
-    const base64String = btoa(unescape(encodeURIComponent(jsonString))); // Robust utf-8 base64
-    
-    // Ensure we use the window location if available (client-side)
-    const origin = typeof window !== 'undefined' ? window.location.origin : '';
-    const pathname = typeof window !== 'undefined' ? window.location.pathname : '';
-    
-    return `${origin}${pathname}?r=${base64String}`;
-  } catch (e) {
-    console.warn("Failed to generate magic link", e);
-    return "";
+export function normalizeUrl(url: string): string {
+  let normalized = url.trim();
+  while (normalized.endsWith('/')) {
+    normalized = normalized.slice(0, -1);
   }
-}
\ No newline at end of file
+  if (!normalized.match(/^https?:\/\//)) {
+    normalized = `https://${normalized}`;
+  }
+  return normalized;
+}
+
+/**
+ * Bare lowercase host + path ("Https://www.Acme.com/shop/" -> "acme.com/shop").
+ * Used to group audits and cache entries that point at the same site.
+ */
+export function normalizeDomain(url: string): string {
+  return normalizeUrl(url).toLowerCase().replace(/^https?:\/\/(www\.)?/, '');
+}
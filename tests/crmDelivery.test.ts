@@ -0,0 +1,171 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CrmConnector, CrmPayload, createWebhookConnector, deliverWithRetry, signWebhookBody } from '../server/crm';
+import { crmRequest, CrmRequestError } from '../server/crm/request';
+
+// Connectors only serialize the payload, so a stand-in is enough here
+const PAYLOAD = { brand: { name: 'Acme' }, scores: { total: 72 } } as unknown as CrmPayload;
+const AUDIT_ID = '5f0c2a9e-0000-4000-8000-000000000000';
+
+/** A connector that throws the queued errors in turn, then succeeds. */
+const flakyConnector = (...errors: Error[]) => {
+  const deliver = vi.fn(async () => {
+    const error = errors.shift();
+    if (error) throw error;
+    return { externalId: 'deal-1' };
+  });
+  return { connector: { id: 'test', deliver } as CrmConnector, deliver };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('deliverWithRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  it('delivers on the first try without waiting', async () => {
+    const { connector, deliver } = flakyConnector();
+    const delivery = await deliverWithRetry(connector, PAYLOAD, AUDIT_ID);
+
+    expect(deliver).toHaveBeenCalledTimes(1);
+    expect(delivery).toMatchObject({ audit_id: AUDIT_ID, connector: 'test', status: 'delivered', attempts: 1, external_id: 'deal-1', error: null });
+  });
+
+  it('backs off 1s then 3s between retryable failures', async () => {
+    const { connector, deliver } = flakyConnector(
+      new CrmRequestError('responded 503', 503),
+      new CrmRequestError('Network error')
+    );
+    const pending = deliverWithRetry(connector, PAYLOAD, AUDIT_ID);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(deliver).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(deliver).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(deliver).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(deliver).toHaveBeenCalledTimes(3);
+
+    expect(await pending).toMatchObject({ status: 'delivered', attempts: 3, error: null });
+  });
+
+  it('waits for Retry-After when it is longer than the backoff, up to 10s', async () => {
+    const { connector, deliver } = flakyConnector(
+      new CrmRequestError('responded 429', 429, 5000),
+      new CrmRequestError('responded 429', 429, 60000)
+    );
+    const pending = deliverWithRetry(connector, PAYLOAD, AUDIT_ID);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(deliver).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(deliver).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(deliver).toHaveBeenCalledTimes(3);
+
+    expect(await pending).toMatchObject({ status: 'delivered', attempts: 3 });
+  });
+
+  it('gives up after three attempts with the last error', async () => {
+    const { connector, deliver } = flakyConnector(
+      new CrmRequestError('responded 502', 502),
+      new CrmRequestError('responded 502', 502),
+      new CrmRequestError('responded 504', 504)
+    );
+    const pending = deliverWithRetry(connector, PAYLOAD, AUDIT_ID);
+    await vi.runAllTimersAsync();
+
+    expect(deliver).toHaveBeenCalledTimes(3);
+    expect(await pending).toMatchObject({ status: 'failed', attempts: 3, external_id: null, error: 'responded 504' });
+  });
+
+  it('does not retry client errors or unexpected exceptions', async () => {
+    for (const error of [new CrmRequestError('responded 400', 400), new TypeError('data.data is undefined')]) {
+      const { connector, deliver } = flakyConnector(error);
+      const delivery = await deliverWithRetry(connector, PAYLOAD, AUDIT_ID);
+
+      expect(deliver).toHaveBeenCalledTimes(1);
+      expect(delivery).toMatchObject({ status: 'failed', attempts: 1, error: error.message });
+    }
+  });
+});
+
+describe('against a local HTTP stub', () => {
+  type Handler = (req: IncomingMessage, body: string, res: ServerResponse) => void;
+  let server: Server;
+  let baseUrl: string;
+  let handlers: Handler[] = [];
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const handler = handlers.shift();
+        if (handler) handler(req, body, res);
+        else res.writeHead(500).end('No handler queued');
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    handlers = [];
+  });
+
+  it('maps HTTP errors and Retry-After onto CrmRequestError', async () => {
+    handlers.push((_req, _body, res) => res.writeHead(429, { 'Retry-After': '7' }).end('Slow down'));
+    const error = await crmRequest(`${baseUrl}/deals`).catch(err => err);
+
+    expect(error).toBeInstanceOf(CrmRequestError);
+    expect(error).toMatchObject({ status: 429, retryAfterMs: 7000, message: '/deals responded 429: Slow down' });
+  });
+
+  it('reports unreachable hosts as retryable network errors', async () => {
+    const error = await crmRequest('http://127.0.0.1:9/', { timeoutMs: 2000 }).catch(err => err);
+    expect(error).toBeInstanceOf(CrmRequestError);
+    expect(error.status).toBeNull();
+  });
+
+  it('retries a webhook after a 503 with the same delivery id and a valid signature', async () => {
+    const received: { delivery: string | undefined; signature: string; body: string }[] = [];
+    const record: Handler = (req, body) => {
+      received.push({
+        delivery: req.headers['x-brandscore-delivery'] as string | undefined,
+        signature: String(req.headers['x-brandscore-signature']),
+        body
+      });
+    };
+    handlers.push(
+      (req, body, res) => { record(req, body, res); res.writeHead(503).end('Unavailable'); },
+      (req, body, res) => { record(req, body, res); res.writeHead(200).end('OK'); }
+    );
+
+    const connector = createWebhookConnector({ url: `${baseUrl}/hooks/brandscore`, secret: 'whsec_test' });
+    const delivery = await deliverWithRetry(connector, PAYLOAD, AUDIT_ID);
+
+    expect(delivery).toMatchObject({ connector: 'webhook', status: 'delivered', attempts: 2 });
+    expect(received).toHaveLength(2);
+    for (const { delivery: id, signature, body } of received) {
+      expect(id).toBe(AUDIT_ID);
+      expect(JSON.parse(body)).toEqual({ event: 'audit.created', audit_id: AUDIT_ID, data: PAYLOAD });
+      const [, t, v1] = signature.match(/^t=(\d+),v1=([0-9a-f]{64})$/) || [];
+      expect(v1).toBe(await signWebhookBody('whsec_test', Number(t), body));
+    }
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { PsiResult, QuestionCategory, QuestionPack } from '../types';
+import { QUESTION_PACKS } from '../constants';
+import { computeScoreCard, scoreCategory, SCORING_VERSION } from '../services/scoringEngine';
+
+// A small pack with one question of each type, so the expected scores can be worked out by hand
+const PACK: QuestionPack = {
+  id: 'general',
+  label: 'Test',
+  questionnaire: {
+    id: 'test',
+    version: '1.0.0',
+    questions: [
+      { id: 1, text: 'Scale', category: QuestionCategory.STRATEGY, type: 'scale', weight: 1 },
+      { id: 2, text: 'Boolean', category: QuestionCategory.STRATEGY, type: 'boolean', weight: 3 },
+      {
+        id: 3,
+        text: 'Choice',
+        category: QuestionCategory.SEO,
+        type: 'choice',
+        options: [{ value: 1, label: 'None', score: 0 }, { value: 2, label: 'Some', score: 0.5 }, { value: 3, label: 'All', score: 1 }]
+      },
+      { id: 4, text: 'Numeric', category: QuestionCategory.GROWTH, type: 'numeric', range: { min: 0, max: 100, zeroAt: 10, fullAt: 1 } }
+    ]
+  },
+  categories: [QuestionCategory.STRATEGY, QuestionCategory.SEO, QuestionCategory.GROWTH],
+  categoryWeights: {
+    [QuestionCategory.STRATEGY]: 0.5,
+    [QuestionCategory.SEO]: 0.3,
+    [QuestionCategory.GROWTH]: 0.2
+  },
+  promptGuidance: ''
+};
+
+const ANSWERS = [
+  { questionId: 1, answer: 5 }, // 1.0
+  { questionId: 2, answer: 0 }, // 0, weighted 3x
+  { questionId: 3, answer: 2 }, // 0.5
+  { questionId: 4, answer: 4 } // (4 - 10) / (1 - 10) = 0.667
+];
+
+const psi = (overrides: Partial<PsiResult> = {}): PsiResult => ({
+  success: true,
+  perfScore: 40,
+  seoScore: 90,
+  webVitals: { lcp: '2.1 s', cls: '0.05', fcp: '1.2 s' },
+  techStack: [],
+  bugs: [],
+  mobile: null,
+  desktop: null,
+  ...overrides
+});
+
+describe('scoreCategory', () => {
+  it('takes the weighted average of the answers', () => {
+    expect(scoreCategory(QuestionCategory.STRATEGY, ANSWERS, null, PACK.questionnaire)).toEqual({
+      category: QuestionCategory.STRATEGY,
+      score: 25,
+      selfReportScore: 25,
+      technicalScore: null
+    });
+  });
+
+  it('blends the measured PSI score into SEO', () => {
+    // 50 * 0.6 + 90 * 0.4
+    expect(scoreCategory(QuestionCategory.SEO, ANSWERS, psi(), PACK.questionnaire)).toMatchObject({
+      score: 66,
+      selfReportScore: 50,
+      technicalScore: 90
+    });
+  });
+
+  it('ignores a failed scan', () => {
+    expect(scoreCategory(QuestionCategory.SEO, ANSWERS, psi({ success: false }), PACK.questionnaire)).toMatchObject({
+      score: 50,
+      technicalScore: null
+    });
+  });
+
+  it('uses the measurement alone when nothing was answered', () => {
+    expect(scoreCategory(QuestionCategory.SEO, [], psi(), PACK.questionnaire)).toMatchObject({
+      score: 90,
+      selfReportScore: null
+    });
+  });
+
+  it('falls back to 50 with neither answers nor measurements', () => {
+    expect(scoreCategory(QuestionCategory.GROWTH, [], psi(), PACK.questionnaire)).toMatchObject({
+      score: 50,
+      selfReportScore: null,
+      technicalScore: null
+    });
+  });
+
+  it('scores inverted numeric ranges', () => {
+    expect(scoreCategory(QuestionCategory.GROWTH, ANSWERS, null, PACK.questionnaire).score).toBe(67);
+  });
+});
+
+describe('computeScoreCard', () => {
+  it('weights the categories into the Momentum Score, in the pack order', () => {
+    const card = computeScoreCard(ANSWERS, psi(), PACK);
+    expect(card.categories.map(c => [c.category, c.score])).toEqual([
+      [QuestionCategory.STRATEGY, 25],
+      [QuestionCategory.SEO, 66],
+      [QuestionCategory.GROWTH, 67]
+    ]);
+    // 25 * 0.5 + 66 * 0.3 + 67 * 0.2 = 45.7
+    expect(card.momentumScore).toBe(46);
+    expect(card.version).toBe(SCORING_VERSION);
+    expect(card.questionnaire).toBe('test@1.0.0');
+  });
+
+  it('is deterministic', () => {
+    expect(computeScoreCard(ANSWERS, psi(), PACK)).toEqual(computeScoreCard([...ANSWERS].reverse(), psi(), PACK));
+  });
+
+  it('stays within 0-100 for out-of-range answers', () => {
+    const card = computeScoreCard([{ questionId: 1, answer: 99 }, { questionId: 4, answer: -50 }], psi({ seoScore: 250 }), PACK);
+    card.categories.forEach(c => {
+      expect(c.score).toBeGreaterThanOrEqual(0);
+      expect(c.score).toBeLessThanOrEqual(100);
+    });
+  });
+
+  it.each(Object.values(QUESTION_PACKS))('$id pack weights cover its categories and sum to 1', pack => {
+    expect(Object.keys(pack.categoryWeights).sort()).toEqual([...pack.categories].sort());
+    const total = Object.values(pack.categoryWeights).reduce((sum, weight) => sum + (weight ?? 0), 0);
+    expect(total).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,152 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { crawlSite, crawlToSignals, extractPageSignals, FetchText } from '../services/siteCrawler';
+
+const fixture = (path: string) => readFileSync(new URL(`./fixtures/${path}`, import.meta.url), 'utf8');
+
+/**
+ * Serves a fixture directory as https://acme.example.com: `routes` maps
+ * paths to files, anything else is a 404. Records the URLs fetched.
+ */
+const fixtureSite = (dir: string, routes: Record<string, string>) => {
+  const fetched: string[] = [];
+  const fetchText: FetchText = async (url) => {
+    fetched.push(url);
+    const path = new URL(url).pathname.replace(/(.)\/$/, '$1');
+    const file = routes[path];
+    if (!file) return { status: 404, url, contentType: 'text/html', text: '<html><body>Not found</body></html>' };
+    const contentType = file.endsWith('.xml') ? 'application/xml' : file.endsWith('.txt') ? 'text/plain' : 'text/html; charset=utf-8';
+    return { status: 200, url, contentType, text: fixture(`${dir}/${file}`) };
+  };
+  return { fetchText, fetched };
+};
+
+const ACME_ROUTES = {
+  '/': 'index.html',
+  '/about': 'about.html',
+  '/blog': 'blog.html',
+  '/pricing': 'pricing.html',
+  '/robots.txt': 'robots.txt',
+  '/sitemap_index.xml': 'sitemap_index.xml'
+};
+
+describe('extractPageSignals', () => {
+  const home = extractPageSignals(fixture('site/index.html'), 'https://acme.example.com/');
+
+  it('reads the title, meta description and canonical', () => {
+    expect(home.title).toBe('Acme Roasters & Co');
+    expect(home.metaDescription).toBe('Small-batch coffee roasted in Lyon and shipped within 48 hours.');
+    expect(home.canonical).toBe('https://acme.example.com/');
+  });
+
+  it('collects Open Graph and Twitter tags without their prefix', () => {
+    expect(home.openGraph).toEqual({ title: 'Acme Roasters', image: 'https://acme.example.com/og.png' });
+    expect(home.twitter).toEqual({ card: 'summary_large_image' });
+  });
+
+  it('collects JSON-LD types, including @graph and arrays, and skips invalid blocks', () => {
+    expect(home.structuredDataTypes.sort()).toEqual(['Brand', 'Organization', 'WebSite']);
+  });
+
+  it('detects analytics and the CMS', () => {
+    expect(home.analytics).toEqual(['Google Analytics']);
+    expect(home.cms).toEqual(['WordPress']);
+  });
+
+  it('keeps same-site page links only, without fragments, queries or assets', () => {
+    expect(home.internalLinks).toEqual([
+      'https://acme.example.com/blog',
+      'https://acme.example.com/about',
+      'https://acme.example.com/pricing',
+      'https://www.acme.example.com/contact'
+    ]);
+  });
+
+  it('finds microdata, email forms and pixels on other pages', () => {
+    const pricing = extractPageSignals(fixture('site/pricing.html'), 'https://acme.example.com/pricing');
+    expect(pricing.structuredDataTypes).toEqual(['Product']);
+    expect(pricing.emailCapture).toBe(true);
+    expect(pricing.analytics).toEqual(['Meta Pixel']);
+  });
+});
+
+describe('crawlSite', () => {
+  it('crawls the homepage, priority pages, robots.txt and the declared sitemap', async () => {
+    const { fetchText, fetched } = fixtureSite('site', ACME_ROUTES);
+    const crawl = await crawlSite('acme.example.com', { fetchText });
+
+    expect(crawl.success).toBe(true);
+    expect(crawl.pages.map(p => p.url)).toEqual([
+      'https://acme.example.com',
+      'https://acme.example.com/blog',
+      'https://acme.example.com/about',
+      'https://acme.example.com/pricing'
+    ]);
+    expect(crawl.robotsTxt).toBe(true);
+    expect(crawl.sitemap).toBe(true);
+    expect(fetched).toContain('https://acme.example.com/sitemap_index.xml');
+    expect(fetched).not.toContain('https://www.acme.example.com/contact');
+    // Site-wide: the pixel and the form are on /pricing
+    expect(crawl.analytics).toEqual(['Google Analytics', 'Meta Pixel']);
+    expect(crawl.emailCapture).toBe(true);
+  });
+
+  it('respects maxPages', async () => {
+    const { fetchText } = fixtureSite('site', ACME_ROUTES);
+    const crawl = await crawlSite('https://acme.example.com', { fetchText, maxPages: 1 });
+    expect(crawl.pages).toHaveLength(1);
+  });
+
+  it('fails softly when the homepage does not answer', async () => {
+    const { fetchText } = fixtureSite('site', {});
+    const crawl = await crawlSite('acme.example.com', { fetchText });
+    expect(crawl).toMatchObject({ success: false, pages: [], error: 'Homepage returned 404' });
+
+    const unreachable = await crawlSite('acme.example.com', { fetchText: async () => null });
+    expect(unreachable).toMatchObject({ success: false, error: 'Homepage unreachable' });
+  });
+
+  it('does not count an HTML error page as robots.txt', async () => {
+    const { fetchText } = fixtureSite('bare', { '/': 'index.html', '/robots.txt': 'index.html' });
+    const crawl = await crawlSite('acme.example.com', { fetchText });
+    expect(crawl.robotsTxt).toBe(false);
+    expect(crawl.sitemap).toBe(false);
+  });
+});
+
+describe('crawlToSignals', () => {
+  const byLabel = (signals: ReturnType<typeof crawlToSignals>) =>
+    Object.fromEntries(signals.map(s => [s.label, s.status]));
+
+  it('rates a well-instrumented site', async () => {
+    const { fetchText } = fixtureSite('site', ACME_ROUTES);
+    expect(byLabel(crawlToSignals(await crawlSite('acme.example.com', { fetchText })))).toEqual({
+      'Meta Description': 'good',
+      'Canonical Tag': 'good',
+      'Social Previews': 'good',
+      'Structured Data': 'good',
+      'Sitemap / Robots': 'good',
+      'Tracking Pixels': 'good',
+      'Email Capture': 'good',
+      'Platform': 'good'
+    });
+  });
+
+  it('flags what a bare site is missing', async () => {
+    const { fetchText } = fixtureSite('bare', { '/': 'index.html' });
+    expect(byLabel(crawlToSignals(await crawlSite('acme.example.com', { fetchText })))).toEqual({
+      'Meta Description': 'critical',
+      'Canonical Tag': 'warning',
+      'Social Previews': 'critical',
+      'Structured Data': 'warning',
+      'Sitemap / Robots': 'critical',
+      'Tracking Pixels': 'critical',
+      'Email Capture': 'critical'
+    });
+  });
+
+  it('reports a blocked crawl', () => {
+    expect(crawlToSignals({ success: false, pages: [], robotsTxt: false, sitemap: false, analytics: [], cms: [], emailCapture: false }))
+      .toEqual([{ label: 'Site Crawl', value: 'Blocked', status: 'warning' }]);
+  });
+});
@@ -5,24 +5,73 @@ export enum QuestionCategory {
   GROWTH = 'Growth',
   CONTENT = 'Content',
   OPERATIONS = 'Operations',
-  SEO = 'SEO'
+  SEO = 'SEO',
+  // Pack-specific categories
+  RETENTION = 'Retention',
+  PIPELINE = 'Pipeline'
+}
+
+// 'general' is the fallback when the visitor doesn't fit (or skips) a pack
+export type BusinessModel = 'saas' | 'dtc' | 'b2b' | 'general';
+
+// UI, question and report language. 'ar' renders right-to-left.
+export type Locale = 'en' | 'fr' | 'ar';
+
+// boolean: Yes/No, scale: 1-5, choice: one of `options`, numeric: free number in `range`
+export type QuestionType = 'boolean' | 'scale' | 'choice' | 'numeric';
+
+export interface QuestionOption {
+  value: number; // Stored as the answer
+  label: string;
+  score: number; // 0-1 contribution to the category score
 }
 
 export interface Question {
   id: number;
   text: string;
   category: QuestionCategory;
-  type: 'boolean' | 'scale'; // Yes/No or 1-5
+  type: QuestionType;
+  weight?: number; // Relative importance inside its category (defaults to 1)
+  scaleLabels?: [string, string]; // scale: labels for 1 and 5
+  options?: QuestionOption[]; // choice
+  // numeric: accepted range, and the values scoring 0 and 1 (linear in between, may be inverted)
+  range?: { min: number; max: number; unit?: string; zeroAt: number; fullAt: number };
+  // Branching: only asked when the referenced (earlier) question was answered with one of `in`
+  showIf?: { questionId: number; in: number[] };
+}
+
+export interface Questionnaire {
+  id: string;
+  version: string; // Bump whenever questions, types or weights change
+  questions: Question[]; // Asked in order; showIf may only reference earlier questions
+}
+
+// A questionnaire plus everything that depends on the business model.
+export interface QuestionPack {
+  id: BusinessModel;
+  label: string;
+  questionnaire: Questionnaire;
+  categories: QuestionCategory[]; // Report categories, in display order
+  categoryWeights: Partial<Record<QuestionCategory, number>>; // Share of the Momentum Score, sums to 1
+  promptGuidance: string; // What the auditor should focus on for this model
+}
+
+export interface BusinessClassification {
+  model: BusinessModel;
+  confidence: 'high' | 'low';
+  reasons: string[]; // Signals that led to the guess, e.g. "Pricing page found"
 }
 
 export interface UserResponse {
   questionId: number;
-  answer: number; // 0 for No, 1 for Yes, or 1-5 for scale
+  answer: number; // boolean: 0/1, scale: 1-5, choice: option value, numeric: the number
 }
 
 export interface BrandInfo {
   name: string;
   url: string;
+  competitors?: string[]; // Up to MAX_COMPETITORS competitor URLs
+  businessModel?: BusinessModel; // Selects the question pack, 'general' when omitted
 }
 
 export interface LeadInfo {
@@ -36,6 +85,16 @@ export interface LeadInfo {
   fullName?: string; 
 }
 
+export type LeadTier = 'hot' | 'warm' | 'nurture';
+
+export interface LeadQualification {
+  version: string; // QUALIFICATION_VERSION that produced it
+  score: number; // 0-100
+  tier: LeadTier;
+  // Points per factor, summing to the score
+  factors: { revenue: number; companySize: number; position: number; need: number };
+}
+
 export interface TrafficSource {
   utm_source?: string;
   utm_medium?: string;
@@ -51,6 +110,106 @@ export interface TechnicalSignal {
   status: 'good' | 'warning' | 'critical';
 }
 
+export type PsiStrategy = 'mobile' | 'desktop';
+
+export interface CoreWebVitals {
+  lcpMs: number | null;
+  cls: number | null;
+  tbtMs: number | null;
+  inpMs: number | null; // Field data only (CrUX); null for low-traffic sites
+  ttfbMs: number | null;
+  fcpMs: number | null;
+}
+
+export interface PsiOpportunity {
+  id: string; // Lighthouse audit id, e.g. "render-blocking-resources"
+  title: string;
+  savingsMs: number;
+  savingsBytes: number | null;
+}
+
+export interface PsiStrategyReport {
+  strategy: PsiStrategy;
+  // Lighthouse category scores, 0-100 (-1 when unavailable)
+  perfScore: number;
+  seoScore: number;
+  accessibilityScore: number;
+  bestPracticesScore: number;
+  metrics: CoreWebVitals;
+  opportunities: PsiOpportunity[]; // Largest estimated savings first
+}
+
+export interface PsiResult {
+  success: boolean;
+  perfScore: number;
+  seoScore: number;
+  webVitals: { lcp: string; cls: string; fcp: string };
+  techStack: string[];
+  bugs: string[];
+  mobile: PsiStrategyReport | null;
+  desktop: PsiStrategyReport | null;
+  error?: string;
+  isFallback?: boolean;
+}
+
+export interface PageSignals {
+  url: string;
+  title: string | null;
+  metaDescription: string | null;
+  canonical: string | null;
+  openGraph: Record<string, string>; // og:* properties, keyed without the "og:" prefix
+  twitter: Record<string, string>; // twitter:* properties, keyed without the prefix
+  structuredDataTypes: string[]; // schema.org @type values from JSON-LD and microdata
+  analytics: string[]; // Detected analytics/pixel vendors
+  emailCapture: boolean; // A form collecting an email address is present
+  cms: string[]; // CMS / platform fingerprints
+  internalLinks: string[];
+}
+
+export interface CrawlResult {
+  success: boolean;
+  pages: PageSignals[]; // Homepage first
+  robotsTxt: boolean;
+  sitemap: boolean;
+  // Site-wide aggregates across all crawled pages
+  analytics: string[];
+  cms: string[];
+  emailCapture: boolean;
+  error?: string;
+}
+
+// One column of the competitor comparison.
+export interface BenchmarkSite {
+  url: string;
+  domain: string;
+  isSelf: boolean; // The audited brand
+  scanned: boolean; // False when both PSI and the crawl failed
+  signals: TechnicalSignal[];
+  // Inferred from public signals only, null where nothing was measurable
+  scores: { category: QuestionCategory; score: number | null }[];
+}
+
+export interface CompetitorBenchmark {
+  sites: BenchmarkSite[]; // Audited brand first, then competitors in the order entered
+  categories: QuestionCategory[]; // Categories that can be inferred from outside
+}
+
+export type CacheOutcome = 'hit' | 'miss' | 'bypass'; // bypass = caching disabled
+
+export interface CategoryScore {
+  category: QuestionCategory;
+  score: number; // 0-100, final blended score
+  selfReportScore: number | null; // 0-100 from quiz answers, null if unanswered
+  technicalScore: number | null; // 0-100 from measured data, null if not applicable
+}
+
+export interface ScoreCard {
+  version: string; // Bumped whenever weights or formulas change
+  questionnaire?: string; // "<id>@<version>" of the questionnaire that was answered
+  momentumScore: number;
+  categories: CategoryScore[];
+}
+
 export interface CategoryAnalysis {
   title: string;
   score: number; // 0-100
@@ -59,6 +218,15 @@ export interface CategoryAnalysis {
   strategy: string; // The "How to fix" (Strategic)
 }
 
+// A previous audit of the same domain by the same lead, as shown in the trend.
+export interface AuditHistoryEntry {
+  id: string;
+  createdAt: string;
+  momentumScore: number;
+  categories: { category: string; score: number }[]; // Empty for audits that predate the scoring engine
+  scoringVersion: string | null;
+}
+
 export interface AuditResult {
   momentumScore: number;
   businessContext: string; 
@@ -71,6 +239,27 @@ export interface AuditResult {
     details: string;
   };
   groundingUrls?: string[];
+  scoring?: ScoreCard;
+  crawl?: CrawlResult;
+  pageSpeed?: {
+    mobile: PsiStrategyReport | null;
+    desktop: PsiStrategyReport | null;
+  };
+  cache?: {
+    crawl: CacheOutcome; // PSI + crawl data
+    ai: CacheOutcome; // Model narrative
+    crawledAt: string; // When the PSI/crawl data was fetched (older than generatedAt on a hit)
+  };
+  benchmark?: CompetitorBenchmark; // Present when competitor URLs were given
+  history?: AuditHistoryEntry[]; // Earlier audits of this domain by this lead, oldest first
+  locale?: Locale; // Language the prose was written in, 'en' when omitted
+  tenantId?: string; // White-label tenant the audit ran under, the default tenant when omitted
+  qualification?: LeadQualification; // Set once the lead is known; picks the dashboard CTA
+  modelProvider?: string; // Id of the provider that wrote the prose, e.g. "gemini:gemini-2.5-flash"
+  validation?: {
+    attempts: number; // Model calls made (0 when no model was available)
+    defaultedFields: string[]; // Schema paths filled with defaults, e.g. "categories[SEO].strategy"
+  };
   debugLog?: {
     psiData: any;
     formattedUserAnswers: string;
@@ -78,6 +267,229 @@ export interface AuditResult {
   };
 }
 
+// --- TENANTS (white-label partner agencies) ---
+
+export interface ExpertProfile {
+  name: string;
+  photoUrl: string;
+  title?: string; // Untranslated override of the "Senior Growth Expert" label
+}
+
+// Sends matching leads to a specific expert. Omitted conditions match anything;
+// when both are set, both must match.
+export interface ExpertRoute {
+  tiers?: LeadTier[];
+  weakestCategories?: QuestionCategory[]; // Lowest-scoring category of the report
+  expert: ExpertProfile;
+  bookingUrl: string;
+}
+
+export interface TenantConfig {
+  id: string; // Stored as brand_audits.tenant_id; also the /t/<id> path prefix
+  name: string; // Agency name: nav logo alt, emails, PDF, persona
+  logoUrl: string;
+  hostnames: string[]; // Hosts that serve this tenant, e.g. "audit.partner.com"
+  appUrl?: string; // Public origin for emailed links; PUBLIC_APP_URL + /t/<id> when omitted
+  expert: ExpertProfile;
+  bookingUrl: string; // Cal.com or Calendly event link
+  expertRoutes?: ExpertRoute[]; // First match wins; `expert` and `bookingUrl` otherwise
+  // Tone of voice of the AI auditor (the prompt's Role / Tone / Style lines)
+  voice: {
+    role: string;
+    tone: string;
+    style: string;
+  };
+  questionPacks?: Partial<Record<BusinessModel, QuestionPack>>; // Replaces the default pack per business model
+}
+
+// --- API CONTRACT (shared by the React app and /api handlers) ---
+
+export interface CreateAuditRequest {
+  brand: BrandInfo;
+  lead: LeadInfo;
+  responses: UserResponse[];
+  trafficSource: TrafficSource;
+  locale?: Locale; // Visitor's language, 'en' when omitted
+  tenantId?: string; // Tenant the visitor came through, the default tenant when omitted
+}
+
+export interface CreateAuditResponse {
+  id: string | null; // null when persistence is not configured
+  reportUrl: string | null;
+  result: AuditResult;
+  ownerToken: string | null; // Owner session for the stored report, null when it was not saved
+}
+
+// Lifecycle of an audit job, in order. 'failed' can follow any active status.
+export type AuditJobStatus = 'queued' | 'crawling' | 'analyzing' | 'saving' | 'done' | 'failed';
+
+export interface AuditJobEvent {
+  status: AuditJobStatus;
+  at: string; // ISO timestamp
+  message?: string;
+}
+
+export interface AuditJob {
+  id: string;
+  status: AuditJobStatus;
+  brand: BrandInfo;
+  createdAt: string;
+  updatedAt: string;
+  events: AuditJobEvent[];
+  auditId: string | null; // Set once the audit row is saved
+  reportUrl: string | null;
+  result: AuditResult | null; // Set when status is 'done'
+  error: string | null; // Set when status is 'failed'
+  ownerToken?: string; // API responses only, once the report is saved: opens it without an emailed code
+}
+
+export interface AuditRecord {
+  id: string;
+  brand: BrandInfo;
+  result: AuditResult;
+  lead: LeadInfo | null; // null for reports migrated from legacy ?r= links
+}
+
+// --- REPORT ACCESS (owner sessions and share links) ---
+
+// Issued by POST /api/audits/:id/session for the emailed code; sent as `Authorization: Bearer <token>`
+export interface OwnerSession {
+  token: string;
+  expiresAt: string;
+}
+
+// POST /api/audits/:id/code
+export interface OwnerCodeResponse {
+  sentTo: string; // Masked lead email, e.g. "j•••@acme.com"
+  expiresAt: string;
+}
+
+export interface AuditShare {
+  id: string;
+  token: string; // Public token in /?share=<token>
+  createdAt: string;
+  expiresAt: string | null; // null = until revoked
+  revokedAt: string | null;
+}
+
+// What a share link shows: the report without the lead or their qualification
+export interface SharedAudit {
+  brand: BrandInfo;
+  result: AuditResult;
+  expiresAt: string | null;
+  unverified?: boolean; // Migrated from a legacy ?r= link: the scores came from the browser
+}
+
+// --- BOOKINGS (POST /api/audits/:id/bookings) ---
+
+export type BookingProvider = 'calcom' | 'calendly';
+
+// Reported by the embedded scheduler: the calendar was shown, a slot was picked, the call was booked
+export type BookingEventType = 'viewed' | 'date_selected' | 'scheduled';
+
+export interface BookingEvent {
+  provider: BookingProvider;
+  type: BookingEventType;
+  expert: string; // Name of the expert the lead was routed to
+  externalId?: string; // Scheduler's booking or invitee reference, when it sends one
+}
+
+// The confirmed call stamped on an audit (brand_audits.booked_at, booking_expert)
+export interface AuditBooking {
+  bookedAt: string;
+  expert: string | null;
+}
+
+// --- ADMIN (GET /api/admin/audits) ---
+
+// Dates are YYYY-MM-DD and inclusive; scores are the Brand Score.
+export interface AuditListFilters {
+  from?: string;
+  to?: string;
+  minScore?: number;
+  maxScore?: number;
+  utmSource?: string;
+  utmCampaign?: string;
+  revenue?: string; // One of the lead-form revenue bands
+  tier?: LeadTier;
+  search?: string; // Brand name, domain or lead email
+  tenant?: string; // Tenant id
+  booked?: boolean; // Whether the lead booked a call
+}
+
+export interface AuditListItem {
+  id: string;
+  createdAt: string;
+  brandName: string;
+  brandUrl: string;
+  leadName: string;
+  leadEmail: string;
+  leadPosition: string | null;
+  revenue: string | null;
+  companySize: string | null;
+  score: number | null;
+  leadTier: LeadTier | null; // null for audits saved before qualification
+  utmSource: string | null;
+  utmCampaign: string | null;
+  tenantId: string;
+  bookedAt: string | null;
+  bookingExpert: string | null;
+}
+
+export interface AuditListPage {
+  items: AuditListItem[];
+  total: number; // Matching rows across all pages
+}
+
+// GET /api/admin/audits/:id: the owner token lets the admin view fetch the PDF and manage shares
+export interface AdminAuditRecord extends AuditRecord {
+  ownerToken: string;
+  booking: AuditBooking | null;
+}
+
+// --- FUNNEL ANALYTICS (POST /api/events) ---
+
+// step_viewed: `step`; question_viewed: `questionId`, `detail` = 1-based position;
+// lead_form_step_completed: `detail` = "1" | "2"; cta_clicked: `detail` = FunnelCta
+export type FunnelEventType = 'step_viewed' | 'question_viewed' | 'lead_form_step_completed' | 'cta_clicked';
+
+export type FunnelCta = 'save_pdf' | 'book_consultation' | 'fix_now' | 'download_plan' | 'booking_link';
+
+export interface FunnelEvent {
+  sessionId: string; // Anonymous, per browser tab
+  type: FunnelEventType;
+  step?: AppStep;
+  questionId?: number;
+  detail?: string;
+  utm_source?: string;
+  utm_medium?: string;
+  utm_campaign?: string;
+  tenantId?: string;
+}
+
+export interface FunnelQuestionDropOff {
+  questionId: number;
+  viewed: number; // Sessions that saw the question
+  abandoned: number; // Sessions whose last question it was and that never reached the lead form
+}
+
+export interface FunnelBreakdown {
+  campaign: string | null; // utm_campaign; null groups sessions without one
+  sessions: number;
+  steps: Record<AppStep, number>; // Sessions that reached each step
+  leadFormStep1: number;
+  leadFormStep2: number;
+  ctaClicks: Partial<Record<FunnelCta, number>>;
+  questions: FunnelQuestionDropOff[]; // In first-seen order
+  booked: number; // Audits whose call was booked in the period (from brand_audits.booked_at, not sessions)
+}
+
+export interface FunnelReport {
+  total: FunnelBreakdown;
+  campaigns: FunnelBreakdown[]; // Most sessions first
+  truncated: boolean; // True when the period had more events than the report reads
+}
+
 export enum AppStep {
   LANDING = 'LANDING',
   INPUT = 'INPUT',
@@ -86,3 +498,17 @@ export enum AppStep {
   LEAD_FORM = 'LEAD_FORM',
   DASHBOARD = 'DASHBOARD',
 }
+
+// --- EMBED WIDGET (/embed, posted to the host page) ---
+
+// 'light' inverts the monochrome UI for pages with a light background
+export type EmbedTheme = 'dark' | 'light';
+
+// Messages the embedded funnel posts to window.parent; no lead details
+export type EmbedMessage =
+  | { type: 'brandscore:ready' }
+  | { type: 'brandscore:step'; step: AppStep }
+  | { type: 'brandscore:resize'; height: number } // Content height in px, for sizing the iframe
+  | { type: 'brandscore:submitted'; brand: Pick<BrandInfo, 'name' | 'url'> } // Lead form sent, audit queued
+  | { type: 'brandscore:complete'; auditId: string | null; momentumScore: number; brand: Pick<BrandInfo, 'name' | 'url'> }
+  | { type: 'brandscore:error'; message: string };
@@ -1,10 +1,17 @@
+// Server-side environment (read by /api handlers only, never bundled)
 declare namespace NodeJS {
   interface ProcessEnv {
     readonly API_KEY: string;
-    readonly REACT_APP_WEBHOOK_URL: string;
-    readonly VITE_SUPABASE_URL: string;
-    readonly VITE_SUPABASE_ANON_KEY: string;
-    readonly VITE_PSI_API_KEY: string; // New: PageSpeed Insights Key
+    readonly AI_PROVIDER: string; // gemini | openai | fixture
+    readonly AI_MODEL: string;
+    readonly OPENAI_BASE_URL: string;
+    readonly OPENAI_API_KEY: string;
+    readonly PSI_API_KEY: string; // PageSpeed Insights Key
+    readonly SUPABASE_URL: string;
+    readonly SUPABASE_SERVICE_ROLE_KEY: string;
+    readonly CRAWL_CACHE_TTL_SECONDS: string; // PSI + crawl cache, 0 disables
+    readonly AI_CACHE_TTL_SECONDS: string; // Model output cache, 0 disables
+    readonly PUBLIC_APP_URL: string; // e.g. https://score.zouhall.com, used in emailed links
     readonly [key: string]: string | undefined;
   }
-}
\ No newline at end of file
+}
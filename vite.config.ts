@@ -1,26 +1,13 @@
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { devApiPlugin } from './server/devApiPlugin';
 
 export default defineConfig(({ mode }) => {
+  // Secrets (API_KEY, PSI_API_KEY, SUPABASE_SERVICE_ROLE_KEY...) are only read by the
+  // /api handlers. Nothing is injected into the client bundle.
   const env = loadEnv(mode, '.', '');
-  
-  // Prioritize environment variables from the system (Vercel) over .env file
-  const apiKey = env.API_KEY || process.env.API_KEY || '';
-  const webhookUrl = env.REACT_APP_WEBHOOK_URL || process.env.REACT_APP_WEBHOOK_URL || '';
-  const supabaseUrl = env.VITE_SUPABASE_URL || process.env.VITE_SUPABASE_URL || '';
-  const supabaseKey = env.VITE_SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY || '';
-  
-  // Robust Key Loading: Check VITE_ prefixed AND non-prefixed versions
-  const psiKey = env.VITE_PSI_API_KEY || process.env.VITE_PSI_API_KEY || env.PSI_API_KEY || process.env.PSI_API_KEY || '';
 
   return {
-    plugins: [react()],
-    define: {
-      'process.env.API_KEY': JSON.stringify(apiKey),
-      'process.env.REACT_APP_WEBHOOK_URL': JSON.stringify(webhookUrl),
-      'process.env.VITE_SUPABASE_URL': JSON.stringify(supabaseUrl),
-      'process.env.VITE_SUPABASE_ANON_KEY': JSON.stringify(supabaseKey),
-      'process.env.VITE_PSI_API_KEY': JSON.stringify(psiKey),
-    },
+    plugins: [react(), devApiPlugin(env)],
   };
-});
\ No newline at end of file
+});
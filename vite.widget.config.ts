@@ -0,0 +1,17 @@
+import { defineConfig } from 'vite';
+
+// The partner widget loader (widget/embed.ts) as a single script, served at
+// /widget/brandscore-widget.js. Runs after the app build, which empties dist/.
+export default defineConfig({
+  publicDir: false,
+  build: {
+    outDir: 'dist/widget',
+    emptyOutDir: false,
+    lib: {
+      entry: 'widget/embed.ts',
+      name: 'BrandScoreWidget',
+      formats: ['iife'],
+      fileName: () => 'brandscore-widget.js'
+    }
+  }
+});
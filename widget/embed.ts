@@ -0,0 +1,86 @@
+import { EmbedMessage } from '../types';
+
+/**
+ * Loader for partner sites: defines <brandscore-audit>, which frames the
+ * funnel (/embed) and sizes the iframe to its content. Built on its own into
+ * /widget/brandscore-widget.js (vite.widget.config.ts):
+ *
+ *   <script src="https://score.zouhall.com/widget/brandscore-widget.js" defer></script>
+ *   <brandscore-audit tenant="acme" theme="light" utm-source="partner-blog"></brandscore-audit>
+ *
+ * Attributes: tenant, theme (dark | light), locale, utm-source, utm-medium,
+ * utm-campaign, utm-term, utm-content (defaults: the host page's own utm_*
+ * parameters win), app-url (the deployment to frame, the script's origin by default).
+ * The funnel's messages (types.ts, EmbedMessage) reach the host page as
+ * postMessage events and are also dispatched on the element as DOM events,
+ * e.g. el.addEventListener('brandscore:complete', e => e.detail.momentumScore).
+ */
+
+const TAG_NAME = 'brandscore-audit';
+const UTM_KEYS = ['utm_source', 'utm_medium', 'utm_campaign', 'utm_term', 'utm_content'];
+const INITIAL_HEIGHT = 640; // Until the funnel reports its own height
+
+// Read while the script runs: currentScript is null afterwards
+const scriptOrigin = (() => {
+  const src = (document.currentScript as HTMLScriptElement | null)?.src;
+  return src ? new URL(src).origin : window.location.origin;
+})();
+
+const isEmbedMessage = (data: unknown): data is EmbedMessage =>
+  typeof data === 'object' && data !== null && typeof (data as EmbedMessage).type === 'string'
+  && (data as EmbedMessage).type.startsWith('brandscore:');
+
+class BrandScoreAudit extends HTMLElement {
+  private frame: HTMLIFrameElement | null = null;
+  private appOrigin = scriptOrigin;
+
+  connectedCallback() {
+    if (this.frame) return;
+    const appUrl = (this.getAttribute('app-url') || scriptOrigin).replace(/\/+$/, '');
+    this.appOrigin = new URL(appUrl).origin;
+
+    const tenant = this.getAttribute('tenant')?.trim().toLowerCase();
+    const src = new URL(`${appUrl}${tenant ? `/t/${encodeURIComponent(tenant)}` : ''}/embed`);
+    const hostParams = new URLSearchParams(window.location.search);
+    UTM_KEYS.forEach(key => {
+      const value = hostParams.get(key) || this.getAttribute(key.replace('_', '-'));
+      if (value) src.searchParams.set(key, value);
+    });
+    const theme = this.getAttribute('theme');
+    if (theme) src.searchParams.set('theme', theme);
+    const locale = this.getAttribute('locale');
+    if (locale) src.searchParams.set('lang', locale);
+    src.searchParams.set('host', window.location.origin);
+
+    const shadow = this.shadowRoot || this.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<style>:host { display: block; } iframe { display: block; width: 100%; border: 0; }</style>';
+    this.frame = document.createElement('iframe');
+    this.frame.src = src.toString();
+    this.frame.title = this.getAttribute('title') || 'Brand Score audit';
+    this.frame.style.height = `${INITIAL_HEIGHT}px`;
+    shadow.appendChild(this.frame);
+
+    window.addEventListener('message', this.handleMessage);
+  }
+
+  disconnectedCallback() {
+    window.removeEventListener('message', this.handleMessage);
+    this.frame?.remove();
+    this.frame = null;
+  }
+
+  private handleMessage = (event: MessageEvent) => {
+    // Only this element's iframe, served from the app
+    if (!this.frame || event.source !== this.frame.contentWindow || event.origin !== this.appOrigin) return;
+    if (!isEmbedMessage(event.data)) return;
+
+    if (event.data.type === 'brandscore:resize') {
+      this.frame.style.height = `${Math.max(200, event.data.height)}px`;
+    }
+    this.dispatchEvent(new CustomEvent(event.data.type, { detail: event.data, bubbles: true, composed: true }));
+  };
+}
+
+if (!customElements.get(TAG_NAME)) {
+  customElements.define(TAG_NAME, BrandScoreAudit);
+}